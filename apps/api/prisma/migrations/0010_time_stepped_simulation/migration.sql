@@ -0,0 +1,3 @@
+ALTER TABLE "SimulationRun"
+  ADD COLUMN "mode" TEXT NOT NULL DEFAULT 'analytical',
+  ADD COLUMN "series" JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,4 @@
+ALTER TABLE "SimulationRun"
+  ADD COLUMN "seed" INTEGER,
+  ADD COLUMN "iterations" INTEGER,
+  ADD COLUMN "confidence" JSONB;
@@ -0,0 +1,40 @@
+-- Backfill explicit placement from the old canvas heuristic (x <= 2500 => az-a) so existing
+-- az-down results do not change.
+CREATE FUNCTION "__with_component_placement"(components JSONB) RETURNS JSONB AS $$
+  SELECT COALESCE(
+    jsonb_agg(
+      CASE
+        WHEN component ? 'placement' THEN component
+        ELSE component || jsonb_build_object(
+          'placement',
+          jsonb_build_object(
+            'region', 'usEast',
+            'zones', jsonb_build_array(
+              CASE
+                WHEN COALESCE((component -> 'position' ->> 'x')::numeric, 0) <= 2500 THEN 'az-a'
+                ELSE 'az-b'
+              END
+            )
+          )
+        )
+      END
+      ORDER BY ordinality
+    ),
+    '[]'::jsonb
+  )
+  FROM jsonb_array_elements(components) WITH ORDINALITY AS elements(component, ordinality);
+$$ LANGUAGE SQL IMMUTABLE;
+
+UPDATE "ArchitectureVersion"
+SET "components" = "__with_component_placement"("components")
+WHERE jsonb_typeof("components") = 'array';
+
+UPDATE "SimulationRun"
+SET "inputContract" = jsonb_set(
+  "inputContract",
+  '{components}',
+  "__with_component_placement"("inputContract" -> 'components')
+)
+WHERE jsonb_typeof("inputContract" -> 'components') = 'array';
+
+DROP FUNCTION "__with_component_placement"(JSONB);
@@ -0,0 +1,15 @@
+CREATE TABLE IF NOT EXISTS "ChaosExperiment" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "projectId" UUID NOT NULL,
+  "name" TEXT NOT NULL,
+  "description" TEXT,
+  "steps" JSONB NOT NULL DEFAULT '[]'::jsonb,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "ChaosExperiment_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "ChaosExperiment_projectId_createdAt_idx" ON "ChaosExperiment" ("projectId", "createdAt");
+
+ALTER TABLE "SimulationRun"
+  ADD COLUMN "chaosExperiment" JSONB;
@@ -0,0 +1,21 @@
+CREATE TABLE IF NOT EXISTS "SimulationSweep" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "projectId" UUID NOT NULL,
+  "versionId" UUID NOT NULL,
+  "status" TEXT NOT NULL DEFAULT 'pending',
+  "inputContract" JSONB NOT NULL,
+  "spec" JSONB NOT NULL,
+  "points" JSONB NOT NULL DEFAULT '[]'::jsonb,
+  "breakingPoint" JSONB,
+  "failureReason" TEXT,
+  "queuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "startedAt" TIMESTAMP(3),
+  "completedAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "SimulationSweep_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "SimulationSweep_versionId_fkey" FOREIGN KEY ("versionId") REFERENCES "ArchitectureVersion"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "SimulationSweep_projectId_createdAt_idx" ON "SimulationSweep" ("projectId", "createdAt");
+CREATE INDEX IF NOT EXISTS "SimulationSweep_versionId_createdAt_idx" ON "SimulationSweep" ("versionId", "createdAt");
@@ -0,0 +1,5 @@
+ALTER TABLE "ArchitectureVersion"
+  ADD COLUMN "slo" JSONB;
+
+ALTER TABLE "SimulationRun"
+  ADD COLUMN "sloEvaluation" JSONB;
@@ -0,0 +1,2 @@
+ALTER TABLE "SimulationRun"
+  ADD COLUMN "explanation" JSONB;
@@ -0,0 +1,16 @@
+-- Renumber events that a concurrent writer gave the same sequence before enforcing uniqueness.
+WITH "ranked" AS (
+  SELECT
+    "id",
+    ROW_NUMBER() OVER (PARTITION BY "runId" ORDER BY "sequence", "createdAt", "id") - 1 AS "nextSequence"
+  FROM "SimulationRunEvent"
+)
+UPDATE "SimulationRunEvent"
+SET "sequence" = "ranked"."nextSequence"
+FROM "ranked"
+WHERE "SimulationRunEvent"."id" = "ranked"."id"
+  AND "SimulationRunEvent"."sequence" <> "ranked"."nextSequence";
+
+DROP INDEX IF EXISTS "SimulationRunEvent_runId_sequence_idx";
+
+CREATE UNIQUE INDEX "SimulationRunEvent_runId_sequence_key" ON "SimulationRunEvent" ("runId", "sequence");
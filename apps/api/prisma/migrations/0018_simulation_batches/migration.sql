@@ -0,0 +1,24 @@
+CREATE TABLE IF NOT EXISTS "SimulationBatch" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "projectId" UUID NOT NULL,
+  "mode" TEXT NOT NULL DEFAULT 'analytical',
+  "engineVersion" TEXT NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "SimulationBatch_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "SimulationBatch_projectId_createdAt_idx" ON "SimulationBatch" ("projectId", "createdAt");
+
+ALTER TABLE "SimulationRun"
+  ADD COLUMN "batchId" UUID,
+  ADD COLUMN "engineVersion" TEXT;
+
+ALTER TABLE "SimulationRun"
+  ADD CONSTRAINT "SimulationRun_batchId_fkey"
+  FOREIGN KEY ("batchId")
+  REFERENCES "SimulationBatch"("id")
+  ON DELETE SET NULL
+  ON UPDATE CASCADE;
+
+CREATE INDEX IF NOT EXISTS "SimulationRun_batchId_idx" ON "SimulationRun" ("batchId");
@@ -0,0 +1,11 @@
+ALTER TABLE "SimulationRun"
+  ADD COLUMN "replayOfRunId" UUID;
+
+ALTER TABLE "SimulationRun"
+  ADD CONSTRAINT "SimulationRun_replayOfRunId_fkey"
+  FOREIGN KEY ("replayOfRunId")
+  REFERENCES "SimulationRun"("id")
+  ON DELETE SET NULL
+  ON UPDATE CASCADE;
+
+CREATE INDEX IF NOT EXISTS "SimulationRun_replayOfRunId_createdAt_idx" ON "SimulationRun" ("replayOfRunId", "createdAt");
@@ -0,0 +1,22 @@
+import { defaultPricingTable } from '@sdc/shared-types';
+import { describe, expect, it } from 'vitest';
+import { resolvePricingTable } from './pricing-table.js';
+
+describe('resolvePricingTable', () => {
+  it('overrides only the configured prices', () => {
+    const pricing = resolvePricingTable(
+      '{"nodeMonthlyUsd":{"database":400},"tierMultiplier":{"xlarge":5}}'
+    );
+
+    expect(pricing.nodeMonthlyUsd.database).toBe(400);
+    expect(pricing.nodeMonthlyUsd.service).toBe(defaultPricingTable.nodeMonthlyUsd.service);
+    expect(pricing.tierMultiplier.xlarge).toBe(5);
+    expect(pricing.perMillionRequestsUsd).toEqual(defaultPricingTable.perMillionRequestsUsd);
+  });
+
+  it('keeps the defaults for malformed tables', () => {
+    expect(resolvePricingTable('not json')).toBe(defaultPricingTable);
+    expect(resolvePricingTable('{"nodeMonthlyUsd":{"database":-1}}')).toBe(defaultPricingTable);
+    expect(resolvePricingTable(undefined)).toBe(defaultPricingTable);
+  });
+});
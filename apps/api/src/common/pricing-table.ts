@@ -0,0 +1,32 @@
+import { PricingTable, defaultPricingTable, pricingTableSchema } from '@sdc/shared-types';
+
+/**
+ * Prices for simulation cost estimates. SIMULATION_PRICING_TABLE may hold a JSON pricing table
+ * whose entries override the matching defaults; unset or malformed values keep the defaults.
+ */
+export function resolvePricingTable(raw = process.env.SIMULATION_PRICING_TABLE): PricingTable {
+  if (!raw?.trim()) {
+    return defaultPricingTable;
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    return defaultPricingTable;
+  }
+
+  const parsed = pricingTableSchema.partial().safeParse(value);
+  if (!parsed.success) {
+    return defaultPricingTable;
+  }
+
+  return {
+    nodeMonthlyUsd: { ...defaultPricingTable.nodeMonthlyUsd, ...parsed.data.nodeMonthlyUsd },
+    tierMultiplier: { ...defaultPricingTable.tierMultiplier, ...parsed.data.tierMultiplier },
+    perMillionRequestsUsd: {
+      ...defaultPricingTable.perMillionRequestsUsd,
+      ...parsed.data.perMillionRequestsUsd
+    }
+  };
+}
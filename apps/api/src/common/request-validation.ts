@@ -47,3 +47,21 @@ export function parsePositiveIntQuery(
 
   return numeric;
 }
+
+export function parseBooleanQuery(
+  paramName: string,
+  value: string | undefined
+): boolean | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+
+  if (value === 'true') {
+    return true;
+  }
+  if (value === 'false') {
+    return false;
+  }
+
+  throw new BadRequestException(`${paramName} must be true or false.`);
+}
@@ -0,0 +1,34 @@
+import { defaultTrafficProfile } from '@sdc/shared-types';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { versionInputContract } from './version-input-contract.js';
+
+describe('versionInputContract', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('carries the configured pricing table and the version SLOs', () => {
+    vi.stubEnv('SIMULATION_PRICING_TABLE', '{"nodeMonthlyUsd":{"database":400}}');
+
+    const contract = versionInputContract({
+      components: [],
+      edges: [],
+      trafficProfile: defaultTrafficProfile,
+      slo: { availabilityPercent: 99.9, regionTargets: [] }
+    });
+
+    expect(contract.pricing?.nodeMonthlyUsd.database).toBe(400);
+    expect(contract.slo?.availabilityPercent).toBe(99.9);
+  });
+
+  it('leaves the SLOs out for versions without any', () => {
+    const contract = versionInputContract({
+      components: [],
+      edges: [],
+      trafficProfile: defaultTrafficProfile,
+      slo: null
+    });
+
+    expect(contract.slo).toBeUndefined();
+  });
+});
@@ -0,0 +1,20 @@
+import { SimulationInputContract, VersionDetail } from '@sdc/shared-types';
+import { resolvePricingTable } from './pricing-table.js';
+
+/**
+ * What a simulation of the version as it is now runs against: its topology and traffic, the
+ * configured pricing table and the version's SLOs. Runs and sweeps both queue this contract.
+ */
+export function versionInputContract(
+  version: Pick<VersionDetail, 'components' | 'edges' | 'trafficProfile'> & {
+    slo?: VersionDetail['slo'];
+  }
+): SimulationInputContract {
+  return {
+    components: version.components,
+    edges: version.edges,
+    trafficProfile: version.trafficProfile,
+    pricing: resolvePricingTable(),
+    slo: version.slo ?? undefined
+  };
+}
@@ -28,4 +28,34 @@ export class GradesController {
 
     return this.gradesService.getGradeReport(userId, parseUuidParam('gradeReportId', gradeReportId));
   }
+
+  @Post('grades/:id/cancel')
+  async cancelGradeReport(@Req() request: RequestWithUser, @Param('id') gradeReportId: string) {
+    const userId = request.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException('Missing user identity.');
+    }
+
+    return this.gradesService.cancelGradeReport(userId, parseUuidParam('gradeReportId', gradeReportId));
+  }
+
+  @Post('grades/:id/retry')
+  async retryGradeReport(@Req() request: RequestWithUser, @Param('id') gradeReportId: string) {
+    const userId = request.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException('Missing user identity.');
+    }
+
+    return this.gradesService.retryGradeReport(userId, parseUuidParam('gradeReportId', gradeReportId));
+  }
+
+  @Post('grades/:id/rerun')
+  async rerunGradeReport(@Req() request: RequestWithUser, @Param('id') gradeReportId: string) {
+    const userId = request.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException('Missing user identity.');
+    }
+
+    return this.gradesService.rerunGradeReport(userId, parseUuidParam('gradeReportId', gradeReportId));
+  }
 }
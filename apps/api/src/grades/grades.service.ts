@@ -1,4 +1,4 @@
-import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { BadRequestException, Inject, Injectable, NotFoundException } from '@nestjs/common';
 import { Prisma } from '@prisma/client';
 import {
   GradeReport,
@@ -39,10 +39,104 @@ export class GradesService {
       throw new NotFoundException('Version not found.');
     }
 
+    return this.createAndQueueReport(access.projectId, version.id);
+  }
+
+  async getGradeReport(userId: string, gradeReportId: string): Promise<GradeReportResponse> {
+    const report = await this.prisma.gradeReport.findUnique({
+      where: {
+        id: gradeReportId
+      },
+      include: {
+        feedbackItems: {
+          orderBy: {
+            createdAt: 'asc'
+          }
+        }
+      }
+    });
+
+    if (!report) {
+      throw new NotFoundException('Grade report not found.');
+    }
+
+    await this.projectsService.assertProjectViewAccess(userId, report.projectId);
+
+    return {
+      report: this.toGradeReport(report)
+    };
+  }
+
+  async cancelGradeReport(userId: string, gradeReportId: string): Promise<GradeReportResponse> {
+    const report = await this.findEditableReport(userId, gradeReportId);
+
+    const cancelled = await this.prisma.gradeReport.updateMany({
+      where: { id: report.id, status: { in: ['pending', 'running'] } },
+      data: {
+        status: 'cancelled',
+        completedAt: new Date()
+      }
+    });
+    if (cancelled.count === 0) {
+      throw new BadRequestException('Only pending or running grade reports can be cancelled.');
+    }
+
+    // Best effort: the worker checks for cancellation before each grading step.
+    await this.gradingQueue.removeGradeRun(report.id).catch(() => undefined);
+
+    return this.getGradeReport(userId, report.id);
+  }
+
+  // Grading reads the version when it runs, so a retry or re-run grades the version as it is now.
+  async retryGradeReport(userId: string, gradeReportId: string): Promise<GradeReportResponse> {
+    const report = await this.findEditableReport(userId, gradeReportId);
+    if (report.status !== 'failed' && report.status !== 'cancelled') {
+      throw new BadRequestException('Only failed or cancelled grade reports can be retried.');
+    }
+
+    return this.createAndQueueReport(report.projectId, report.versionId);
+  }
+
+  async rerunGradeReport(userId: string, gradeReportId: string): Promise<GradeReportResponse> {
+    const report = await this.findEditableReport(userId, gradeReportId);
+    if (report.status === 'pending' || report.status === 'running') {
+      throw new BadRequestException(
+        'Wait for the grade report to finish, or cancel it, before re-running it.'
+      );
+    }
+
+    return this.createAndQueueReport(report.projectId, report.versionId);
+  }
+
+  private async findEditableReport(userId: string, gradeReportId: string) {
+    const report = await this.prisma.gradeReport.findUnique({
+      where: {
+        id: gradeReportId
+      },
+      select: {
+        id: true,
+        projectId: true,
+        versionId: true,
+        status: true
+      }
+    });
+
+    if (!report) {
+      throw new NotFoundException('Grade report not found.');
+    }
+
+    await this.projectsService.assertProjectEditAccess(userId, report.projectId);
+    return report;
+  }
+
+  private async createAndQueueReport(
+    projectId: string,
+    versionId: string
+  ): Promise<GradeReportResponse> {
     const createdReport = await this.prisma.gradeReport.create({
       data: {
-        projectId: access.projectId,
-        versionId: version.id,
+        projectId,
+        versionId,
         status: 'pending'
       },
       include: {
@@ -75,31 +169,6 @@ export class GradesService {
     };
   }
 
-  async getGradeReport(userId: string, gradeReportId: string): Promise<GradeReportResponse> {
-    const report = await this.prisma.gradeReport.findUnique({
-      where: {
-        id: gradeReportId
-      },
-      include: {
-        feedbackItems: {
-          orderBy: {
-            createdAt: 'asc'
-          }
-        }
-      }
-    });
-
-    if (!report) {
-      throw new NotFoundException('Grade report not found.');
-    }
-
-    await this.projectsService.assertProjectViewAccess(userId, report.projectId);
-
-    return {
-      report: this.toGradeReport(report)
-    };
-  }
-
   private toGradeReport(report: GradeReportRecord): GradeReport {
     const status = gradeReportStatusSchema.safeParse(report.status);
     const categoryScores = gradeCategoryScoreSchema.array().safeParse(report.categoryScores);
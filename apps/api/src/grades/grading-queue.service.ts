@@ -33,6 +33,11 @@ export class GradingQueueService implements OnModuleDestroy {
     });
   }
 
+  // Drops a job still waiting in the queue; one a worker holds is left to notice the cancellation itself.
+  async removeGradeRun(gradeReportId: string): Promise<void> {
+    await this.queue.remove(gradeReportId);
+  }
+
   async onModuleDestroy() {
     await this.queue.close();
   }
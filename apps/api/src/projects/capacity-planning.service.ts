@@ -0,0 +1,84 @@
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import {
+  ApplyCapacityPlanRequest,
+  CapacityPlan,
+  CapacityPlanTargets,
+  VersionDetail
+} from '@sdc/shared-types';
+import { planCapacity } from '@sdc/simulation-core';
+import { resolvePricingTable } from '../common/pricing-table.js';
+import { ProjectsService } from './projects.service.js';
+
+@Injectable()
+export class CapacityPlanningService {
+  constructor(@Inject(ProjectsService) private readonly projectsService: ProjectsService) {}
+
+  async planVersionCapacity(
+    userId: string,
+    projectId: string,
+    versionId: string,
+    targets: CapacityPlanTargets
+  ): Promise<CapacityPlan> {
+    const version = await this.projectsService.getVersion(userId, projectId, versionId);
+    if (version.components.length === 0) {
+      throw new BadRequestException('Version has no components to plan capacity for.');
+    }
+
+    return {
+      versionId: version.id,
+      targets,
+      ...planCapacity(
+        {
+          components: version.components,
+          edges: version.edges,
+          trafficProfile: version.trafficProfile,
+          pricing: resolvePricingTable()
+        },
+        targets
+      )
+    };
+  }
+
+  // Applies the suggested sizings to a new child version; the planned version is left as is.
+  async applyCapacityPlan(
+    userId: string,
+    projectId: string,
+    versionId: string,
+    input: ApplyCapacityPlanRequest
+  ): Promise<VersionDetail> {
+    await this.projectsService.assertProjectEditAccess(userId, projectId);
+
+    const version = await this.projectsService.getVersion(userId, projectId, versionId);
+    const sizingById = new Map(input.changes.map((change) => [change.componentId, change.to]));
+    const unknownIds = [...sizingById.keys()].filter(
+      (componentId) => !version.components.some((component) => component.id === componentId)
+    );
+    if (unknownIds.length > 0) {
+      throw new BadRequestException(
+        `Unknown componentId in capacity plan: ${unknownIds.join(', ')}.`
+      );
+    }
+
+    const childVersion = await this.projectsService.createVersion(userId, projectId, {
+      parentVersionId: version.id,
+      notes: input.notes ?? `Applied capacity plan to version ${version.versionNumber}.`
+    });
+
+    return this.projectsService.updateVersion(userId, projectId, childVersion.id, {
+      components: version.components.map((component) => {
+        const sizing = sizingById.get(component.id);
+        return sizing
+          ? {
+              ...component,
+              scaling: {
+                ...component.scaling,
+                replicas: sizing.replicas,
+                verticalTier: sizing.verticalTier
+              }
+            }
+          : component;
+      }),
+      edges: version.edges
+    });
+  }
+}
@@ -15,6 +15,8 @@ import {
   UseGuards
 } from '@nestjs/common';
 import {
+  applyCapacityPlanRequestSchema,
+  capacityPlanTargetsSchema,
   compareVersionsQuerySchema,
   createProjectInviteRequestSchema,
   createReportExportRequestSchema,
@@ -25,17 +27,20 @@ import {
   updateProjectMemberRequestSchema,
   updateTrafficProfileRequestSchema,
   updateVersionCommentRequestSchema,
-  updateVersionRequestSchema
+  updateVersionRequestSchema,
+  updateVersionSloRequestSchema
 } from '@sdc/shared-types';
 import { FastifyReply } from 'fastify';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard.js';
 import {
+  parseBooleanQuery,
   parsePositiveIntQuery,
   parseShareTokenParam,
   parseUuidParam
 } from '../common/request-validation.js';
 import { toSafeAttachmentFilename } from '../common/content-disposition.js';
 import { RequestWithUser } from '../auth/request-user.type.js';
+import { CapacityPlanningService } from './capacity-planning.service.js';
 import { ReportsService } from './reports.service.js';
 import { ProjectsService } from './projects.service.js';
 
@@ -44,7 +49,9 @@ import { ProjectsService } from './projects.service.js';
 export class ProjectsController {
   constructor(
     @Inject(ProjectsService) private readonly projectsService: ProjectsService,
-    @Inject(ReportsService) private readonly reportsService: ReportsService
+    @Inject(ReportsService) private readonly reportsService: ReportsService,
+    @Inject(CapacityPlanningService)
+    private readonly capacityPlanningService: CapacityPlanningService
   ) {}
 
   @Get()
@@ -243,6 +250,56 @@ export class ProjectsController {
     );
   }
 
+  @Post(':id/versions/:versionId/capacity-plan')
+  async planVersionCapacity(
+    @Req() request: RequestWithUser,
+    @Param('id') projectId: string,
+    @Param('versionId') versionId: string,
+    @Body() body: unknown
+  ) {
+    const userId = request.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException('Missing user identity.');
+    }
+
+    const parsed = capacityPlanTargetsSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.flatten());
+    }
+
+    return this.capacityPlanningService.planVersionCapacity(
+      userId,
+      parseUuidParam('projectId', projectId),
+      parseUuidParam('versionId', versionId),
+      parsed.data
+    );
+  }
+
+  @Post(':id/versions/:versionId/capacity-plan/apply')
+  async applyCapacityPlan(
+    @Req() request: RequestWithUser,
+    @Param('id') projectId: string,
+    @Param('versionId') versionId: string,
+    @Body() body: unknown
+  ) {
+    const userId = request.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException('Missing user identity.');
+    }
+
+    const parsed = applyCapacityPlanRequestSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.flatten());
+    }
+
+    return this.capacityPlanningService.applyCapacityPlan(
+      userId,
+      parseUuidParam('projectId', projectId),
+      parseUuidParam('versionId', versionId),
+      parsed.data
+    );
+  }
+
   @Get(':id/versions/:versionId/comments')
   async listVersionComments(
     @Req() request: RequestWithUser,
@@ -378,12 +435,56 @@ export class ProjectsController {
     );
   }
 
+  @Get(':id/versions/:versionId/slo')
+  async getVersionSlo(
+    @Req() request: RequestWithUser,
+    @Param('id') projectId: string,
+    @Param('versionId') versionId: string
+  ) {
+    const userId = request.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException('Missing user identity.');
+    }
+
+    return this.projectsService.getVersionSlo(
+      userId,
+      parseUuidParam('projectId', projectId),
+      parseUuidParam('versionId', versionId)
+    );
+  }
+
+  @Patch(':id/versions/:versionId/slo')
+  async updateVersionSlo(
+    @Req() request: RequestWithUser,
+    @Param('id') projectId: string,
+    @Param('versionId') versionId: string,
+    @Body() body: unknown
+  ) {
+    const userId = request.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException('Missing user identity.');
+    }
+
+    const parsed = updateVersionSloRequestSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.flatten());
+    }
+
+    return this.projectsService.updateVersionSlo(
+      userId,
+      parseUuidParam('projectId', projectId),
+      parseUuidParam('versionId', versionId),
+      parsed.data.slo
+    );
+  }
+
   @Get(':id/compare')
   async compareVersions(
     @Req() request: RequestWithUser,
     @Param('id') projectId: string,
     @Query('baselineVersionId') baselineVersionId: string,
-    @Query('candidateVersionId') candidateVersionId: string
+    @Query('candidateVersionId') candidateVersionId: string,
+    @Query('allowMixedEngineVersions') allowMixedEngineVersions?: string
   ) {
     const userId = request.user?.sub;
     if (!userId) {
@@ -392,7 +493,11 @@ export class ProjectsController {
 
     const parsed = compareVersionsQuerySchema.safeParse({
       baselineVersionId,
-      candidateVersionId
+      candidateVersionId,
+      allowMixedEngineVersions: parseBooleanQuery(
+        'allowMixedEngineVersions',
+        allowMixedEngineVersions
+      )
     });
     if (!parsed.success) {
       throw new BadRequestException(parsed.error.flatten());
@@ -402,7 +507,8 @@ export class ProjectsController {
       userId,
       parseUuidParam('projectId', projectId),
       parsed.data.baselineVersionId,
-      parsed.data.candidateVersionId
+      parsed.data.candidateVersionId,
+      parsed.data.allowMixedEngineVersions
     );
   }
 
@@ -411,7 +517,8 @@ export class ProjectsController {
     @Req() request: RequestWithUser,
     @Param('id') projectId: string,
     @Query('baselineVersionId') baselineVersionId?: string,
-    @Query('candidateVersionId') candidateVersionId?: string
+    @Query('candidateVersionId') candidateVersionId?: string,
+    @Query('allowMixedEngineVersions') allowMixedEngineVersions?: string
   ) {
     const userId = request.user?.sub;
     if (!userId) {
@@ -420,7 +527,11 @@ export class ProjectsController {
 
     const parsed = createReportExportRequestSchema.safeParse({
       baselineVersionId,
-      candidateVersionId
+      candidateVersionId,
+      allowMixedEngineVersions: parseBooleanQuery(
+        'allowMixedEngineVersions',
+        allowMixedEngineVersions
+      )
     });
     if (!parsed.success) {
       throw new BadRequestException(parsed.error.flatten());
@@ -430,7 +541,8 @@ export class ProjectsController {
       userId,
       parseUuidParam('projectId', projectId),
       parsed.data.baselineVersionId,
-      parsed.data.candidateVersionId
+      parsed.data.candidateVersionId,
+      parsed.data.allowMixedEngineVersions
     );
   }
 
@@ -454,7 +566,8 @@ export class ProjectsController {
       userId,
       parseUuidParam('projectId', projectId),
       parsed.data.baselineVersionId,
-      parsed.data.candidateVersionId
+      parsed.data.candidateVersionId,
+      parsed.data.allowMixedEngineVersions
     );
   }
 
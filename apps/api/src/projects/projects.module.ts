@@ -1,6 +1,7 @@
 import { Module } from '@nestjs/common';
 import { AuthModule } from '../auth/auth.module.js';
 import { PrismaModule } from '../prisma/prisma.module.js';
+import { CapacityPlanningService } from './capacity-planning.service.js';
 import { ProjectsController } from './projects.controller.js';
 import { ProjectsService } from './projects.service.js';
 import { ReportsService } from './reports.service.js';
@@ -8,7 +9,7 @@ import { SharedReportsController } from './shared-reports.controller.js';
 
 @Module({
   imports: [PrismaModule, AuthModule],
-  providers: [ProjectsService, ReportsService],
+  providers: [ProjectsService, ReportsService, CapacityPlanningService],
   controllers: [ProjectsController, SharedReportsController],
   exports: [ProjectsService, ReportsService]
 })
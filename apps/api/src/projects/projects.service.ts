@@ -27,12 +27,14 @@ import {
   ProjectVersionSummary,
   SharedProjectSummary,
   SharedProjectsResponse,
+  SloDefinition,
   TrafficProfile,
   UpdateProjectMemberRequest,
   UpdateVersionCommentRequest,
   UpdateVersionRequest,
   VersionComment,
   VersionDetail,
+  VersionSloResponse,
   VersionTrafficProfileResponse,
   architectureComponentSchema,
   architectureEdgeSchema,
@@ -40,6 +42,7 @@ import {
   defaultTrafficProfile,
   projectInviteStatusSchema,
   projectMemberRoleSchema,
+  sloDefinitionSchema,
   trafficProfileSchema,
   validateArchitectureTopology
 } from '@sdc/shared-types';
@@ -312,6 +315,7 @@ export class ProjectsService {
     }
 
     const nextVersionNumber = (latestVersion?.versionNumber ?? 0) + 1;
+    const inheritedSlo = this.toSlo(baseVersion?.slo ?? null);
 
     const createdVersion = await this.prisma.architectureVersion.create({
       data: {
@@ -321,6 +325,7 @@ export class ProjectsService {
         components: (baseVersion?.components as Prisma.InputJsonValue | undefined) ?? [],
         edges: (baseVersion?.edges as Prisma.InputJsonValue | undefined) ?? [],
         trafficProfile: this.toTrafficProfile(baseVersion?.trafficProfile ?? null) as Prisma.InputJsonValue,
+        slo: inheritedSlo ? (inheritedSlo as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
         notes: input.notes ?? null
       }
     });
@@ -482,6 +487,62 @@ export class ProjectsService {
     };
   }
 
+  async getVersionSlo(userId: string, projectId: string, versionId: string): Promise<VersionSloResponse> {
+    await this.assertProjectViewAccess(userId, projectId);
+
+    const version = await this.prisma.architectureVersion.findFirst({
+      where: {
+        id: versionId,
+        projectId
+      }
+    });
+
+    if (!version) {
+      throw new NotFoundException('Version not found for this project.');
+    }
+
+    return {
+      projectId: version.projectId,
+      versionId: version.id,
+      slo: this.toSlo(version.slo),
+      updatedAt: version.updatedAt.toISOString()
+    };
+  }
+
+  async updateVersionSlo(
+    userId: string,
+    projectId: string,
+    versionId: string,
+    slo: SloDefinition | null
+  ): Promise<VersionSloResponse> {
+    await this.assertProjectEditAccess(userId, projectId);
+
+    const version = await this.prisma.architectureVersion.findFirst({
+      where: {
+        id: versionId,
+        projectId
+      }
+    });
+
+    if (!version) {
+      throw new NotFoundException('Version not found for this project.');
+    }
+
+    const updatedVersion = await this.prisma.architectureVersion.update({
+      where: { id: version.id },
+      data: {
+        slo: slo ? (slo as unknown as Prisma.InputJsonValue) : Prisma.DbNull
+      }
+    });
+
+    return {
+      projectId: updatedVersion.projectId,
+      versionId: updatedVersion.id,
+      slo: this.toSlo(updatedVersion.slo),
+      updatedAt: updatedVersion.updatedAt.toISOString()
+    };
+  }
+
   async listProjectMembers(userId: string, projectId: string): Promise<ProjectMembersResponse> {
     await this.assertProjectViewAccess(userId, projectId);
 
@@ -1153,6 +1214,7 @@ export class ProjectsService {
     components: Prisma.JsonValue;
     edges: Prisma.JsonValue;
     trafficProfile: Prisma.JsonValue;
+    slo: Prisma.JsonValue | null;
     notes: string | null;
     createdAt: Date;
     updatedAt: Date;
@@ -1168,6 +1230,7 @@ export class ProjectsService {
       components,
       edges,
       trafficProfile: this.toTrafficProfile(version.trafficProfile),
+      slo: this.toSlo(version.slo),
       notes: version.notes,
       warnings: validateArchitectureTopology(components, edges),
       createdAt: version.createdAt.toISOString(),
@@ -1264,6 +1327,11 @@ export class ProjectsService {
     return defaultTrafficProfile;
   }
 
+  private toSlo(value: Prisma.JsonValue | null): SloDefinition | null {
+    const parsed = sloDefinitionSchema.safeParse(value);
+    return parsed.success ? parsed.data : null;
+  }
+
   private toAccessRole(role: string): ProjectAccessRole {
     if (role === 'owner' || role === 'editor' || role === 'viewer') {
       return role;
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import type { PrismaService } from '../prisma/prisma.service.js';
+import type { ProjectsService } from './projects.service.js';
+import { ReportsService } from './reports.service.js';
+
+type Row = Record<string, unknown>;
+
+// Just enough of Prisma for the compare path: equality filters and a single descending order.
+function findRows(rows: Row[], args: { where: Row; orderBy?: Record<string, 'desc'> }) {
+  const [orderKey] = Object.keys(args.orderBy ?? {});
+  return rows
+    .filter((row) =>
+      Object.entries(args.where).every(([key, value]) => (row[key] ?? null) === value)
+    )
+    .sort((a, b) => (orderKey ? Number(b[orderKey]) - Number(a[orderKey]) : 0));
+}
+
+function version(id: string, versionNumber: number): Row {
+  return {
+    id,
+    projectId: 'project-1',
+    versionNumber,
+    notes: null,
+    components: [],
+    edges: [],
+    trafficProfile: null,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z')
+  };
+}
+
+function completedRun(id: string, versionId: string, overrides: Row): Row {
+  return {
+    id,
+    projectId: 'project-1',
+    versionId,
+    status: 'completed',
+    metrics: { throughputRps: 100, capacityRps: 200, p95LatencyMs: 40, errorRatePercent: 0 },
+    bottlenecks: [],
+    sloEvaluation: null,
+    engineVersion: '1.0.0',
+    replayOfRunId: null,
+    completedAt: new Date('2026-01-02T00:00:00Z'),
+    ...overrides
+  };
+}
+
+function createService(runs: Row[]) {
+  const versions = [version('version-1', 1), version('version-2', 2)];
+  const prisma = {
+    architectureVersion: {
+      findFirst: async (args: { where: Row }) => findRows(versions, args)[0] ?? null
+    },
+    simulationRun: {
+      findFirst: async (args: { where: Row; orderBy: Record<string, 'desc'> }) =>
+        findRows(runs, args)[0] ?? null
+    },
+    gradeReport: {
+      findFirst: async () => null
+    }
+  };
+  const projectsService = {
+    assertProjectViewAccess: async () => undefined
+  };
+
+  return new ReportsService(
+    prisma as unknown as PrismaService,
+    projectsService as unknown as ProjectsService
+  );
+}
+
+describe('ReportsService version compare', () => {
+  it('ignores replays when picking the latest run of each version', async () => {
+    const service = createService([
+      completedRun('run-1', 'version-1', {}),
+      completedRun('run-2', 'version-2', {}),
+      completedRun('replay-1', 'version-1', {
+        engineVersion: '0.9.0',
+        replayOfRunId: 'run-1',
+        metrics: { throughputRps: 10, capacityRps: 20, p95LatencyMs: 400, errorRatePercent: 5 },
+        completedAt: new Date('2026-01-03T00:00:00Z')
+      })
+    ]);
+
+    const { compare } = await service.getVersionCompare(
+      'user-1',
+      'project-1',
+      'version-1',
+      'version-2'
+    );
+
+    expect(compare.baselineVersion.latestSimulation?.runId).toBe('run-1');
+    expect(compare.baselineVersion.latestSimulation?.engineVersion).toBe('1.0.0');
+    expect(compare.mixedEngineVersions).toBe(false);
+  });
+});
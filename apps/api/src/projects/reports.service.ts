@@ -1,5 +1,6 @@
 import {
   BadRequestException,
+  ConflictException,
   Inject,
   Injectable,
   InternalServerErrorException,
@@ -32,6 +33,7 @@ import {
   gradeCategoryScoreSchema,
   projectReportSchema,
   reportSummarySchema,
+  sloEvaluationSchema,
   trafficProfileSchema,
   validateArchitectureTopology
 } from '@sdc/shared-types';
@@ -58,6 +60,8 @@ type CompletedRunRecord = Prisma.SimulationRunGetPayload<{
     status: true;
     metrics: true;
     bottlenecks: true;
+    sloEvaluation: true;
+    engineVersion: true;
     completedAt: true;
   };
 }>;
@@ -97,7 +101,8 @@ export class ReportsService {
     userId: string,
     projectId: string,
     baselineVersionId: string,
-    candidateVersionId: string
+    candidateVersionId: string,
+    allowMixedEngineVersions = false
   ): Promise<VersionCompareResponse> {
     await this.projectsService.assertProjectViewAccess(userId, projectId);
 
@@ -111,7 +116,12 @@ export class ReportsService {
     ]);
 
     return {
-      compare: await this.buildCompareResult(projectId, baselineVersion, candidateVersion)
+      compare: await this.buildCompareResult(
+        projectId,
+        baselineVersion,
+        candidateVersion,
+        allowMixedEngineVersions
+      )
     };
   }
 
@@ -119,7 +129,8 @@ export class ReportsService {
     userId: string,
     projectId: string,
     baselineVersionId?: string,
-    candidateVersionId?: string
+    candidateVersionId?: string,
+    allowMixedEngineVersions = false
   ): Promise<ProjectReportResponse> {
     await this.projectsService.assertProjectViewAccess(userId, projectId);
 
@@ -128,7 +139,12 @@ export class ReportsService {
       baselineVersionId,
       candidateVersionId
     );
-    const compare = await this.buildCompareResult(projectId, baselineVersion, candidateVersion);
+    const compare = await this.buildCompareResult(
+      projectId,
+      baselineVersion,
+      candidateVersion,
+      allowMixedEngineVersions
+    );
 
     return {
       report: this.buildReport(projectId, compare)
@@ -139,7 +155,8 @@ export class ReportsService {
     userId: string,
     projectId: string,
     baselineVersionId?: string,
-    candidateVersionId?: string
+    candidateVersionId?: string,
+    allowMixedEngineVersions = false
   ): Promise<ReportExportResponse> {
     await this.projectsService.assertProjectEditAccess(userId, projectId);
 
@@ -147,7 +164,8 @@ export class ReportsService {
       userId,
       projectId,
       baselineVersionId,
-      candidateVersionId
+      candidateVersionId,
+      allowMixedEngineVersions
     );
 
     const report = reportResponse.report;
@@ -292,10 +310,15 @@ export class ReportsService {
     };
   }
 
+  /**
+   * Runs from different engine versions are not comparable, since the engine change alone can
+   * move their numbers; they are refused unless `allowMixedEngineVersions` is set.
+   */
   private async buildCompareResult(
     projectId: string,
     baselineVersion: VersionRecord,
-    candidateVersion: VersionRecord
+    candidateVersion: VersionRecord,
+    allowMixedEngineVersions = false
   ): Promise<VersionCompareResult> {
     const [baselineRun, candidateRun, baselineGrade, candidateGrade] = await Promise.all([
       this.getLatestCompletedRun(projectId, baselineVersion.id),
@@ -304,6 +327,19 @@ export class ReportsService {
       this.getLatestCompletedGrade(projectId, candidateVersion.id)
     ]);
 
+    const mixedEngineVersions =
+      baselineRun !== null &&
+      candidateRun !== null &&
+      baselineRun.engineVersion !== candidateRun.engineVersion;
+    if (mixedEngineVersions && !allowMixedEngineVersions) {
+      throw new ConflictException({
+        message:
+          'The latest runs of these versions come from different simulation engine versions. Re-simulate both versions, or allow mixed engine versions to compare them anyway.',
+        baselineEngineVersion: baselineRun.engineVersion,
+        candidateEngineVersion: candidateRun.engineVersion
+      });
+    }
+
     const baselineComponents = this.toComponentArray(baselineVersion.components);
     const candidateComponents = this.toComponentArray(candidateVersion.components);
     const baselineEdges = this.toEdgeArray(baselineVersion.edges);
@@ -419,9 +455,22 @@ export class ReportsService {
         overallScore: this.buildMetricDelta(
           baselineGrade?.overallScore ?? null,
           candidateGrade?.overallScore ?? null
+        ),
+        monthlyCostUsd: this.buildMetricDelta(
+          baselineRun ? this.toCostMetricValue(baselineRun.metrics, 'monthlyCostUsd') : null,
+          candidateRun ? this.toCostMetricValue(candidateRun.metrics, 'monthlyCostUsd') : null
+        ),
+        costPerMillionRequestsUsd: this.buildMetricDelta(
+          baselineRun ? this.toCostMetricValue(baselineRun.metrics, 'costPerMillionRequestsUsd') : null,
+          candidateRun ? this.toCostMetricValue(candidateRun.metrics, 'costPerMillionRequestsUsd') : null
+        ),
+        errorBudgetBurnedPercent: this.buildMetricDelta(
+          baselineRun ? this.toSloEvaluation(baselineRun)?.errorBudgetBurnedPercent ?? null : null,
+          candidateRun ? this.toSloEvaluation(candidateRun)?.errorBudgetBurnedPercent ?? null : null
         )
       },
       rubricDeltas,
+      mixedEngineVersions,
       generatedAt: new Date().toISOString()
     };
   }
@@ -436,6 +485,7 @@ export class ReportsService {
     const latencyDelta = compare.kpiDeltas.p95LatencyMs.absoluteDelta;
     const errorDelta = compare.kpiDeltas.errorRatePercent.absoluteDelta;
     const scoreDelta = compare.kpiDeltas.overallScore.absoluteDelta;
+    const costDelta = compare.kpiDeltas.monthlyCostUsd.absoluteDelta;
 
     if (throughputDelta !== null) {
       if (throughputDelta > 0) {
@@ -477,6 +527,37 @@ export class ReportsService {
       }
     }
 
+    if (costDelta !== null) {
+      if (costDelta < 0) {
+        improvedCount += 1;
+        improvements.push(`Estimated monthly cost fell by $${Math.abs(costDelta).toFixed(2)}.`)
+      } else if (costDelta > 0) {
+        regressedCount += 1;
+        concerns.push(`Estimated monthly cost rose by $${costDelta.toFixed(2)}.`)
+      }
+    }
+
+    const baselineSlo = compare.baselineVersion.latestSimulation?.sloEvaluation ?? null;
+    const candidateSlo = compare.candidateVersion.latestSimulation?.sloEvaluation ?? null;
+    if (candidateSlo && !candidateSlo.passed) {
+      if (!baselineSlo || baselineSlo.passed) {
+        regressedCount += 1;
+      }
+      const breached = candidateSlo.objectives
+        .filter((objective) => !objective.passed)
+        .map((objective) => (objective.region ? `${objective.objective} (${objective.region})` : objective.objective));
+      const causes = candidateSlo.breachComponents.map((component) => component.componentLabel);
+      concerns.push(
+        `SLOs breached: ${breached.join(', ')}, burning ${candidateSlo.errorBudgetBurnedPercent.toFixed(1)}% of the error budget` +
+          (causes.length > 0 ? ` (caused by ${causes.join(', ')}).` : '.')
+      );
+    } else if (candidateSlo?.passed && baselineSlo && !baselineSlo.passed) {
+      improvedCount += 1;
+      improvements.push(
+        `SLOs now met, burning ${candidateSlo.errorBudgetBurnedPercent.toFixed(1)}% of the error budget.`
+      );
+    }
+
     if (compare.architectureDelta.warningCountDelta < 0) {
       improvedCount += 1;
       improvements.push(
@@ -487,6 +568,12 @@ export class ReportsService {
       concerns.push(`Topology warnings increased by ${compare.architectureDelta.warningCountDelta}.`)
     }
 
+    if (compare.mixedEngineVersions) {
+      concerns.push(
+        `Runs were simulated under different engine versions (${compare.baselineVersion.latestSimulation?.engineVersion ?? 'unversioned'} vs ${compare.candidateVersion.latestSimulation?.engineVersion ?? 'unversioned'}), so KPI deltas partly reflect engine changes.`
+      );
+    }
+
     const verdict =
       improvedCount === 0 && regressedCount === 0
         ? 'insufficient-data'
@@ -642,6 +729,19 @@ export class ReportsService {
     return typeof metric === 'number' ? metric : 0;
   }
 
+  // Null rather than 0 for runs recorded before cost estimates, so no delta is reported.
+  private toCostMetricValue(
+    value: Prisma.JsonValue | null,
+    key: 'monthlyCostUsd' | 'costPerMillionRequestsUsd'
+  ): number | null {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return null;
+    }
+
+    const metric = (value as Prisma.JsonObject)[key];
+    return typeof metric === 'number' ? metric : null;
+  }
+
   private toRunSnapshot(run: CompletedRunRecord): CompareVersionRunSnapshot {
     return {
       runId: run.id,
@@ -651,10 +751,17 @@ export class ReportsService {
       p95LatencyMs: this.toMetricValue(run.metrics, 'p95LatencyMs'),
       errorRatePercent: this.toMetricValue(run.metrics, 'errorRatePercent'),
       bottleneckCount: Array.isArray(run.bottlenecks) ? run.bottlenecks.length : 0,
+      sloEvaluation: this.toSloEvaluation(run),
+      engineVersion: run.engineVersion,
       completedAt: run.completedAt ? run.completedAt.toISOString() : null
     };
   }
 
+  private toSloEvaluation(run: CompletedRunRecord) {
+    const parsed = sloEvaluationSchema.safeParse(run.sloEvaluation);
+    return parsed.success ? parsed.data : null;
+  }
+
   private toGradeSnapshot(grade: CompletedGradeRecord) {
     return {
       gradeReportId: grade.id,
@@ -714,6 +821,9 @@ export class ReportsService {
       `p95 Latency Delta: ${this.formatDelta(report.compare.kpiDeltas.p95LatencyMs, 'ms')}`,
       `Error Rate Delta: ${this.formatDelta(report.compare.kpiDeltas.errorRatePercent, '%')}`,
       `Overall Score Delta: ${this.formatDelta(report.compare.kpiDeltas.overallScore, 'pts')}`,
+      `Monthly Cost Delta: ${this.formatDelta(report.compare.kpiDeltas.monthlyCostUsd, 'USD')}`,
+      `Cost per Million Requests Delta: ${this.formatDelta(report.compare.kpiDeltas.costPerMillionRequestsUsd, 'USD')}`,
+      `Error Budget Burned Delta: ${this.formatDelta(report.compare.kpiDeltas.errorBudgetBurnedPercent, '%')}`,
       `Warning Delta: ${report.compare.architectureDelta.warningCountDelta}`,
       '',
       'Highlights:',
@@ -900,13 +1010,16 @@ export class ReportsService {
       where: {
         projectId,
         versionId,
-        status: 'completed'
+        status: 'completed',
+        replayOfRunId: null
       },
       select: {
         id: true,
         status: true,
         metrics: true,
         bottlenecks: true,
+        sloEvaluation: true,
+        engineVersion: true,
         completedAt: true
       },
       orderBy: {
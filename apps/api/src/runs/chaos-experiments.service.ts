@@ -0,0 +1,119 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { ChaosExperiment as ChaosExperimentRecord, Prisma } from '@prisma/client';
+import {
+  ChaosExperiment,
+  ChaosExperimentStep,
+  CreateChaosExperimentRequest,
+  ListChaosExperimentsResponse,
+  chaosExperimentStepSchema
+} from '@sdc/shared-types';
+import { PrismaService } from '../prisma/prisma.service.js';
+import { ProjectsService } from '../projects/projects.service.js';
+
+@Injectable()
+export class ChaosExperimentsService {
+  constructor(
+    @Inject(PrismaService) private readonly prisma: PrismaService,
+    @Inject(ProjectsService) private readonly projectsService: ProjectsService
+  ) {}
+
+  async listChaosExperiments(
+    userId: string,
+    projectId: string
+  ): Promise<ListChaosExperimentsResponse> {
+    await this.projectsService.assertProjectViewAccess(userId, projectId);
+
+    const experiments = await this.prisma.chaosExperiment.findMany({
+      where: { projectId },
+      orderBy: {
+        createdAt: 'desc'
+      }
+    });
+
+    return {
+      experiments: experiments.map((experiment) => this.toChaosExperiment(experiment))
+    };
+  }
+
+  async createChaosExperiment(
+    userId: string,
+    projectId: string,
+    input: CreateChaosExperimentRequest
+  ): Promise<ChaosExperiment> {
+    await this.projectsService.assertProjectEditAccess(userId, projectId);
+
+    const experiment = await this.prisma.chaosExperiment.create({
+      data: {
+        projectId,
+        name: input.name,
+        description: input.description ?? null,
+        steps: this.sortSteps(input.steps) as unknown as Prisma.InputJsonValue
+      }
+    });
+
+    return this.toChaosExperiment(experiment);
+  }
+
+  async deleteChaosExperiment(
+    userId: string,
+    projectId: string,
+    experimentId: string
+  ): Promise<{ experimentId: string }> {
+    await this.projectsService.assertProjectEditAccess(userId, projectId);
+
+    const experiment = await this.findProjectExperiment(projectId, experimentId);
+    await this.prisma.chaosExperiment.delete({
+      where: {
+        id: experiment.id
+      }
+    });
+
+    return {
+      experimentId: experiment.id
+    };
+  }
+
+  // Callers are expected to have checked access to the project already.
+  async getProjectChaosExperiment(
+    projectId: string,
+    experimentId: string
+  ): Promise<ChaosExperiment> {
+    return this.toChaosExperiment(await this.findProjectExperiment(projectId, experimentId));
+  }
+
+  private async findProjectExperiment(
+    projectId: string,
+    experimentId: string
+  ): Promise<ChaosExperimentRecord> {
+    const experiment = await this.prisma.chaosExperiment.findFirst({
+      where: {
+        id: experimentId,
+        projectId
+      }
+    });
+
+    if (!experiment) {
+      throw new NotFoundException('Chaos experiment not found.');
+    }
+
+    return experiment;
+  }
+
+  private sortSteps(steps: ChaosExperimentStep[]): ChaosExperimentStep[] {
+    return [...steps].sort((left, right) => left.atSecond - right.atSecond);
+  }
+
+  private toChaosExperiment(experiment: ChaosExperimentRecord): ChaosExperiment {
+    const steps = chaosExperimentStepSchema.array().safeParse(experiment.steps);
+
+    return {
+      id: experiment.id,
+      projectId: experiment.projectId,
+      name: experiment.name,
+      description: experiment.description,
+      steps: steps.success ? steps.data : [],
+      createdAt: experiment.createdAt.toISOString(),
+      updatedAt: experiment.updatedAt.toISOString()
+    };
+  }
+}
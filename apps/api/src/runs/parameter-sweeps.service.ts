@@ -0,0 +1,120 @@
+import { BadRequestException, Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma, SimulationSweep as SimulationSweepRecord } from '@prisma/client';
+import {
+  CreateParameterSweepRequest,
+  ParameterSweep,
+  ParameterSweepResponse,
+  isComponentType,
+  parameterSweepPointSchema,
+  parameterSweepSpecSchema,
+  simulationRunStatusSchema,
+  sweepBreakingPointSchema
+} from '@sdc/shared-types';
+import { versionInputContract } from '../common/version-input-contract.js';
+import { PrismaService } from '../prisma/prisma.service.js';
+import { ProjectsService } from '../projects/projects.service.js';
+import { SimulationQueueService } from './simulation-queue.service.js';
+
+@Injectable()
+export class ParameterSweepsService {
+  constructor(
+    @Inject(PrismaService) private readonly prisma: PrismaService,
+    @Inject(ProjectsService) private readonly projectsService: ProjectsService,
+    @Inject(SimulationQueueService) private readonly simulationQueue: SimulationQueueService
+  ) {}
+
+  async queueParameterSweep(
+    userId: string,
+    versionId: string,
+    spec: CreateParameterSweepRequest
+  ): Promise<ParameterSweepResponse> {
+    const access = await this.projectsService.assertVersionEditAccess(userId, versionId);
+    const version = await this.projectsService.getVersion(userId, access.projectId, versionId);
+    if (version.components.length === 0) {
+      throw new BadRequestException('Version has no components to sweep.');
+    }
+
+    if (spec.componentId !== undefined) {
+      const component = version.components.find((item) => item.id === spec.componentId);
+      if (!component) {
+        throw new BadRequestException('componentId was not found in the version.');
+      }
+      if (isComponentType(component, 'client') || component.databaseConfig) {
+        throw new BadRequestException(
+          'Replica sweeps need a component sized by replicas; clients and configured databases are not.'
+        );
+      }
+    }
+
+    const inputContract = versionInputContract(version);
+
+    const createdSweep = await this.prisma.simulationSweep.create({
+      data: {
+        projectId: access.projectId,
+        versionId,
+        status: 'pending',
+        inputContract: inputContract as unknown as Prisma.InputJsonValue,
+        spec: spec as unknown as Prisma.InputJsonValue
+      }
+    });
+
+    try {
+      await this.simulationQueue.enqueueParameterSweep({ sweepId: createdSweep.id });
+    } catch {
+      const failedSweep = await this.prisma.simulationSweep.update({
+        where: { id: createdSweep.id },
+        data: {
+          status: 'failed',
+          failureReason: 'Failed to enqueue sweep job.',
+          completedAt: new Date()
+        }
+      });
+
+      return {
+        sweep: this.toParameterSweep(failedSweep)
+      };
+    }
+
+    return {
+      sweep: this.toParameterSweep(createdSweep)
+    };
+  }
+
+  async getParameterSweep(userId: string, sweepId: string): Promise<ParameterSweepResponse> {
+    const sweep = await this.prisma.simulationSweep.findUnique({
+      where: { id: sweepId }
+    });
+
+    if (!sweep) {
+      throw new NotFoundException('Parameter sweep not found.');
+    }
+
+    await this.projectsService.assertProjectViewAccess(userId, sweep.projectId);
+
+    return {
+      sweep: this.toParameterSweep(sweep)
+    };
+  }
+
+  private toParameterSweep(sweep: SimulationSweepRecord): ParameterSweep {
+    const status = simulationRunStatusSchema.safeParse(sweep.status);
+    const points = parameterSweepPointSchema.array().safeParse(sweep.points);
+    const breakingPoint = sweepBreakingPointSchema.safeParse(sweep.breakingPoint);
+
+    return {
+      id: sweep.id,
+      projectId: sweep.projectId,
+      versionId: sweep.versionId,
+      status: status.success ? status.data : 'failed',
+      spec: parameterSweepSpecSchema.parse(sweep.spec),
+      points: points.success ? points.data : [],
+      breakingPoint: breakingPoint.success ? breakingPoint.data : null,
+      failureReason: sweep.failureReason,
+      queuedAt: sweep.queuedAt.toISOString(),
+      startedAt: sweep.startedAt ? sweep.startedAt.toISOString() : null,
+      completedAt: sweep.completedAt ? sweep.completedAt.toISOString() : null,
+      createdAt: sweep.createdAt.toISOString(),
+      updatedAt: sweep.updatedAt.toISOString()
+    };
+  }
+}
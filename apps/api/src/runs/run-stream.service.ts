@@ -0,0 +1,170 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import {
+  SimulationRun,
+  SimulationRunStreamMessage,
+  simulationRunStreamChannel,
+  simulationRunStreamMessageSchema
+} from '@sdc/shared-types';
+import { Redis } from 'ioredis';
+import { Observable } from 'rxjs';
+
+type StreamListener = (message: SimulationRunStreamMessage) => void;
+
+type ChannelSubscription = {
+  listeners: Set<StreamListener>;
+  // Resolves once Redis confirms the subscription; later watchers of the channel wait on it too.
+  ready: Promise<unknown>;
+};
+
+function isTerminal(message: SimulationRunStreamMessage): boolean {
+  return (
+    message.type === 'status' &&
+    (message.status === 'completed' ||
+      message.status === 'failed' ||
+      message.status === 'cancelled')
+  );
+}
+
+// Everything stored for the run so far; its series is only written once the run completes.
+function snapshotMessages(run: SimulationRun): SimulationRunStreamMessage[] {
+  return [
+    ...run.events.map((event) => ({ type: 'event' as const, event })),
+    ...(run.status === 'completed'
+      ? run.series.map((tick) => ({ type: 'tick' as const, tick }))
+      : []),
+    { type: 'status', status: run.status, failureReason: run.failureReason }
+  ];
+}
+
+@Injectable()
+export class RunStreamService implements OnModuleDestroy {
+  private readonly subscriber: Redis;
+  private readonly publisher: Redis;
+  private readonly channels = new Map<string, ChannelSubscription>();
+
+  constructor() {
+    const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
+    this.subscriber = new Redis(redisUrl, {
+      maxRetriesPerRequest: 1
+    });
+    this.publisher = this.subscriber.duplicate();
+    this.subscriber.on('message', (channel: string, payload: string) =>
+      this.dispatch(channel, payload)
+    );
+  }
+
+  /**
+   * Streams a run from `loadRun`'s snapshot onward, completing once it reaches a terminal status.
+   * The channel is subscribed before the snapshot loads so nothing published in between is lost.
+   */
+  watchRun(
+    runId: string,
+    loadRun: () => Promise<SimulationRun>
+  ): Observable<SimulationRunStreamMessage> {
+    return new Observable<SimulationRunStreamMessage>((observer) => {
+      const channel = simulationRunStreamChannel(runId);
+      const seenSequences = new Set<number>();
+      let pending: SimulationRunStreamMessage[] | null = [];
+
+      const emit = (message: SimulationRunStreamMessage) => {
+        if (message.type === 'event') {
+          if (seenSequences.has(message.event.sequence)) {
+            return;
+          }
+          seenSequences.add(message.event.sequence);
+        }
+        observer.next(message);
+        if (isTerminal(message)) {
+          observer.complete();
+        }
+      };
+
+      const listener: StreamListener = (message) => {
+        if (pending) {
+          pending.push(message);
+        } else {
+          emit(message);
+        }
+      };
+
+      void (async () => {
+        try {
+          await this.addListener(channel, listener);
+          const snapshot = snapshotMessages(await loadRun());
+          const buffered = pending ?? [];
+          pending = null;
+          for (const message of [...snapshot, ...buffered]) {
+            if (observer.closed) {
+              return;
+            }
+            emit(message);
+          }
+        } catch (error) {
+          observer.error(error);
+        }
+      })();
+
+      return () => {
+        this.removeListener(channel, listener);
+      };
+    });
+  }
+
+  // For changes made by the API itself, such as a cancellation, rather than by the worker.
+  async publish(runId: string, message: SimulationRunStreamMessage): Promise<void> {
+    await this.publisher.publish(simulationRunStreamChannel(runId), JSON.stringify(message));
+  }
+
+  async onModuleDestroy() {
+    await Promise.all([this.subscriber.quit(), this.publisher.quit()]);
+  }
+
+  private async addListener(channel: string, listener: StreamListener): Promise<void> {
+    const existing = this.channels.get(channel);
+    if (existing) {
+      existing.listeners.add(listener);
+      await existing.ready;
+      return;
+    }
+
+    const ready = this.subscriber.subscribe(channel);
+    this.channels.set(channel, { listeners: new Set([listener]), ready });
+    await ready;
+  }
+
+  private removeListener(channel: string, listener: StreamListener): void {
+    const subscription = this.channels.get(channel);
+    if (!subscription) {
+      return;
+    }
+
+    subscription.listeners.delete(listener);
+    if (subscription.listeners.size === 0) {
+      this.channels.delete(channel);
+      void this.subscriber.unsubscribe(channel).catch(() => undefined);
+    }
+  }
+
+  private dispatch(channel: string, payload: string): void {
+    const subscription = this.channels.get(channel);
+    if (!subscription) {
+      return;
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(payload);
+    } catch {
+      return;
+    }
+
+    const parsed = simulationRunStreamMessageSchema.safeParse(raw);
+    if (!parsed.success) {
+      return;
+    }
+
+    for (const listener of subscription.listeners) {
+      listener(parsed.data);
+    }
+  }
+}
@@ -2,33 +2,73 @@ import {
   BadRequestException,
   Body,
   Controller,
+  Delete,
   Get,
   Inject,
+  MessageEvent,
   Param,
   Post,
   Req,
+  Sse,
   UnauthorizedException,
   UseGuards
 } from '@nestjs/common';
-import { failureInjectionRequestSchema } from '@sdc/shared-types';
+import {
+  createChaosExperimentRequestSchema,
+  createParameterSweepRequestSchema,
+  createSimulationBatchRequestSchema,
+  failureInjectionRequestSchema,
+  queueSimulationRunRequestSchema,
+  replaySimulationRunRequestSchema,
+  rerunSimulationRunRequestSchema
+} from '@sdc/shared-types';
+import { Observable, map } from 'rxjs';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard.js';
 import { parseUuidParam } from '../common/request-validation.js';
 import { RequestWithUser } from '../auth/request-user.type.js';
+import { ChaosExperimentsService } from './chaos-experiments.service.js';
+import { ParameterSweepsService } from './parameter-sweeps.service.js';
+import { RunStreamService } from './run-stream.service.js';
 import { RunsService } from './runs.service.js';
+import { SimulationBatchesService } from './simulation-batches.service.js';
+import { SimulationEnginesService } from './simulation-engines.service.js';
 
 @UseGuards(JwtAuthGuard)
 @Controller()
 export class RunsController {
-  constructor(@Inject(RunsService) private readonly runsService: RunsService) {}
+  constructor(
+    @Inject(RunsService) private readonly runsService: RunsService,
+    @Inject(ChaosExperimentsService)
+    private readonly chaosExperimentsService: ChaosExperimentsService,
+    @Inject(ParameterSweepsService) private readonly parameterSweepsService: ParameterSweepsService,
+    @Inject(RunStreamService) private readonly runStreamService: RunStreamService,
+    @Inject(SimulationBatchesService)
+    private readonly simulationBatchesService: SimulationBatchesService,
+    @Inject(SimulationEnginesService)
+    private readonly simulationEnginesService: SimulationEnginesService
+  ) {}
 
   @Post('versions/:id/simulate')
-  async queueSimulationRun(@Req() request: RequestWithUser, @Param('id') versionId: string) {
+  async queueSimulationRun(
+    @Req() request: RequestWithUser,
+    @Param('id') versionId: string,
+    @Body() body: unknown
+  ) {
     const userId = request.user?.sub;
     if (!userId) {
       throw new UnauthorizedException('Missing user identity.');
     }
 
-    return this.runsService.queueSimulationRun(userId, parseUuidParam('versionId', versionId));
+    const parsed = queueSimulationRunRequestSchema.safeParse(body ?? {});
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.flatten());
+    }
+
+    return this.runsService.queueSimulationRun(
+      userId,
+      parseUuidParam('versionId', versionId),
+      parsed.data
+    );
   }
 
   @Get('runs/:id')
@@ -41,6 +81,109 @@ export class RunsController {
     return this.runsService.getSimulationRun(userId, parseUuidParam('runId', runId));
   }
 
+  @Post('runs/:id/cancel')
+  async cancelSimulationRun(@Req() request: RequestWithUser, @Param('id') runId: string) {
+    const userId = request.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException('Missing user identity.');
+    }
+
+    return this.runsService.cancelSimulationRun(userId, parseUuidParam('runId', runId));
+  }
+
+  @Post('runs/:id/retry')
+  async retrySimulationRun(@Req() request: RequestWithUser, @Param('id') runId: string) {
+    const userId = request.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException('Missing user identity.');
+    }
+
+    return this.runsService.retrySimulationRun(userId, parseUuidParam('runId', runId));
+  }
+
+  @Post('runs/:id/rerun')
+  async rerunSimulationRun(
+    @Req() request: RequestWithUser,
+    @Param('id') runId: string,
+    @Body() body: unknown
+  ) {
+    const userId = request.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException('Missing user identity.');
+    }
+
+    const parsed = rerunSimulationRunRequestSchema.safeParse(body ?? {});
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.flatten());
+    }
+
+    return this.runsService.rerunSimulationRun(userId, parseUuidParam('runId', runId), parsed.data);
+  }
+
+  @Post('runs/:id/replay')
+  async replaySimulationRun(
+    @Req() request: RequestWithUser,
+    @Param('id') runId: string,
+    @Body() body: unknown
+  ) {
+    const userId = request.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException('Missing user identity.');
+    }
+
+    const parsed = replaySimulationRunRequestSchema.safeParse(body ?? {});
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.flatten());
+    }
+
+    return this.runsService.replaySimulationRun(
+      userId,
+      parseUuidParam('runId', runId),
+      parsed.data
+    );
+  }
+
+  @Get('runs/:id/replay-diff')
+  async getReplayDiff(@Req() request: RequestWithUser, @Param('id') runId: string) {
+    const userId = request.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException('Missing user identity.');
+    }
+
+    return this.runsService.getReplayDiff(userId, parseUuidParam('runId', runId));
+  }
+
+  @Get('simulation-engines')
+  async listSimulationEngines(@Req() request: RequestWithUser) {
+    if (!request.user?.sub) {
+      throw new UnauthorizedException('Missing user identity.');
+    }
+
+    return this.simulationEnginesService.listSimulationEngines();
+  }
+
+  @Sse('runs/:id/stream')
+  async streamSimulationRun(
+    @Req() request: RequestWithUser,
+    @Param('id') runId: string
+  ): Promise<Observable<MessageEvent>> {
+    const userId = request.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException('Missing user identity.');
+    }
+
+    const parsedRunId = parseUuidParam('runId', runId);
+    // Fails with the usual 404/403 before the stream opens.
+    await this.runsService.getSimulationRun(userId, parsedRunId);
+
+    return this.runStreamService
+      .watchRun(
+        parsedRunId,
+        async () => (await this.runsService.getSimulationRun(userId, parsedRunId)).run
+      )
+      .pipe(map((message) => ({ type: message.type, data: message })));
+  }
+
   @Post('runs/:id/failure-injection')
   async injectFailure(
     @Req() request: RequestWithUser,
@@ -60,7 +203,146 @@ export class RunsController {
     return this.runsService.queueFailureInjectionRun(
       userId,
       parseUuidParam('runId', runId),
-      parsed.data.profile
+      parsed.data
+    );
+  }
+
+  @Post('versions/:id/sweeps')
+  async queueParameterSweep(
+    @Req() request: RequestWithUser,
+    @Param('id') versionId: string,
+    @Body() body: unknown
+  ) {
+    const userId = request.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException('Missing user identity.');
+    }
+
+    const parsed = createParameterSweepRequestSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.flatten());
+    }
+
+    return this.parameterSweepsService.queueParameterSweep(
+      userId,
+      parseUuidParam('versionId', versionId),
+      parsed.data
+    );
+  }
+
+  @Get('sweeps/:id')
+  async getParameterSweep(@Req() request: RequestWithUser, @Param('id') sweepId: string) {
+    const userId = request.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException('Missing user identity.');
+    }
+
+    return this.parameterSweepsService.getParameterSweep(
+      userId,
+      parseUuidParam('sweepId', sweepId)
+    );
+  }
+
+  @Post('projects/:id/simulation-batches')
+  async queueSimulationBatch(
+    @Req() request: RequestWithUser,
+    @Param('id') projectId: string,
+    @Body() body: unknown
+  ) {
+    const userId = request.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException('Missing user identity.');
+    }
+
+    const parsed = createSimulationBatchRequestSchema.safeParse(body ?? {});
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.flatten());
+    }
+
+    return this.simulationBatchesService.queueSimulationBatch(
+      userId,
+      parseUuidParam('projectId', projectId),
+      parsed.data
+    );
+  }
+
+  @Get('projects/:id/simulation-batches')
+  async listSimulationBatches(@Req() request: RequestWithUser, @Param('id') projectId: string) {
+    const userId = request.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException('Missing user identity.');
+    }
+
+    return this.simulationBatchesService.listSimulationBatches(
+      userId,
+      parseUuidParam('projectId', projectId)
+    );
+  }
+
+  @Get('simulation-batches/:id')
+  async getSimulationBatch(@Req() request: RequestWithUser, @Param('id') batchId: string) {
+    const userId = request.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException('Missing user identity.');
+    }
+
+    return this.simulationBatchesService.getSimulationBatch(
+      userId,
+      parseUuidParam('batchId', batchId)
+    );
+  }
+
+  @Get('projects/:id/chaos-experiments')
+  async listChaosExperiments(@Req() request: RequestWithUser, @Param('id') projectId: string) {
+    const userId = request.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException('Missing user identity.');
+    }
+
+    return this.chaosExperimentsService.listChaosExperiments(
+      userId,
+      parseUuidParam('projectId', projectId)
+    );
+  }
+
+  @Post('projects/:id/chaos-experiments')
+  async createChaosExperiment(
+    @Req() request: RequestWithUser,
+    @Param('id') projectId: string,
+    @Body() body: unknown
+  ) {
+    const userId = request.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException('Missing user identity.');
+    }
+
+    const parsed = createChaosExperimentRequestSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new BadRequestException(parsed.error.flatten());
+    }
+
+    return this.chaosExperimentsService.createChaosExperiment(
+      userId,
+      parseUuidParam('projectId', projectId),
+      parsed.data
+    );
+  }
+
+  @Delete('projects/:id/chaos-experiments/:experimentId')
+  async deleteChaosExperiment(
+    @Req() request: RequestWithUser,
+    @Param('id') projectId: string,
+    @Param('experimentId') experimentId: string
+  ) {
+    const userId = request.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException('Missing user identity.');
+    }
+
+    return this.chaosExperimentsService.deleteChaosExperiment(
+      userId,
+      parseUuidParam('projectId', projectId),
+      parseUuidParam('experimentId', experimentId)
     );
   }
 }
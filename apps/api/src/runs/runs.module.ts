@@ -2,13 +2,26 @@ import { Module } from '@nestjs/common';
 import { AuthModule } from '../auth/auth.module.js';
 import { PrismaModule } from '../prisma/prisma.module.js';
 import { ProjectsModule } from '../projects/projects.module.js';
+import { ChaosExperimentsService } from './chaos-experiments.service.js';
+import { ParameterSweepsService } from './parameter-sweeps.service.js';
+import { RunStreamService } from './run-stream.service.js';
 import { RunsController } from './runs.controller.js';
 import { RunsService } from './runs.service.js';
+import { SimulationBatchesService } from './simulation-batches.service.js';
+import { SimulationEnginesService } from './simulation-engines.service.js';
 import { SimulationQueueService } from './simulation-queue.service.js';
 
 @Module({
   imports: [PrismaModule, AuthModule, ProjectsModule],
-  providers: [RunsService, SimulationQueueService],
+  providers: [
+    RunsService,
+    ChaosExperimentsService,
+    ParameterSweepsService,
+    SimulationBatchesService,
+    SimulationEnginesService,
+    SimulationQueueService,
+    RunStreamService
+  ],
   controllers: [RunsController],
   exports: [RunsService]
 })
@@ -1,29 +1,61 @@
 import { BadRequestException, Inject, Injectable, NotFoundException } from '@nestjs/common';
 import { Prisma } from '@prisma/client';
-import { applyFailureInjection } from '@sdc/simulation-core';
+import { randomInt } from 'node:crypto';
+import {
+  DEFAULT_MONTE_CARLO_ITERATIONS,
+  SIMULATION_ENGINE_VERSION,
+  applyChaosExperiment,
+  applyFailureInjection,
+  diffSimulationResults
+} from '@sdc/simulation-core';
 import {
   ArchitectureComponent,
   ArchitectureEdge,
+  ChaosExperimentRun,
   FailureInjectionProfile,
+  FailureInjectionRequest,
+  QueueSimulationRunRequest,
+  ReplaySimulationRunRequest,
+  RerunSimulationRunRequest,
+  RunReplayDiffResponse,
+  SimulationInputContract,
   SimulationRun,
   SimulationRunResponse,
+  SloDefinition,
   TrafficProfile,
   architectureComponentSchema,
   architectureEdgeSchema,
   blastRadiusSummarySchema,
+  chaosExperimentRunSchema,
   defaultTrafficProfile,
   failureInjectionProfileSchema,
+  runExplanationSchema,
   simulationBottleneckSchema,
+  simulationConfidenceSummarySchema,
   simulationEventSeveritySchema,
   simulationInputContractSchema,
   simulationMetricsSchema,
+  simulationModeSchema,
   simulationRunStatusSchema,
+  simulationTickSchema,
+  sloDefinitionSchema,
+  sloEvaluationSchema,
   trafficProfileSchema
 } from '@sdc/shared-types';
+import { versionInputContract } from '../common/version-input-contract.js';
 import { PrismaService } from '../prisma/prisma.service.js';
 import { ProjectsService } from '../projects/projects.service.js';
+import { ChaosExperimentsService } from './chaos-experiments.service.js';
+import { RunStreamService } from './run-stream.service.js';
+import { SimulationEnginesService } from './simulation-engines.service.js';
 import { SimulationQueueService } from './simulation-queue.service.js';
 
+const MAX_EVENT_APPEND_ATTEMPTS = 5;
+
+function isUniqueConflict(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
 type SimulationRunRecord = Prisma.SimulationRunGetPayload<{
   include: {
     events: {
@@ -39,12 +71,31 @@ export class RunsService {
   constructor(
     @Inject(PrismaService) private readonly prisma: PrismaService,
     @Inject(ProjectsService) private readonly projectsService: ProjectsService,
-    @Inject(SimulationQueueService) private readonly simulationQueue: SimulationQueueService
+    @Inject(SimulationQueueService) private readonly simulationQueue: SimulationQueueService,
+    @Inject(ChaosExperimentsService) private readonly chaosExperiments: ChaosExperimentsService,
+    @Inject(RunStreamService) private readonly runStream: RunStreamService,
+    @Inject(SimulationEnginesService) private readonly simulationEngines: SimulationEnginesService
   ) {}
 
-  async queueSimulationRun(userId: string, versionId: string): Promise<SimulationRunResponse> {
+  async queueSimulationRun(
+    userId: string,
+    versionId: string,
+    request: QueueSimulationRunRequest
+  ): Promise<SimulationRunResponse> {
     const access = await this.projectsService.assertVersionEditAccess(userId, versionId);
 
+    return {
+      run: await this.queueVersionRun(access.projectId, versionId, request)
+    };
+  }
+
+  // Queues a run of the version as it is now; callers check access first.
+  async queueVersionRun(
+    projectId: string,
+    versionId: string,
+    request: QueueSimulationRunRequest,
+    batchId: string | null = null
+  ): Promise<SimulationRun> {
     const version = await this.prisma.architectureVersion.findFirst({
       where: { id: versionId },
       select: {
@@ -52,7 +103,8 @@ export class RunsService {
         projectId: true,
         components: true,
         edges: true,
-        trafficProfile: true
+        trafficProfile: true,
+        slo: true
       }
     });
 
@@ -60,16 +112,26 @@ export class RunsService {
       throw new NotFoundException('Version not found.');
     }
 
-    const inputContract = simulationInputContractSchema.parse({
-      components: this.toComponentArray(version.components),
-      edges: this.toEdgeArray(version.edges),
-      trafficProfile: this.toTrafficProfile(version.trafficProfile)
-    });
+    const inputContract = simulationInputContractSchema.parse(
+      versionInputContract({
+        components: this.toComponentArray(version.components),
+        edges: this.toEdgeArray(version.edges),
+        trafficProfile: this.toTrafficProfile(version.trafficProfile),
+        slo: this.toSlo(version.slo)
+      })
+    );
+
+    const mode = request.mode ?? 'analytical';
+    const monteCarlo = mode === 'monte-carlo';
 
     const createdRun = await this.prisma.simulationRun.create({
       data: {
-        projectId: access.projectId,
+        projectId,
         versionId: version.id,
+        batchId,
+        mode,
+        seed: monteCarlo ? (request.seed ?? randomInt(0, 2_147_483_647)) : null,
+        iterations: monteCarlo ? (request.iterations ?? DEFAULT_MONTE_CARLO_ITERATIONS) : null,
         status: 'pending',
         inputContract: inputContract as unknown as Prisma.InputJsonValue,
         bottlenecks: [] as unknown as Prisma.InputJsonValue,
@@ -122,14 +184,10 @@ export class RunsService {
         }
       });
 
-      return {
-        run: this.toSimulationRun(failedRun)
-      };
+      return this.toSimulationRun(failedRun);
     }
 
-    return {
-      run: this.toSimulationRun(createdRun)
-    };
+    return this.toSimulationRun(createdRun);
   }
 
   async getSimulationRun(userId: string, runId: string): Promise<SimulationRunResponse> {
@@ -158,7 +216,7 @@ export class RunsService {
   async queueFailureInjectionRun(
     userId: string,
     baselineRunId: string,
-    profile: FailureInjectionProfile
+    request: FailureInjectionRequest
   ): Promise<SimulationRunResponse> {
     const baselineRun = await this.prisma.simulationRun.findUnique({
       where: { id: baselineRunId },
@@ -181,22 +239,90 @@ export class RunsService {
       throw new BadRequestException('Baseline run must be completed before failure injection.');
     }
 
-    const parsedProfile = failureInjectionProfileSchema.safeParse(profile);
-    if (!parsedProfile.success) {
-      throw new BadRequestException(parsedProfile.error.flatten());
-    }
-
     const parsedInput = simulationInputContractSchema.safeParse(baselineRun.inputContract);
     if (!parsedInput.success) {
       throw new BadRequestException('Baseline run has invalid input contract.');
     }
 
-    const injectedInput = applyFailureInjection(parsedInput.data, parsedProfile.data);
-    if (
-      (parsedProfile.data.mode === 'node-down' || parsedProfile.data.mode === 'dependency-lag') &&
-      injectedInput.impactedComponentIds.length === 0
-    ) {
-      throw new BadRequestException('targetComponentId was not found in baseline architecture.');
+    // Injected runs are judged against the SLOs in effect now, not when the baseline ran.
+    const version = await this.prisma.architectureVersion.findUnique({
+      where: { id: baselineRun.versionId },
+      select: { slo: true }
+    });
+    const inputContract: SimulationInputContract = {
+      ...parsedInput.data,
+      slo: this.toSlo(version?.slo ?? null)
+    };
+
+    let profile: FailureInjectionProfile | null = null;
+    let chaosExperiment: ChaosExperimentRun | null = null;
+    let queuedEvents: Array<{
+      atSecond: number;
+      title: string;
+      description: string;
+      componentId: string | null;
+    }>;
+
+    if (request.experimentId) {
+      const experiment = await this.chaosExperiments.getProjectChaosExperiment(
+        baselineRun.projectId,
+        request.experimentId
+      );
+      chaosExperiment = {
+        experimentId: experiment.id,
+        name: experiment.name,
+        steps: experiment.steps
+      };
+
+      const chaos = applyChaosExperiment(parsedInput.data, experiment.steps);
+      chaos.steps.forEach((step, index) => {
+        this.assertInjectionApplied(
+          step.profile,
+          step.impactedComponentIds,
+          `Step ${index + 1} (t=${step.atSecond}s): `
+        );
+      });
+
+      queuedEvents = [
+        {
+          atSecond: 0,
+          title: 'Chaos experiment queued',
+          description: `Queued "${experiment.name}" (${chaos.steps.length} steps) against baseline run ${baselineRun.id}.`,
+          componentId: null
+        },
+        ...chaos.steps.flatMap((step, index) =>
+          step.notes.map((note) => ({
+            atSecond: step.atSecond,
+            title: `Chaos step ${index + 1}: ${step.profile.mode}`,
+            description: note,
+            componentId: step.profile.targetComponentId ?? null
+          }))
+        )
+      ];
+    } else {
+      const parsedProfile = failureInjectionProfileSchema.safeParse(request.profile);
+      if (!parsedProfile.success) {
+        throw new BadRequestException(parsedProfile.error.flatten());
+      }
+      profile = parsedProfile.data;
+
+      const injectedInput = applyFailureInjection(parsedInput.data, profile);
+      this.assertInjectionApplied(profile, injectedInput.impactedComponentIds);
+
+      queuedEvents = [
+        {
+          atSecond: 0,
+          title: 'Failure injection queued',
+          description: `Queued ${profile.mode} against baseline run ${baselineRun.id}.`,
+          componentId: profile.targetComponentId ?? null
+        },
+        ...injectedInput.notes.map((note, index) => ({
+          atSecond: 1 + index,
+          title: 'Injected condition',
+          description: note,
+          componentId: profile?.targetComponentId ?? null
+        }))
+      ];
     }
 
     const createdRun = await this.prisma.simulationRun.create({
@@ -204,29 +330,25 @@ export class RunsService {
         projectId: baselineRun.projectId,
         versionId: baselineRun.versionId,
         baselineRunId: baselineRun.id,
+        mode: baselineRun.mode,
+        seed: baselineRun.seed,
+        iterations: baselineRun.iterations,
         status: 'pending',
-        inputContract: parsedInput.data as unknown as Prisma.InputJsonValue,
-        failureProfile: parsedProfile.data as unknown as Prisma.InputJsonValue,
+        inputContract: inputContract as unknown as Prisma.InputJsonValue,
+        failureProfile: profile ? (profile as unknown as Prisma.InputJsonValue) : Prisma.JsonNull,
+        chaosExperiment: chaosExperiment
+          ? (chaosExperiment as unknown as Prisma.InputJsonValue)
+          : Prisma.JsonNull,
         bottlenecks: [] as unknown as Prisma.InputJsonValue,
         events: {
-          create: [
-            {
-              sequence: 0,
-              atSecond: 0,
-              severity: 'info',
-              title: 'Failure injection queued',
-              description: `Queued ${parsedProfile.data.mode} against baseline run ${baselineRun.id}.`,
-              componentId: parsedProfile.data.targetComponentId ?? null
-            },
-            ...injectedInput.notes.map((note, index) => ({
-              sequence: index + 1,
-              atSecond: 1 + index,
-              severity: 'warning' as const,
-              title: 'Injected condition',
-              description: note,
-              componentId: parsedProfile.data.targetComponentId ?? null
-            }))
-          ]
+          create: queuedEvents.map((event, index) => ({
+            sequence: index,
+            atSecond: event.atSecond,
+            severity: index === 0 ? ('info' as const) : ('warning' as const),
+            title: event.title,
+            description: event.description,
+            componentId: event.componentId
+          }))
         }
       },
       include: {
@@ -254,7 +376,298 @@ export class RunsService {
               severity: 'critical',
               title: 'Queue failure',
               description: 'The failure injection run could not be sent to the simulation queue.',
-              componentId: parsedProfile.data.targetComponentId ?? null
+              componentId: profile?.targetComponentId ?? null
+            }
+          }
+        },
+        include: {
+          events: {
+            orderBy: {
+              sequence: 'asc'
+            }
+          }
+        }
+      });
+
+      return {
+        run: this.toSimulationRun(failedRun)
+      };
+    }
+
+    return {
+      run: this.toSimulationRun(createdRun)
+    };
+  }
+
+  async cancelSimulationRun(userId: string, runId: string): Promise<SimulationRunResponse> {
+    const run = await this.findEditableRun(userId, runId);
+
+    const cancelled = await this.prisma.simulationRun.updateMany({
+      where: { id: run.id, status: { in: ['pending', 'running'] } },
+      data: {
+        status: 'cancelled',
+        completedAt: new Date()
+      }
+    });
+    if (cancelled.count === 0) {
+      throw new BadRequestException('Only pending or running runs can be cancelled.');
+    }
+
+    await this.appendRunEvent(run.id, {
+      atSecond: 0,
+      severity: 'warning',
+      title: 'Run cancelled',
+      description: 'The run was cancelled before it completed.',
+      componentId: null
+    });
+
+    // Both best effort: the worker checks for cancellation between steps, and watchers reload the run.
+    await (
+      run.replayOfRunId && run.engineVersion
+        ? this.simulationQueue.removeReplay(run.engineVersion, run.id)
+        : this.simulationQueue.removeSimulationRun(run.id)
+    ).catch(() => undefined);
+    await this.runStream
+      .publish(run.id, { type: 'status', status: 'cancelled', failureReason: null })
+      .catch(() => undefined);
+
+    return this.getSimulationRun(userId, run.id);
+  }
+
+  async retrySimulationRun(userId: string, runId: string): Promise<SimulationRunResponse> {
+    const run = await this.findEditableRun(userId, runId);
+    if (run.status !== 'failed' && run.status !== 'cancelled') {
+      throw new BadRequestException('Only failed or cancelled runs can be retried.');
+    }
+
+    const parsedInput = simulationInputContractSchema.safeParse(run.inputContract);
+    if (!parsedInput.success) {
+      throw new BadRequestException('Run has invalid input contract.');
+    }
+
+    // A retried replay stays on the engine version it was replaying under.
+    const replay =
+      run.replayOfRunId && run.engineVersion
+        ? { replayOfRunId: run.replayOfRunId, engineVersion: run.engineVersion }
+        : null;
+    if (replay) {
+      await this.assertEngineAvailable(replay.engineVersion);
+    }
+
+    return this.queueRunCopy(
+      run,
+      parsedInput.data,
+      {
+        title: 'Retry queued',
+        description: `Retrying run ${run.id} with the same inputs.`
+      },
+      replay,
+      // The retry takes the failed run's place in its batch.
+      run.batchId
+    );
+  }
+
+  async rerunSimulationRun(
+    userId: string,
+    runId: string,
+    request: RerunSimulationRunRequest
+  ): Promise<SimulationRunResponse> {
+    const run = await this.findEditableRun(userId, runId);
+    if (run.status === 'pending' || run.status === 'running') {
+      throw new BadRequestException('Wait for the run to finish, or cancel it, before re-running it.');
+    }
+
+    const parsedInput = simulationInputContractSchema.safeParse(run.inputContract);
+    if (!parsedInput.success) {
+      throw new BadRequestException('Run has invalid input contract.');
+    }
+
+    return this.queueRunCopy(
+      run,
+      {
+        ...parsedInput.data,
+        trafficProfile: request.trafficProfile ?? parsedInput.data.trafficProfile
+      },
+      {
+        title: 'Re-run queued',
+        description: request.trafficProfile
+          ? `Re-running run ${run.id} with a modified traffic profile.`
+          : `Re-running run ${run.id} with the same inputs.`
+      }
+    );
+  }
+
+  /**
+   * Recomputes a completed run from its stored inputs, seed and injected faults on a worker
+   * running the requested engine version, so the two results can be diffed.
+   */
+  async replaySimulationRun(
+    userId: string,
+    runId: string,
+    request: ReplaySimulationRunRequest
+  ): Promise<SimulationRunResponse> {
+    const run = await this.findEditableRun(userId, runId);
+    if (run.status !== 'completed') {
+      throw new BadRequestException('Only completed runs can be replayed.');
+    }
+
+    const parsedInput = simulationInputContractSchema.safeParse(run.inputContract);
+    if (!parsedInput.success) {
+      throw new BadRequestException('Run has invalid input contract.');
+    }
+
+    const engineVersion = request.engineVersion ?? SIMULATION_ENGINE_VERSION;
+    await this.assertEngineAvailable(engineVersion);
+
+    return this.queueRunCopy(
+      run,
+      parsedInput.data,
+      {
+        title: 'Replay queued',
+        description: `Replaying run ${run.id} under engine version ${engineVersion}.`
+      },
+      { replayOfRunId: run.id, engineVersion }
+    );
+  }
+
+  async getReplayDiff(userId: string, runId: string): Promise<RunReplayDiffResponse> {
+    const { run: replay } = await this.getSimulationRun(userId, runId);
+    if (!replay.replayOfRunId) {
+      throw new BadRequestException('Run is not a replay of another run.');
+    }
+    if (replay.status !== 'completed') {
+      throw new BadRequestException('Replay has not completed yet.');
+    }
+
+    const { run: source } = await this.getSimulationRun(userId, replay.replayOfRunId);
+
+    return {
+      diff: {
+        sourceRunId: source.id,
+        replayRunId: replay.id,
+        sourceEngineVersion: source.engineVersion,
+        replayEngineVersion: replay.engineVersion,
+        ...diffSimulationResults(source, replay)
+      }
+    };
+  }
+
+  private async findEditableRun(userId: string, runId: string): Promise<SimulationRunRecord> {
+    const run = await this.prisma.simulationRun.findUnique({
+      where: { id: runId },
+      include: {
+        events: {
+          orderBy: {
+            sequence: 'asc'
+          }
+        }
+      }
+    });
+
+    if (!run) {
+      throw new NotFoundException('Simulation run not found.');
+    }
+
+    await this.projectsService.assertProjectEditAccess(userId, run.projectId);
+    return run;
+  }
+
+  // The worker may be appending to the same run, so a sequence taken in the meantime is retried.
+  private async appendRunEvent(
+    runId: string,
+    event: Omit<Prisma.SimulationRunEventUncheckedCreateInput, 'runId' | 'sequence'>
+  ): Promise<void> {
+    for (let attempt = 1; ; attempt += 1) {
+      const sequence = await this.prisma.simulationRunEvent.count({ where: { runId } });
+      try {
+        await this.prisma.simulationRunEvent.create({ data: { ...event, runId, sequence } });
+        return;
+      } catch (error) {
+        if (attempt >= MAX_EVENT_APPEND_ATTEMPTS || !isUniqueConflict(error)) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  private async assertEngineAvailable(engineVersion: string): Promise<void> {
+    if (!(await this.simulationEngines.isEngineAvailable(engineVersion))) {
+      throw new BadRequestException(`No simulation worker is running engine version ${engineVersion}.`);
+    }
+  }
+
+  /**
+   * Queues a new run that repeats `source` (mode, seed, baseline and injected faults) on
+   * `inputContract`. Replays go to the queue of the engine version they are pinned to.
+   */
+  private async queueRunCopy(
+    source: SimulationRunRecord,
+    inputContract: SimulationInputContract,
+    queuedEvent: { title: string; description: string },
+    replay: { replayOfRunId: string; engineVersion: string } | null = null,
+    batchId: string | null = null
+  ): Promise<SimulationRunResponse> {
+    const createdRun = await this.prisma.simulationRun.create({
+      data: {
+        projectId: source.projectId,
+        versionId: source.versionId,
+        batchId,
+        baselineRunId: source.baselineRunId,
+        replayOfRunId: replay?.replayOfRunId ?? null,
+        engineVersion: replay?.engineVersion ?? null,
+        mode: source.mode,
+        seed: source.seed,
+        iterations: source.iterations,
+        status: 'pending',
+        inputContract: inputContract as unknown as Prisma.InputJsonValue,
+        failureProfile: source.failureProfile
+          ? (source.failureProfile as Prisma.InputJsonValue)
+          : Prisma.JsonNull,
+        chaosExperiment: source.chaosExperiment
+          ? (source.chaosExperiment as Prisma.InputJsonValue)
+          : Prisma.JsonNull,
+        bottlenecks: [] as unknown as Prisma.InputJsonValue,
+        events: {
+          create: {
+            sequence: 0,
+            atSecond: 0,
+            severity: 'info',
+            title: queuedEvent.title,
+            description: queuedEvent.description,
+            componentId: null
+          }
+        }
+      },
+      include: {
+        events: {
+          orderBy: {
+            sequence: 'asc'
+          }
+        }
+      }
+    });
+
+    try {
+      if (replay) {
+        await this.simulationQueue.enqueueReplay(replay.engineVersion, { runId: createdRun.id });
+      } else {
+        await this.simulationQueue.enqueueSimulationRun({ runId: createdRun.id });
+      }
+    } catch {
+      const failedRun = await this.prisma.simulationRun.update({
+        where: { id: createdRun.id },
+        data: {
+          status: 'failed',
+          failureReason: 'Failed to enqueue simulation job.',
+          completedAt: new Date(),
+          events: {
+            create: {
+              sequence: createdRun.events.length,
+              atSecond: 0,
+              severity: 'critical',
+              title: 'Queue failure',
+              description: 'The run could not be sent to the simulation queue.',
+              componentId: null
             }
           }
         },
@@ -277,19 +690,69 @@ export class RunsService {
     };
   }
 
+  // Rejects injections that matched nothing in the baseline; `context` prefixes the message.
+  private assertInjectionApplied(
+    profile: FailureInjectionProfile,
+    impactedComponentIds: string[],
+    context = ''
+  ): void {
+    if (impactedComponentIds.length > 0) {
+      return;
+    }
+    if (profile.mode === 'node-down' || profile.mode === 'dependency-lag') {
+      throw new BadRequestException(
+        `${context}targetComponentId was not found in baseline architecture.`
+      );
+    }
+    if (profile.mode === 'az-down' || profile.mode === 'region-down') {
+      throw new BadRequestException(
+        `${context}No components are placed in the selected zone or region.`
+      );
+    }
+    if (profile.mode === 'cache-flush') {
+      throw new BadRequestException(
+        `${context}No cache components matched the cache-flush target.`
+      );
+    }
+    if (profile.mode === 'primary-failover') {
+      throw new BadRequestException(
+        `${context}targetComponentId must reference a database in the baseline architecture.`
+      );
+    }
+    if (profile.mode === 'packet-loss' || (profile.mode === 'network-partition' && profile.edgeIds)) {
+      throw new BadRequestException(`${context}edgeIds were not found in baseline architecture.`);
+    }
+    if (profile.mode === 'network-partition') {
+      throw new BadRequestException(`${context}No links cross the selected zone partition.`);
+    }
+  }
+
   private toSimulationRun(run: SimulationRunRecord): SimulationRun {
     const status = simulationRunStatusSchema.safeParse(run.status);
     const metrics = simulationMetricsSchema.safeParse(run.metrics);
     const bottlenecks = simulationBottleneckSchema.array().safeParse(run.bottlenecks);
     const failureProfile = failureInjectionProfileSchema.safeParse(run.failureProfile);
+    const chaosExperiment = chaosExperimentRunSchema.safeParse(run.chaosExperiment);
     const blastRadius = blastRadiusSummarySchema.safeParse(run.blastRadius);
+    const mode = simulationModeSchema.safeParse(run.mode);
+    const series = simulationTickSchema.array().safeParse(run.series);
+    const confidence = simulationConfidenceSummarySchema.safeParse(run.confidence);
+    const sloEvaluation = sloEvaluationSchema.safeParse(run.sloEvaluation);
+    const explanation = runExplanationSchema.safeParse(run.explanation);
 
     return {
       id: run.id,
       projectId: run.projectId,
       versionId: run.versionId,
       baselineRunId: run.baselineRunId,
+      batchId: run.batchId,
+      engineVersion: run.engineVersion,
+      replayOfRunId: run.replayOfRunId,
+      mode: mode.success ? mode.data : 'analytical',
+      seed: run.seed,
+      iterations: run.iterations,
       failureProfile: failureProfile.success ? failureProfile.data : null,
+      chaosExperiment: chaosExperiment.success ? chaosExperiment.data : null,
       blastRadius: blastRadius.success ? blastRadius.data : null,
       status: status.success ? status.data : 'failed',
       queuedAt: run.queuedAt.toISOString(),
@@ -309,6 +772,10 @@ export class RunsService {
           componentId: event.componentId
         };
       }),
+      series: series.success ? series.data : [],
+      confidence: confidence.success ? confidence.data : null,
+      sloEvaluation: sloEvaluation.success ? sloEvaluation.data : null,
+      explanation: explanation.success ? explanation.data : null,
       createdAt: run.createdAt.toISOString(),
       updatedAt: run.updatedAt.toISOString()
     };
@@ -331,4 +798,9 @@ export class RunsService {
     }
     return defaultTrafficProfile;
   }
+
+  private toSlo(value: Prisma.JsonValue | null): SloDefinition | undefined {
+    const parsed = sloDefinitionSchema.safeParse(value);
+    return parsed.success ? parsed.data : undefined;
+  }
 }
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import type { PrismaService } from '../prisma/prisma.service.js';
+import type { ProjectsService } from '../projects/projects.service.js';
+import type { RunsService } from './runs.service.js';
+import { SimulationBatchesService } from './simulation-batches.service.js';
+
+function batchRun(id: string, versionNumber: number, status: string, createdAt: string) {
+  return {
+    id,
+    versionId: `version-${versionNumber}`,
+    status,
+    engineVersion: '1.0.0',
+    failureReason: status === 'failed' ? 'Worker crashed.' : null,
+    completedAt: new Date(createdAt),
+    createdAt: new Date(createdAt),
+    version: { versionNumber }
+  };
+}
+
+describe('SimulationBatchesService', () => {
+  it('counts a successful retry in place of the failed run it replaces', async () => {
+    const batch = {
+      id: 'batch-1',
+      projectId: 'project-1',
+      mode: 'analytical',
+      engineVersion: '1.0.0',
+      createdAt: new Date('2026-01-01T00:00:00Z'),
+      updatedAt: new Date('2026-01-01T00:00:00Z'),
+      runs: [
+        batchRun('run-1', 1, 'failed', '2026-01-01T00:00:00Z'),
+        batchRun('retry-1', 1, 'completed', '2026-01-01T00:05:00Z'),
+        batchRun('run-2', 2, 'completed', '2026-01-01T00:00:00Z')
+      ]
+    };
+    const prisma = {
+      simulationBatch: {
+        findUnique: async () => batch
+      }
+    };
+    const projectsService = {
+      assertProjectViewAccess: async () => undefined
+    };
+    const service = new SimulationBatchesService(
+      prisma as unknown as PrismaService,
+      projectsService as unknown as ProjectsService,
+      {} as RunsService
+    );
+
+    const { batch: result } = await service.getSimulationBatch('user-1', 'batch-1');
+
+    expect(result.status).toBe('completed');
+    expect(result.progress).toMatchObject({
+      total: 2,
+      completed: 2,
+      failed: 0,
+      percentComplete: 100
+    });
+    expect(result.runs.map((run) => run.runId)).toEqual(['retry-1', 'run-2']);
+  });
+});
@@ -0,0 +1,223 @@
+import { BadRequestException, Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { SIMULATION_ENGINE_VERSION } from '@sdc/simulation-core';
+import {
+  CreateSimulationBatchRequest,
+  SimulationBatch,
+  SimulationBatchListResponse,
+  SimulationBatchProgress,
+  SimulationBatchResponse,
+  SimulationRunStatus,
+  simulationModeSchema,
+  simulationRunStatusSchema
+} from '@sdc/shared-types';
+import { PrismaService } from '../prisma/prisma.service.js';
+import { ProjectsService } from '../projects/projects.service.js';
+import { RunsService } from './runs.service.js';
+
+type SimulationBatchRecord = Prisma.SimulationBatchGetPayload<{
+  include: {
+    runs: {
+      select: {
+        id: true;
+        versionId: true;
+        status: true;
+        engineVersion: true;
+        failureReason: true;
+        completedAt: true;
+        createdAt: true;
+        version: {
+          select: {
+            versionNumber: true;
+          };
+        };
+      };
+    };
+  };
+}>;
+
+const MAX_LISTED_BATCHES = 10;
+
+function toBatchStatus(progress: SimulationBatchProgress): SimulationRunStatus {
+  if (progress.pending + progress.running > 0) {
+    return progress.pending === progress.total ? 'pending' : 'running';
+  }
+  if (progress.failed > 0) {
+    return 'failed';
+  }
+  return progress.completed === 0 && progress.total > 0 ? 'cancelled' : 'completed';
+}
+
+@Injectable()
+export class SimulationBatchesService {
+  constructor(
+    @Inject(PrismaService) private readonly prisma: PrismaService,
+    @Inject(ProjectsService) private readonly projectsService: ProjectsService,
+    @Inject(RunsService) private readonly runsService: RunsService
+  ) {}
+
+  /**
+   * Re-simulates every version of the project as it is now, one run per version, so results
+   * recorded under an older engine version can be replaced in one go.
+   */
+  async queueSimulationBatch(
+    userId: string,
+    projectId: string,
+    request: CreateSimulationBatchRequest
+  ): Promise<SimulationBatchResponse> {
+    await this.projectsService.assertProjectEditAccess(userId, projectId);
+
+    const versions = await this.prisma.architectureVersion.findMany({
+      where: { projectId },
+      select: { id: true },
+      orderBy: { versionNumber: 'asc' }
+    });
+    if (versions.length === 0) {
+      throw new BadRequestException('Project has no versions to simulate.');
+    }
+
+    const mode = request.mode ?? 'analytical';
+    const batch = await this.prisma.simulationBatch.create({
+      data: {
+        projectId,
+        mode,
+        engineVersion: SIMULATION_ENGINE_VERSION
+      }
+    });
+
+    for (const version of versions) {
+      await this.runsService.queueVersionRun(projectId, version.id, { mode }, batch.id);
+    }
+
+    return this.getSimulationBatch(userId, batch.id);
+  }
+
+  async getSimulationBatch(userId: string, batchId: string): Promise<SimulationBatchResponse> {
+    const batch = await this.prisma.simulationBatch.findUnique({
+      where: { id: batchId },
+      include: {
+        runs: {
+          select: {
+            id: true,
+            versionId: true,
+            status: true,
+            engineVersion: true,
+            failureReason: true,
+            completedAt: true,
+            createdAt: true,
+            version: {
+              select: {
+                versionNumber: true
+              }
+            }
+          },
+          orderBy: {
+            version: {
+              versionNumber: 'asc'
+            }
+          }
+        }
+      }
+    });
+
+    if (!batch) {
+      throw new NotFoundException('Simulation batch not found.');
+    }
+
+    await this.projectsService.assertProjectViewAccess(userId, batch.projectId);
+
+    return {
+      batch: this.toSimulationBatch(batch)
+    };
+  }
+
+  async listSimulationBatches(
+    userId: string,
+    projectId: string
+  ): Promise<SimulationBatchListResponse> {
+    await this.projectsService.assertProjectViewAccess(userId, projectId);
+
+    const batches = await this.prisma.simulationBatch.findMany({
+      where: { projectId },
+      include: {
+        runs: {
+          select: {
+            id: true,
+            versionId: true,
+            status: true,
+            engineVersion: true,
+            failureReason: true,
+            completedAt: true,
+            createdAt: true,
+            version: {
+              select: {
+                versionNumber: true
+              }
+            }
+          },
+          orderBy: {
+            version: {
+              versionNumber: 'asc'
+            }
+          }
+        }
+      },
+      orderBy: { createdAt: 'desc' },
+      take: MAX_LISTED_BATCHES
+    });
+
+    return {
+      batches: batches.map((batch) => this.toSimulationBatch(batch))
+    };
+  }
+
+  private toSimulationBatch(batch: SimulationBatchRecord): SimulationBatch {
+    // A retried run stays in the batch, but only the latest run of each version counts.
+    const latestByVersion = new Map<string, SimulationBatchRecord['runs'][number]>();
+    for (const run of batch.runs) {
+      const latest = latestByVersion.get(run.versionId);
+      if (!latest || run.createdAt > latest.createdAt) {
+        latestByVersion.set(run.versionId, run);
+      }
+    }
+
+    const runs = [...latestByVersion.values()].map((run) => {
+      const status = simulationRunStatusSchema.safeParse(run.status);
+      return {
+        runId: run.id,
+        versionId: run.versionId,
+        versionNumber: run.version.versionNumber,
+        status: status.success ? status.data : ('failed' as const),
+        engineVersion: run.engineVersion,
+        failureReason: run.failureReason,
+        completedAt: run.completedAt ? run.completedAt.toISOString() : null
+      };
+    });
+
+    const count = (status: SimulationRunStatus) =>
+      runs.filter((run) => run.status === status).length;
+    const finished = count('completed') + count('failed') + count('cancelled');
+    const progress: SimulationBatchProgress = {
+      total: runs.length,
+      pending: count('pending'),
+      running: count('running'),
+      completed: count('completed'),
+      failed: count('failed'),
+      cancelled: count('cancelled'),
+      percentComplete: runs.length > 0 ? Math.round((finished / runs.length) * 100) : 100
+    };
+    const mode = simulationModeSchema.safeParse(batch.mode);
+
+    return {
+      id: batch.id,
+      projectId: batch.projectId,
+      mode: mode.success ? mode.data : 'analytical',
+      engineVersion: batch.engineVersion,
+      status: toBatchStatus(progress),
+      progress,
+      runs,
+      createdAt: batch.createdAt.toISOString(),
+      updatedAt: batch.updatedAt.toISOString()
+    };
+  }
+}
@@ -0,0 +1,41 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { SIMULATION_ENGINE_VERSION } from '@sdc/simulation-core';
+import { SimulationEnginesResponse, simulationEngineHeartbeatKey } from '@sdc/shared-types';
+import { Redis } from 'ioredis';
+
+// Heartbeat keys expire on their own, so every key still present belongs to a live worker.
+const HEARTBEAT_KEY_PREFIX = simulationEngineHeartbeatKey('');
+
+@Injectable()
+export class SimulationEnginesService implements OnModuleDestroy {
+  private readonly redis: Redis;
+
+  constructor() {
+    const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
+    this.redis = new Redis(redisUrl, {
+      maxRetriesPerRequest: 1
+    });
+  }
+
+  async listSimulationEngines(): Promise<SimulationEnginesResponse> {
+    // SCAN rather than KEYS, so listing never blocks Redis for the other clients.
+    const keys: string[] = [];
+    const stream = this.redis.scanStream({ match: `${HEARTBEAT_KEY_PREFIX}*`, count: 100 });
+    for await (const batch of stream) {
+      keys.push(...(batch as string[]));
+    }
+
+    return {
+      current: SIMULATION_ENGINE_VERSION,
+      available: [...new Set(keys)].map((key) => key.slice(HEARTBEAT_KEY_PREFIX.length)).sort()
+    };
+  }
+
+  async isEngineAvailable(engineVersion: string): Promise<boolean> {
+    return (await this.redis.exists(simulationEngineHeartbeatKey(engineVersion))) > 0;
+  }
+
+  async onModuleDestroy() {
+    await this.redis.quit();
+  }
+}
@@ -1,16 +1,21 @@
 import { Inject, Injectable, OnModuleDestroy } from '@nestjs/common';
 import { Queue } from 'bullmq';
-import { SimulationRunQueueJob } from '@sdc/shared-types';
+import {
+  SimulationRunQueueJob,
+  SimulationSweepQueueJob,
+  simulationReplayQueueName
+} from '@sdc/shared-types';
 import { ObservabilityService } from '../observability/observability.service.js';
 
 @Injectable()
 export class SimulationQueueService implements OnModuleDestroy {
-  private readonly queue: Queue<SimulationRunQueueJob>;
+  private readonly queue: Queue<SimulationRunQueueJob | SimulationSweepQueueJob>;
+  private readonly replayQueues = new Map<string, Queue<SimulationRunQueueJob>>();
+  private readonly redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
 
   constructor(@Inject(ObservabilityService) private readonly observability: ObservabilityService) {
-    const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
-    this.queue = new Queue<SimulationRunQueueJob>('simulation-runs', {
-      connection: { url: redisUrl }
+    this.queue = new Queue<SimulationRunQueueJob | SimulationSweepQueueJob>('simulation-runs', {
+      connection: { url: this.redisUrl }
     });
   }
 
@@ -31,7 +36,67 @@ export class SimulationQueueService implements OnModuleDestroy {
     });
   }
 
+  async enqueueParameterSweep(job: SimulationSweepQueueJob): Promise<void> {
+    await this.queue.add('sweep-version', job, {
+      jobId: job.sweepId,
+      attempts: 1,
+      removeOnComplete: 500,
+      removeOnFail: 500
+    });
+
+    await this.observability.recordJobTelemetry({
+      queueName: 'simulation-runs',
+      jobType: 'sweep-version',
+      jobId: job.sweepId,
+      state: 'queued',
+      attempt: 0
+    });
+  }
+
+  async enqueueReplay(engineVersion: string, job: SimulationRunQueueJob): Promise<void> {
+    const queueName = simulationReplayQueueName(engineVersion);
+    await this.replayQueue(engineVersion).add('simulate-version', job, {
+      jobId: job.runId,
+      attempts: 1,
+      removeOnComplete: 500,
+      removeOnFail: 500
+    });
+
+    await this.observability.recordJobTelemetry({
+      queueName,
+      jobType: 'simulate-version',
+      jobId: job.runId,
+      state: 'queued',
+      attempt: 0
+    });
+  }
+
+  async removeReplay(engineVersion: string, runId: string): Promise<void> {
+    await this.replayQueue(engineVersion).remove(runId);
+  }
+
+  // Drops a job still waiting in the queue; one a worker holds is left to notice the cancellation itself.
+  async removeSimulationRun(runId: string): Promise<void> {
+    await this.queue.remove(runId);
+  }
+
   async onModuleDestroy() {
-    await this.queue.close();
+    await Promise.all([
+      this.queue.close(),
+      ...[...this.replayQueues.values()].map((queue) => queue.close())
+    ]);
+  }
+
+  private replayQueue(engineVersion: string): Queue<SimulationRunQueueJob> {
+    const existing = this.replayQueues.get(engineVersion);
+    if (existing) {
+      return existing;
+    }
+
+    const queue = new Queue<SimulationRunQueueJob>(simulationReplayQueueName(engineVersion), {
+      connection: { url: this.redisUrl }
+    });
+    this.replayQueues.set(engineVersion, queue);
+    return queue;
   }
 }
@@ -1,5 +1,5 @@
 import { Prisma, PrismaClient } from '@prisma/client';
-import { evaluateDeterministicRubric } from '@sdc/grading-core';
+import { CostEstimate, SloEvidence, evaluateDeterministicRubric } from '@sdc/grading-core';
 import {
   ArchitectureComponent,
   ArchitectureEdge,
@@ -11,6 +11,8 @@ import {
   defaultTrafficProfile,
   gradeCategoryScoreSchema,
   gradeRunQueueJobSchema,
+  simulationMetricsSchema,
+  sloEvaluationSchema,
   trafficProfileSchema
 } from '@sdc/shared-types';
 import { Worker } from 'bullmq';
@@ -35,6 +37,71 @@ function toTrafficProfile(value: Prisma.JsonValue): TrafficProfile {
   return parsed.success ? parsed.data : defaultTrafficProfile;
 }
 
+// Cost from the version's latest completed run without injected failures.
+async function latestCostEstimate(versionId: string): Promise<CostEstimate | null> {
+  const run = await prisma.simulationRun.findFirst({
+    where: {
+      versionId,
+      baselineRunId: null,
+      status: 'completed',
+      replayOfRunId: null
+    },
+    select: {
+      metrics: true
+    },
+    orderBy: {
+      completedAt: 'desc'
+    }
+  });
+  const parsed = simulationMetricsSchema.safeParse(run?.metrics);
+  if (
+    !parsed.success ||
+    parsed.data.monthlyCostUsd === undefined ||
+    parsed.data.costPerMillionRequestsUsd === undefined
+  ) {
+    return null;
+  }
+
+  return {
+    monthlyCostUsd: parsed.data.monthlyCostUsd,
+    costPerMillionRequestsUsd: parsed.data.costPerMillionRequestsUsd
+  };
+}
+
+// SLO results of the version's latest normal run and its recent failure-injection runs.
+async function latestSloEvidence(versionId: string): Promise<SloEvidence | null> {
+  const runs = await prisma.simulationRun.findMany({
+    where: {
+      versionId,
+      status: 'completed',
+      replayOfRunId: null
+    },
+    select: {
+      baselineRunId: true,
+      sloEvaluation: true
+    },
+    orderBy: {
+      completedAt: 'desc'
+    },
+    take: 20
+  });
+  const evaluated = runs.flatMap((run) => {
+    const parsed = sloEvaluationSchema.safeParse(run.sloEvaluation);
+    return parsed.success ? [{ injected: run.baselineRunId !== null, evaluation: parsed.data }] : [];
+  });
+  if (evaluated.length === 0) {
+    return null;
+  }
+
+  return {
+    steadyState: evaluated.find((run) => !run.injected)?.evaluation ?? null,
+    underFailure: evaluated
+      .filter((run) => run.injected)
+      .slice(0, 5)
+      .map((run) => run.evaluation)
+  };
+}
+
 function actionItemsToFeedbackRows(
   gradeReportId: string,
   actionItems: GradeActionItem[]
@@ -54,9 +121,22 @@ function actionItemsToFeedbackRows(
   }));
 }
 
-async function failGradeReport(gradeReportId: string, message: string): Promise<void> {
-  await prisma.gradeReport.update({
+// Thrown between grading steps once the report has been cancelled, so it is not marked failed.
+class GradeCancelledError extends Error {}
+
+async function assertGradeNotCancelled(gradeReportId: string): Promise<void> {
+  const report = await prisma.gradeReport.findUnique({
     where: { id: gradeReportId },
+    select: { status: true }
+  });
+  if (report?.status === 'cancelled') {
+    throw new GradeCancelledError(`Grade report ${gradeReportId} was cancelled.`);
+  }
+}
+
+async function failGradeReport(gradeReportId: string, message: string): Promise<void> {
+  await prisma.gradeReport.updateMany({
+    where: { id: gradeReportId, status: { not: 'cancelled' } },
     data: {
       status: 'failed',
       failureReason: message,
@@ -70,7 +150,7 @@ async function recordJobTelemetry(
     queueName: string;
     jobType: string;
     jobId: string;
-    state: 'running' | 'completed' | 'failed';
+    state: 'running' | 'completed' | 'failed' | 'cancelled';
     attempt: number;
     durationMs?: number;
     errorMessage?: string | null;
@@ -128,9 +208,10 @@ const worker = new Worker<GradeRunQueueJob>(
       throw new Error(`Grade report ${gradeReportId} not found.`);
     }
 
-    await prisma.gradeReport.update({
+    const started = await prisma.gradeReport.updateMany({
       where: {
-        id: gradeReportId
+        id: gradeReportId,
+        status: { not: 'cancelled' }
       },
       data: {
         status: 'running',
@@ -138,6 +219,16 @@ const worker = new Worker<GradeRunQueueJob>(
         failureReason: null
       }
     });
+    if (started.count === 0) {
+      await recordJobTelemetry({
+        queueName: 'grading-runs',
+        jobType: 'grade-version',
+        jobId: gradeReportId,
+        state: 'cancelled',
+        attempt
+      });
+      return { gradeReportId, status: 'cancelled' };
+    }
 
     try {
       const components = toComponentArray(report.version.components);
@@ -148,9 +239,13 @@ const worker = new Worker<GradeRunQueueJob>(
         components,
         edges,
         trafficProfile,
-        notes: report.version.notes
+        notes: report.version.notes,
+        cost: await latestCostEstimate(report.version.id),
+        slo: await latestSloEvidence(report.version.id)
       });
 
+      await assertGradeNotCancelled(gradeReportId);
+
       const aiFeedback = await aiClient.generateFeedback({
         overallScore: deterministic.overallScore,
         categoryScores: deterministic.categoryScores,
@@ -171,10 +266,13 @@ const worker = new Worker<GradeRunQueueJob>(
 
       const parsedCategoryScores = gradeCategoryScoreSchema.array().parse(deterministic.categoryScores);
 
+      await assertGradeNotCancelled(gradeReportId);
+
       await prisma.$transaction(async (tx) => {
-        await tx.gradeReport.update({
+        const completed = await tx.gradeReport.updateMany({
           where: {
-            id: gradeReportId
+            id: gradeReportId,
+            status: 'running'
           },
           data: {
             status: 'completed',
@@ -191,6 +289,9 @@ const worker = new Worker<GradeRunQueueJob>(
             failureReason: null
           }
         });
+        if (completed.count === 0) {
+          throw new GradeCancelledError(`Grade report ${gradeReportId} was cancelled.`);
+        }
 
         await tx.feedbackItem.deleteMany({
           where: {
@@ -225,6 +326,18 @@ const worker = new Worker<GradeRunQueueJob>(
         score: deterministic.overallScore
       };
     } catch (error) {
+      if (error instanceof GradeCancelledError) {
+        await recordJobTelemetry({
+          queueName: 'grading-runs',
+          jobType: 'grade-version',
+          jobId: gradeReportId,
+          state: 'cancelled',
+          attempt,
+          durationMs: Date.now() - startedAt
+        });
+        return { gradeReportId, status: 'cancelled' };
+      }
+
       const message = error instanceof Error ? error.message : 'Unexpected grading worker failure.';
       await failGradeReport(gradeReportId, message);
       await recordJobTelemetry({
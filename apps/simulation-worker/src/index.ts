@@ -1,16 +1,66 @@
 import { Prisma, PrismaClient } from '@prisma/client';
-import { applyFailureInjection, deriveBlastRadiusSummary, runArchitectureSimulation } from '@sdc/simulation-core';
 import {
+  SIMULATION_ENGINE_VERSION,
+  SimulationStage,
+  TimeSteppedSimulationOptions,
+  applyChaosExperiment,
+  applyFailureInjection,
+  deriveBlastRadiusSummary,
+  deriveChaosBlastRadiusSummary,
+  evaluateSlo,
+  runArchitectureSimulation,
+  runMonteCarloSimulation,
+  runParameterSweep,
+  runTimeSteppedSimulation,
+  timeSteppedWindowSeconds
+} from '@sdc/simulation-core';
+import {
+  SimulationComputationResult,
+  SimulationInputContract,
   SimulationRunQueueJob,
+  SimulationRunStreamMessage,
+  SimulationSweepQueueJob,
+  chaosExperimentRunSchema,
   failureInjectionProfileSchema,
+  parameterSweepSpecSchema,
   simulationComputationResultSchema,
   simulationInputContractSchema,
-  simulationRunQueueJobSchema
+  simulationRunQueueJobSchema,
+  simulationEngineHeartbeatKey,
+  simulationReplayQueueName,
+  simulationRunStreamChannel,
+  simulationSweepQueueJobSchema
 } from '@sdc/shared-types';
 import { Worker } from 'bullmq';
+import { Redis } from 'ioredis';
 
 const prisma = new PrismaClient();
 const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
+const publisher = new Redis(redisUrl, {
+  maxRetriesPerRequest: 1
+});
+
+// Live updates are best-effort: the database stays the record clients fall back to.
+async function publishRunMessage(runId: string, message: SimulationRunStreamMessage): Promise<void> {
+  try {
+    await publisher.publish(simulationRunStreamChannel(runId), JSON.stringify(message));
+  } catch (error) {
+    console.warn('[simulation-worker] failed to publish run stream message', error);
+  }
+}
+
+// Thrown between steps once the run has been cancelled, so the worker stops without failing it.
+class RunCancelledError extends Error {}
+
+async function assertRunNotCancelled(runId: string): Promise<void> {
+  const run = await prisma.simulationRun.findUnique({
+    where: { id: runId },
+    select: { status: true }
+  });
+  if (run?.status === 'cancelled') {
+    throw new RunCancelledError(`Run ${runId} was cancelled.`);
+  }
+}
 
 async function nextEventSequence(runId: string): Promise<number> {
   return prisma.simulationRunEvent.count({
@@ -18,6 +68,41 @@ async function nextEventSequence(runId: string): Promise<number> {
   });
 }
 
+const MAX_EVENT_APPEND_ATTEMPTS = 5;
+
+// The API may append to the same run (a cancellation), so a sequence taken in the meantime is retried.
+async function createRunEvent(
+  runId: string,
+  event: {
+    atSecond: number;
+    severity: 'info' | 'warning' | 'critical';
+    title: string;
+    description: string;
+    componentId?: string | null;
+  }
+) {
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      return await prisma.simulationRunEvent.create({
+        data: {
+          runId,
+          sequence: await nextEventSequence(runId),
+          atSecond: event.atSecond,
+          severity: event.severity,
+          title: event.title,
+          description: event.description,
+          componentId: event.componentId ?? null
+        }
+      });
+    } catch (error) {
+      const conflict = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+      if (attempt >= MAX_EVENT_APPEND_ATTEMPTS || !conflict) {
+        throw error;
+      }
+    }
+  }
+}
+
 async function appendRunEvent(
   runId: string,
   event: {
@@ -28,29 +113,33 @@ async function appendRunEvent(
     componentId?: string | null;
   }
 ): Promise<void> {
-  const sequence = await nextEventSequence(runId);
-  await prisma.simulationRunEvent.create({
-    data: {
-      runId,
-      sequence,
-      atSecond: event.atSecond,
+  const created = await createRunEvent(runId, event);
+
+  await publishRunMessage(runId, {
+    type: 'event',
+    event: {
+      sequence: created.sequence,
+      atSecond: created.atSecond,
       severity: event.severity,
-      title: event.title,
-      description: event.description,
-      componentId: event.componentId ?? null
+      title: created.title,
+      description: created.description,
+      componentId: created.componentId
     }
   });
 }
 
 async function markRunFailed(runId: string, message: string): Promise<void> {
-  await prisma.simulationRun.update({
-    where: { id: runId },
+  const failed = await prisma.simulationRun.updateMany({
+    where: { id: runId, status: { not: 'cancelled' } },
     data: {
       status: 'failed',
       failureReason: message,
       completedAt: new Date()
     }
   });
+  if (failed.count === 0) {
+    return;
+  }
 
   await appendRunEvent(runId, {
     atSecond: 0,
@@ -59,6 +148,8 @@ async function markRunFailed(runId: string, message: string): Promise<void> {
     description: message,
     componentId: null
   });
+
+  await publishRunMessage(runId, { type: 'status', status: 'failed', failureReason: message });
 }
 
 async function recordJobTelemetry(
@@ -66,7 +157,7 @@ async function recordJobTelemetry(
     queueName: string;
     jobType: string;
     jobId: string;
-    state: 'running' | 'completed' | 'failed';
+    state: 'running' | 'completed' | 'failed' | 'cancelled';
     attempt: number;
     durationMs?: number;
     errorMessage?: string | null;
@@ -91,157 +182,437 @@ async function recordJobTelemetry(
   }
 }
 
-const worker = new Worker<SimulationRunQueueJob>(
-  'simulation-runs',
-  async (job) => {
-    const parsedJob = simulationRunQueueJobSchema.safeParse(job.data);
-    if (!parsedJob.success) {
-      throw new Error('Invalid simulation queue payload.');
-    }
+function computeSimulation(
+  run: { mode: string; seed: number | null; iterations: number | null },
+  input: SimulationInputContract,
+  stages?: SimulationStage[],
+  onTick?: TimeSteppedSimulationOptions['onTick']
+): SimulationComputationResult {
+  if (run.mode === 'time-stepped') {
+    return runTimeSteppedSimulation(input, { stages, onTick });
+  }
+  if (run.mode === 'monte-carlo') {
+    return runMonteCarloSimulation(input, {
+      seed: run.seed ?? 0,
+      iterations: run.iterations ?? undefined
+    });
+  }
+  return runArchitectureSimulation(input);
+}
 
-    const runId = parsedJob.data.runId;
-    const startedAt = Date.now();
-    const attempt = job.attemptsMade + 1;
+async function processParameterSweep(data: unknown, attempt: number) {
+  const parsedJob = simulationSweepQueueJobSchema.safeParse(data);
+  if (!parsedJob.success) {
+    throw new Error('Invalid sweep queue payload.');
+  }
 
-    await recordJobTelemetry({
-      queueName: 'simulation-runs',
-      jobType: 'simulate-version',
-      jobId: runId,
-      state: 'running',
-      attempt
-    });
+  const sweepId = parsedJob.data.sweepId;
+  const startedAt = Date.now();
 
-    const run = await prisma.simulationRun.findUnique({
-      where: { id: runId }
-    });
+  await recordJobTelemetry({
+    queueName: 'simulation-runs',
+    jobType: 'sweep-version',
+    jobId: sweepId,
+    state: 'running',
+    attempt
+  });
+
+  const sweep = await prisma.simulationSweep.findUnique({
+    where: { id: sweepId }
+  });
+
+  if (!sweep) {
+    throw new Error(`Sweep ${sweepId} not found.`);
+  }
 
-    if (!run) {
-      throw new Error(`Run ${runId} not found.`);
+  await prisma.simulationSweep.update({
+    where: { id: sweepId },
+    data: {
+      status: 'running',
+      startedAt: new Date(),
+      failureReason: null
     }
+  });
 
-    await prisma.simulationRun.update({
-      where: { id: runId },
+  try {
+    const parsedInput = simulationInputContractSchema.safeParse(sweep.inputContract);
+    if (!parsedInput.success) {
+      throw new Error('Simulation input contract is invalid.');
+    }
+    const spec = parameterSweepSpecSchema.safeParse(sweep.spec);
+    if (!spec.success) {
+      throw new Error('Sweep specification is invalid.');
+    }
+
+    const result = runParameterSweep(parsedInput.data, spec.data);
+
+    await prisma.simulationSweep.update({
+      where: { id: sweepId },
       data: {
-        status: 'running',
-        startedAt: new Date(),
+        status: 'completed',
+        points: result.points as unknown as Prisma.InputJsonValue,
+        breakingPoint: result.breakingPoint
+          ? (result.breakingPoint as unknown as Prisma.InputJsonValue)
+          : Prisma.JsonNull,
+        completedAt: new Date(),
         failureReason: null
       }
     });
 
-    await appendRunEvent(runId, {
-      atSecond: 0,
-      severity: 'info',
-      title: 'Run started',
-      description: 'Simulation worker started processing this run.',
-      componentId: null
+    await recordJobTelemetry({
+      queueName: 'simulation-runs',
+      jobType: 'sweep-version',
+      jobId: sweepId,
+      state: 'completed',
+      attempt,
+      durationMs: Date.now() - startedAt,
+      metadata: {
+        parameter: spec.data.parameter,
+        pointCount: result.points.length
+      }
     });
 
-    try {
-      const parsedInput = simulationInputContractSchema.safeParse(run.inputContract);
-      if (!parsedInput.success) {
-        throw new Error('Simulation input contract is invalid.');
+    return {
+      sweepId,
+      status: 'completed',
+      pointCount: result.points.length
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unexpected simulation worker failure.';
+    await prisma.simulationSweep.update({
+      where: { id: sweepId },
+      data: {
+        status: 'failed',
+        failureReason: message,
+        completedAt: new Date()
       }
+    });
+    await recordJobTelemetry({
+      queueName: 'simulation-runs',
+      jobType: 'sweep-version',
+      jobId: sweepId,
+      state: 'failed',
+      attempt,
+      durationMs: Date.now() - startedAt,
+      errorMessage: message
+    });
+    throw error;
+  }
+}
+
+// Replays arrive on this engine version's own queue but are processed like any other run.
+async function processSimulationRun(data: unknown, attempt: number, queueName: string) {
+  const parsedJob = simulationRunQueueJobSchema.safeParse(data);
+  if (!parsedJob.success) {
+    throw new Error('Invalid simulation queue payload.');
+  }
+
+  const runId = parsedJob.data.runId;
+  const startedAt = Date.now();
+
+  await recordJobTelemetry({
+    queueName,
+    jobType: 'simulate-version',
+    jobId: runId,
+    state: 'running',
+    attempt
+  });
 
-      const failureProfile = failureInjectionProfileSchema.safeParse(run.failureProfile);
-      const runtimeInput = failureProfile.success
+  const run = await prisma.simulationRun.findUnique({
+    where: { id: runId }
+  });
+
+  if (!run) {
+    throw new Error(`Run ${runId} not found.`);
+  }
+
+  const started = await prisma.simulationRun.updateMany({
+    where: { id: runId, status: { not: 'cancelled' } },
+    data: {
+      status: 'running',
+      startedAt: new Date(),
+      engineVersion: SIMULATION_ENGINE_VERSION,
+      failureReason: null
+    }
+  });
+  if (started.count === 0) {
+    await recordJobTelemetry({
+      queueName,
+      jobType: 'simulate-version',
+      jobId: runId,
+      state: 'cancelled',
+      attempt
+    });
+    return { runId, status: 'cancelled' };
+  }
+  await publishRunMessage(runId, { type: 'status', status: 'running', failureReason: null });
+
+  await appendRunEvent(runId, {
+    atSecond: 0,
+    severity: 'info',
+    title: 'Run started',
+    description: 'Simulation worker started processing this run.',
+    componentId: null
+  });
+
+  try {
+    const parsedInput = simulationInputContractSchema.safeParse(run.inputContract);
+    if (!parsedInput.success) {
+      throw new Error('Simulation input contract is invalid.');
+    }
+
+    const failureProfile = failureInjectionProfileSchema.safeParse(run.failureProfile);
+    const chaosExperiment = chaosExperimentRunSchema.safeParse(run.chaosExperiment);
+    const timeStepped = run.mode === 'time-stepped';
+    const chaos = chaosExperiment.success
+      ? applyChaosExperiment(
+          parsedInput.data,
+          chaosExperiment.data.steps,
+          timeStepped ? timeSteppedWindowSeconds(parsedInput.data) : undefined
+        )
+      : null;
+    const runtimeInput = chaos
+      ? chaos.input
+      : failureProfile.success
         ? applyFailureInjection(parsedInput.data, failureProfile.data).input
         : parsedInput.data;
 
-      if (failureProfile.success) {
-        await appendRunEvent(runId, {
-          atSecond: 1,
-          severity: 'warning',
-          title: 'Failure profile applied',
-          description: `Applied ${failureProfile.data.mode} before simulation execution.`,
-          componentId: failureProfile.data.targetComponentId ?? null
+    if (chaosExperiment.success) {
+      await appendRunEvent(runId, {
+        atSecond: 1,
+        severity: 'warning',
+        title: 'Chaos experiment applied',
+        description: timeStepped
+          ? `Scheduled ${chaos?.steps.length ?? 0} steps of ${chaosExperiment.data.name} across the run.` +
+            (chaos?.skipped.length
+              ? ` Skipped ${chaos.skipped.length} scheduled after the run ends.`
+              : '')
+          : `Applied all ${chaosExperiment.data.steps.length} steps of ${chaosExperiment.data.name} before simulation execution.`,
+        componentId: null
+      });
+    } else if (failureProfile.success) {
+      await appendRunEvent(runId, {
+        atSecond: 1,
+        severity: 'warning',
+        title: 'Failure profile applied',
+        description: `Applied ${failureProfile.data.mode} before simulation execution.`,
+        componentId: failureProfile.data.targetComponentId ?? null
+      });
+    }
+
+    await assertRunNotCancelled(runId);
+
+    // Time-stepped runs stream their ticks and events while they compute; the rest follow once stored.
+    const baseSequence = await nextEventSequence(runId);
+    let streamedEventCount = 0;
+    // Time-stepped runs start from the undamaged input and apply each chaos step at its second.
+    const startInput = chaos && timeStepped ? parsedInput.data : runtimeInput;
+    const computationResult = computeSimulation(run, startInput, chaos?.stages, (tick, events) => {
+      void publishRunMessage(runId, { type: 'tick', tick });
+      for (const event of events) {
+        void publishRunMessage(runId, {
+          type: 'event',
+          event: { ...event, sequence: baseSequence + event.sequence }
         });
       }
-
-      const computationResult = runArchitectureSimulation(runtimeInput);
-      const parsedResult = simulationComputationResultSchema.parse(computationResult);
-      const blastRadius = failureProfile.success
-        ? deriveBlastRadiusSummary(failureProfile.data, parsedResult)
+      streamedEventCount += events.length;
+    });
+    const parsedResult = simulationComputationResultSchema.parse(computationResult);
+    const blastRadius = chaosExperiment.success
+      ? deriveChaosBlastRadiusSummary(
+          chaosExperiment.data.steps,
+          parsedResult,
+          runtimeInput,
+          chaos?.skipped
+        )
+      : failureProfile.success
+        ? deriveBlastRadiusSummary(failureProfile.data, parsedResult, runtimeInput)
         : null;
+    const sloEvaluation = parsedInput.data.slo
+      ? evaluateSlo(parsedInput.data.slo, parsedResult, runtimeInput)
+      : null;
+
+    const timelineEvents = parsedResult.timeline.map((event, index) => ({
+      runId,
+      sequence: baseSequence + index,
+      atSecond: event.atSecond,
+      severity: event.severity,
+      title: event.title,
+      description: event.description,
+      componentId: event.componentId
+    }));
 
-      const baseSequence = await nextEventSequence(runId);
-      const timelineEvents = parsedResult.timeline.map((event, index) => ({
-        runId,
-        sequence: baseSequence + index,
-        atSecond: event.atSecond,
-        severity: event.severity,
-        title: event.title,
-        description: event.description,
-        componentId: event.componentId
-      }));
-
-      await prisma.$transaction([
-        prisma.simulationRun.update({
-          where: { id: runId },
-          data: {
-            status: 'completed',
-            metrics: parsedResult.metrics as unknown as Prisma.InputJsonValue,
-            bottlenecks: parsedResult.bottlenecks as unknown as Prisma.InputJsonValue,
-            blastRadius: blastRadius ? (blastRadius as unknown as Prisma.InputJsonValue) : Prisma.JsonNull,
-            completedAt: new Date(),
-            failureReason: null
-          }
-        }),
-        prisma.simulationRunEvent.createMany({
-          data: timelineEvents
-        })
-      ]);
+    await assertRunNotCancelled(runId);
 
-      await recordJobTelemetry({
-        queueName: 'simulation-runs',
-        jobType: 'simulate-version',
-        jobId: runId,
-        state: 'completed',
-        attempt,
-        durationMs: Date.now() - startedAt,
-        metadata: {
-          timelineCount: timelineEvents.length,
-          bottleneckCount: parsedResult.bottlenecks.length
+    await prisma.$transaction(async (tx) => {
+      // Guarded on the status so a cancellation that lands mid-write still wins.
+      const completed = await tx.simulationRun.updateMany({
+        where: { id: runId, status: 'running' },
+        data: {
+          status: 'completed',
+          metrics: parsedResult.metrics as unknown as Prisma.InputJsonValue,
+          bottlenecks: parsedResult.bottlenecks as unknown as Prisma.InputJsonValue,
+          series: (parsedResult.series ?? []) as unknown as Prisma.InputJsonValue,
+          confidence: parsedResult.confidence
+            ? (parsedResult.confidence as unknown as Prisma.InputJsonValue)
+            : Prisma.JsonNull,
+          blastRadius: blastRadius ? (blastRadius as unknown as Prisma.InputJsonValue) : Prisma.JsonNull,
+          sloEvaluation: sloEvaluation
+            ? (sloEvaluation as unknown as Prisma.InputJsonValue)
+            : Prisma.JsonNull,
+          explanation: parsedResult.explanation
+            ? (parsedResult.explanation as unknown as Prisma.InputJsonValue)
+            : Prisma.JsonNull,
+          completedAt: new Date(),
+          failureReason: null
         }
       });
+      if (completed.count === 0) {
+        throw new RunCancelledError(`Run ${runId} was cancelled.`);
+      }
 
-      return {
-        runId,
-        status: 'completed',
-        timelineCount: timelineEvents.length
-      };
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Unexpected simulation worker failure.';
-      await markRunFailed(runId, message);
+      await tx.simulationRunEvent.createMany({
+        data: timelineEvents
+      });
+    });
+
+    for (const event of timelineEvents.slice(streamedEventCount)) {
+      await publishRunMessage(runId, {
+        type: 'event',
+        event: {
+          sequence: event.sequence,
+          atSecond: event.atSecond,
+          severity: event.severity,
+          title: event.title,
+          description: event.description,
+          componentId: event.componentId
+        }
+      });
+    }
+    await publishRunMessage(runId, { type: 'status', status: 'completed', failureReason: null });
+
+    await recordJobTelemetry({
+      queueName,
+      jobType: 'simulate-version',
+      jobId: runId,
+      state: 'completed',
+      attempt,
+      durationMs: Date.now() - startedAt,
+      metadata: {
+        mode: run.mode,
+        seed: run.seed,
+        timelineCount: timelineEvents.length,
+        bottleneckCount: parsedResult.bottlenecks.length
+      }
+    });
+
+    return {
+      runId,
+      status: 'completed',
+      timelineCount: timelineEvents.length
+    };
+  } catch (error) {
+    if (error instanceof RunCancelledError) {
       await recordJobTelemetry({
-        queueName: 'simulation-runs',
+        queueName,
         jobType: 'simulate-version',
         jobId: runId,
-        state: 'failed',
+        state: 'cancelled',
         attempt,
-        durationMs: Date.now() - startedAt,
-        errorMessage: message
+        durationMs: Date.now() - startedAt
       });
-      throw error;
+      return { runId, status: 'cancelled' };
     }
-  },
-  {
-    connection: {
-      url: redisUrl
-    },
-    concurrency: 2
+
+    const message = error instanceof Error ? error.message : 'Unexpected simulation worker failure.';
+    await markRunFailed(runId, message);
+    await recordJobTelemetry({
+      queueName,
+      jobType: 'simulate-version',
+      jobId: runId,
+      state: 'failed',
+      attempt,
+      durationMs: Date.now() - startedAt,
+      errorMessage: message
+    });
+    throw error;
   }
+}
+
+const workerOptions = {
+  connection: {
+    url: redisUrl
+  },
+  concurrency: 2
+};
+
+// Workers kept around for an older engine only serve its replays, so new runs are always
+// computed by the current engine.
+const replayOnly = ['1', 'true', 'yes'].includes(
+  (process.env.SIMULATION_WORKER_REPLAY_ONLY ?? '').trim().toLowerCase()
 );
 
-worker.on('ready', () => {
+const worker = replayOnly
+  ? null
+  : new Worker<SimulationRunQueueJob | SimulationSweepQueueJob>(
+      'simulation-runs',
+      async (job) => {
+        if (job.name === 'sweep-version') {
+          return processParameterSweep(job.data, job.attemptsMade + 1);
+        }
+        return processSimulationRun(job.data, job.attemptsMade + 1, 'simulation-runs');
+      },
+      workerOptions
+    );
+
+const replayQueueName = simulationReplayQueueName(SIMULATION_ENGINE_VERSION);
+const replayWorker = new Worker<SimulationRunQueueJob>(
+  replayQueueName,
+  async (job) => processSimulationRun(job.data, job.attemptsMade + 1, replayQueueName),
+  workerOptions
+);
+
+worker?.on('ready', () => {
   console.log(`[simulation-worker] listening on queue simulation-runs via ${redisUrl}`);
 });
 
-worker.on('failed', (job, error) => {
+worker?.on('failed', (job, error) => {
   console.error('[simulation-worker] job failed', job?.id, error.message);
 });
 
+replayWorker.on('ready', () => {
+  console.log(`[simulation-worker] replaying runs for engine ${SIMULATION_ENGINE_VERSION} on queue ${replayQueueName}`);
+});
+
+replayWorker.on('failed', (job, error) => {
+  console.error('[simulation-worker] replay job failed', job?.id, error.message);
+});
+
+// Advertises this engine version so the API only accepts replays some worker can run.
+const ENGINE_HEARTBEAT_SECONDS = 30;
+
+async function announceEngine() {
+  try {
+    await publisher.set(
+      simulationEngineHeartbeatKey(SIMULATION_ENGINE_VERSION),
+      new Date().toISOString(),
+      'EX',
+      ENGINE_HEARTBEAT_SECONDS * 2
+    );
+  } catch (error) {
+    console.warn('[simulation-worker] failed to announce engine version', error);
+  }
+}
+
+void announceEngine();
+const engineHeartbeat = setInterval(() => {
+  void announceEngine();
+}, ENGINE_HEARTBEAT_SECONDS * 1000);
+
 async function shutdown() {
-  await worker.close();
+  clearInterval(engineHeartbeat);
+  await Promise.all([worker?.close(), replayWorker.close()]);
+  await publisher.quit();
   await prisma.$disconnect();
 }
 
@@ -8,6 +8,7 @@ import { API_BASE_URL, apiFetch } from '@/lib/api';
 import { clearAuthToken, getAuthToken } from '@/lib/auth-token';
 
 type LoadState = 'loading' | 'ready' | 'error';
+type GradeAction = 'cancel' | 'retry' | 'rerun';
 
 function statusLabel(status: GradeReport['status']): string {
   switch (status) {
@@ -19,6 +20,8 @@ function statusLabel(status: GradeReport['status']): string {
       return 'Completed';
     case 'failed':
       return 'Failed';
+    case 'cancelled':
+      return 'Cancelled';
     default:
       return status;
   }
@@ -56,9 +59,10 @@ export default function GradeReportPage() {
   const [expandedCategories, setExpandedCategories] = useState<Record<string, boolean>>({});
   const [expandedActions, setExpandedActions] = useState<Record<string, boolean>>({});
   const [isCreatingFixVersion, setIsCreatingFixVersion] = useState(false);
+  const [pendingAction, setPendingAction] = useState<GradeAction | null>(null);
 
   const isTerminal = useMemo(() => {
-    return report?.status === 'completed' || report?.status === 'failed';
+    return report?.status === 'completed' || report?.status === 'failed' || report?.status === 'cancelled';
   }, [report?.status]);
 
   useEffect(() => {
@@ -120,6 +124,50 @@ export default function GradeReportPage() {
     };
   }, [gradeId, isTerminal, router]);
 
+  // Cancelling updates this report; a retry or re-run grades into a new one.
+  async function runGradeAction(action: GradeAction) {
+    const token = getAuthToken();
+    if (!token) {
+      router.replace('/auth');
+      return;
+    }
+
+    setPendingAction(action);
+    setError(null);
+
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/grades/${gradeId}/${action}`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`
+        }
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          clearAuthToken();
+          router.replace('/auth');
+          return;
+        }
+
+        const payload = (await response.json()) as { message?: string };
+        setError(payload.message || `Unable to ${action} grade report.`);
+        return;
+      }
+
+      const payload = (await response.json()) as GradeReportResponse;
+      if (action === 'cancel') {
+        setReport(payload.report);
+      } else {
+        router.push(`/grades/${payload.report.id}`);
+      }
+    } catch {
+      setError('Unable to reach server.');
+    } finally {
+      setPendingAction(null);
+    }
+  }
+
   async function createFixVersionAndRegrade() {
     if (!report) {
       return;
@@ -196,6 +244,36 @@ export default function GradeReportPage() {
               <Link className="button button-secondary" href={`/projects/${report.projectId}/report`}>
                 Final Report
               </Link>
+              {!isTerminal ? (
+                <button
+                  className="button button-secondary"
+                  type="button"
+                  disabled={pendingAction !== null}
+                  onClick={() => void runGradeAction('cancel')}
+                >
+                  {pendingAction === 'cancel' ? 'Cancelling...' : 'Cancel'}
+                </button>
+              ) : null}
+              {report.status === 'failed' || report.status === 'cancelled' ? (
+                <button
+                  className="button button-secondary"
+                  type="button"
+                  disabled={pendingAction !== null}
+                  onClick={() => void runGradeAction('retry')}
+                >
+                  {pendingAction === 'retry' ? 'Retrying...' : 'Retry'}
+                </button>
+              ) : null}
+              {report.status === 'completed' ? (
+                <button
+                  className="button button-secondary"
+                  type="button"
+                  disabled={pendingAction !== null}
+                  onClick={() => void runGradeAction('rerun')}
+                >
+                  {pendingAction === 'rerun' ? 'Re-grading...' : 'Re-grade'}
+                </button>
+              ) : null}
             </div>
           ) : null}
           {error ? <p className="error">{error}</p> : null}
@@ -215,6 +293,13 @@ export default function GradeReportPage() {
           </section>
         ) : null}
 
+        {report?.status === 'cancelled' ? (
+          <section className="card">
+            <h2>Grading Cancelled</h2>
+            <p className="muted">This report was cancelled before grading finished. Retry to grade the version again.</p>
+          </section>
+        ) : null}
+
         {report?.status === 'failed' ? (
           <section className="card">
             <h2>Grading Failed</h2>
@@ -1,6 +1,6 @@
 'use client';
 
-import { ProjectHistoryResponse, VersionCompareResponse, VersionCompareResult } from '@sdc/shared-types';
+import { ProjectHistoryResponse, SloEvaluation, VersionCompareResponse, VersionCompareResult } from '@sdc/shared-types';
 import Link from 'next/link';
 import { useParams, useRouter } from 'next/navigation';
 import { useEffect, useMemo, useState } from 'react';
@@ -21,6 +21,13 @@ function metricValue(value: number | null, suffix = ''): string {
   return `${value.toFixed(2)}${suffix}`;
 }
 
+function sloLabel(evaluation: SloEvaluation | null): string {
+  if (!evaluation) {
+    return 'no SLOs';
+  }
+  return `${evaluation.errorBudgetBurnedPercent.toFixed(1)}%, ${evaluation.passed ? 'met' : 'breached'}`;
+}
+
 function deltaLabel(value: number | null, suffix = ''): string {
   if (value === null) {
     return 'N/A';
@@ -57,8 +64,12 @@ export default function ComparePage() {
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isComparing, setIsComparing] = useState(false);
+  const [engineMismatch, setEngineMismatch] = useState<{
+    baselineEngineVersion: string | null;
+    candidateEngineVersion: string | null;
+  } | null>(null);
 
-  async function loadCompare(nextBaselineId: string, nextCandidateId: string) {
+  async function loadCompare(nextBaselineId: string, nextCandidateId: string, allowMixedEngineVersions = false) {
     const token = getAuthToken();
     if (!token) {
       router.replace('/auth');
@@ -77,10 +88,11 @@ export default function ComparePage() {
 
     setIsComparing(true);
     setError(null);
+    setEngineMismatch(null);
 
     try {
       const response = await apiFetch(
-        `${API_BASE_URL}/projects/${projectId}/compare?baselineVersionId=${encodeURIComponent(nextBaselineId)}&candidateVersionId=${encodeURIComponent(nextCandidateId)}`,
+        `${API_BASE_URL}/projects/${projectId}/compare?baselineVersionId=${encodeURIComponent(nextBaselineId)}&candidateVersionId=${encodeURIComponent(nextCandidateId)}${allowMixedEngineVersions ? '&allowMixedEngineVersions=true' : ''}`,
         {
           headers: {
             Authorization: `Bearer ${token}`
@@ -95,7 +107,18 @@ export default function ComparePage() {
           return;
         }
 
-        const payload = (await response.json()) as { message?: string };
+        const payload = (await response.json()) as {
+          message?: string;
+          baselineEngineVersion?: string | null;
+          candidateEngineVersion?: string | null;
+        };
+        if (response.status === 409) {
+          setCompare(null);
+          setEngineMismatch({
+            baselineEngineVersion: payload.baselineEngineVersion ?? null,
+            candidateEngineVersion: payload.candidateEngineVersion ?? null
+          });
+        }
         setError(payload.message || 'Unable to compare versions.');
         return;
       }
@@ -238,6 +261,30 @@ export default function ComparePage() {
           ) : null}
 
           {error ? <p className="error">{error}</p> : null}
+          {engineMismatch ? (
+            <div className="button-row">
+              <span className="pill pill-warning">
+                Engine {engineMismatch.baselineEngineVersion ?? 'unversioned'} vs {engineMismatch.candidateEngineVersion ?? 'unversioned'}
+              </span>
+              <button
+                className="button button-secondary"
+                type="button"
+                disabled={isComparing}
+                onClick={() => void loadCompare(baselineVersionId, candidateVersionId, true)}
+              >
+                Compare Anyway
+              </button>
+              <Link className="button button-secondary" href={`/projects/${projectId}`}>
+                Re-simulate Versions
+              </Link>
+            </div>
+          ) : null}
+          {compare?.mixedEngineVersions ? (
+            <p className="muted">
+              These runs were simulated under different engine versions, so part of each KPI delta comes from engine
+              changes rather than the architecture.
+            </p>
+          ) : null}
         </section>
 
         {isLoading ? (
@@ -400,6 +447,43 @@ export default function ComparePage() {
                     {metricValue(compare.kpiDeltas.overallScore.candidate)})
                   </p>
                 </article>
+
+                <article className="metric-card">
+                  <p className={`metric-value ${deltaClass(compare.kpiDeltas.monthlyCostUsd.absoluteDelta, false)}`}>
+                    {deltaArrow(compare.kpiDeltas.monthlyCostUsd.absoluteDelta, false)}{' '}
+                    {deltaLabel(compare.kpiDeltas.monthlyCostUsd.absoluteDelta, ' USD')}
+                  </p>
+                  <p className="muted">
+                    Monthly Cost ({metricValue(compare.kpiDeltas.monthlyCostUsd.baseline, ' USD')} to{' '}
+                    {metricValue(compare.kpiDeltas.monthlyCostUsd.candidate, ' USD')})
+                  </p>
+                </article>
+
+                <article className="metric-card">
+                  <p
+                    className={`metric-value ${deltaClass(compare.kpiDeltas.costPerMillionRequestsUsd.absoluteDelta, false)}`}
+                  >
+                    {deltaArrow(compare.kpiDeltas.costPerMillionRequestsUsd.absoluteDelta, false)}{' '}
+                    {deltaLabel(compare.kpiDeltas.costPerMillionRequestsUsd.absoluteDelta, ' USD')}
+                  </p>
+                  <p className="muted">
+                    Cost per Million Requests ({metricValue(compare.kpiDeltas.costPerMillionRequestsUsd.baseline, ' USD')} to{' '}
+                    {metricValue(compare.kpiDeltas.costPerMillionRequestsUsd.candidate, ' USD')})
+                  </p>
+                </article>
+
+                <article className="metric-card">
+                  <p
+                    className={`metric-value ${deltaClass(compare.kpiDeltas.errorBudgetBurnedPercent.absoluteDelta, false)}`}
+                  >
+                    {deltaArrow(compare.kpiDeltas.errorBudgetBurnedPercent.absoluteDelta, false)}{' '}
+                    {deltaLabel(compare.kpiDeltas.errorBudgetBurnedPercent.absoluteDelta, '%')}
+                  </p>
+                  <p className="muted">
+                    Error Budget Burned ({sloLabel(compare.baselineVersion.latestSimulation?.sloEvaluation ?? null)} to{' '}
+                    {sloLabel(compare.candidateVersion.latestSimulation?.sloEvaluation ?? null)})
+                  </p>
+                </article>
               </div>
 
               <div className="list-grid" style={{ marginTop: '0.75rem' }}>
@@ -1,6 +1,12 @@
 'use client';
 
-import { ProjectHistoryResponse, ProjectMembersResponse } from '@sdc/shared-types';
+import {
+  ProjectHistoryResponse,
+  ProjectMembersResponse,
+  SimulationBatch,
+  SimulationBatchListResponse,
+  SimulationBatchResponse
+} from '@sdc/shared-types';
 import Link from 'next/link';
 import { useParams, useRouter } from 'next/navigation';
 import { useEffect, useMemo, useState } from 'react';
@@ -19,6 +25,8 @@ export default function ProjectHistoryPage() {
   const [isInviting, setIsInviting] = useState(false);
   const [inviteEmail, setInviteEmail] = useState('');
   const [inviteRole, setInviteRole] = useState<'editor' | 'viewer'>('editor');
+  const [batch, setBatch] = useState<SimulationBatch | null>(null);
+  const [isQueueingBatch, setIsQueueingBatch] = useState(false);
 
   useEffect(() => {
     const token = getAuthToken();
@@ -29,7 +37,7 @@ export default function ProjectHistoryPage() {
 
     void (async () => {
       try {
-        const [historyResponse, membersResponse] = await Promise.all([
+        const [historyResponse, membersResponse, batchesResponse] = await Promise.all([
           apiFetch(`${API_BASE_URL}/projects/${projectId}/history`, {
             headers: {
               Authorization: `Bearer ${token}`
@@ -39,6 +47,11 @@ export default function ProjectHistoryPage() {
             headers: {
               Authorization: `Bearer ${token}`
             }
+          }),
+          apiFetch(`${API_BASE_URL}/projects/${projectId}/simulation-batches`, {
+            headers: {
+              Authorization: `Bearer ${token}`
+            }
           })
         ]);
 
@@ -65,12 +78,95 @@ export default function ProjectHistoryPage() {
           const membersPayload = (await membersResponse.json()) as ProjectMembersResponse;
           setCollaboration(membersPayload);
         }
+        if (batchesResponse.ok) {
+          const batchesPayload = (await batchesResponse.json()) as SimulationBatchListResponse;
+          setBatch(batchesPayload.batches[0] ?? null);
+        }
       } catch {
         setError('Unable to reach server.');
       }
     })();
   }, [projectId, router]);
 
+  const batchId = batch?.id ?? null;
+  const isBatchActive = batch?.status === 'pending' || batch?.status === 'running';
+
+  useEffect(() => {
+    const token = getAuthToken();
+    if (!token || !batchId || !isBatchActive) {
+      return;
+    }
+
+    let isActive = true;
+    const interval = setInterval(() => {
+      void (async () => {
+        try {
+          const response = await apiFetch(`${API_BASE_URL}/simulation-batches/${batchId}`, {
+            headers: {
+              Authorization: `Bearer ${token}`
+            }
+          });
+          if (!response.ok) {
+            return;
+          }
+
+          const payload = (await response.json()) as SimulationBatchResponse;
+          if (isActive) {
+            setBatch(payload.batch);
+          }
+        } catch {
+          // The next tick tries again.
+        }
+      })();
+    }, 2000);
+
+    return () => {
+      isActive = false;
+      clearInterval(interval);
+    };
+  }, [batchId, isBatchActive]);
+
+  async function resimulateAllVersions() {
+    const token = getAuthToken();
+    if (!token) {
+      router.replace('/auth');
+      return;
+    }
+
+    setIsQueueingBatch(true);
+    setError(null);
+
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/projects/${projectId}/simulation-batches`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`
+        },
+        body: JSON.stringify({})
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          clearAuthToken();
+          router.replace('/auth');
+          return;
+        }
+
+        const payload = (await response.json()) as { message?: string };
+        setError(payload.message || 'Unable to re-simulate versions.');
+        return;
+      }
+
+      const payload = (await response.json()) as SimulationBatchResponse;
+      setBatch(payload.batch);
+    } catch {
+      setError('Unable to reach server.');
+    } finally {
+      setIsQueueingBatch(false);
+    }
+  }
+
   async function createNewVersion() {
     if (!history) {
       return;
@@ -282,6 +378,14 @@ export default function ProjectHistoryPage() {
                 <button className="button" type="button" disabled={isCreatingVersion} onClick={() => void createNewVersion()}>
                   {isCreatingVersion ? 'Creating...' : 'Create New Version'}
                 </button>
+                <button
+                  className="button button-secondary"
+                  type="button"
+                  disabled={isQueueingBatch || isBatchActive}
+                  onClick={() => void resimulateAllVersions()}
+                >
+                  {isQueueingBatch ? 'Queueing...' : 'Re-simulate All Versions'}
+                </button>
                 <Link className="button button-secondary" href={`/projects/${projectId}/compare`}>
                   Compare Attempts
                 </Link>
@@ -293,6 +397,40 @@ export default function ProjectHistoryPage() {
           )}
         </section>
 
+        {batch ? (
+          <section className="card">
+            <div className="split-row">
+              <div>
+                <p className="kicker">Re-simulation</p>
+                <h2>All versions on engine {batch.engineVersion}</h2>
+              </div>
+              <span className={`pill ${batch.status === 'completed' ? 'pill-accent' : batch.status === 'failed' ? 'pill-danger' : 'pill-warning'}`}>
+                {batch.status}
+              </span>
+            </div>
+            <progress max={100} value={batch.progress.percentComplete} style={{ width: '100%' }} />
+            <p className="muted">
+              {batch.progress.completed} completed • {batch.progress.failed} failed • {batch.progress.cancelled} cancelled •{' '}
+              {batch.progress.pending + batch.progress.running} in progress of {batch.progress.total}
+            </p>
+            <div className="list-grid">
+              {batch.runs.map((run) => (
+                <article key={run.runId} className="list-item">
+                  <div className="split-row">
+                    <Link href={`/runs/${run.runId}`}>Version {run.versionNumber}</Link>
+                    <span className="pill">{run.status}</span>
+                  </div>
+                  {run.failureReason ? (
+                    <p className="error" style={{ marginBottom: 0 }}>
+                      {run.failureReason}
+                    </p>
+                  ) : null}
+                </article>
+              ))}
+            </div>
+          </section>
+        ) : null}
+
         {history ? (
           <section className="card">
             <h2>Version Timeline</h2>
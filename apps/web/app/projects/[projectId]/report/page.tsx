@@ -64,9 +64,15 @@ export default function ProjectReportPage() {
   const [isExporting, setIsExporting] = useState(false);
   const [isSharing, setIsSharing] = useState(false);
   const [isRevoking, setIsRevoking] = useState(false);
+  const [hasEngineMismatch, setHasEngineMismatch] = useState(false);
+  const [allowMixedEngineVersions, setAllowMixedEngineVersions] = useState(false);
   const siteOrigin = typeof window === 'undefined' ? '' : window.location.origin;
 
-  async function fetchProjectReport(nextBaselineId?: string, nextCandidateId?: string) {
+  async function fetchProjectReport(
+    nextBaselineId?: string,
+    nextCandidateId?: string,
+    allowMixed = allowMixedEngineVersions
+  ) {
     const token = getAuthToken();
     if (!token) {
       router.replace('/auth');
@@ -80,6 +86,7 @@ export default function ProjectReportPage() {
 
     setIsRefreshingReport(true);
     setError(null);
+    setHasEngineMismatch(false);
 
     try {
       const query = new URLSearchParams();
@@ -89,6 +96,9 @@ export default function ProjectReportPage() {
       if (nextCandidateId) {
         query.set('candidateVersionId', nextCandidateId);
       }
+      if (allowMixed) {
+        query.set('allowMixedEngineVersions', 'true');
+      }
 
       const response = await apiFetch(
         `${API_BASE_URL}/projects/${projectId}/report${query.toString() ? `?${query.toString()}` : ''}`,
@@ -107,6 +117,7 @@ export default function ProjectReportPage() {
         }
 
         const payload = (await response.json()) as { message?: string };
+        setHasEngineMismatch(response.status === 409);
         setError(payload.message || 'Unable to load report.');
         return;
       }
@@ -174,7 +185,8 @@ export default function ProjectReportPage() {
         },
         body: JSON.stringify({
           baselineVersionId,
-          candidateVersionId
+          candidateVersionId,
+          allowMixedEngineVersions
         })
       });
 
@@ -418,6 +430,19 @@ export default function ProjectReportPage() {
           ) : null}
 
           {error ? <p className="error">{error}</p> : null}
+          {hasEngineMismatch ? (
+            <button
+              className="button button-secondary"
+              type="button"
+              disabled={isRefreshingReport}
+              onClick={() => {
+                setAllowMixedEngineVersions(true);
+                void fetchProjectReport(baselineVersionId || undefined, candidateVersionId || undefined, true);
+              }}
+            >
+              Report Across Engine Versions
+            </button>
+          ) : null}
         </section>
 
         {isLoading ? (
@@ -495,6 +520,30 @@ export default function ProjectReportPage() {
                     {metricValue(report.compare.kpiDeltas.overallScore.candidate)})
                   </p>
                 </article>
+
+                <article className="metric-card">
+                  <p
+                    className={`metric-value ${deltaClass(report.compare.kpiDeltas.monthlyCostUsd.absoluteDelta, false)}`}
+                  >
+                    {deltaValue(report.compare.kpiDeltas.monthlyCostUsd.absoluteDelta, ' USD')}
+                  </p>
+                  <p className="muted">
+                    Monthly Cost ({metricValue(report.compare.kpiDeltas.monthlyCostUsd.baseline, ' USD')} to{' '}
+                    {metricValue(report.compare.kpiDeltas.monthlyCostUsd.candidate, ' USD')})
+                  </p>
+                </article>
+
+                <article className="metric-card">
+                  <p
+                    className={`metric-value ${deltaClass(report.compare.kpiDeltas.errorBudgetBurnedPercent.absoluteDelta, false)}`}
+                  >
+                    {deltaValue(report.compare.kpiDeltas.errorBudgetBurnedPercent.absoluteDelta, '%')}
+                  </p>
+                  <p className="muted">
+                    Error Budget Burned ({metricValue(report.compare.kpiDeltas.errorBudgetBurnedPercent.baseline, '%')} to{' '}
+                    {metricValue(report.compare.kpiDeltas.errorBudgetBurnedPercent.candidate, '%')})
+                  </p>
+                </article>
               </div>
             </section>
 
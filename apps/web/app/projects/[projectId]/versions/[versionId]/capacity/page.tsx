@@ -0,0 +1,250 @@
+'use client';
+
+import { CapacityPlan, CapacityPlanTargets, VersionDetail, capacityPlanTargetsSchema } from '@sdc/shared-types';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { useState } from 'react';
+import { API_BASE_URL, apiFetch } from '@/lib/api';
+import { clearAuthToken, getAuthToken } from '@/lib/auth-token';
+
+const DEFAULT_TARGETS: CapacityPlanTargets = {
+  p95LatencyMs: 300,
+  errorRatePercent: 1,
+  headroomPercent: 30
+};
+
+function asNumber(value: string, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+export default function CapacityPlanPage() {
+  const router = useRouter();
+  const params = useParams<{ projectId: string; versionId: string }>();
+  const projectId = params.projectId;
+  const versionId = params.versionId;
+
+  const [targets, setTargets] = useState<CapacityPlanTargets>(DEFAULT_TARGETS);
+  const [plan, setPlan] = useState<CapacityPlan | null>(null);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function requestPlan() {
+    const token = getAuthToken();
+    if (!token) {
+      router.replace('/auth');
+      return;
+    }
+
+    const validation = capacityPlanTargetsSchema.safeParse(targets);
+    if (!validation.success) {
+      setError(validation.error.issues[0]?.message || 'Targets are invalid.');
+      return;
+    }
+
+    setIsPlanning(true);
+    setError(null);
+
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/projects/${projectId}/versions/${versionId}/capacity-plan`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`
+        },
+        body: JSON.stringify(validation.data)
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          clearAuthToken();
+          router.replace('/auth');
+          return;
+        }
+
+        const payload = (await response.json()) as { message?: string };
+        setError(payload.message || 'Unable to plan capacity.');
+        return;
+      }
+
+      setPlan((await response.json()) as CapacityPlan);
+    } catch {
+      setError('Unable to reach server.');
+    } finally {
+      setIsPlanning(false);
+    }
+  }
+
+  async function applyPlan() {
+    const token = getAuthToken();
+    if (!token) {
+      router.replace('/auth');
+      return;
+    }
+
+    if (!plan || plan.changes.length === 0) {
+      return;
+    }
+
+    setIsApplying(true);
+    setError(null);
+
+    try {
+      const response = await apiFetch(
+        `${API_BASE_URL}/projects/${projectId}/versions/${versionId}/capacity-plan/apply`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${token}`
+          },
+          body: JSON.stringify({
+            changes: plan.changes.map((change) => ({ componentId: change.componentId, to: change.to }))
+          })
+        }
+      );
+
+      if (!response.ok) {
+        const payload = (await response.json()) as { message?: string };
+        setError(payload.message || 'Unable to apply capacity plan.');
+        return;
+      }
+
+      const version = (await response.json()) as VersionDetail;
+      router.push(`/projects/${projectId}/versions/${version.id}`);
+    } catch {
+      setError('Unable to reach server.');
+    } finally {
+      setIsApplying(false);
+    }
+  }
+
+  return (
+    <main>
+      <div className="page-stack">
+        <section className="card">
+          <p style={{ marginTop: 0 }}>
+            <Link href={`/projects/${projectId}/versions/${versionId}`}>Back to Workspace</Link>
+          </p>
+          <p className="kicker">Capacity Planning</p>
+          <h1>Find the cheapest configuration that meets your targets</h1>
+          <p className="subtitle">
+            Searches replica counts and vertical tiers per component against the peak of this version&apos;s traffic
+            profile. Autoscaled components keep their policies.
+          </p>
+          {error ? <p className="error">{error}</p> : null}
+        </section>
+
+        <section className="card">
+          <h2>Targets</h2>
+          <div className="page-grid-two">
+            <label className="field">
+              p95 Latency (ms)
+              <input
+                type="number"
+                min={1}
+                max={60_000}
+                value={targets.p95LatencyMs}
+                onChange={(event) =>
+                  setTargets((current) => ({
+                    ...current,
+                    p95LatencyMs: asNumber(event.target.value, current.p95LatencyMs)
+                  }))
+                }
+              />
+            </label>
+            <label className="field">
+              Error Rate (%)
+              <input
+                type="number"
+                min={0}
+                max={100}
+                step={0.1}
+                value={targets.errorRatePercent}
+                onChange={(event) =>
+                  setTargets((current) => ({
+                    ...current,
+                    errorRatePercent: asNumber(event.target.value, current.errorRatePercent)
+                  }))
+                }
+              />
+            </label>
+            <label className="field">
+              Headroom (%)
+              <input
+                type="number"
+                min={0}
+                max={90}
+                value={targets.headroomPercent}
+                onChange={(event) =>
+                  setTargets((current) => ({
+                    ...current,
+                    headroomPercent: asNumber(event.target.value, current.headroomPercent)
+                  }))
+                }
+              />
+            </label>
+          </div>
+          <button className="button" type="button" disabled={isPlanning} onClick={() => void requestPlan()}>
+            {isPlanning ? 'Planning...' : 'Suggest Changes'}
+          </button>
+        </section>
+
+        {plan ? (
+          <section className="card">
+            <div className="split-row">
+              <h2 style={{ marginBottom: 0 }}>Suggested Changes</h2>
+              <span className={`pill ${plan.feasible ? 'pill-accent' : 'pill-warning'}`}>
+                {plan.feasible ? 'Meets targets' : 'Targets not met'}
+              </span>
+            </div>
+            <p className="muted">
+              Monthly cost ${plan.monthlyCostUsdBefore.toFixed(2)} {'->'} ${plan.monthlyCostUsdAfter.toFixed(2)} • Projected p95{' '}
+              {plan.projectedMetrics.p95LatencyMs.toFixed(1)} ms • Error {plan.projectedMetrics.errorRatePercent.toFixed(2)}%
+            </p>
+            {plan.notes.map((note) => (
+              <p key={note} className="error">
+                {note}
+              </p>
+            ))}
+
+            {plan.changes.length === 0 ? (
+              <p className="muted">The current configuration is already the cheapest one found.</p>
+            ) : (
+              <div className="list-grid">
+                {plan.changes.map((change) => (
+                  <article key={change.componentId} className="list-item">
+                    <div className="list-item-header">
+                      <strong>{change.componentLabel}</strong>
+                      <span className="pill">{change.componentType}</span>
+                    </div>
+                    <p className="muted" style={{ marginBottom: 0 }}>
+                      <span className="delta-negative">
+                        - {change.from.replicas} x {change.from.verticalTier}
+                      </span>
+                      <br />
+                      <span className="delta-positive">
+                        + {change.to.replicas} x {change.to.verticalTier}
+                      </span>
+                    </p>
+                  </article>
+                ))}
+              </div>
+            )}
+
+            <button
+              className="button"
+              type="button"
+              style={{ marginTop: '0.8rem' }}
+              disabled={isApplying || plan.changes.length === 0}
+              onClick={() => void applyPlan()}
+            >
+              {isApplying ? 'Creating version...' : 'Apply as New Version'}
+            </button>
+          </section>
+        ) : null}
+      </div>
+    </main>
+  );
+}
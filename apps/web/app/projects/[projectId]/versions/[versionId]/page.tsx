@@ -3,33 +3,45 @@
 import {
   ArchitectureComponent,
   ArchitectureEdge,
-  ComponentType,
+  AutoscalingPolicy,
+  AvailabilityZone,
+  CacheConfig,
+  ComponentDefinition,
+  DatabaseConfig,
+  EdgeCallPolicy,
   ListVersionCommentsResponse,
   ProjectMembersResponse,
   GradeReportResponse,
+  QueueConfig,
+  QueueSimulationRunRequest,
+  Region,
+  RunExplanation,
+  SimulationMode,
   SimulationRunResponse,
   TrafficProfile,
   UpdateVersionCommentRequest,
   UpdateVersionRequest,
   VersionComment,
   VersionDetail,
+  defaultAutoscalingPolicy,
+  defaultCacheConfig,
+  defaultCircuitBreaker,
+  defaultDatabaseConfig,
+  defaultEdgeCallPolicy,
+  defaultQueueConfig,
   defaultTrafficProfile,
+  isComponentType,
+  listComponentDefinitions,
   validateArchitectureTopology
 } from '@sdc/shared-types';
 import Link from 'next/link';
-import { useParams, useRouter } from 'next/navigation';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import { PointerEvent, useEffect, useMemo, useRef, useState } from 'react';
 import { API_BASE_URL, apiFetch } from '@/lib/api';
 import { clearAuthToken, getAuthToken } from '@/lib/auth-token';
 
 type SaveState = 'idle' | 'pending' | 'saving' | 'saved' | 'error';
 
-type PaletteItem = {
-  type: ComponentType;
-  label: string;
-  stateful: boolean;
-};
-
 type VerticalTier = ArchitectureComponent['scaling']['verticalTier'];
 
 type DragState = {
@@ -47,19 +59,16 @@ type WorkspaceSnapshot = {
   selectedComponentId: string | null;
 };
 
-const PALETTE: PaletteItem[] = [
-  { type: 'client', label: 'Client', stateful: false },
-  { type: 'load-balancer', label: 'Load Balancer', stateful: false },
-  { type: 'api-gateway', label: 'API Gateway', stateful: false },
-  { type: 'service', label: 'Service', stateful: false },
-  { type: 'cache', label: 'Cache', stateful: true },
-  { type: 'database', label: 'Database', stateful: true },
-  { type: 'queue', label: 'Queue', stateful: true },
-  { type: 'cdn', label: 'CDN', stateful: false },
-  { type: 'object-store', label: 'Object Store', stateful: true }
+const VERTICAL_TIERS: VerticalTier[] = ['small', 'medium', 'large', 'xlarge'];
+
+const REGIONS: Array<{ value: Region; label: string }> = [
+  { value: 'usEast', label: 'US East' },
+  { value: 'usWest', label: 'US West' },
+  { value: 'europe', label: 'Europe' },
+  { value: 'apac', label: 'APAC' }
 ];
 
-const VERTICAL_TIERS: VerticalTier[] = ['small', 'medium', 'large', 'xlarge'];
+const AVAILABILITY_ZONES: AvailabilityZone[] = ['az-a', 'az-b', 'az-c'];
 
 const CANVAS_WIDTH = 960;
 const CANVAS_HEIGHT = 540;
@@ -70,14 +79,14 @@ function clamp(value: number, minimum: number, maximum: number) {
   return Math.min(maximum, Math.max(minimum, value));
 }
 
-function defaultComponent(label: string, type: ComponentType, stateful: boolean, count: number): ArchitectureComponent {
+function defaultComponent(definition: ComponentDefinition, label: string, count: number): ArchitectureComponent {
   const columns = 4;
   const row = Math.floor(count / columns);
   const column = count % columns;
 
   return {
     id: crypto.randomUUID(),
-    type,
+    type: definition.type,
     label,
     position: {
       x: 28 + column * 220,
@@ -93,8 +102,13 @@ function defaultComponent(label: string, type: ComponentType, stateful: boolean,
       verticalTier: 'medium'
     },
     behavior: {
-      stateful
-    }
+      stateful: definition.stateful
+    },
+    placement: {
+      region: 'usEast',
+      zones: ['az-a']
+    },
+    ...definition.defaults?.()
   };
 }
 
@@ -105,43 +119,47 @@ function getDisplayPosition(component: ArchitectureComponent) {
   };
 }
 
-function componentIcon(type: ComponentType): string {
-  switch (type) {
-    case 'client':
-      return 'CLI';
-    case 'load-balancer':
-      return 'LB';
-    case 'api-gateway':
-      return 'API';
-    case 'service':
-      return 'SVC';
-    case 'cache':
-      return 'CAC';
-    case 'database':
-      return 'DB';
-    case 'queue':
-      return 'Q';
-    case 'cdn':
-      return 'CDN';
-    case 'object-store':
-      return 'OBJ';
-    default:
-      return 'N';
-  }
-}
-
 function cloneComponents(components: ArchitectureComponent[]): ArchitectureComponent[] {
   return components.map((component) => ({
     ...component,
     position: { ...component.position },
     capacity: { ...component.capacity },
-    scaling: { ...component.scaling },
-    behavior: { ...component.behavior }
+    scaling: {
+      ...component.scaling,
+      ...(component.scaling.autoscaling ? { autoscaling: { ...component.scaling.autoscaling } } : {})
+    },
+    behavior: { ...component.behavior },
+    placement: { ...component.placement, zones: [...component.placement.zones] },
+    ...(component.cacheConfig ? { cacheConfig: { ...component.cacheConfig } } : {}),
+    ...(component.queueConfig ? { queueConfig: { ...component.queueConfig } } : {}),
+    ...(component.settings ? { settings: { ...component.settings } } : {}),
+    ...(component.databaseConfig ? { databaseConfig: { ...component.databaseConfig } } : {})
   }));
 }
 
 function cloneEdges(edges: ArchitectureEdge[]): ArchitectureEdge[] {
-  return edges.map((edge) => ({ ...edge }));
+  return edges.map((edge) => ({
+    ...edge,
+    ...(edge.callPolicy
+      ? {
+          callPolicy: {
+            ...edge.callPolicy,
+            ...(edge.callPolicy.circuitBreaker
+              ? { circuitBreaker: { ...edge.callPolicy.circuitBreaker } }
+              : {})
+          }
+        }
+      : {})
+  }));
+}
+
+function describeCallPolicy(policy: EdgeCallPolicy | undefined): string {
+  if (!policy) {
+    return 'no timeout';
+  }
+
+  const retries = policy.retries === 1 ? '1 retry' : `${policy.retries} retries`;
+  return `${policy.mode} • ${policy.timeoutMs}ms • ${retries}${policy.circuitBreaker ? ' • breaker' : ''}`;
 }
 
 export default function VersionWorkspacePage() {
@@ -149,6 +167,8 @@ export default function VersionWorkspacePage() {
   const params = useParams<{ projectId: string; versionId: string }>();
   const projectId = params.projectId;
   const versionId = params.versionId;
+  // Set by "Highlight on Canvas" on a run page.
+  const highlightRunId = useSearchParams().get('run');
 
   const [version, setVersion] = useState<VersionDetail | null>(null);
   const [components, setComponents] = useState<ArchitectureComponent[]>([]);
@@ -158,12 +178,15 @@ export default function VersionWorkspacePage() {
   const [selectedComponentId, setSelectedComponentId] = useState<string | null>(null);
   const [linkSourceId, setLinkSourceId] = useState<string>('');
   const [linkTargetId, setLinkTargetId] = useState<string>('');
+  const [selectedEdgeId, setSelectedEdgeId] = useState<string | null>(null);
   const [dragState, setDragState] = useState<DragState>(null);
   const [error, setError] = useState<string | null>(null);
   const [saveState, setSaveState] = useState<SaveState>('idle');
   const [lastSavedAt, setLastSavedAt] = useState<string>('');
   const [isLoaded, setIsLoaded] = useState(false);
   const [isStartingSimulation, setIsStartingSimulation] = useState(false);
+  const [simulationMode, setSimulationMode] = useState<SimulationMode>('analytical');
+  const [simulationSeed, setSimulationSeed] = useState('');
   const [isStartingGrade, setIsStartingGrade] = useState(false);
   const [zoom, setZoom] = useState(1);
   const [showMinimap, setShowMinimap] = useState(true);
@@ -177,6 +200,7 @@ export default function VersionWorkspacePage() {
   const [editingCommentId, setEditingCommentId] = useState<string | null>(null);
   const [editingCommentDraft, setEditingCommentDraft] = useState('');
   const [isConflictLocked, setIsConflictLocked] = useState(false);
+  const [highlight, setHighlight] = useState<RunExplanation | null>(null);
 
   const undoStackRef = useRef<WorkspaceSnapshot[]>([]);
   const redoStackRef = useRef<WorkspaceSnapshot[]>([]);
@@ -186,9 +210,26 @@ export default function VersionWorkspacePage() {
   const selectedComponent = useMemo(() => {
     return components.find((component) => component.id === selectedComponentId) ?? null;
   }, [components, selectedComponentId]);
+  const selectedEdge = useMemo(() => {
+    return edges.find((edge) => edge.id === selectedEdgeId) ?? null;
+  }, [edges, selectedEdgeId]);
   const componentMap = useMemo(() => {
     return new Map(components.map((component) => [component.id, component]));
   }, [components]);
+  const criticalPath = useMemo(() => {
+    const componentIds = new Set<string>();
+    const edgeKeys = new Set<string>();
+    for (const path of highlight?.criticalPaths ?? []) {
+      path.hops.forEach((hop, index) => {
+        componentIds.add(hop.componentId);
+        const previous = path.hops[index - 1];
+        if (previous) {
+          edgeKeys.add(`${previous.componentId}->${hop.componentId}`);
+        }
+      });
+    }
+    return { componentIds, edgeKeys };
+  }, [highlight]);
   const edgeLines = useMemo(() => {
     return edges.flatMap((edge) => {
       const source = componentMap.get(edge.sourceId);
@@ -208,6 +249,7 @@ export default function VersionWorkspacePage() {
           targetId: target.id,
           sourceLabel: source.label,
           targetLabel: target.label,
+          callPolicy: edge.callPolicy,
           x1: sourcePosition.x + NODE_WIDTH / 2,
           y1: sourcePosition.y + NODE_HEIGHT / 2,
           x2: targetPosition.x + NODE_WIDTH / 2,
@@ -361,6 +403,39 @@ export default function VersionWorkspacePage() {
     })();
   }, [projectId, router, versionId]);
 
+  useEffect(() => {
+    const token = getAuthToken();
+    if (!highlightRunId || !token) {
+      setHighlight(null);
+      return;
+    }
+
+    let isActive = true;
+    void (async () => {
+      try {
+        const response = await apiFetch(`${API_BASE_URL}/runs/${highlightRunId}`, {
+          headers: {
+            Authorization: `Bearer ${token}`
+          }
+        });
+        if (!response.ok) {
+          return;
+        }
+
+        const payload = (await response.json()) as SimulationRunResponse;
+        if (isActive && payload.run.versionId === versionId) {
+          setHighlight(payload.run.explanation);
+        }
+      } catch {
+        // The highlight is optional; the workspace still works without it.
+      }
+    })();
+
+    return () => {
+      isActive = false;
+    };
+  }, [highlightRunId, versionId]);
+
   useEffect(() => {
     if (!isLoaded || isConflictLocked) {
       return;
@@ -477,15 +552,97 @@ export default function VersionWorkspacePage() {
     updateComponent(selectedComponentId, update);
   }
 
-  function addComponent(item: PaletteItem) {
+  function updateSelectedAutoscaling(patch: Partial<AutoscalingPolicy> | null) {
+    updateSelectedComponent(
+      (component) => ({
+        ...component,
+        scaling: {
+          ...component.scaling,
+          autoscaling:
+            patch === null
+              ? undefined
+              : {
+                  ...(component.scaling.autoscaling ?? {
+                    ...defaultAutoscalingPolicy,
+                    minReplicas: component.scaling.replicas,
+                    maxReplicas: Math.max(defaultAutoscalingPolicy.maxReplicas, component.scaling.replicas)
+                  }),
+                  ...patch
+                }
+        }
+      }),
+      true
+    );
+  }
+
+  function updateSelectedEdgeCallPolicy(patch: Partial<EdgeCallPolicy> | null) {
+    if (!selectedEdgeId) {
+      return;
+    }
+
     pushUndoSnapshot();
+    setEdges((current) =>
+      current.map((edge) => {
+        if (edge.id !== selectedEdgeId) {
+          return edge;
+        }
+        if (patch === null) {
+          return { id: edge.id, sourceId: edge.sourceId, targetId: edge.targetId };
+        }
+        return { ...edge, callPolicy: { ...(edge.callPolicy ?? defaultEdgeCallPolicy), ...patch } };
+      })
+    );
+  }
+
+  function updateSelectedDatabaseConfig(patch: Partial<DatabaseConfig> | null) {
+    updateSelectedComponent(
+      (component) => ({
+        ...component,
+        databaseConfig:
+          patch === null
+            ? undefined
+            : {
+                ...(component.databaseConfig ?? {
+                  ...defaultDatabaseConfig,
+                  readReplicas: clamp(component.scaling.replicas - 1, 0, 15)
+                }),
+                ...patch
+              }
+      }),
+      true
+    );
+  }
 
-    const node = defaultComponent(
-      `${item.label} ${components.length + 1}`,
-      item.type,
-      item.stateful,
-      components.length
+  function updateSelectedCacheConfig(patch: Partial<CacheConfig>) {
+    updateSelectedComponent(
+      (component) => ({
+        ...component,
+        cacheConfig: {
+          ...(component.cacheConfig ?? defaultCacheConfig),
+          ...patch
+        }
+      }),
+      true
+    );
+  }
+
+  function updateSelectedQueueConfig(patch: Partial<QueueConfig>) {
+    updateSelectedComponent(
+      (component) => ({
+        ...component,
+        queueConfig: {
+          ...(component.queueConfig ?? defaultQueueConfig),
+          ...patch
+        }
+      }),
+      true
     );
+  }
+
+  function addComponent(definition: ComponentDefinition) {
+    pushUndoSnapshot();
+
+    const node = defaultComponent(definition, `${definition.label} ${components.length + 1}`, components.length);
 
     setComponents((current) => [...current, node]);
     setSelectedComponentId(node.id);
@@ -553,12 +710,21 @@ export default function VersionWorkspacePage() {
     setIsStartingSimulation(true);
     setError(null);
 
+    const requestBody: QueueSimulationRunRequest = {
+      mode: simulationMode
+    };
+    if (simulationMode === 'monte-carlo' && simulationSeed.trim() !== '') {
+      requestBody.seed = Number(simulationSeed);
+    }
+
     try {
       const response = await apiFetch(`${API_BASE_URL}/versions/${versionId}/simulate`, {
         method: 'POST',
         headers: {
+          'Content-Type': 'application/json',
           Authorization: `Bearer ${token}`
-        }
+        },
+        body: JSON.stringify(requestBody)
       });
 
       if (!response.ok) {
@@ -892,6 +1058,26 @@ export default function VersionWorkspacePage() {
             <span className="pill">
               Traffic: {trafficProfile.baselineRps} RPS x{trafficProfile.peakMultiplier}
             </span>
+            <select
+              aria-label="Simulation mode"
+              value={simulationMode}
+              onChange={(event) => setSimulationMode(event.target.value as SimulationMode)}
+            >
+              <option value="analytical">Analytical</option>
+              <option value="time-stepped">Time-stepped (traffic shape window)</option>
+              <option value="monte-carlo">Monte Carlo (200 iterations)</option>
+            </select>
+            {simulationMode === 'monte-carlo' ? (
+              <input
+                aria-label="Simulation seed"
+                type="number"
+                min={0}
+                step={1}
+                placeholder="Random seed"
+                value={simulationSeed}
+                onChange={(event) => setSimulationSeed(event.target.value)}
+              />
+            ) : null}
             <button className="button" type="button" disabled={isStartingSimulation} onClick={() => void startSimulation()}>
               {isStartingSimulation ? 'Starting run...' : 'Run Simulation'}
             </button>
@@ -901,6 +1087,15 @@ export default function VersionWorkspacePage() {
             <Link className="button button-secondary" href={`/projects/${projectId}/versions/${versionId}/traffic`}>
               Edit Traffic Profile
             </Link>
+            <Link className="button button-secondary" href={`/projects/${projectId}/versions/${versionId}/capacity`}>
+              Plan Capacity
+            </Link>
+            <Link className="button button-secondary" href={`/projects/${projectId}/versions/${versionId}/sweep`}>
+              Parameter Sweep
+            </Link>
+            <Link className="button button-secondary" href={`/projects/${projectId}/versions/${versionId}/slo`}>
+              SLOs
+            </Link>
             <Link className="button button-secondary" href={`/projects/${projectId}/compare`}>
               Compare Attempts
             </Link>
@@ -948,7 +1143,7 @@ export default function VersionWorkspacePage() {
             <h2>Component Palette</h2>
             <p className="muted">Drag-ready building blocks with recommended defaults.</p>
             <div className="palette-grid">
-              {PALETTE.map((item) => (
+              {listComponentDefinitions().map((item) => (
                 <button
                   key={item.type}
                   className="button button-secondary palette-item"
@@ -956,7 +1151,7 @@ export default function VersionWorkspacePage() {
                   type="button"
                   onClick={() => addComponent(item)}
                 >
-                  <span className="icon">{componentIcon(item.type)}</span>
+                  <span className="icon">{item.icon}</span>
                   {item.label}
                 </button>
               ))}
@@ -1000,6 +1195,21 @@ export default function VersionWorkspacePage() {
               <p className="muted">Drag nodes and observe animated data flow.</p>
             </div>
 
+            {highlight ? (
+              <div className="split-row">
+                <p style={{ marginTop: 0 }}>
+                  <span className="pill pill-danger">Critical path</span> {highlight.summary}
+                </p>
+                <button
+                  className="button button-secondary"
+                  type="button"
+                  onClick={() => router.replace(`/projects/${projectId}/versions/${versionId}`)}
+                >
+                  Clear Highlight
+                </button>
+              </div>
+            ) : null}
+
             {components.length === 0 ? (
               <p className="muted">Add components from the palette to start building your design.</p>
             ) : (
@@ -1007,7 +1217,16 @@ export default function VersionWorkspacePage() {
                 <div className="canvas-board" style={{ transform: `scale(${zoom})` }}>
                   <svg className="canvas-edge-layer" viewBox={`0 0 ${CANVAS_WIDTH} ${CANVAS_HEIGHT}`}>
                     {edgeLines.map((edge) => (
-                      <line key={edge.id} className="edge-line" x1={edge.x1} y1={edge.y1} x2={edge.x2} y2={edge.y2} />
+                      <line
+                        key={edge.id}
+                        className={`edge-line ${
+                          criticalPath.edgeKeys.has(`${edge.sourceId}->${edge.targetId}`) ? 'on-critical-path' : ''
+                        }`}
+                        x1={edge.x1}
+                        y1={edge.y1}
+                        x2={edge.x2}
+                        y2={edge.y2}
+                      />
                     ))}
                   </svg>
 
@@ -1019,6 +1238,12 @@ export default function VersionWorkspacePage() {
                         key={component.id}
                         className={`canvas-node ${component.id === selectedComponentId ? 'selected' : ''} ${
                           freshNodeIds.includes(component.id) ? 'node-fresh' : ''
+                        } ${
+                          component.id === highlight?.limitingComponentId
+                            ? 'limiting'
+                            : criticalPath.componentIds.has(component.id)
+                              ? 'on-critical-path'
+                              : ''
                         }`}
                         style={{
                           left: displayPosition.x,
@@ -1039,7 +1264,13 @@ export default function VersionWorkspacePage() {
                             remove
                           </button>
                         </div>
-                        <p className="node-meta">Replicas {component.scaling.replicas}</p>
+                        <p className="node-meta">
+                          Replicas{' '}
+                          {component.scaling.autoscaling
+                            ? `${component.scaling.autoscaling.minReplicas}-${component.scaling.autoscaling.maxReplicas}`
+                            : component.scaling.replicas}{' '}
+                          • {component.placement.zones.join('/')}
+                        </p>
                         <p className="node-meta">{component.capacity.opsPerSecond} ops/s</p>
                       </div>
                     );
@@ -1055,7 +1286,15 @@ export default function VersionWorkspacePage() {
                 <div key={edge.id} className="edge-item">
                   <span>
                     {edge.sourceLabel} {'->'} {edge.targetLabel}
+                    <span className="muted"> ({describeCallPolicy(edge.callPolicy)})</span>
                   </span>
+                  <button
+                    className="button button-link"
+                    type="button"
+                    onClick={() => setSelectedEdgeId(selectedEdgeId === edge.id ? null : edge.id)}
+                  >
+                    {selectedEdgeId === edge.id ? 'Done' : 'Calls'}
+                  </button>
                   <button
                     className="button button-link"
                     type="button"
@@ -1070,6 +1309,158 @@ export default function VersionWorkspacePage() {
               ))}
             </div>
 
+            {selectedEdge ? (
+              <div className="page-stack" style={{ marginTop: '0.6rem' }}>
+                <label className="checkbox-field">
+                  <input
+                    type="checkbox"
+                    checked={Boolean(selectedEdge.callPolicy)}
+                    onChange={(event) => updateSelectedEdgeCallPolicy(event.target.checked ? {} : null)}
+                  />
+                  Timeouts and retries
+                </label>
+
+                {selectedEdge.callPolicy ? (
+                  <>
+                    <div className="page-grid-two">
+                      <label className="field">
+                        Call Mode
+                        <select
+                          value={selectedEdge.callPolicy.mode}
+                          onChange={(event) =>
+                            updateSelectedEdgeCallPolicy({ mode: event.target.value as EdgeCallPolicy['mode'] })
+                          }
+                        >
+                          <option value="sync">Sync</option>
+                          <option value="async">Async</option>
+                        </select>
+                      </label>
+
+                      <label className="field">
+                        Timeout (ms)
+                        <input
+                          type="number"
+                          min={10}
+                          max={60_000}
+                          value={selectedEdge.callPolicy.timeoutMs}
+                          onChange={(event) =>
+                            updateSelectedEdgeCallPolicy({
+                              timeoutMs: clamp(Math.round(Number(event.target.value) || 10), 10, 60_000)
+                            })
+                          }
+                        />
+                      </label>
+                    </div>
+
+                    <div className="page-grid-two">
+                      <label className="field">
+                        Retries
+                        <input
+                          type="number"
+                          min={0}
+                          max={10}
+                          value={selectedEdge.callPolicy.retries}
+                          onChange={(event) =>
+                            updateSelectedEdgeCallPolicy({
+                              retries: clamp(Math.round(Number(event.target.value) || 0), 0, 10)
+                            })
+                          }
+                        />
+                      </label>
+
+                      <label className="field">
+                        Backoff
+                        <select
+                          value={selectedEdge.callPolicy.backoff}
+                          onChange={(event) =>
+                            updateSelectedEdgeCallPolicy({
+                              backoff: event.target.value as EdgeCallPolicy['backoff']
+                            })
+                          }
+                        >
+                          <option value="none">None</option>
+                          <option value="fixed">Fixed</option>
+                          <option value="exponential">Exponential</option>
+                        </select>
+                      </label>
+                    </div>
+
+                    {selectedEdge.callPolicy.backoff !== 'none' ? (
+                      <label className="field">
+                        Backoff Base (ms)
+                        <input
+                          type="number"
+                          min={0}
+                          max={30_000}
+                          value={selectedEdge.callPolicy.backoffMs}
+                          onChange={(event) =>
+                            updateSelectedEdgeCallPolicy({
+                              backoffMs: clamp(Math.round(Number(event.target.value) || 0), 0, 30_000)
+                            })
+                          }
+                        />
+                      </label>
+                    ) : null}
+
+                    <label className="checkbox-field">
+                      <input
+                        type="checkbox"
+                        checked={Boolean(selectedEdge.callPolicy.circuitBreaker)}
+                        onChange={(event) =>
+                          updateSelectedEdgeCallPolicy({
+                            circuitBreaker: event.target.checked ? { ...defaultCircuitBreaker } : undefined
+                          })
+                        }
+                      />
+                      Circuit breaker
+                    </label>
+
+                    {selectedEdge.callPolicy.circuitBreaker ? (
+                      <div className="page-grid-two">
+                        <label className="field">
+                          Trip at Error (%)
+                          <input
+                            type="number"
+                            min={1}
+                            max={100}
+                            value={selectedEdge.callPolicy.circuitBreaker.errorThresholdPercent}
+                            onChange={(event) =>
+                              updateSelectedEdgeCallPolicy({
+                                circuitBreaker: {
+                                  ...defaultCircuitBreaker,
+                                  ...selectedEdge.callPolicy?.circuitBreaker,
+                                  errorThresholdPercent: clamp(Number(event.target.value) || 1, 1, 100)
+                                }
+                              })
+                            }
+                          />
+                        </label>
+
+                        <label className="field">
+                          Open For (s)
+                          <input
+                            type="number"
+                            min={1}
+                            max={600}
+                            value={selectedEdge.callPolicy.circuitBreaker.openSeconds}
+                            onChange={(event) =>
+                              updateSelectedEdgeCallPolicy({
+                                circuitBreaker: {
+                                  ...defaultCircuitBreaker,
+                                  ...selectedEdge.callPolicy?.circuitBreaker,
+                                  openSeconds: clamp(Math.round(Number(event.target.value) || 1), 1, 600)
+                                }
+                              })
+                            }
+                          />
+                        </label>
+                      </div>
+                    ) : null}
+                  </>
+                ) : null}
+              </div>
+            ) : null}
+
             {showMinimap ? (
               <div className="minimap" style={{ marginTop: '0.8rem' }}>
                 <p className="kicker" style={{ marginBottom: '0.3rem' }}>
@@ -1153,6 +1544,66 @@ export default function VersionWorkspacePage() {
                   </label>
                 </div>
 
+                <label className="field">
+                  Region
+                  <select
+                    value={selectedComponent.placement.region}
+                    onChange={(event) =>
+                      updateSelectedComponent(
+                        (component) => ({
+                          ...component,
+                          placement: {
+                            ...component.placement,
+                            region: event.target.value as Region
+                          }
+                        }),
+                        true
+                      )
+                    }
+                  >
+                    {REGIONS.map((region) => (
+                      <option key={region.value} value={region.value}>
+                        {region.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+
+                <p className="muted" style={{ marginBottom: '0.35rem' }}>
+                  Availability zones (replicas are spread evenly across selected zones)
+                </p>
+                <div className="filter-row" style={{ marginBottom: '0.8rem' }}>
+                  {AVAILABILITY_ZONES.map((zone) => {
+                    const active = selectedComponent.placement.zones.includes(zone);
+                    return (
+                      <button
+                        key={zone}
+                        className={`filter-chip ${active ? 'active' : ''}`}
+                        type="button"
+                        disabled={active && selectedComponent.placement.zones.length === 1}
+                        onClick={() =>
+                          updateSelectedComponent(
+                            (component) => ({
+                              ...component,
+                              placement: {
+                                ...component.placement,
+                                zones: active
+                                  ? component.placement.zones.filter((item) => item !== zone)
+                                  : AVAILABILITY_ZONES.filter(
+                                      (item) => item === zone || component.placement.zones.includes(item)
+                                    )
+                              }
+                            }),
+                            true
+                          )
+                        }
+                      >
+                        {zone.toUpperCase()}
+                      </button>
+                    );
+                  })}
+                </div>
+
                 <div className="slider-row">
                   <label className="field" style={{ marginBottom: 0 }}>
                     Horizontal Scale (Replicas)
@@ -1216,6 +1667,103 @@ export default function VersionWorkspacePage() {
                   </div>
                 </div>
 
+                <label className="checkbox-field">
+                  <input
+                    type="checkbox"
+                    checked={Boolean(selectedComponent.scaling.autoscaling)}
+                    onChange={(event) => updateSelectedAutoscaling(event.target.checked ? {} : null)}
+                  />
+                  Autoscaling
+                </label>
+
+                {selectedComponent.scaling.autoscaling ? (
+                  <>
+                    <div className="page-grid-two">
+                      <label className="field">
+                        Min Replicas
+                        <input
+                          type="number"
+                          min={1}
+                          value={selectedComponent.scaling.autoscaling.minReplicas}
+                          onChange={(event) => {
+                            const minReplicas = Math.max(1, Math.round(Number(event.target.value) || 1));
+                            updateSelectedAutoscaling({
+                              minReplicas,
+                              maxReplicas: Math.max(minReplicas, selectedComponent.scaling.autoscaling?.maxReplicas ?? minReplicas)
+                            });
+                          }}
+                        />
+                      </label>
+
+                      <label className="field">
+                        Max Replicas
+                        <input
+                          type="number"
+                          min={selectedComponent.scaling.autoscaling.minReplicas}
+                          max={500}
+                          value={selectedComponent.scaling.autoscaling.maxReplicas}
+                          onChange={(event) =>
+                            updateSelectedAutoscaling({
+                              maxReplicas: clamp(
+                                Math.round(Number(event.target.value) || 1),
+                                selectedComponent.scaling.autoscaling?.minReplicas ?? 1,
+                                500
+                              )
+                            })
+                          }
+                        />
+                      </label>
+                    </div>
+
+                    <label className="field">
+                      Target Utilization (%)
+                      <input
+                        type="number"
+                        min={10}
+                        max={95}
+                        value={selectedComponent.scaling.autoscaling.targetUtilizationPercent}
+                        onChange={(event) =>
+                          updateSelectedAutoscaling({
+                            targetUtilizationPercent: clamp(Number(event.target.value) || 65, 10, 95)
+                          })
+                        }
+                      />
+                    </label>
+
+                    <div className="page-grid-two">
+                      <label className="field">
+                        Scale-up Delay (s)
+                        <input
+                          type="number"
+                          min={0}
+                          max={900}
+                          value={selectedComponent.scaling.autoscaling.scaleUpDelaySeconds}
+                          onChange={(event) =>
+                            updateSelectedAutoscaling({
+                              scaleUpDelaySeconds: clamp(Math.round(Number(event.target.value) || 0), 0, 900)
+                            })
+                          }
+                        />
+                      </label>
+
+                      <label className="field">
+                        Cooldown (s)
+                        <input
+                          type="number"
+                          min={0}
+                          max={3600}
+                          value={selectedComponent.scaling.autoscaling.cooldownSeconds}
+                          onChange={(event) =>
+                            updateSelectedAutoscaling({
+                              cooldownSeconds: clamp(Math.round(Number(event.target.value) || 0), 0, 3600)
+                            })
+                          }
+                        />
+                      </label>
+                    </div>
+                  </>
+                ) : null}
+
                 <div className="filter-row" style={{ marginBottom: '0.8rem' }}>
                   {VERTICAL_TIERS.map((tier) => (
                     <button
@@ -1324,6 +1872,256 @@ export default function VersionWorkspacePage() {
                   />
                   Stateful component
                 </label>
+
+                {isComponentType(selectedComponent, 'cache') ? (
+                  <>
+                    <h3>Cache Behavior</h3>
+                    <div className="page-grid-two">
+                      <label className="field">
+                        Hit Ratio (%)
+                        <input
+                          type="number"
+                          min={0}
+                          max={100}
+                          value={Math.round((selectedComponent.cacheConfig ?? defaultCacheConfig).hitRatio * 100)}
+                          onChange={(event) =>
+                            updateSelectedCacheConfig({
+                              hitRatio: clamp(Number(event.target.value) || 0, 0, 100) / 100
+                            })
+                          }
+                        />
+                      </label>
+
+                      <label className="field">
+                        TTL (seconds)
+                        <input
+                          type="number"
+                          min={1}
+                          value={(selectedComponent.cacheConfig ?? defaultCacheConfig).ttlSeconds}
+                          onChange={(event) =>
+                            updateSelectedCacheConfig({
+                              ttlSeconds: clamp(Math.round(Number(event.target.value) || 1), 1, 604_800)
+                            })
+                          }
+                        />
+                      </label>
+                    </div>
+
+                    <div className="page-grid-two">
+                      <label className="field">
+                        Eviction Policy
+                        <select
+                          value={(selectedComponent.cacheConfig ?? defaultCacheConfig).evictionPolicy}
+                          onChange={(event) =>
+                            updateSelectedCacheConfig({
+                              evictionPolicy: event.target.value as CacheConfig['evictionPolicy']
+                            })
+                          }
+                        >
+                          <option value="lru">LRU</option>
+                          <option value="lfu">LFU</option>
+                          <option value="ttl-only">TTL only</option>
+                        </select>
+                      </label>
+
+                      <label className="field">
+                        Starting State
+                        <select
+                          value={(selectedComponent.cacheConfig ?? defaultCacheConfig).state}
+                          onChange={(event) =>
+                            updateSelectedCacheConfig({ state: event.target.value as CacheConfig['state'] })
+                          }
+                        >
+                          <option value="warm">Warm</option>
+                          <option value="cold">Cold</option>
+                        </select>
+                      </label>
+                    </div>
+                  </>
+                ) : null}
+
+                {isComponentType(selectedComponent, 'queue') ? (
+                  <>
+                    <h3>Queue Behavior</h3>
+                    <div className="page-grid-two">
+                      <label className="field">
+                        Consumers
+                        <input
+                          type="number"
+                          min={1}
+                          max={500}
+                          value={(selectedComponent.queueConfig ?? defaultQueueConfig).consumers}
+                          onChange={(event) =>
+                            updateSelectedQueueConfig({
+                              consumers: clamp(Math.round(Number(event.target.value) || 1), 1, 500)
+                            })
+                          }
+                        />
+                      </label>
+
+                      <label className="field">
+                        Messages/s per Consumer
+                        <input
+                          type="number"
+                          min={1}
+                          value={(selectedComponent.queueConfig ?? defaultQueueConfig).consumerRps}
+                          onChange={(event) =>
+                            updateSelectedQueueConfig({
+                              consumerRps: clamp(Number(event.target.value) || 1, 1, 1_000_000)
+                            })
+                          }
+                        />
+                      </label>
+                    </div>
+
+                    <div className="page-grid-two">
+                      <label className="field">
+                        Max Depth (messages)
+                        <input
+                          type="number"
+                          min={1}
+                          value={(selectedComponent.queueConfig ?? defaultQueueConfig).maxDepth}
+                          onChange={(event) =>
+                            updateSelectedQueueConfig({
+                              maxDepth: clamp(Math.round(Number(event.target.value) || 1), 1, 1_000_000_000)
+                            })
+                          }
+                        />
+                      </label>
+
+                      <label className="field">
+                        Retention (seconds)
+                        <input
+                          type="number"
+                          min={1}
+                          value={(selectedComponent.queueConfig ?? defaultQueueConfig).retentionSeconds}
+                          onChange={(event) =>
+                            updateSelectedQueueConfig({
+                              retentionSeconds: clamp(Math.round(Number(event.target.value) || 1), 1, 1_209_600)
+                            })
+                          }
+                        />
+                      </label>
+                    </div>
+
+                    <label className="field">
+                      When Full
+                      <select
+                        value={(selectedComponent.queueConfig ?? defaultQueueConfig).overflow}
+                        onChange={(event) =>
+                          updateSelectedQueueConfig({ overflow: event.target.value as QueueConfig['overflow'] })
+                        }
+                      >
+                        <option value="drop">Drop new messages</option>
+                        <option value="back-pressure">Push back on producers</option>
+                      </select>
+                    </label>
+                  </>
+                ) : null}
+
+                {isComponentType(selectedComponent, 'database') ? (
+                  <>
+                    <h3>Database Topology</h3>
+                    <label className="checkbox-field">
+                      <input
+                        type="checkbox"
+                        checked={Boolean(selectedComponent.databaseConfig)}
+                        onChange={(event) => updateSelectedDatabaseConfig(event.target.checked ? {} : null)}
+                      />
+                      Replication and sharding
+                    </label>
+
+                    {selectedComponent.databaseConfig ? (
+                      <>
+                        <p className="muted">
+                          {selectedComponent.databaseConfig.shardCount *
+                            (1 + selectedComponent.databaseConfig.readReplicas)}{' '}
+                          nodes replace the replica count above.
+                        </p>
+
+                        <div className="page-grid-two">
+                          <label className="field">
+                            Read Replicas per Shard
+                            <input
+                              type="number"
+                              min={0}
+                              max={15}
+                              value={selectedComponent.databaseConfig.readReplicas}
+                              onChange={(event) =>
+                                updateSelectedDatabaseConfig({
+                                  readReplicas: clamp(Math.round(Number(event.target.value) || 0), 0, 15)
+                                })
+                              }
+                            />
+                          </label>
+
+                          <label className="field">
+                            Shards
+                            <input
+                              type="number"
+                              min={1}
+                              max={64}
+                              value={selectedComponent.databaseConfig.shardCount}
+                              onChange={(event) =>
+                                updateSelectedDatabaseConfig({
+                                  shardCount: clamp(Math.round(Number(event.target.value) || 1), 1, 64)
+                                })
+                              }
+                            />
+                          </label>
+                        </div>
+
+                        {selectedComponent.databaseConfig.shardCount > 1 ? (
+                          <label className="field">
+                            Shard Key
+                            <input
+                              type="text"
+                              maxLength={80}
+                              placeholder="user_id"
+                              value={selectedComponent.databaseConfig.shardKey ?? ''}
+                              onChange={(event) =>
+                                updateSelectedDatabaseConfig({ shardKey: event.target.value.trim() || null })
+                              }
+                            />
+                          </label>
+                        ) : null}
+
+                        <div className="page-grid-two">
+                          <label className="field">
+                            Replication
+                            <select
+                              value={selectedComponent.databaseConfig.replication}
+                              onChange={(event) =>
+                                updateSelectedDatabaseConfig({
+                                  replication: event.target.value as DatabaseConfig['replication']
+                                })
+                              }
+                            >
+                              <option value="async">Async</option>
+                              <option value="sync">Sync</option>
+                            </select>
+                          </label>
+
+                          <label className="field">
+                            Read Consistency
+                            <select
+                              value={selectedComponent.databaseConfig.consistency}
+                              onChange={(event) =>
+                                updateSelectedDatabaseConfig({
+                                  consistency: event.target.value as DatabaseConfig['consistency']
+                                })
+                              }
+                            >
+                              <option value="strong">Strong</option>
+                              <option value="bounded-staleness">Bounded staleness</option>
+                              <option value="eventual">Eventual</option>
+                            </select>
+                          </label>
+                        </div>
+                      </>
+                    ) : null}
+                  </>
+                ) : null}
               </>
             )}
 
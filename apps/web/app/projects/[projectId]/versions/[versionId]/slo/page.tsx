@@ -0,0 +1,306 @@
+'use client';
+
+import { Region, SloDefinition, VersionSloResponse, sloDefinitionSchema } from '@sdc/shared-types';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import { API_BASE_URL, apiFetch } from '@/lib/api';
+import { clearAuthToken, getAuthToken } from '@/lib/auth-token';
+
+const REGIONS: Array<{ value: Region; label: string }> = [
+  { value: 'usEast', label: 'US East' },
+  { value: 'usWest', label: 'US West' },
+  { value: 'europe', label: 'Europe' },
+  { value: 'apac', label: 'APAC' }
+];
+
+const DEFAULT_SLO: SloDefinition = {
+  availabilityPercent: 99.9,
+  p95LatencyMs: 250,
+  regionTargets: []
+};
+
+function optionalNumber(value: string): number | undefined {
+  if (value.trim() === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+export default function VersionSloPage() {
+  const router = useRouter();
+  const params = useParams<{ projectId: string; versionId: string }>();
+  const projectId = params.projectId;
+  const versionId = params.versionId;
+
+  const [slo, setSlo] = useState<SloDefinition>(DEFAULT_SLO);
+  const [hasSavedSlo, setHasSavedSlo] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const token = getAuthToken();
+    if (!token) {
+      router.replace('/auth');
+      return;
+    }
+
+    void (async () => {
+      try {
+        const response = await apiFetch(`${API_BASE_URL}/projects/${projectId}/versions/${versionId}/slo`, {
+          headers: {
+            Authorization: `Bearer ${token}`
+          }
+        });
+
+        if (!response.ok) {
+          if (response.status === 401) {
+            clearAuthToken();
+            router.replace('/auth');
+            return;
+          }
+
+          setError('Unable to load SLOs.');
+          return;
+        }
+
+        const payload = (await response.json()) as VersionSloResponse;
+        if (payload.slo) {
+          setSlo(payload.slo);
+          setHasSavedSlo(true);
+        }
+      } catch {
+        setError('Unable to reach server.');
+      }
+    })();
+  }, [projectId, router, versionId]);
+
+  async function save(next: SloDefinition | null) {
+    const token = getAuthToken();
+    if (!token) {
+      router.replace('/auth');
+      return;
+    }
+
+    let body: SloDefinition | null = null;
+    if (next) {
+      const validation = sloDefinitionSchema.safeParse(next);
+      if (!validation.success) {
+        setError(validation.error.issues[0]?.message || 'SLO targets are invalid.');
+        return;
+      }
+      body = validation.data;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/projects/${projectId}/versions/${versionId}/slo`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`
+        },
+        body: JSON.stringify({ slo: body })
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          clearAuthToken();
+          router.replace('/auth');
+          return;
+        }
+
+        const payload = (await response.json()) as { message?: string };
+        setError(payload.message || 'Unable to save SLOs.');
+        return;
+      }
+
+      const payload = (await response.json()) as VersionSloResponse;
+      setSlo(payload.slo ?? DEFAULT_SLO);
+      setHasSavedSlo(payload.slo !== null);
+      setMessage(payload.slo ? 'SLOs saved. New runs will be evaluated against them.' : 'SLOs removed.');
+    } catch {
+      setError('Unable to reach server.');
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  const unusedRegion = REGIONS.find(
+    (region) => !slo.regionTargets.some((target) => target.region === region.value)
+  );
+
+  return (
+    <main>
+      <div className="page-stack">
+        <section className="card">
+          <p style={{ marginTop: 0 }}>
+            <Link href={`/projects/${projectId}/versions/${versionId}`}>Back to Workspace</Link>
+          </p>
+          <p className="kicker">Service Level Objectives</p>
+          <h1>Declare what this design must meet</h1>
+          <p className="subtitle">
+            Every simulation of this version is checked against these targets and reports how much of the error
+            budget it burns. Later versions inherit them.
+          </p>
+          {error ? <p className="error">{error}</p> : null}
+          {message ? <p className="muted">{message}</p> : null}
+        </section>
+
+        <section className="card">
+          <div className="split-row">
+            <h2>Targets</h2>
+            <span className={`pill ${hasSavedSlo ? 'pill-accent' : ''}`}>{hasSavedSlo ? 'Active' : 'Not set'}</span>
+          </div>
+          <div className="page-grid-two">
+            <label className="field">
+              Availability (%)
+              <input
+                type="number"
+                min={90}
+                max={99.999}
+                step={0.001}
+                value={slo.availabilityPercent}
+                onChange={(event) =>
+                  setSlo((current) => ({
+                    ...current,
+                    availabilityPercent: optionalNumber(event.target.value) ?? current.availabilityPercent
+                  }))
+                }
+              />
+            </label>
+            <label className="field">
+              p95 latency (ms)
+              <input
+                type="number"
+                min={1}
+                placeholder="No target"
+                value={slo.p95LatencyMs ?? ''}
+                onChange={(event) =>
+                  setSlo((current) => ({ ...current, p95LatencyMs: optionalNumber(event.target.value) }))
+                }
+              />
+            </label>
+            <label className="field">
+              p99 latency (ms)
+              <input
+                type="number"
+                min={1}
+                placeholder="No target"
+                value={slo.p99LatencyMs ?? ''}
+                onChange={(event) =>
+                  setSlo((current) => ({ ...current, p99LatencyMs: optionalNumber(event.target.value) }))
+                }
+              />
+            </label>
+          </div>
+          <p className="muted">
+            Error budget: {(100 - slo.availabilityPercent).toFixed(3)}% of requests may fail.
+          </p>
+        </section>
+
+        <section className="card">
+          <h2>Regional p95 Targets</h2>
+          {slo.regionTargets.length === 0 ? (
+            <p className="muted">No per-region targets. Clients in every region share the global p95 target.</p>
+          ) : null}
+          <div className="list-grid">
+            {slo.regionTargets.map((target, index) => (
+              <article className="list-item" key={`region-target-${index}`}>
+                <div className="page-grid-two">
+                  <label className="field">
+                    Region
+                    <select
+                      value={target.region}
+                      onChange={(event) =>
+                        setSlo((current) => ({
+                          ...current,
+                          regionTargets: current.regionTargets.map((item, itemIndex) =>
+                            itemIndex === index ? { ...item, region: event.target.value as Region } : item
+                          )
+                        }))
+                      }
+                    >
+                      {REGIONS.map((region) => (
+                        <option key={region.value} value={region.value}>
+                          {region.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="field">
+                    p95 latency (ms)
+                    <input
+                      type="number"
+                      min={1}
+                      value={target.p95LatencyMs}
+                      onChange={(event) =>
+                        setSlo((current) => ({
+                          ...current,
+                          regionTargets: current.regionTargets.map((item, itemIndex) =>
+                            itemIndex === index
+                              ? { ...item, p95LatencyMs: optionalNumber(event.target.value) ?? item.p95LatencyMs }
+                              : item
+                          )
+                        }))
+                      }
+                    />
+                  </label>
+                </div>
+                <button
+                  className="button button-secondary"
+                  type="button"
+                  onClick={() =>
+                    setSlo((current) => ({
+                      ...current,
+                      regionTargets: current.regionTargets.filter((_, itemIndex) => itemIndex !== index)
+                    }))
+                  }
+                >
+                  Remove
+                </button>
+              </article>
+            ))}
+          </div>
+          {unusedRegion ? (
+            <button
+              className="button button-secondary"
+              type="button"
+              onClick={() =>
+                setSlo((current) => ({
+                  ...current,
+                  regionTargets: [...current.regionTargets, { region: unusedRegion.value, p95LatencyMs: 300 }]
+                }))
+              }
+            >
+              Add Region Target
+            </button>
+          ) : null}
+        </section>
+
+        <section className="card">
+          <div className="button-row">
+            <button className="button" type="button" disabled={isSaving} onClick={() => void save(slo)}>
+              {isSaving ? 'Saving...' : 'Save SLOs'}
+            </button>
+            {hasSavedSlo ? (
+              <button
+                className="button button-secondary"
+                type="button"
+                disabled={isSaving}
+                onClick={() => void save(null)}
+              >
+                Remove SLOs
+              </button>
+            ) : null}
+          </div>
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,245 @@
+'use client';
+
+import {
+  ArchitectureComponent,
+  CreateParameterSweepRequest,
+  ParameterSweepResponse,
+  SweepParameter,
+  VersionDetail,
+  createParameterSweepRequestSchema,
+  isComponentType
+} from '@sdc/shared-types';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import { API_BASE_URL, apiFetch } from '@/lib/api';
+import { clearAuthToken, getAuthToken } from '@/lib/auth-token';
+
+const PARAMETER_OPTIONS: Array<{ value: SweepParameter; label: string }> = [
+  { value: 'baselineRps', label: 'Baseline RPS' },
+  { value: 'peakMultiplier', label: 'Peak multiplier' },
+  { value: 'readPercentage', label: 'Read percentage' },
+  { value: 'payloadKb', label: 'Payload (KB)' },
+  { value: 'replicas', label: 'Component replicas' }
+];
+
+const DEFAULT_RANGES: Record<SweepParameter, Omit<CreateParameterSweepRequest, 'parameter' | 'componentId'>> = {
+  baselineRps: { from: 1000, to: 100_000, steps: 12, scale: 'log' },
+  peakMultiplier: { from: 1, to: 10, steps: 10, scale: 'linear' },
+  readPercentage: { from: 50, to: 99, steps: 11, scale: 'linear' },
+  payloadKb: { from: 1, to: 1000, steps: 10, scale: 'log' },
+  replicas: { from: 1, to: 20, steps: 20, scale: 'linear' }
+};
+
+function asNumber(value: string, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function sweepableComponents(components: ArchitectureComponent[]): ArchitectureComponent[] {
+  return components.filter((component) => !isComponentType(component, 'client') && !component.databaseConfig);
+}
+
+export default function ParameterSweepPage() {
+  const router = useRouter();
+  const params = useParams<{ projectId: string; versionId: string }>();
+  const projectId = params.projectId;
+  const versionId = params.versionId;
+
+  const [components, setComponents] = useState<ArchitectureComponent[]>([]);
+  const [request, setRequest] = useState<CreateParameterSweepRequest>({
+    parameter: 'baselineRps',
+    ...DEFAULT_RANGES.baselineRps
+  });
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const token = getAuthToken();
+    if (!token) {
+      router.replace('/auth');
+      return;
+    }
+
+    void (async () => {
+      try {
+        const response = await apiFetch(`${API_BASE_URL}/projects/${projectId}/versions/${versionId}`, {
+          headers: {
+            Authorization: `Bearer ${token}`
+          }
+        });
+
+        if (!response.ok) {
+          if (response.status === 401) {
+            clearAuthToken();
+            router.replace('/auth');
+            return;
+          }
+
+          setError('Unable to load version.');
+          return;
+        }
+
+        const version = (await response.json()) as VersionDetail;
+        setComponents(sweepableComponents(version.components));
+      } catch {
+        setError('Unable to reach server.');
+      }
+    })();
+  }, [projectId, router, versionId]);
+
+  function selectParameter(parameter: SweepParameter) {
+    setRequest({
+      parameter,
+      ...DEFAULT_RANGES[parameter],
+      ...(parameter === 'replicas' ? { componentId: components[0]?.id } : {})
+    });
+  }
+
+  async function startSweep() {
+    const token = getAuthToken();
+    if (!token) {
+      router.replace('/auth');
+      return;
+    }
+
+    const validation = createParameterSweepRequestSchema.safeParse(request);
+    if (!validation.success) {
+      setError(validation.error.issues[0]?.message || 'Sweep settings are invalid.');
+      return;
+    }
+
+    setIsStarting(true);
+    setError(null);
+
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/versions/${versionId}/sweeps`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`
+        },
+        body: JSON.stringify(validation.data)
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          clearAuthToken();
+          router.replace('/auth');
+          return;
+        }
+
+        const payload = (await response.json()) as { message?: string };
+        setError(payload.message || 'Unable to start parameter sweep.');
+        return;
+      }
+
+      const payload = (await response.json()) as ParameterSweepResponse;
+      router.push(`/runs/sweeps/${payload.sweep.id}`);
+    } catch {
+      setError('Unable to reach server.');
+    } finally {
+      setIsStarting(false);
+    }
+  }
+
+  return (
+    <main>
+      <div className="page-stack">
+        <section className="card">
+          <p style={{ marginTop: 0 }}>
+            <Link href={`/projects/${projectId}/versions/${versionId}`}>Back to Workspace</Link>
+          </p>
+          <p className="kicker">Sensitivity Analysis</p>
+          <h1>Sweep one parameter and find the breaking point</h1>
+          <p className="subtitle">
+            Runs the analytical model at every value in the range and charts throughput, latency and errors against
+            it, along with the value where the system starts to saturate.
+          </p>
+          {error ? <p className="error">{error}</p> : null}
+        </section>
+
+        <section className="card">
+          <h2>Sweep</h2>
+          <div className="page-grid-two">
+            <label className="field">
+              Parameter
+              <select
+                value={request.parameter}
+                onChange={(event) => selectParameter(event.target.value as SweepParameter)}
+              >
+                {PARAMETER_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {request.parameter === 'replicas' ? (
+              <label className="field">
+                Component
+                <select
+                  value={request.componentId ?? ''}
+                  onChange={(event) => setRequest((current) => ({ ...current, componentId: event.target.value }))}
+                >
+                  {components.map((component) => (
+                    <option key={component.id} value={component.id}>
+                      {component.label} ({component.type})
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ) : null}
+            <label className="field">
+              From
+              <input
+                type="number"
+                value={request.from}
+                onChange={(event) =>
+                  setRequest((current) => ({ ...current, from: asNumber(event.target.value, current.from) }))
+                }
+              />
+            </label>
+            <label className="field">
+              To
+              <input
+                type="number"
+                value={request.to}
+                onChange={(event) =>
+                  setRequest((current) => ({ ...current, to: asNumber(event.target.value, current.to) }))
+                }
+              />
+            </label>
+            <label className="field">
+              Steps
+              <input
+                type="number"
+                min={2}
+                max={40}
+                value={request.steps}
+                onChange={(event) =>
+                  setRequest((current) => ({ ...current, steps: asNumber(event.target.value, current.steps) }))
+                }
+              />
+            </label>
+            <label className="field">
+              Spacing
+              <select
+                value={request.scale}
+                onChange={(event) =>
+                  setRequest((current) => ({ ...current, scale: event.target.value as CreateParameterSweepRequest['scale'] }))
+                }
+              >
+                <option value="linear">Linear</option>
+                <option value="log">Logarithmic</option>
+              </select>
+            </label>
+          </div>
+          <button className="button" type="button" disabled={isStarting} onClick={() => void startSweep()}>
+            {isStarting ? 'Starting sweep...' : 'Run Sweep'}
+          </button>
+        </section>
+      </div>
+    </main>
+  );
+}
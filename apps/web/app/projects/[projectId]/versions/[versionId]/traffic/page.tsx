@@ -3,8 +3,11 @@
 import {
   TrafficProfile,
   TrafficProfilePresetName,
+  TrafficShape,
+  TrafficShapePoint,
   VersionTrafficProfileResponse,
   defaultTrafficProfile,
+  trafficDemandRps,
   trafficProfilePresets,
   trafficProfileSchema
 } from '@sdc/shared-types';
@@ -52,15 +55,84 @@ function presetMatch(profile: TrafficProfile, preset: TrafficProfile): boolean {
   return JSON.stringify(profile) === JSON.stringify(preset);
 }
 
+const PREVIEW_WIDTH = 440;
+const PREVIEW_HEIGHT = 130;
+const PREVIEW_SAMPLES = 120;
+// Window a time-stepped run covers when the profile has no shape.
+const DEFAULT_WINDOW_SECONDS = 300;
+
+type ShapeKind = TrafficShape['kind'];
+
+const SHAPE_LABELS: Record<ShapeKind, string> = {
+  points: 'Piecewise points',
+  diurnal: 'Diurnal cycle',
+  ramp: 'Ramp',
+  'flash-crowd': 'Flash crowd',
+  replay: 'Replay from CSV'
+};
+
+function shapeWindowSeconds(profile: TrafficProfile): number {
+  return profile.shape?.durationSeconds ?? DEFAULT_WINDOW_SECONDS;
+}
+
+// Samples the same demand curve a time-stepped run steps through.
 function toSeries(profile: TrafficProfile): number[] {
-  const peak = profile.baselineRps * profile.peakMultiplier;
-  const burstFactor = profile.burstiness === 'steady' ? 0.2 : profile.burstiness === 'spiky' ? 0.45 : 0.7;
-
-  return Array.from({ length: 12 }, (_, index) => {
-    const wave = Math.sin((index / 11) * Math.PI);
-    const localPeak = profile.baselineRps + wave * (peak - profile.baselineRps) * burstFactor;
-    return Math.round(localPeak);
-  });
+  const durationSeconds = shapeWindowSeconds(profile);
+  return Array.from({ length: PREVIEW_SAMPLES + 1 }, (_, index) =>
+    trafficDemandRps(profile, (index / PREVIEW_SAMPLES) * durationSeconds, durationSeconds)
+  );
+}
+
+function defaultShape(kind: ShapeKind, profile: TrafficProfile): TrafficShape {
+  const peak = Math.round(profile.baselineRps * profile.peakMultiplier);
+  switch (kind) {
+    case 'points':
+    case 'replay':
+      return {
+        kind,
+        durationSeconds: 600,
+        points: [
+          { atSecond: 0, rps: profile.baselineRps },
+          { atSecond: 300, rps: peak },
+          { atSecond: 600, rps: profile.baselineRps }
+        ]
+      };
+    case 'diurnal':
+      return { kind, durationSeconds: 86_400, periodSeconds: 86_400, troughPercent: 30 };
+    case 'ramp':
+      return { kind, durationSeconds: 600, rampStartSeconds: 60, rampEndSeconds: 360 };
+    case 'flash-crowd':
+      return { kind, durationSeconds: 900, atSecond: 120, riseSeconds: 30, holdSeconds: 300, decaySeconds: 180 };
+  }
+}
+
+function pointsToText(points: TrafficShapePoint[]): string {
+  return points.map((point) => `${point.atSecond},${point.rps}`).join('\n');
+}
+
+/**
+ * Reads `second,rps` rows, skipping a header row and blank lines. Returns null when a row
+ * does not hold two numbers.
+ */
+function parseRpsCsv(text: string): TrafficShapePoint[] | null {
+  const rows = text
+    .split(/\r?\n/)
+    .map((row) => row.trim())
+    .filter((row) => row.length > 0);
+  const points: TrafficShapePoint[] = [];
+
+  for (const [index, row] of rows.entries()) {
+    const [atSecond, rps] = row.split(/[,;\t]/).map((cell) => Number(cell.trim()));
+    if (atSecond === undefined || rps === undefined || !Number.isFinite(atSecond) || !Number.isFinite(rps)) {
+      if (index === 0) {
+        continue;
+      }
+      return null;
+    }
+    points.push({ atSecond, rps });
+  }
+
+  return points;
 }
 
 export default function TrafficProfilePage() {
@@ -74,6 +146,7 @@ export default function TrafficProfilePage() {
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [pointsText, setPointsText] = useState('');
 
   useEffect(() => {
     const token = getAuthToken();
@@ -106,6 +179,9 @@ export default function TrafficProfilePage() {
 
         const payload = (await response.json()) as VersionTrafficProfileResponse;
         setProfile(payload.trafficProfile);
+        if (payload.trafficProfile.shape?.kind === 'points') {
+          setPointsText(pointsToText(payload.trafficProfile.shape.points));
+        }
       } catch {
         setError('Unable to reach server.');
       } finally {
@@ -173,6 +249,67 @@ export default function TrafficProfilePage() {
     setError(null);
   }
 
+  function selectShapeKind(kind: ShapeKind | 'none') {
+    if (kind === 'none') {
+      setProfile((current) => ({ ...current, shape: undefined }));
+      return;
+    }
+
+    const shape = defaultShape(kind, profile);
+    if (shape.kind === 'points') {
+      setPointsText(pointsToText(shape.points));
+    }
+    setProfile((current) => ({ ...current, shape }));
+  }
+
+  function updateShape(patch: Partial<Record<string, number>>) {
+    setProfile((current) =>
+      current.shape ? { ...current, shape: { ...current.shape, ...patch } as TrafficShape } : current
+    );
+  }
+
+  function editPoints(text: string) {
+    setPointsText(text);
+    const points = parseRpsCsv(text);
+    if (!points || points.length === 0) {
+      return;
+    }
+    setProfile((current) =>
+      current.shape?.kind === 'points'
+        ? {
+            ...current,
+            shape: {
+              ...current.shape,
+              points,
+              durationSeconds: Math.max(10, Math.ceil(points[points.length - 1]?.atSecond ?? 0))
+            }
+          }
+        : current
+    );
+  }
+
+  async function replayCsv(file: File) {
+    const points = parseRpsCsv(await file.text());
+    if (!points || points.length < 2) {
+      setError('The CSV needs at least two rows of seconds and RPS.');
+      return;
+    }
+
+    // Recordings rarely start at zero; replay them from the start of the window.
+    const startSecond = points[0]?.atSecond ?? 0;
+    const shifted = points.map((point) => ({ atSecond: point.atSecond - startSecond, rps: point.rps }));
+    setError(null);
+    setProfile((current) => ({
+      ...current,
+      shape: {
+        kind: 'replay',
+        sourceName: file.name.slice(0, 200),
+        durationSeconds: Math.max(10, Math.ceil(shifted[shifted.length - 1]?.atSecond ?? 0)),
+        points: shifted
+      }
+    }));
+  }
+
   function setReadPercentage(value: number) {
     const clamped = Math.min(100, Math.max(0, Math.round(value)));
     setProfile((current) => ({
@@ -192,15 +329,18 @@ export default function TrafficProfilePage() {
   }
 
   const previewSeries = useMemo(() => toSeries(profile), [profile]);
+  const previewPeakRps = Math.round(Math.max(1, ...previewSeries));
   const chartPoints = useMemo(() => {
-    return previewSeries.map((value, index) => `${index * 40},${130 - Math.min(120, value / 50)}`).join(' ');
-  }, [previewSeries]);
-  const areaPoints = useMemo(() => {
-    if (previewSeries.length === 0) {
-      return '0,130';
-    }
-    return `0,130 ${chartPoints} ${(previewSeries.length - 1) * 40},130`;
-  }, [chartPoints, previewSeries.length]);
+    return previewSeries
+      .map((value, index) => {
+        const x = (index / PREVIEW_SAMPLES) * PREVIEW_WIDTH;
+        const y = PREVIEW_HEIGHT - (value / previewPeakRps) * (PREVIEW_HEIGHT - 10);
+        return `${x.toFixed(1)},${y.toFixed(1)}`;
+      })
+      .join(' ');
+  }, [previewPeakRps, previewSeries]);
+  const areaPoints = `0,${PREVIEW_HEIGHT} ${chartPoints} ${PREVIEW_WIDTH},${PREVIEW_HEIGHT}`;
+  const shape = profile.shape;
 
   const peakRps = Math.round(profile.baselineRps * profile.peakMultiplier);
   const hourlyRequests = profile.baselineRps * 3600;
@@ -479,17 +619,154 @@ export default function TrafficProfilePage() {
                     </select>
                   </label>
 
+                  <label className="field">
+                    Traffic Shape
+                    <select
+                      value={shape?.kind ?? 'none'}
+                      onChange={(event) => selectShapeKind(event.target.value as ShapeKind | 'none')}
+                    >
+                      <option value="none">Default ramp (300s)</option>
+                      {(Object.keys(SHAPE_LABELS) as ShapeKind[]).map((kind) => (
+                        <option key={kind} value={kind}>
+                          {SHAPE_LABELS[kind]}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+
+                  {shape && shape.kind !== 'replay' && shape.kind !== 'points' ? (
+                    <label className="field">
+                      Window (seconds)
+                      <input
+                        type="number"
+                        min={10}
+                        max={86400}
+                        value={shape.durationSeconds}
+                        onChange={(event) =>
+                          updateShape({ durationSeconds: Math.round(asNumber(event.target.value, shape.durationSeconds)) })
+                        }
+                      />
+                    </label>
+                  ) : null}
+
+                  {shape?.kind === 'points' ? (
+                    <label className="field">
+                      Points (second,rps per line; linear in between)
+                      <textarea rows={6} value={pointsText} onChange={(event) => editPoints(event.target.value)} />
+                    </label>
+                  ) : null}
+
+                  {shape?.kind === 'diurnal' ? (
+                    <div className="page-grid-two">
+                      <label className="field">
+                        Period (seconds)
+                        <input
+                          type="number"
+                          min={10}
+                          max={86400}
+                          value={shape.periodSeconds}
+                          onChange={(event) =>
+                            updateShape({ periodSeconds: Math.round(asNumber(event.target.value, shape.periodSeconds)) })
+                          }
+                        />
+                      </label>
+                      <label className="field">
+                        Trough (% of baseline)
+                        <input
+                          type="number"
+                          min={0}
+                          max={100}
+                          value={shape.troughPercent}
+                          onChange={(event) =>
+                            updateShape({ troughPercent: asNumber(event.target.value, shape.troughPercent) })
+                          }
+                        />
+                      </label>
+                    </div>
+                  ) : null}
+
+                  {shape?.kind === 'ramp' ? (
+                    <div className="page-grid-two">
+                      <label className="field">
+                        Ramp starts at (s)
+                        <input
+                          type="number"
+                          min={0}
+                          value={shape.rampStartSeconds}
+                          onChange={(event) =>
+                            updateShape({ rampStartSeconds: asNumber(event.target.value, shape.rampStartSeconds) })
+                          }
+                        />
+                      </label>
+                      <label className="field">
+                        Peak reached at (s)
+                        <input
+                          type="number"
+                          min={0}
+                          value={shape.rampEndSeconds}
+                          onChange={(event) =>
+                            updateShape({ rampEndSeconds: asNumber(event.target.value, shape.rampEndSeconds) })
+                          }
+                        />
+                      </label>
+                    </div>
+                  ) : null}
+
+                  {shape?.kind === 'flash-crowd' ? (
+                    <div className="page-grid-two">
+                      {(
+                        [
+                          ['atSecond', 'Crowd arrives at (s)'],
+                          ['riseSeconds', 'Rise (s)'],
+                          ['holdSeconds', 'Hold at peak (s)'],
+                          ['decaySeconds', 'Decay (s)']
+                        ] as const
+                      ).map(([key, label]) => (
+                        <label className="field" key={key}>
+                          {label}
+                          <input
+                            type="number"
+                            min={0}
+                            value={shape[key]}
+                            onChange={(event) => updateShape({ [key]: asNumber(event.target.value, shape[key]) })}
+                          />
+                        </label>
+                      ))}
+                    </div>
+                  ) : null}
+
+                  {shape?.kind === 'replay' ? (
+                    <label className="field">
+                      RPS recording (CSV of second,rps)
+                      <input
+                        type="file"
+                        accept=".csv,text/csv"
+                        onChange={(event) => {
+                          const file = event.target.files?.[0];
+                          if (file) {
+                            void replayCsv(file);
+                          }
+                        }}
+                      />
+                      <span className="muted">
+                        {shape.sourceName ?? 'Sample shape'} • {shape.points.length.toLocaleString()} samples over{' '}
+                        {shape.durationSeconds.toLocaleString()}s
+                      </span>
+                    </label>
+                  ) : null}
+
                   <div className="traffic-preview">
                     <div className="split-row">
                       <h3 style={{ marginBottom: 0 }}>Live Preview</h3>
-                      <span className="pill">Peak {peakRps.toLocaleString()} RPS</span>
+                      <span className="pill">Peak {previewPeakRps.toLocaleString()} RPS</span>
                     </div>
-                    <svg className="preview-chart" viewBox="0 0 440 130" preserveAspectRatio="none">
+                    <svg className="preview-chart" viewBox={`0 0 ${PREVIEW_WIDTH} ${PREVIEW_HEIGHT}`} preserveAspectRatio="none">
                       <polyline className="preview-area" points={areaPoints} />
                       <polyline className="preview-line" points={chartPoints} />
                     </svg>
                     <p className="muted" style={{ marginBottom: 0 }}>
-                      Read/write split: {profile.readPercentage}% / {profile.writePercentage}% • Burstiness: {profile.burstiness}
+                      Demand across the {shapeWindowSeconds(profile).toLocaleString()}s time-stepped window • Read/write
+                      split: {profile.readPercentage}% / {profile.writePercentage}% • Burstiness: {profile.burstiness}
                     </p>
                   </div>
 
@@ -1,17 +1,26 @@
 'use client';
 
 import {
+  AvailabilityZone,
+  ChaosExperiment,
+  ChaosExperimentStep,
   FailureInjectionMode,
+  FailureInjectionProfile,
   FailureInjectionRequest,
+  ListChaosExperimentsResponse,
+  Region,
   SimulationRun,
   SimulationRunResponse,
-  VersionDetail
+  VersionDetail,
+  isComponentType
 } from '@sdc/shared-types';
 import Link from 'next/link';
 import { useParams, useRouter } from 'next/navigation';
 import { FormEvent, useEffect, useMemo, useState } from 'react';
+import { SloEvaluationCard } from '@/components/slo-evaluation-card';
 import { API_BASE_URL, apiFetch } from '@/lib/api';
 import { clearAuthToken, getAuthToken } from '@/lib/auth-token';
+import { applyRunStreamMessage, isTerminalRunStatus, watchSimulationRun } from '@/lib/run-stream';
 
 type LoadState = 'loading' | 'ready' | 'error';
 
@@ -46,9 +55,48 @@ const MODE_CARDS: ModeCard[] = [
     title: 'Traffic Surge',
     description: 'Spike incoming load to reveal bottlenecks and saturation limits.',
     icon: 'TS'
+  },
+  {
+    mode: 'region-down',
+    title: 'Region Down',
+    description: 'Lose every component placed in one region and see where its traffic lands.',
+    icon: 'RD'
+  },
+  {
+    mode: 'cache-flush',
+    title: 'Cache Flush',
+    description: 'Empty a cache and watch the thundering herd hit its backing store.',
+    icon: 'CF'
+  },
+  {
+    mode: 'primary-failover',
+    title: 'Primary Failover',
+    description: 'Kill a database primary and measure promotion time and lost async writes.',
+    icon: 'PF'
+  },
+  {
+    mode: 'network-partition',
+    title: 'Network Partition',
+    description: 'Cut links or split zones apart and find what clients can no longer reach.',
+    icon: 'NP'
+  },
+  {
+    mode: 'packet-loss',
+    title: 'Packet Loss',
+    description: 'Drop a share of calls on a link and watch retries add load and latency.',
+    icon: 'PL'
   }
 ];
 
+const ZONES: AvailabilityZone[] = ['az-a', 'az-b', 'az-c'];
+
+const REGIONS: Array<{ value: Region; label: string }> = [
+  { value: 'usEast', label: 'US East' },
+  { value: 'usWest', label: 'US West' },
+  { value: 'europe', label: 'Europe' },
+  { value: 'apac', label: 'APAC' }
+];
+
 function deltaLabel(before: number, after: number, unit = ''): string {
   const delta = after - before;
   const sign = delta >= 0 ? '+' : '';
@@ -93,17 +141,37 @@ export default function FailureInjectionPage() {
 
   const [mode, setMode] = useState<FailureInjectionMode>('node-down');
   const [targetComponentId, setTargetComponentId] = useState('');
-  const [azName, setAzName] = useState<'az-a' | 'az-b'>('az-a');
+  const [azName, setAzName] = useState<AvailabilityZone>('az-a');
+  const [azRegion, setAzRegion] = useState<Region | ''>('');
+  const [region, setRegion] = useState<Region>('usEast');
+  const [cacheTargetId, setCacheTargetId] = useState('');
+  const [databaseTargetId, setDatabaseTargetId] = useState('');
   const [lagMs, setLagMs] = useState(250);
   const [surgeMultiplier, setSurgeMultiplier] = useState(2.2);
+  const [partitionBy, setPartitionBy] = useState<'edges' | 'zones'>('edges');
+  const [edgeIds, setEdgeIds] = useState<string[]>([]);
+  const [partitionZones, setPartitionZones] = useState<AvailabilityZone[]>(['az-a']);
+  const [lossPercent, setLossPercent] = useState(10);
+
+  const [experiments, setExperiments] = useState<ChaosExperiment[]>([]);
+  const [experimentName, setExperimentName] = useState('');
+  const [draftSteps, setDraftSteps] = useState<ChaosExperimentStep[]>([]);
+  const [stepAtSecond, setStepAtSecond] = useState(0);
 
   const componentOptions = useMemo(() => {
     return version?.components ?? [];
   }, [version?.components]);
-
-  const injectedTerminal = useMemo(() => {
-    return injectedRun?.status === 'completed' || injectedRun?.status === 'failed';
-  }, [injectedRun?.status]);
+  const databaseOptions = useMemo(() => {
+    return componentOptions.filter((component) => isComponentType(component, 'database'));
+  }, [componentOptions]);
+  const edgeOptions = useMemo(() => {
+    const labelOf = (componentId: string) =>
+      componentOptions.find((component) => component.id === componentId)?.label ?? componentId;
+    return (version?.edges ?? []).map((edge) => ({
+      id: edge.id,
+      label: `${labelOf(edge.sourceId)} -> ${labelOf(edge.targetId)}`
+    }));
+  }, [componentOptions, version?.edges]);
 
   useEffect(() => {
     const token = getAuthToken();
@@ -164,6 +232,20 @@ export default function FailureInjectionPage() {
         setVersion(versionPayload);
         setTargetComponentId(versionPayload.components[0]?.id ?? '');
         setLoadState('ready');
+
+        const experimentsResponse = await apiFetch(
+          `${API_BASE_URL}/projects/${baselinePayload.run.projectId}/chaos-experiments`,
+          {
+            headers: {
+              Authorization: `Bearer ${token}`
+            }
+          }
+        );
+
+        if (experimentsResponse.ok && active) {
+          const experimentsPayload = (await experimentsResponse.json()) as ListChaosExperimentsResponse;
+          setExperiments(experimentsPayload.experiments);
+        }
       } catch {
         if (!active) {
           return;
@@ -180,8 +262,10 @@ export default function FailureInjectionPage() {
     };
   }, [baselineRunId, router]);
 
+  const injectedRunId = injectedRun?.id ?? null;
+
   useEffect(() => {
-    if (!injectedRun || injectedTerminal) {
+    if (!injectedRunId) {
       return;
     }
 
@@ -192,7 +276,7 @@ export default function FailureInjectionPage() {
     }
 
     let active = true;
-    const injectedRunId = injectedRun.id;
+    let timer: ReturnType<typeof setInterval> | null = null;
 
     async function pollInjectedRun() {
       try {
@@ -211,36 +295,45 @@ export default function FailureInjectionPage() {
           return;
         }
         setInjectedRun(payload.run);
+        if (timer && isTerminalRunStatus(payload.run.status)) {
+          clearInterval(timer);
+        }
       } catch {
         // no-op during polling
       }
     }
 
-    const timer = setInterval(() => {
-      void pollInjectedRun();
-    }, 1500);
+    const stopStream = watchSimulationRun(injectedRunId, {
+      onMessage: (message) => {
+        if (active) {
+          setInjectedRun((current) => (current ? applyRunStreamMessage(current, message) : current));
+        }
+      },
+      onClose: (finished) => {
+        if (!active) {
+          return;
+        }
+        if (finished) {
+          void pollInjectedRun();
+        } else {
+          timer = setInterval(() => {
+            void pollInjectedRun();
+          }, 1500);
+        }
+      }
+    });
 
     return () => {
       active = false;
-      clearInterval(timer);
+      stopStream();
+      if (timer) {
+        clearInterval(timer);
+      }
     };
-  }, [injectedRun, injectedTerminal, router]);
+  }, [injectedRunId, router]);
 
-  async function submitFailureInjection(event: FormEvent<HTMLFormElement>) {
-    event.preventDefault();
-
-    const token = getAuthToken();
-    if (!token) {
-      router.replace('/auth');
-      return;
-    }
-
-    if (!baselineRun) {
-      setError('Baseline run not loaded.');
-      return;
-    }
-
-    const profile: FailureInjectionRequest['profile'] = {
+  function buildProfile(): FailureInjectionProfile {
+    const profile: FailureInjectionProfile = {
       mode
     };
 
@@ -252,10 +345,45 @@ export default function FailureInjectionPage() {
     }
     if (mode === 'az-down') {
       profile.azName = azName;
+      profile.region = azRegion || null;
+    }
+    if (mode === 'region-down') {
+      profile.region = region;
+    }
+    if (mode === 'cache-flush' && cacheTargetId) {
+      profile.targetComponentId = cacheTargetId;
+    }
+    if (mode === 'primary-failover') {
+      profile.targetComponentId = databaseTargetId || databaseOptions[0]?.id;
     }
     if (mode === 'traffic-surge') {
       profile.surgeMultiplier = Math.max(1.1, Number(surgeMultiplier));
     }
+    if (mode === 'network-partition' && partitionBy === 'zones') {
+      profile.partitionZones = partitionZones;
+      profile.region = azRegion || null;
+    }
+    if ((mode === 'network-partition' && partitionBy === 'edges') || mode === 'packet-loss') {
+      profile.edgeIds = edgeIds;
+    }
+    if (mode === 'packet-loss') {
+      profile.lossPercent = Math.min(99, Math.max(1, Number(lossPercent)));
+    }
+
+    return profile;
+  }
+
+  async function queueInjectedRun(request: FailureInjectionRequest) {
+    const token = getAuthToken();
+    if (!token) {
+      router.replace('/auth');
+      return;
+    }
+
+    if (!baselineRun) {
+      setError('Baseline run not loaded.');
+      return;
+    }
 
     setIsSubmitting(true);
     setError(null);
@@ -267,7 +395,7 @@ export default function FailureInjectionPage() {
           'Content-Type': 'application/json',
           Authorization: `Bearer ${token}`
         },
-        body: JSON.stringify({ profile })
+        body: JSON.stringify(request)
       });
 
       if (!response.ok) {
@@ -291,6 +419,84 @@ export default function FailureInjectionPage() {
     }
   }
 
+  async function submitFailureInjection(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    await queueInjectedRun({ profile: buildProfile() });
+  }
+
+  function addDraftStep() {
+    const atSecond = Math.min(3600, Math.max(0, Math.floor(stepAtSecond)));
+    setDraftSteps((current) =>
+      [...current, { atSecond, profile: buildProfile() }].sort((left, right) => left.atSecond - right.atSecond)
+    );
+  }
+
+  async function saveExperiment() {
+    const token = getAuthToken();
+    if (!token) {
+      router.replace('/auth');
+      return;
+    }
+
+    if (!baselineRun || draftSteps.length === 0) {
+      return;
+    }
+
+    setError(null);
+
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/projects/${baselineRun.projectId}/chaos-experiments`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`
+        },
+        body: JSON.stringify({ name: experimentName, steps: draftSteps })
+      });
+
+      if (!response.ok) {
+        const payload = (await response.json()) as { message?: string };
+        setError(payload.message || 'Unable to save chaos experiment.');
+        return;
+      }
+
+      const experiment = (await response.json()) as ChaosExperiment;
+      setExperiments((current) => [experiment, ...current]);
+      setExperimentName('');
+      setDraftSteps([]);
+    } catch {
+      setError('Unable to reach server.');
+    }
+  }
+
+  async function deleteExperiment(experimentId: string) {
+    const token = getAuthToken();
+    if (!token || !baselineRun) {
+      return;
+    }
+
+    try {
+      const response = await apiFetch(
+        `${API_BASE_URL}/projects/${baselineRun.projectId}/chaos-experiments/${experimentId}`,
+        {
+          method: 'DELETE',
+          headers: {
+            Authorization: `Bearer ${token}`
+          }
+        }
+      );
+
+      if (!response.ok) {
+        setError('Unable to delete chaos experiment.');
+        return;
+      }
+
+      setExperiments((current) => current.filter((experiment) => experiment.id !== experimentId));
+    } catch {
+      setError('Unable to reach server.');
+    }
+  }
+
   const baselineMetrics = baselineRun?.metrics ?? null;
   const injectedMetrics = injectedRun?.metrics ?? null;
 
@@ -361,15 +567,154 @@ export default function FailureInjectionPage() {
                 )}
 
                 {mode === 'az-down' && (
+                  <div className="page-grid-two">
+                    <label className="field">
+                      AZ
+                      <select value={azName} onChange={(event) => setAzName(event.target.value as AvailabilityZone)}>
+                        <option value="az-a">AZ-A</option>
+                        <option value="az-b">AZ-B</option>
+                        <option value="az-c">AZ-C</option>
+                      </select>
+                    </label>
+                    <label className="field">
+                      Region
+                      <select value={azRegion} onChange={(event) => setAzRegion(event.target.value as Region | '')}>
+                        <option value="">All regions</option>
+                        {REGIONS.map((item) => (
+                          <option key={item.value} value={item.value}>
+                            {item.label}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  </div>
+                )}
+
+                {mode === 'cache-flush' && (
                   <label className="field">
-                    AZ
-                    <select value={azName} onChange={(event) => setAzName(event.target.value as 'az-a' | 'az-b')}>
-                      <option value="az-a">AZ-A</option>
-                      <option value="az-b">AZ-B</option>
+                    Cache
+                    <select value={cacheTargetId} onChange={(event) => setCacheTargetId(event.target.value)}>
+                      <option value="">All caches</option>
+                      {componentOptions
+                        .filter((component) => isComponentType(component, 'cache'))
+                        .map((component) => (
+                          <option key={component.id} value={component.id}>
+                            {component.label}
+                          </option>
+                        ))}
+                    </select>
+                  </label>
+                )}
+
+                {mode === 'primary-failover' && (
+                  <label className="field">
+                    Database
+                    <select value={databaseTargetId} onChange={(event) => setDatabaseTargetId(event.target.value)}>
+                      {databaseOptions.length === 0 ? <option value="">No databases in this version</option> : null}
+                      {databaseOptions.map((component) => (
+                        <option key={component.id} value={component.id}>
+                          {component.label}
+                          {component.databaseConfig
+                            ? ` (${component.databaseConfig.shardCount} shards, ${component.databaseConfig.replication})`
+                            : ''}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+
+                {mode === 'region-down' && (
+                  <label className="field">
+                    Region
+                    <select value={region} onChange={(event) => setRegion(event.target.value as Region)}>
+                      {REGIONS.map((item) => (
+                        <option key={item.value} value={item.value}>
+                          {item.label}
+                          {version ? ` (${version.trafficProfile.regionDistribution[item.value]}% of traffic)` : ''}
+                        </option>
+                      ))}
                     </select>
                   </label>
                 )}
 
+                {mode === 'network-partition' && (
+                  <label className="field">
+                    Partition
+                    <select
+                      value={partitionBy}
+                      onChange={(event) => setPartitionBy(event.target.value as 'edges' | 'zones')}
+                    >
+                      <option value="edges">Cut selected links</option>
+                      <option value="zones">Split zones apart</option>
+                    </select>
+                  </label>
+                )}
+
+                {mode === 'network-partition' && partitionBy === 'zones' && (
+                  <div className="page-grid-two">
+                    <label className="field">
+                      Isolated Zones
+                      <select
+                        multiple
+                        value={partitionZones}
+                        onChange={(event) =>
+                          setPartitionZones(
+                            Array.from(event.target.selectedOptions, (option) => option.value as AvailabilityZone)
+                          )
+                        }
+                      >
+                        {ZONES.map((zone) => (
+                          <option key={zone} value={zone}>
+                            {zone.toUpperCase()}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="field">
+                      Region
+                      <select value={azRegion} onChange={(event) => setAzRegion(event.target.value as Region | '')}>
+                        <option value="">All regions</option>
+                        {REGIONS.map((item) => (
+                          <option key={item.value} value={item.value}>
+                            {item.label}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  </div>
+                )}
+
+                {((mode === 'network-partition' && partitionBy === 'edges') || mode === 'packet-loss') && (
+                  <label className="field">
+                    Links
+                    <select
+                      multiple
+                      value={edgeIds}
+                      onChange={(event) => setEdgeIds(Array.from(event.target.selectedOptions, (option) => option.value))}
+                    >
+                      {edgeOptions.map((edge) => (
+                        <option key={edge.id} value={edge.id}>
+                          {edge.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+
+                {mode === 'packet-loss' && (
+                  <label className="field">
+                    Loss (%)
+                    <input
+                      type="number"
+                      min={1}
+                      max={99}
+                      step={1}
+                      value={lossPercent}
+                      onChange={(event) => setLossPercent(Number(event.target.value) || 10)}
+                    />
+                  </label>
+                )}
+
                 {mode === 'dependency-lag' && (
                   <label className="field">
                     Added Lag (ms)
@@ -398,13 +743,119 @@ export default function FailureInjectionPage() {
                   </label>
                 )}
 
-                <button className="button" type="submit" disabled={isSubmitting}>
-                  {isSubmitting ? 'Injecting...' : 'Run Failure Injection'}
-                </button>
+                <div className="button-row">
+                  <button className="button" type="submit" disabled={isSubmitting}>
+                    {isSubmitting ? 'Injecting...' : 'Run Failure Injection'}
+                  </button>
+                  <label className="field" style={{ marginBottom: 0 }}>
+                    Step At (s)
+                    <input
+                      type="number"
+                      min={0}
+                      max={3600}
+                      step={10}
+                      value={stepAtSecond}
+                      onChange={(event) => setStepAtSecond(Number(event.target.value) || 0)}
+                    />
+                  </label>
+                  <button
+                    className="button button-secondary"
+                    type="button"
+                    onClick={addDraftStep}
+                    disabled={draftSteps.length >= 20}
+                  >
+                    Add As Experiment Step
+                  </button>
+                </div>
               </form>
             </section>
           ) : null}
 
+          {baselineRun?.status === 'completed' ? (
+            <section className="card">
+              <h2>Chaos Experiments</h2>
+              <p className="muted">
+                Chain failure modes on a schedule. Time-stepped runs apply each step at its offset and skip steps
+                scheduled after the run ends (300s, or the traffic shape&apos;s duration); other modes apply every
+                step up front.
+              </p>
+
+              {draftSteps.length > 0 ? (
+                <div className="list-item" style={{ marginBottom: '0.75rem' }}>
+                  <h3>Draft</h3>
+                  <ul>
+                    {draftSteps.map((step, index) => (
+                      <li key={`${step.atSecond}-${index}`}>
+                        t={step.atSecond}s: {step.profile.mode}
+                        {step.profile.targetComponentId ? ` on ${step.profile.targetComponentId}` : ''}{' '}
+                        <button
+                          className="button button-secondary"
+                          type="button"
+                          onClick={() => setDraftSteps((current) => current.filter((_, stepIndex) => stepIndex !== index))}
+                        >
+                          Remove
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                  <div className="button-row">
+                    <label className="field" style={{ marginBottom: 0 }}>
+                      Name
+                      <input
+                        value={experimentName}
+                        maxLength={120}
+                        onChange={(event) => setExperimentName(event.target.value)}
+                      />
+                    </label>
+                    <button
+                      className="button"
+                      type="button"
+                      onClick={() => void saveExperiment()}
+                      disabled={!experimentName.trim()}
+                    >
+                      Save Experiment
+                    </button>
+                  </div>
+                </div>
+              ) : null}
+
+              {experiments.length === 0 ? (
+                <p className="muted">No saved experiments for this project yet.</p>
+              ) : (
+                <div className="list-grid">
+                  {experiments.map((experiment) => (
+                    <article key={experiment.id} className="list-item">
+                      <div className="list-item-header">
+                        <strong>{experiment.name}</strong>
+                        <span className="pill">{experiment.steps.length} steps</span>
+                      </div>
+                      <p className="muted">
+                        {experiment.steps.map((step) => `t=${step.atSecond}s ${step.profile.mode}`).join(' -> ')}
+                      </p>
+                      <div className="button-row">
+                        <button
+                          className="button"
+                          type="button"
+                          disabled={isSubmitting}
+                          onClick={() => void queueInjectedRun({ experimentId: experiment.id })}
+                        >
+                          Run Experiment
+                        </button>
+                        <button
+                          className="button button-secondary"
+                          type="button"
+                          onClick={() => void deleteExperiment(experiment.id)}
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </article>
+                  ))}
+                </div>
+              )}
+            </section>
+          ) : null}
+
           {injectedRun ? (
             <section className="card">
               <h2>Injected Run Status</h2>
@@ -421,9 +872,9 @@ export default function FailureInjectionPage() {
                   {injectedRun.failureReason || 'Failure injection run failed.'}
                 </p>
               ) : null}
-              {injectedRun.status !== 'completed' && injectedRun.status !== 'failed' ? (
+              {!isTerminalRunStatus(injectedRun.status) ? (
                 <p className="muted" style={{ marginTop: '0.6rem' }}>
-                  Run is processing. This section auto-refreshes.
+                  Run is processing. This section updates live.
                 </p>
               ) : null}
             </section>
@@ -481,6 +932,8 @@ export default function FailureInjectionPage() {
             </section>
           ) : null}
 
+          {injectedRun?.sloEvaluation ? <SloEvaluationCard evaluation={injectedRun.sloEvaluation} /> : null}
+
           {injectedRun?.blastRadius ? (
             <section className="card">
               <h2>Blast Radius Visualization</h2>
@@ -488,8 +941,19 @@ export default function FailureInjectionPage() {
                 Impacted: {injectedRun.blastRadius.impactedCount} components • Critical:{' '}
                 {injectedRun.blastRadius.criticalCount} • Estimated user impact:{' '}
                 {injectedRun.blastRadius.estimatedUserImpactPercent.toFixed(2)}%
+                {injectedRun.blastRadius.messagesDelayed !== undefined
+                  ? ` • Messages delayed: ${injectedRun.blastRadius.messagesDelayed.toLocaleString()}`
+                  : ''}
               </p>
               <p>{injectedRun.blastRadius.summary}</p>
+              {injectedRun.blastRadius.modes ? (
+                <p className="muted">Steps: {injectedRun.blastRadius.modes.join(' -> ')}</p>
+              ) : null}
+              {injectedRun.blastRadius.skippedModes ? (
+                <p className="muted">
+                  Skipped after the run ended: {injectedRun.blastRadius.skippedModes.join(', ')}
+                </p>
+              ) : null}
 
               <div className="overlay-grid">
                 {injectedRun.blastRadius.impactedComponents.map((component) => (
@@ -1,13 +1,36 @@
 'use client';
 
-import { SimulationRun, SimulationRunResponse } from '@sdc/shared-types';
+import {
+  Region,
+  RunReplayDiff,
+  RunReplayDiffResponse,
+  SimulationEnginesResponse,
+  SimulationMetricBand,
+  SimulationRun,
+  SimulationRunResponse,
+  SimulationTick
+} from '@sdc/shared-types';
 import Link from 'next/link';
 import { useParams, useRouter } from 'next/navigation';
 import { useEffect, useMemo, useState } from 'react';
+import { ReplayDiffCard } from '@/components/replay-diff-card';
+import { SloEvaluationCard } from '@/components/slo-evaluation-card';
 import { API_BASE_URL, apiFetch } from '@/lib/api';
 import { clearAuthToken, getAuthToken } from '@/lib/auth-token';
+import { applyRunStreamMessage, isTerminalRunStatus, watchSimulationRun } from '@/lib/run-stream';
 
 type LoadState = 'loading' | 'ready' | 'error';
+type RunAction = 'cancel' | 'retry' | 'rerun' | 'replay';
+
+const SERIES_CHART_WIDTH = 600;
+const SERIES_CHART_HEIGHT = 160;
+
+const REGION_LABELS: Record<Region, string> = {
+  usEast: 'US East',
+  usWest: 'US West',
+  europe: 'Europe',
+  apac: 'APAC'
+};
 
 function statusLabel(status: SimulationRun['status']): string {
   switch (status) {
@@ -19,6 +42,8 @@ function statusLabel(status: SimulationRun['status']): string {
       return 'Completed';
     case 'failed':
       return 'Failed';
+    case 'cancelled':
+      return 'Cancelled';
     default:
       return status;
   }
@@ -34,6 +59,21 @@ function statusClassName(status: SimulationRun['status']): string {
   return 'pill pill-warning';
 }
 
+function modeLabel(mode: SimulationRun['mode']): string {
+  if (mode === 'time-stepped') {
+    return 'Time-stepped';
+  }
+  if (mode === 'monte-carlo') {
+    return 'Monte Carlo';
+  }
+  return 'Analytical';
+}
+
+// Monte Carlo runs show the 5th-95th percentile interval in place of the point estimate.
+function kpiValue(value: number, band: SimulationMetricBand | undefined, format: (value: number) => string): string {
+  return band ? `${format(band.p5)}–${format(band.p95)}` : format(value);
+}
+
 function eventIcon(severity: 'info' | 'warning' | 'critical'): string {
   if (severity === 'critical') {
     return 'X';
@@ -54,6 +94,62 @@ function kpiState(value: number, warnAt: number, badAt: number): 'good' | 'warn'
   return 'good';
 }
 
+function seriesPoints(series: SimulationTick[], pick: (tick: SimulationTick) => number, maxValue: number): string {
+  const lastSecond = series[series.length - 1]?.atSecond || 1;
+  return series
+    .map((tick) => {
+      const x = (tick.atSecond / lastSecond) * SERIES_CHART_WIDTH;
+      const y = SERIES_CHART_HEIGHT - (pick(tick) / maxValue) * (SERIES_CHART_HEIGHT - 8);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+}
+
+function queueDepthAt(tick: SimulationTick, componentId: string): number {
+  return tick.components.find((sample) => sample.componentId === componentId)?.queueDepth ?? 0;
+}
+
+function formatLag(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds.toFixed(1)}s`;
+  }
+  return seconds < 3600 ? `${(seconds / 60).toFixed(1)} min` : `${(seconds / 3600).toFixed(1)} h`;
+}
+
+function componentSeriesSummary(series: SimulationTick[]) {
+  const summary = new Map<
+    string,
+    {
+      peakUtilizationPercent: number;
+      peakQueueDepth: number;
+      peakDroppedRps: number;
+      minReplicas: number | null;
+      maxReplicas: number | null;
+    }
+  >();
+  for (const tick of series) {
+    for (const sample of tick.components) {
+      const current = summary.get(sample.componentId) ?? {
+        peakUtilizationPercent: 0,
+        peakQueueDepth: 0,
+        peakDroppedRps: 0,
+        minReplicas: null,
+        maxReplicas: null
+      };
+      const replicas = sample.replicas ?? null;
+      summary.set(sample.componentId, {
+        peakUtilizationPercent: Math.max(current.peakUtilizationPercent, sample.utilizationPercent),
+        peakQueueDepth: Math.max(current.peakQueueDepth, sample.queueDepth),
+        peakDroppedRps: Math.max(current.peakDroppedRps, sample.droppedRps),
+        minReplicas: replicas === null ? current.minReplicas : Math.min(current.minReplicas ?? replicas, replicas),
+        maxReplicas: replicas === null ? current.maxReplicas : Math.max(current.maxReplicas ?? replicas, replicas)
+      });
+    }
+  }
+
+  return [...summary.entries()].sort((left, right) => right[1].peakUtilizationPercent - left[1].peakUtilizationPercent);
+}
+
 export default function SimulationRunPage() {
   const router = useRouter();
   const params = useParams<{ runId: string }>();
@@ -62,10 +158,15 @@ export default function SimulationRunPage() {
   const [run, setRun] = useState<SimulationRun | null>(null);
   const [loadState, setLoadState] = useState<LoadState>('loading');
   const [error, setError] = useState<string | null>(null);
+  const [isStreaming, setIsStreaming] = useState(true);
+  const [pendingAction, setPendingAction] = useState<RunAction | null>(null);
+  const [engines, setEngines] = useState<SimulationEnginesResponse | null>(null);
+  const [replayEngineVersion, setReplayEngineVersion] = useState('');
+  const [replayDiff, setReplayDiff] = useState<RunReplayDiff | null>(null);
 
   const isTerminal = useMemo(() => {
-    return run?.status === 'completed' || run?.status === 'failed';
-  }, [run?.status]);
+    return run ? isTerminalRunStatus(run.status) : false;
+  }, [run]);
 
   useEffect(() => {
     const token = getAuthToken();
@@ -75,8 +176,10 @@ export default function SimulationRunPage() {
     }
 
     let isActive = true;
+    let stopStream: (() => void) | null = null;
+    let interval: ReturnType<typeof setInterval> | null = null;
 
-    async function fetchRun() {
+    async function fetchRun(): Promise<SimulationRun | null> {
       try {
         const response = await apiFetch(`${API_BASE_URL}/runs/${runId}`, {
           headers: {
@@ -88,43 +191,199 @@ export default function SimulationRunPage() {
           if (response.status === 401) {
             clearAuthToken();
             router.replace('/auth');
-            return;
+            return null;
           }
 
           setLoadState('error');
           setError('Unable to load simulation run.');
-          return;
+          return null;
         }
 
         const payload = (await response.json()) as SimulationRunResponse;
         if (!isActive) {
-          return;
+          return null;
         }
 
         setRun(payload.run);
         setLoadState('ready');
         setError(null);
+        return payload.run;
       } catch {
         if (!isActive) {
-          return;
+          return null;
         }
         setLoadState('error');
         setError('Unable to reach server.');
+        return null;
       }
     }
 
-    void fetchRun();
-    const interval = setInterval(() => {
-      if (!isTerminal) {
-        void fetchRun();
+    function pollRun() {
+      setIsStreaming(false);
+      interval = setInterval(() => {
+        void fetchRun().then((latest) => {
+          if (latest && isTerminalRunStatus(latest.status) && interval) {
+            clearInterval(interval);
+          }
+        });
+      }, 1500);
+    }
+
+    void fetchRun().then((initial) => {
+      if (!isActive || !initial || isTerminalRunStatus(initial.status)) {
+        return;
+      }
+
+      stopStream = watchSimulationRun(runId, {
+        onMessage: (message) => {
+          if (isActive) {
+            setRun((current) => (current ? applyRunStreamMessage(current, message) : current));
+          }
+        },
+        onClose: (finished) => {
+          if (!isActive) {
+            return;
+          }
+          if (finished) {
+            // Metrics, bottlenecks and the rest of the results only arrive with the stored run.
+            void fetchRun();
+          } else {
+            pollRun();
+          }
+        }
+      });
+    });
+
+    return () => {
+      isActive = false;
+      stopStream?.();
+      if (interval) {
+        clearInterval(interval);
+      }
+    };
+  }, [router, runId]);
+
+  const runStatus = run?.status ?? null;
+  const replayOfRunId = run?.replayOfRunId ?? null;
+
+  useEffect(() => {
+    const token = getAuthToken();
+    if (!token || runStatus !== 'completed') {
+      return;
+    }
+
+    let isActive = true;
+    void (async () => {
+      try {
+        const response = await apiFetch(`${API_BASE_URL}/simulation-engines`, {
+          headers: {
+            Authorization: `Bearer ${token}`
+          }
+        });
+        if (!response.ok) {
+          return;
+        }
+
+        const payload = (await response.json()) as SimulationEnginesResponse;
+        if (isActive) {
+          setEngines(payload);
+          setReplayEngineVersion(payload.current);
+        }
+      } catch {
+        // Replays stay on the current engine version when the list is unavailable.
+      }
+    })();
+
+    return () => {
+      isActive = false;
+    };
+  }, [runStatus]);
+
+  useEffect(() => {
+    const token = getAuthToken();
+    if (!token || !replayOfRunId || runStatus !== 'completed') {
+      return;
+    }
+
+    let isActive = true;
+    void (async () => {
+      try {
+        const response = await apiFetch(`${API_BASE_URL}/runs/${runId}/replay-diff`, {
+          headers: {
+            Authorization: `Bearer ${token}`
+          }
+        });
+        if (!response.ok) {
+          return;
+        }
+
+        const payload = (await response.json()) as RunReplayDiffResponse;
+        if (isActive) {
+          setReplayDiff(payload.diff);
+        }
+      } catch {
+        // The run itself still renders without its diff.
       }
-    }, 1500);
+    })();
 
     return () => {
       isActive = false;
-      clearInterval(interval);
     };
-  }, [isTerminal, router, runId]);
+  }, [replayOfRunId, runId, runStatus]);
+
+  // Cancelling updates this run; a retry, re-run or replay queues a new one with the same inputs.
+  async function runAction(action: RunAction) {
+    const token = getAuthToken();
+    if (!token) {
+      router.replace('/auth');
+      return;
+    }
+
+    setPendingAction(action);
+    setError(null);
+
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/runs/${runId}/${action}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`
+        },
+        body: JSON.stringify(action === 'replay' && replayEngineVersion ? { engineVersion: replayEngineVersion } : {})
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          clearAuthToken();
+          router.replace('/auth');
+          return;
+        }
+
+        const payload = (await response.json()) as { message?: string };
+        setError(payload.message || `Unable to ${action} run.`);
+        return;
+      }
+
+      const payload = (await response.json()) as SimulationRunResponse;
+      if (action === 'cancel') {
+        setRun(payload.run);
+      } else {
+        router.push(`/runs/${payload.run.id}`);
+      }
+    } catch {
+      setError('Unable to reach server.');
+    } finally {
+      setPendingAction(null);
+    }
+  }
+
+  const seriesMax = useMemo(() => {
+    return Math.max(1, ...(run?.series ?? []).map((tick) => tick.demandRps));
+  }, [run?.series]);
+  const seriesSummary = useMemo(() => componentSeriesSummary(run?.series ?? []), [run?.series]);
+  const componentLabels = useMemo(() => {
+    return new Map((run?.bottlenecks ?? []).map((bottleneck) => [bottleneck.componentId, bottleneck.componentLabel]));
+  }, [run?.bottlenecks]);
 
   const throughputClass = run?.metrics ? kpiState(run.metrics.throughputRps, run.metrics.capacityRps * 0.75, run.metrics.capacityRps * 0.95) : 'good';
   const latencyClass = run?.metrics ? kpiState(run.metrics.p95LatencyMs, 180, 350) : 'good';
@@ -145,12 +404,84 @@ export default function SimulationRunPage() {
           <p className="kicker">Simulation Results</p>
           <h1>Run {runId}</h1>
           <p className="subtitle">Real-time run status, bottlenecks, timeline, and architecture saturation overlay.</p>
-          {run ? <span className={statusClassName(run.status)}>{statusLabel(run.status)}</span> : null}
-          {run?.status === 'completed' ? (
+          {run ? (
+            <div className="button-row">
+              <span className={statusClassName(run.status)}>{statusLabel(run.status)}</span>
+              <span className="pill">{modeLabel(run.mode)}</span>
+              {run.seed !== null ? (
+                <span className="pill">
+                  Seed {run.seed}
+                  {run.iterations !== null ? ` • ${run.iterations} iterations` : ''}
+                </span>
+              ) : null}
+              {run.engineVersion ? <span className="pill">Engine {run.engineVersion}</span> : null}
+              {run.replayOfRunId ? (
+                <Link className="pill" href={`/runs/${run.replayOfRunId}`}>
+                  Replay of {run.replayOfRunId.slice(0, 8)}
+                </Link>
+              ) : null}
+            </div>
+          ) : null}
+          {run ? (
             <div className="button-row" style={{ marginTop: '0.75rem' }}>
-              <Link className="button button-secondary" href={`/runs/${run.id}/failure-injection`}>
-                Open Failure Lab
-              </Link>
+              {run.status === 'completed' ? (
+                <Link className="button button-secondary" href={`/runs/${run.id}/failure-injection`}>
+                  Open Failure Lab
+                </Link>
+              ) : null}
+              {!isTerminal ? (
+                <button
+                  className="button button-secondary"
+                  type="button"
+                  disabled={pendingAction !== null}
+                  onClick={() => void runAction('cancel')}
+                >
+                  {pendingAction === 'cancel' ? 'Cancelling...' : 'Cancel Run'}
+                </button>
+              ) : null}
+              {run.status === 'failed' || run.status === 'cancelled' ? (
+                <button
+                  className="button button-secondary"
+                  type="button"
+                  disabled={pendingAction !== null}
+                  onClick={() => void runAction('retry')}
+                >
+                  {pendingAction === 'retry' ? 'Retrying...' : 'Retry Run'}
+                </button>
+              ) : null}
+              {run.status === 'completed' ? (
+                <button
+                  className="button button-secondary"
+                  type="button"
+                  disabled={pendingAction !== null}
+                  onClick={() => void runAction('rerun')}
+                >
+                  {pendingAction === 'rerun' ? 'Queueing...' : 'Re-run'}
+                </button>
+              ) : null}
+              {run.status === 'completed' ? (
+                <>
+                  <select
+                    aria-label="Replay engine version"
+                    value={replayEngineVersion}
+                    onChange={(event) => setReplayEngineVersion(event.target.value)}
+                  >
+                    {(engines?.available.length ? engines.available : [engines?.current ?? '']).map((version) => (
+                      <option key={version} value={version}>
+                        {version ? `Engine ${version}` : 'Current engine'}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    className="button button-secondary"
+                    type="button"
+                    disabled={pendingAction !== null}
+                    onClick={() => void runAction('replay')}
+                  >
+                    {pendingAction === 'replay' ? 'Queueing...' : 'Replay'}
+                  </button>
+                </>
+              ) : null}
             </div>
           ) : null}
           {error ? <p className="error">{error}</p> : null}
@@ -163,8 +494,38 @@ export default function SimulationRunPage() {
               <strong>{run ? 'Simulation in progress...' : 'Loading simulation state...'}</strong>
             </div>
             <p className="muted" style={{ marginTop: '0.5rem', marginBottom: 0 }}>
-              This page refreshes every 1.5 seconds while the run is active.
+              {isStreaming
+                ? 'Events and ticks appear here as the simulation worker produces them.'
+                : 'This page refreshes every 1.5 seconds while the run is active.'}
             </p>
+            {run && run.series.length > 0 ? (
+              <>
+                <svg
+                  className="series-chart"
+                  viewBox={`0 0 ${SERIES_CHART_WIDTH} ${SERIES_CHART_HEIGHT}`}
+                  preserveAspectRatio="none"
+                >
+                  <polyline className="series-line demand" points={seriesPoints(run.series, (tick) => tick.demandRps, seriesMax)} />
+                  <polyline
+                    className="series-line throughput"
+                    points={seriesPoints(run.series, (tick) => tick.throughputRps, seriesMax)}
+                  />
+                  <polyline className="series-line dropped" points={seriesPoints(run.series, (tick) => tick.droppedRps, seriesMax)} />
+                </svg>
+                <p className="muted" style={{ marginBottom: 0 }}>
+                  t+{run.series[run.series.length - 1]?.atSecond ?? 0}s • {run.series.length} ticks so far
+                </p>
+              </>
+            ) : null}
+          </section>
+        ) : null}
+
+        {replayDiff ? <ReplayDiffCard diff={replayDiff} /> : null}
+
+        {run?.status === 'cancelled' ? (
+          <section className="card">
+            <h2>Run Cancelled</h2>
+            <p className="muted">This run was cancelled before it completed. Retry it to simulate the same inputs again.</p>
           </section>
         ) : null}
 
@@ -181,24 +542,163 @@ export default function SimulationRunPage() {
               <h2>KPIs</h2>
               <div className="kpi-grid">
                 <article className={`metric-card kpi-card ${throughputClass}`}>
-                  <p className="metric-value">{Math.round(run.metrics.throughputRps).toLocaleString()}</p>
-                  <p className="muted">Throughput RPS</p>
+                  <p className="metric-value">
+                    {kpiValue(run.metrics.throughputRps, run.confidence?.throughputRps, (value) =>
+                      Math.round(value).toLocaleString()
+                    )}
+                  </p>
+                  <p className="muted">
+                    Throughput RPS
+                    {run.confidence ? ` • mean ${Math.round(run.metrics.throughputRps).toLocaleString()}` : ''}
+                  </p>
                 </article>
                 <article className={`metric-card kpi-card ${latencyClass}`}>
-                  <p className="metric-value">{run.metrics.p95LatencyMs.toFixed(1)}ms</p>
-                  <p className="muted">p95 Latency</p>
+                  <p className="metric-value">
+                    {kpiValue(run.metrics.p95LatencyMs, run.confidence?.p95LatencyMs, (value) => value.toFixed(1))}ms
+                  </p>
+                  <p className="muted">
+                    p95 Latency • p50 {run.metrics.p50LatencyMs.toFixed(1)}ms
+                    {run.metrics.p99LatencyMs !== undefined ? ` • p99 ${run.metrics.p99LatencyMs.toFixed(1)}ms` : ''}
+                  </p>
                 </article>
                 <article className={`metric-card kpi-card ${errorClass}`}>
-                  <p className="metric-value">{run.metrics.errorRatePercent.toFixed(2)}%</p>
-                  <p className="muted">Error Rate</p>
+                  <p className="metric-value">
+                    {kpiValue(run.metrics.errorRatePercent, run.confidence?.errorRatePercent, (value) => value.toFixed(2))}%
+                  </p>
+                  <p className="muted">
+                    Error Rate
+                    {run.confidence ? ` • mean ${run.metrics.errorRatePercent.toFixed(2)}%` : ''}
+                  </p>
                 </article>
                 <article className={`metric-card kpi-card ${saturationClass}`}>
                   <p className="metric-value">{run.metrics.saturated ? 'Saturated' : 'Healthy'}</p>
-                  <p className="muted">Saturation</p>
+                  <p className="muted">
+                    Saturation
+                    {run.confidence
+                      ? ` • ${(run.confidence.saturatedProbability * 100).toFixed(0)}% of iterations`
+                      : ''}
+                  </p>
                 </article>
+                {run.metrics.monthlyCostUsd !== undefined ? (
+                  <article className="metric-card kpi-card">
+                    <p className="metric-value">
+                      ${Math.round(run.metrics.monthlyCostUsd).toLocaleString()}/mo
+                    </p>
+                    <p className="muted">
+                      Estimated Cost
+                      {run.metrics.costPerMillionRequestsUsd !== undefined
+                        ? ` • $${run.metrics.costPerMillionRequestsUsd.toFixed(2)} per million requests`
+                        : ''}
+                    </p>
+                  </article>
+                ) : null}
               </div>
+              {run.confidence ? (
+                <p className="muted" style={{ marginBottom: 0 }}>
+                  Ranges are 90% intervals (p5–p95) across {run.confidence.iterations} seeded iterations; rerun with
+                  seed {run.confidence.seed} to reproduce them.
+                </p>
+              ) : null}
             </section>
 
+            {run.sloEvaluation ? <SloEvaluationCard evaluation={run.sloEvaluation} /> : null}
+
+            {run.metrics.regionalLatency && run.metrics.regionalLatency.length > 0 ? (
+              <section className="card">
+                <h2>Latency by Client Region</h2>
+                <div className="list-grid">
+                  {run.metrics.regionalLatency.map((entry) => (
+                    <article className="list-item" key={`region-${entry.region}`}>
+                      <div className="list-item-header">
+                        <strong>{REGION_LABELS[entry.region]}</strong>
+                        <span className={`pill ${kpiState(entry.p95LatencyMs, 180, 350) === 'good' ? '' : 'pill-warning'}`}>
+                          p95 {entry.p95LatencyMs.toFixed(1)}ms
+                        </span>
+                      </div>
+                      <p className="muted" style={{ marginBottom: 0 }}>
+                        {entry.trafficPercent.toFixed(0)}% of traffic • p50 {entry.p50LatencyMs.toFixed(1)}ms
+                      </p>
+                    </article>
+                  ))}
+                </div>
+              </section>
+            ) : null}
+
+            {run.metrics.edgeCalls && run.metrics.edgeCalls.length > 0 ? (
+              <section className="card">
+                <h2>Call Behavior</h2>
+                <div className="list-grid">
+                  {run.metrics.edgeCalls.map((edge) => (
+                    <article className="list-item" key={`edge-${edge.edgeId}`}>
+                      <div className="list-item-header">
+                        <strong>
+                          {componentLabels.get(edge.sourceId) ?? edge.sourceId} {'->'}{' '}
+                          {componentLabels.get(edge.targetId) ?? edge.targetId}
+                        </strong>
+                        <span className={`pill ${edge.breakerOpen ? 'pill-danger' : edge.attemptsPerCall >= 1.5 ? 'pill-warning' : ''}`}>
+                          {edge.breakerOpen ? 'breaker open' : `${edge.attemptsPerCall.toFixed(2)} attempts/call`}
+                        </span>
+                      </div>
+                      <p className="muted" style={{ marginBottom: 0 }}>
+                        {edge.failureRatePercent.toFixed(1)}% of calls fail after retries
+                      </p>
+                    </article>
+                  ))}
+                </div>
+              </section>
+            ) : null}
+
+            {run.explanation ? (
+              <section className="card">
+                <div className="split-row">
+                  <h2>Why It Saturates</h2>
+                  <Link
+                    className="button button-secondary"
+                    href={`/projects/${run.projectId}/versions/${run.versionId}?run=${run.id}`}
+                  >
+                    Highlight on Canvas
+                  </Link>
+                </div>
+                <p>{run.explanation.summary}</p>
+                <div className="list-grid">
+                  {run.explanation.criticalPaths.map((path) => (
+                    <article className="list-item" key={`path-${path.kind}`}>
+                      <div className="list-item-header">
+                        <strong>{path.kind === 'read' ? 'Read' : 'Write'} critical path</strong>
+                        <span className="pill">
+                          {path.latencyMs.toFixed(1)}ms • {(path.probability * 100).toFixed(0)}% of {path.kind}s
+                        </span>
+                      </div>
+                      <div className="critical-path">
+                        {path.hops.map((hop) => (
+                          <div
+                            key={`${path.kind}-${hop.componentId}`}
+                            className={`critical-hop ${hop.componentId === path.limitingComponentId ? 'limiting' : ''}`}
+                          >
+                            <strong>{hop.componentLabel}</strong>
+                            <span className="muted">
+                              +{hop.latencyMs.toFixed(1)}ms • {hop.callsPerRequest.toFixed(2)} calls/request
+                            </span>
+                            <span className="muted">
+                              {hop.utilizationPercent.toFixed(0)}% busy
+                              {hop.saturatesAtRps !== null
+                                ? ` • saturates at ${Math.round(hop.saturatesAtRps).toLocaleString()} RPS`
+                                : ''}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </article>
+                  ))}
+                </div>
+                {run.explanation.details.map((detail) => (
+                  <p className="muted" key={detail} style={{ marginBottom: 0 }}>
+                    {detail}
+                  </p>
+                ))}
+              </section>
+            ) : null}
+
             <section className="card">
               <h2>Bottlenecks</h2>
               {run.bottlenecks.length === 0 ? <p className="muted">No bottlenecks were detected.</p> : null}
@@ -232,6 +732,100 @@ export default function SimulationRunPage() {
               </div>
             </section>
 
+            {run.series.length > 0 ? (
+              <section className="card">
+                <div className="split-row">
+                  <h2>Time-stepped Series</h2>
+                  <span className="pill">
+                    {run.series.length} ticks • t+{run.series[run.series.length - 1]?.atSecond ?? 0}s
+                  </span>
+                </div>
+                <svg
+                  className="series-chart"
+                  viewBox={`0 0 ${SERIES_CHART_WIDTH} ${SERIES_CHART_HEIGHT}`}
+                  preserveAspectRatio="none"
+                >
+                  <polyline className="series-line demand" points={seriesPoints(run.series, (tick) => tick.demandRps, seriesMax)} />
+                  <polyline
+                    className="series-line throughput"
+                    points={seriesPoints(run.series, (tick) => tick.throughputRps, seriesMax)}
+                  />
+                  <polyline className="series-line dropped" points={seriesPoints(run.series, (tick) => tick.droppedRps, seriesMax)} />
+                </svg>
+                <p className="muted">
+                  Demand (dashed), served throughput, and dropped requests per second. Peak demand{' '}
+                  {Math.round(seriesMax).toLocaleString()} RPS.
+                </p>
+                <div className="list-grid">
+                  {seriesSummary.map(([componentId, summary]) => (
+                    <article className="list-item" key={`series-${componentId}`}>
+                      <div className="list-item-header">
+                        <strong>{componentLabels.get(componentId) ?? componentId}</strong>
+                        <span className={`pill ${summary.peakDroppedRps > 0 ? 'pill-danger' : ''}`}>
+                          Peak {summary.peakUtilizationPercent.toFixed(1)}%
+                        </span>
+                      </div>
+                      <p className="muted" style={{ marginBottom: 0 }}>
+                        Max queue depth {Math.round(summary.peakQueueDepth).toLocaleString()} • Max drops{' '}
+                        {Math.round(summary.peakDroppedRps).toLocaleString()} RPS
+                        {summary.minReplicas !== null && summary.minReplicas !== summary.maxReplicas
+                          ? ` • Replicas ${summary.minReplicas} -> ${summary.maxReplicas}`
+                          : ''}
+                      </p>
+                    </article>
+                  ))}
+                </div>
+              </section>
+            ) : null}
+
+            {run.metrics.queues && run.metrics.queues.length > 0 ? (
+              <section className="card">
+                <h2>Queue Backlog</h2>
+                <div className="list-grid">
+                  {run.metrics.queues.map((queue) => {
+                    const peakDepth = Math.max(1, ...run.series.map((tick) => queueDepthAt(tick, queue.componentId)));
+                    return (
+                      <article className="list-item" key={`queue-${queue.componentId}`}>
+                        <div className="list-item-header">
+                          <strong>{componentLabels.get(queue.componentId) ?? queue.componentId}</strong>
+                          <span
+                            className={`pill ${queue.backPressure ? 'pill-danger' : queue.peakBacklog > 0 ? 'pill-warning' : ''}`}
+                          >
+                            {queue.backPressure
+                              ? 'back-pressure'
+                              : queue.peakBacklog > 0
+                                ? `lag ${formatLag(queue.peakLagSeconds)}`
+                                : 'keeping up'}
+                          </span>
+                        </div>
+                        {run.series.length > 0 ? (
+                          <svg
+                            className="series-chart"
+                            viewBox={`0 0 ${SERIES_CHART_WIDTH} ${SERIES_CHART_HEIGHT}`}
+                            preserveAspectRatio="none"
+                          >
+                            <polyline
+                              className="series-line demand"
+                              points={seriesPoints(run.series, (tick) => queueDepthAt(tick, queue.componentId), peakDepth)}
+                            />
+                          </svg>
+                        ) : null}
+                        <p className="muted" style={{ marginBottom: 0 }}>
+                          Producers {Math.round(queue.producerRps).toLocaleString()} msg/s • Consumers drain{' '}
+                          {Math.round(queue.consumerRps).toLocaleString()} msg/s • Peak backlog{' '}
+                          {Math.round(queue.peakBacklog).toLocaleString()} • Peak consumer lag {formatLag(queue.peakLagSeconds)}
+                          {queue.droppedRps > 0 ? ` • Losing ${Math.round(queue.droppedRps).toLocaleString()} msg/s` : ''}
+                          {queue.deferredRps
+                            ? ` • Deferring ${Math.round(queue.deferredRps).toLocaleString()} msg/s to producers`
+                            : ''}
+                        </p>
+                      </article>
+                    );
+                  })}
+                </div>
+              </section>
+            ) : null}
+
             <section className="card">
               <div className="split-row">
                 <h2>Interactive Architecture Overlay</h2>
@@ -0,0 +1,280 @@
+'use client';
+
+import { ParameterSweep, ParameterSweepPoint, ParameterSweepResponse, SweepParameter } from '@sdc/shared-types';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { useEffect, useMemo, useState } from 'react';
+import { API_BASE_URL, apiFetch } from '@/lib/api';
+import { clearAuthToken, getAuthToken } from '@/lib/auth-token';
+
+type LoadState = 'loading' | 'ready' | 'error';
+
+const SERIES_CHART_WIDTH = 600;
+const SERIES_CHART_HEIGHT = 160;
+
+const PARAMETER_LABELS: Record<SweepParameter, string> = {
+  baselineRps: 'Baseline RPS',
+  peakMultiplier: 'Peak multiplier',
+  readPercentage: 'Read percentage',
+  payloadKb: 'Payload (KB)',
+  replicas: 'Replicas'
+};
+
+const SWEEP_CHARTS: Array<{
+  title: string;
+  className: string;
+  pick: (point: ParameterSweepPoint) => number;
+  format: (value: number) => string;
+}> = [
+  {
+    title: 'Throughput',
+    className: 'series-line throughput',
+    pick: (point) => point.throughputRps,
+    format: (value) => `${Math.round(value).toLocaleString()} RPS`
+  },
+  {
+    title: 'p95 Latency',
+    className: 'series-line demand',
+    pick: (point) => point.p95LatencyMs,
+    format: (value) => `${value.toFixed(1)} ms`
+  },
+  {
+    title: 'Error Rate',
+    className: 'series-line dropped',
+    pick: (point) => point.errorRatePercent,
+    format: (value) => `${value.toFixed(2)}%`
+  }
+];
+
+function statusClassName(status: ParameterSweep['status']): string {
+  if (status === 'completed') {
+    return 'pill pill-accent';
+  }
+  if (status === 'failed') {
+    return 'pill pill-danger';
+  }
+  return 'pill pill-warning';
+}
+
+function formatValue(value: number): string {
+  return Number.isInteger(value) ? value.toLocaleString() : value.toFixed(2);
+}
+
+// Positions values along the x axis, logarithmically for log-spaced sweeps.
+function sweepX(sweep: ParameterSweep, value: number): number {
+  const scale = sweep.spec.scale === 'log' ? Math.log : (input: number) => input;
+  const start = scale(Math.min(sweep.spec.from, sweep.spec.to));
+  const end = scale(Math.max(sweep.spec.from, sweep.spec.to));
+  return ((scale(value) - start) / (end - start || 1)) * SERIES_CHART_WIDTH;
+}
+
+function sweepPoints(sweep: ParameterSweep, pick: (point: ParameterSweepPoint) => number): string {
+  const maxValue = Math.max(1e-9, ...sweep.points.map(pick));
+  return sweep.points
+    .map((point) => {
+      const x = sweepX(sweep, point.value);
+      const y = SERIES_CHART_HEIGHT - (pick(point) / maxValue) * (SERIES_CHART_HEIGHT - 8);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+}
+
+export default function ParameterSweepResultsPage() {
+  const router = useRouter();
+  const params = useParams<{ sweepId: string }>();
+  const sweepId = params.sweepId;
+
+  const [sweep, setSweep] = useState<ParameterSweep | null>(null);
+  const [loadState, setLoadState] = useState<LoadState>('loading');
+  const [error, setError] = useState<string | null>(null);
+
+  const isTerminal = useMemo(() => {
+    return sweep?.status === 'completed' || sweep?.status === 'failed';
+  }, [sweep?.status]);
+
+  useEffect(() => {
+    const token = getAuthToken();
+    if (!token) {
+      router.replace('/auth');
+      return;
+    }
+
+    let isActive = true;
+
+    async function fetchSweep() {
+      try {
+        const response = await apiFetch(`${API_BASE_URL}/sweeps/${sweepId}`, {
+          headers: {
+            Authorization: `Bearer ${token}`
+          }
+        });
+
+        if (!response.ok) {
+          if (response.status === 401) {
+            clearAuthToken();
+            router.replace('/auth');
+            return;
+          }
+
+          setLoadState('error');
+          setError('Unable to load parameter sweep.');
+          return;
+        }
+
+        const payload = (await response.json()) as ParameterSweepResponse;
+        if (!isActive) {
+          return;
+        }
+
+        setSweep(payload.sweep);
+        setLoadState('ready');
+        setError(null);
+      } catch {
+        if (!isActive) {
+          return;
+        }
+        setLoadState('error');
+        setError('Unable to reach server.');
+      }
+    }
+
+    void fetchSweep();
+    const interval = setInterval(() => {
+      if (!isTerminal) {
+        void fetchSweep();
+      }
+    }, 1500);
+
+    return () => {
+      isActive = false;
+      clearInterval(interval);
+    };
+  }, [isTerminal, router, sweepId]);
+
+  const parameterLabel = sweep ? PARAMETER_LABELS[sweep.spec.parameter] : 'Parameter';
+  const breakingPoint = sweep?.breakingPoint ?? null;
+
+  return (
+    <main>
+      <div className="page-stack">
+        <section className="card">
+          <p style={{ marginTop: 0 }}>
+            {sweep ? (
+              <Link href={`/projects/${sweep.projectId}/versions/${sweep.versionId}/sweep`}>Back to Sweep Setup</Link>
+            ) : (
+              <Link href="/dashboard">Back to Dashboard</Link>
+            )}
+          </p>
+          <p className="kicker">Parameter Sweep</p>
+          <h1>{parameterLabel} sweep</h1>
+          {sweep ? (
+            <div className="button-row">
+              <span className={statusClassName(sweep.status)}>{sweep.status}</span>
+              <span className="pill">
+                {formatValue(sweep.spec.from)} to {formatValue(sweep.spec.to)} • {sweep.spec.steps} steps •{' '}
+                {sweep.spec.scale}
+              </span>
+            </div>
+          ) : null}
+          {error ? <p className="error">{error}</p> : null}
+        </section>
+
+        {loadState === 'loading' || (sweep && !isTerminal) ? (
+          <section className="card">
+            <div className="button-row">
+              <span className="loading-dot" />
+              <strong>{sweep ? 'Sweep in progress...' : 'Loading sweep state...'}</strong>
+            </div>
+            <p className="muted" style={{ marginTop: '0.5rem', marginBottom: 0 }}>
+              This page refreshes every 1.5 seconds while the sweep is active.
+            </p>
+          </section>
+        ) : null}
+
+        {sweep?.status === 'failed' ? (
+          <section className="card">
+            <h2>Sweep Failed</h2>
+            <p className="error">{sweep.failureReason || 'The sweep failed without a reason.'}</p>
+          </section>
+        ) : null}
+
+        {sweep?.status === 'completed' ? (
+          <>
+            <section className="card">
+              <h2>Breaking Point</h2>
+              {breakingPoint ? (
+                <p style={{ marginBottom: 0 }}>
+                  Healthy at {parameterLabel.toLowerCase()} {formatValue(breakingPoint.healthyValue)}, saturated at{' '}
+                  {formatValue(breakingPoint.saturatedValue)}
+                  {breakingPoint.componentId ? ` • bottleneck ${breakingPoint.componentId}` : ''}.
+                </p>
+              ) : (
+                <p className="muted" style={{ marginBottom: 0 }}>
+                  Saturation did not change anywhere in the swept range.
+                </p>
+              )}
+            </section>
+
+            <section className="card">
+              <h2>Curves</h2>
+              <div className="list-grid">
+                {SWEEP_CHARTS.map((chart) => (
+                  <article className="list-item" key={chart.title}>
+                    <div className="list-item-header">
+                      <strong>{chart.title}</strong>
+                      <span className="pill">
+                        Max {chart.format(Math.max(0, ...sweep.points.map(chart.pick)))}
+                      </span>
+                    </div>
+                    <svg
+                      className="series-chart"
+                      viewBox={`0 0 ${SERIES_CHART_WIDTH} ${SERIES_CHART_HEIGHT}`}
+                      preserveAspectRatio="none"
+                    >
+                      {breakingPoint ? (
+                        <line
+                          className="series-marker"
+                          x1={sweepX(sweep, breakingPoint.saturatedValue)}
+                          x2={sweepX(sweep, breakingPoint.saturatedValue)}
+                          y1={0}
+                          y2={SERIES_CHART_HEIGHT}
+                        />
+                      ) : null}
+                      <polyline className={chart.className} points={sweepPoints(sweep, chart.pick)} />
+                    </svg>
+                  </article>
+                ))}
+              </div>
+              <p className="muted" style={{ marginBottom: 0 }}>
+                {parameterLabel} on the horizontal axis; the dashed marker is the first saturated value.
+              </p>
+            </section>
+
+            <section className="card">
+              <h2>Points</h2>
+              <div className="list-grid">
+                {sweep.points.map((point) => (
+                  <article className="list-item" key={`point-${point.value}`}>
+                    <div className="list-item-header">
+                      <strong>
+                        {parameterLabel} {formatValue(point.value)}
+                      </strong>
+                      <span className={`pill ${point.saturated ? 'pill-danger' : 'pill-accent'}`}>
+                        {point.saturated ? 'Saturated' : 'Healthy'}
+                      </span>
+                    </div>
+                    <p className="muted" style={{ marginBottom: 0 }}>
+                      {Math.round(point.throughputRps).toLocaleString()} RPS • p50 {point.p50LatencyMs.toFixed(1)} ms •
+                      p95 {point.p95LatencyMs.toFixed(1)} ms • {point.errorRatePercent.toFixed(2)}% errors
+                      {point.bottleneckComponentId ? ` • bottleneck ${point.bottleneckComponentId}` : ''}
+                    </p>
+                  </article>
+                ))}
+              </div>
+            </section>
+          </>
+        ) : null}
+      </div>
+    </main>
+  );
+}
@@ -127,6 +127,18 @@ export default function SharedReportPage() {
                   </p>
                   <p className="muted">Overall Score Delta</p>
                 </article>
+                <article className="metric-card">
+                  <p className={`metric-value ${deltaClass(data.report.compare.kpiDeltas.monthlyCostUsd.absoluteDelta, false)}`}>
+                    {deltaLabel(data.report.compare.kpiDeltas.monthlyCostUsd.absoluteDelta, ' USD')}
+                  </p>
+                  <p className="muted">Monthly Cost Delta</p>
+                </article>
+                <article className="metric-card">
+                  <p className={`metric-value ${deltaClass(data.report.compare.kpiDeltas.errorBudgetBurnedPercent.absoluteDelta, false)}`}>
+                    {deltaLabel(data.report.compare.kpiDeltas.errorBudgetBurnedPercent.absoluteDelta, '%')}
+                  </p>
+                  <p className="muted">Error Budget Burned Delta</p>
+                </article>
               </div>
             </section>
 
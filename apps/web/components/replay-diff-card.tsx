@@ -0,0 +1,87 @@
+import { RunBottleneckChange, RunMetricDelta, RunReplayDiff } from '@sdc/shared-types';
+import Link from 'next/link';
+
+const METRIC_LABELS: Record<string, string> = {
+  peakRps: 'Peak RPS',
+  capacityRps: 'Capacity RPS',
+  throughputRps: 'Throughput RPS',
+  p50LatencyMs: 'p50 latency (ms)',
+  p95LatencyMs: 'p95 latency (ms)',
+  p99LatencyMs: 'p99 latency (ms)',
+  errorRatePercent: 'Error rate (%)',
+  monthlyCostUsd: 'Monthly cost (USD)',
+  costPerMillionRequestsUsd: 'Cost per 1M requests (USD)'
+};
+
+function formatMetric(value: number | null): string {
+  return value === null ? 'n/a' : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+function formatDelta(item: RunMetricDelta): string {
+  if (item.delta === null) {
+    return 'n/a';
+  }
+  const sign = item.delta > 0 ? '+' : '';
+  return `${sign}${item.delta.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+}
+
+function changeLabel(change: RunBottleneckChange): string {
+  if (change.change === 'added') {
+    return `New bottleneck at ${change.replayUtilizationPercent?.toFixed(1)}% (${change.replaySeverity})`;
+  }
+  if (change.change === 'removed') {
+    return `No longer a bottleneck (was ${change.sourceUtilizationPercent?.toFixed(1)}%, ${change.sourceSeverity})`;
+  }
+  return `${change.sourceUtilizationPercent?.toFixed(1)}% (${change.sourceSeverity}) → ${change.replayUtilizationPercent?.toFixed(1)}% (${change.replaySeverity})`;
+}
+
+export function ReplayDiffCard({ diff }: { diff: RunReplayDiff }) {
+  const changedMetrics = diff.metricDeltas.filter((item) => item.source !== item.replay);
+
+  return (
+    <section className="card">
+      <div className="split-row">
+        <h2>Replay Diff</h2>
+        <span className={`pill ${diff.identical ? 'pill-accent' : 'pill-warning'}`}>
+          {diff.identical ? 'Identical results' : 'Results changed'}
+        </span>
+      </div>
+      <p className="muted">
+        <Link href={`/runs/${diff.sourceRunId}`}>Original run</Link> on engine {diff.sourceEngineVersion ?? 'unversioned'} •
+        this replay on engine {diff.replayEngineVersion ?? 'unversioned'}
+      </p>
+      {changedMetrics.length > 0 ? (
+        <div className="list-grid">
+          {changedMetrics.map((item) => (
+            <article className="list-item" key={item.metric}>
+              <div className="list-item-header">
+                <strong>{METRIC_LABELS[item.metric] ?? item.metric}</strong>
+                <span className="pill">{formatDelta(item)}</span>
+              </div>
+              <p className="muted" style={{ marginBottom: 0 }}>
+                {formatMetric(item.source)} → {formatMetric(item.replay)}
+              </p>
+            </article>
+          ))}
+        </div>
+      ) : (
+        <p className="muted">Every metric matched the original run.</p>
+      )}
+      {diff.bottleneckChanges.length > 0 ? (
+        <>
+          <h3>Bottleneck Changes</h3>
+          <div className="list-grid">
+            {diff.bottleneckChanges.map((change) => (
+              <article className="list-item" key={`bottleneck-${change.componentId}`}>
+                <strong>{change.componentLabel}</strong>
+                <p className="muted" style={{ marginBottom: 0 }}>
+                  {changeLabel(change)}
+                </p>
+              </article>
+            ))}
+          </div>
+        </>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,61 @@
+import { SloEvaluation, SloObjectiveResult } from '@sdc/shared-types';
+
+const OBJECTIVE_LABELS: Record<SloObjectiveResult['objective'], string> = {
+  availability: 'Availability',
+  'p95-latency': 'p95 latency',
+  'p99-latency': 'p99 latency',
+  'regional-p95-latency': 'Regional p95'
+};
+
+function objectiveValue(objective: SloObjectiveResult, value: number | null): string {
+  if (value === null) {
+    return 'n/a';
+  }
+  return objective.objective === 'availability' ? `${value.toFixed(3)}%` : `${value.toFixed(1)}ms`;
+}
+
+export function SloEvaluationCard({ evaluation }: { evaluation: SloEvaluation }) {
+  return (
+    <section className="card">
+      <div className="split-row">
+        <h2>SLO Evaluation</h2>
+        <span className={`pill ${evaluation.passed ? 'pill-accent' : 'pill-danger'}`}>
+          {evaluation.passed ? 'Met' : 'Breached'} • {evaluation.errorBudgetBurnedPercent.toFixed(1)}% of error budget
+        </span>
+      </div>
+      <div className="list-grid">
+        {evaluation.objectives.map((objective) => (
+          <article className="list-item" key={`${objective.objective}-${objective.region ?? 'all'}`}>
+            <div className="list-item-header">
+              <strong>
+                {OBJECTIVE_LABELS[objective.objective]}
+                {objective.region ? ` (${objective.region})` : ''}
+              </strong>
+              <span className={`pill ${objective.passed ? '' : 'pill-danger'}`}>
+                {objective.passed ? 'Pass' : 'Fail'}
+              </span>
+            </div>
+            <p className="muted" style={{ marginBottom: 0 }}>
+              Target {objectiveValue(objective, objective.target)} • Simulated {objectiveValue(objective, objective.actual)}
+            </p>
+          </article>
+        ))}
+      </div>
+      {evaluation.breachComponents.length > 0 ? (
+        <>
+          <h3>Breach Causes</h3>
+          <div className="list-grid">
+            {evaluation.breachComponents.map((component) => (
+              <article className="list-item" key={`breach-${component.componentId}`}>
+                <strong>{component.componentLabel}</strong>
+                <p className="muted" style={{ marginBottom: 0 }}>
+                  {component.reason}
+                </p>
+              </article>
+            ))}
+          </div>
+        </>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,72 @@
+import { SimulationRun, SimulationTimelineEvent } from '@sdc/shared-types';
+import { describe, expect, it } from 'vitest';
+import { applyRunStreamMessage, isTerminalRunStatus } from './run-stream';
+
+const run: SimulationRun = {
+  id: '00000000-0000-4000-8000-000000000001',
+  projectId: '00000000-0000-4000-8000-000000000002',
+  versionId: '00000000-0000-4000-8000-000000000003',
+  baselineRunId: null,
+  batchId: null,
+  engineVersion: null,
+  replayOfRunId: null,
+  mode: 'time-stepped',
+  seed: null,
+  iterations: null,
+  failureProfile: null,
+  chaosExperiment: null,
+  blastRadius: null,
+  status: 'running',
+  queuedAt: '2026-01-01T00:00:00.000Z',
+  startedAt: '2026-01-01T00:00:01.000Z',
+  completedAt: null,
+  failureReason: null,
+  metrics: null,
+  bottlenecks: [],
+  events: [],
+  series: [],
+  confidence: null,
+  sloEvaluation: null,
+  explanation: null,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:01.000Z'
+};
+
+function event(sequence: number): SimulationTimelineEvent {
+  return {
+    sequence,
+    atSecond: sequence,
+    severity: 'info',
+    title: `Event ${sequence}`,
+    description: 'Something happened.',
+    componentId: null
+  };
+}
+
+describe('applyRunStreamMessage', () => {
+  it('keeps events in sequence order and skips ones already shown', () => {
+    const withLater = applyRunStreamMessage(run, { type: 'event', event: event(2) });
+    const withEarlier = applyRunStreamMessage(withLater, { type: 'event', event: event(1) });
+    const replayed = applyRunStreamMessage(withEarlier, { type: 'event', event: event(2) });
+
+    expect(replayed.events.map((item) => item.sequence)).toEqual([1, 2]);
+  });
+
+  it('appends only ticks past the last one and takes the latest status', () => {
+    const tick = { atSecond: 1, demandRps: 100, throughputRps: 100, droppedRps: 0, components: [] };
+    const ticked = applyRunStreamMessage(run, { type: 'tick', tick });
+    const replayed = applyRunStreamMessage(ticked, { type: 'tick', tick });
+    const failed = applyRunStreamMessage(replayed, { type: 'status', status: 'failed', failureReason: 'Boom.' });
+
+    expect(replayed.series).toHaveLength(1);
+    expect(failed.status).toBe('failed');
+    expect(failed.failureReason).toBe('Boom.');
+  });
+
+  it('treats cancelled runs as finished', () => {
+    const cancelled = applyRunStreamMessage(run, { type: 'status', status: 'cancelled', failureReason: null });
+
+    expect(isTerminalRunStatus(cancelled.status)).toBe(true);
+    expect(isTerminalRunStatus(run.status)).toBe(false);
+  });
+});
@@ -0,0 +1,88 @@
+import { SimulationRun, SimulationRunStreamMessage, simulationRunStreamMessageSchema } from '@sdc/shared-types';
+import { API_BASE_URL } from './api';
+
+const MESSAGE_TYPES: Array<SimulationRunStreamMessage['type']> = ['status', 'event', 'tick'];
+
+export function isTerminalRunStatus(status: SimulationRun['status']): boolean {
+  return status === 'completed' || status === 'failed' || status === 'cancelled';
+}
+
+// Folds one live message into the run; replayed events and ticks are ignored.
+export function applyRunStreamMessage(run: SimulationRun, message: SimulationRunStreamMessage): SimulationRun {
+  if (message.type === 'status') {
+    return { ...run, status: message.status, failureReason: message.failureReason };
+  }
+
+  if (message.type === 'event') {
+    if (run.events.some((event) => event.sequence === message.event.sequence)) {
+      return run;
+    }
+    return {
+      ...run,
+      events: [...run.events, message.event].sort((left, right) => left.sequence - right.sequence)
+    };
+  }
+
+  const lastTick = run.series[run.series.length - 1];
+  if (lastTick && lastTick.atSecond >= message.tick.atSecond) {
+    return run;
+  }
+  return { ...run, series: [...run.series, message.tick] };
+}
+
+/**
+ * Opens the run's live stream. `onClose` fires once with whether the run reached a terminal
+ * status; a stream that drops before then leaves the caller to poll instead. Returns a function
+ * that closes the stream early.
+ */
+export function watchSimulationRun(
+  runId: string,
+  handlers: {
+    onMessage: (message: SimulationRunStreamMessage) => void;
+    onClose: (finished: boolean) => void;
+  }
+): () => void {
+  const source = new EventSource(`${API_BASE_URL}/runs/${runId}/stream`, { withCredentials: true });
+  let closed = false;
+
+  const close = (finished: boolean) => {
+    if (closed) {
+      return;
+    }
+    closed = true;
+    source.close();
+    handlers.onClose(finished);
+  };
+
+  const handleMessage = (event: MessageEvent<string>) => {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(event.data);
+    } catch {
+      return;
+    }
+
+    const parsed = simulationRunStreamMessageSchema.safeParse(raw);
+    if (!parsed.success) {
+      return;
+    }
+
+    handlers.onMessage(parsed.data);
+    if (parsed.data.type === 'status' && isTerminalRunStatus(parsed.data.status)) {
+      close(true);
+    }
+  };
+
+  for (const type of MESSAGE_TYPES) {
+    source.addEventListener(type, handleMessage);
+  }
+  // EventSource retries on its own after any error; the caller polls instead.
+  source.addEventListener('error', () => close(false));
+
+  return () => {
+    if (!closed) {
+      closed = true;
+      source.close();
+    }
+  };
+}
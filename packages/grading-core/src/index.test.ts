@@ -1,4 +1,8 @@
-import { defaultTrafficProfile } from '@sdc/shared-types';
+import {
+  type ArchitectureComponent,
+  defaultTrafficProfile,
+  registerComponentType
+} from '@sdc/shared-types';
 import { describe, expect, it } from 'vitest';
 import { calculateTotalScore, evaluateDeterministicRubric } from './index';
 
@@ -25,7 +29,8 @@ describe('evaluateDeterministicRubric', () => {
           position: { x: 10, y: 10 },
           capacity: { opsPerSecond: 2000, cpuCores: 2, memoryGb: 4 },
           scaling: { replicas: 1, verticalTier: 'small' },
-          behavior: { stateful: false }
+          behavior: { stateful: false },
+          placement: { region: 'usEast', zones: ['az-a'] }
         },
         {
           id: 'gateway-1',
@@ -34,7 +39,8 @@ describe('evaluateDeterministicRubric', () => {
           position: { x: 200, y: 40 },
           capacity: { opsPerSecond: 1800, cpuCores: 4, memoryGb: 8 },
           scaling: { replicas: 2, verticalTier: 'medium' },
-          behavior: { stateful: false }
+          behavior: { stateful: false },
+          placement: { region: 'usEast', zones: ['az-a'] }
         },
         {
           id: 'db-1',
@@ -43,7 +49,8 @@ describe('evaluateDeterministicRubric', () => {
           position: { x: 420, y: 200 },
           capacity: { opsPerSecond: 700, cpuCores: 4, memoryGb: 16 },
           scaling: { replicas: 1, verticalTier: 'medium' },
-          behavior: { stateful: true }
+          behavior: { stateful: true },
+          placement: { region: 'usEast', zones: ['az-a'] }
         }
       ],
       edges: [
@@ -71,4 +78,163 @@ describe('evaluateDeterministicRubric', () => {
     expect(output.actionItems.length).toBeGreaterThan(0);
     expect(output.deterministicNotes.length).toBeGreaterThan(0);
   });
+
+  it('credits autoscaling on stateless tiers', () => {
+    const service: ArchitectureComponent = {
+      id: 'svc-1',
+      type: 'service',
+      label: 'API',
+      position: { x: 10, y: 10 },
+      capacity: { opsPerSecond: 1000, cpuCores: 2, memoryGb: 4 },
+      scaling: { replicas: 2, verticalTier: 'medium' },
+      behavior: { stateful: false },
+      placement: { region: 'usEast', zones: ['az-a'] }
+    };
+    const grade = (component: ArchitectureComponent) =>
+      evaluateDeterministicRubric({
+        components: [component],
+        edges: [],
+        trafficProfile: { ...defaultTrafficProfile, peakMultiplier: 4 },
+        notes: null
+      });
+    const scalability = (output: ReturnType<typeof evaluateDeterministicRubric>) =>
+      output.categoryScores.find((score) => score.category === 'scalability-decisions')?.score ?? 0;
+
+    const fixed = grade(service);
+    const elastic = grade({
+      ...service,
+      scaling: {
+        ...service.scaling,
+        autoscaling: {
+          minReplicas: 2,
+          maxReplicas: 12,
+          targetUtilizationPercent: 60,
+          scaleUpDelaySeconds: 60,
+          cooldownSeconds: 300
+        }
+      }
+    });
+
+    expect(scalability(elastic)).toBeGreaterThan(scalability(fixed));
+    expect(fixed.actionItems.some((item) => item.title === 'Autoscale stateless tiers')).toBe(true);
+    expect(elastic.actionItems.some((item) => item.title === 'Autoscale stateless tiers')).toBe(false);
+  });
+
+  it('recognizes streams, websocket ingress and rate limiting', () => {
+    const node = (id: string, type: ArchitectureComponent['type']): ArchitectureComponent => ({
+      id,
+      type,
+      label: id,
+      position: { x: 10, y: 10 },
+      capacity: { opsPerSecond: 1000, cpuCores: 2, memoryGb: 4 },
+      scaling: { replicas: 2, verticalTier: 'medium' },
+      behavior: { stateful: false },
+      placement: { region: 'usEast', zones: ['az-a'] }
+    });
+    const output = evaluateDeterministicRubric({
+      components: [
+        node('client', 'client'),
+        node('limiter', 'rate-limiter'),
+        node('ws', 'websocket-gateway'),
+        node('svc', 'service'),
+        node('log', 'stream'),
+        node('db', 'database')
+      ],
+      edges: [
+        { id: 'e1', sourceId: 'client', targetId: 'limiter' },
+        { id: 'e2', sourceId: 'limiter', targetId: 'ws' },
+        { id: 'e3', sourceId: 'ws', targetId: 'svc' },
+        { id: 'e4', sourceId: 'svc', targetId: 'log' },
+        { id: 'e5', sourceId: 'log', targetId: 'db' }
+      ],
+      trafficProfile: { ...defaultTrafficProfile, readPercentage: 60, writePercentage: 40 },
+      notes: null
+    });
+    const evidence = output.categoryScores.flatMap((score) => score.evidence);
+
+    expect(evidence).toContain('Traffic ingress component exists.');
+    expect(evidence).toContain('Write-heavy behavior includes queue buffering.');
+    expect(evidence).toContain('Rate limiting sheds excess load before it reaches backend tiers.');
+  });
+
+  it('credits registered component types by their grading roles', () => {
+    registerComponentType({
+      type: 'edge-kv',
+      label: 'Edge KV',
+      icon: 'KV',
+      stateful: true,
+      topology: { singlePointOfFailure: false },
+      grading: { roles: ['read-cache'], horizontallyScaled: true, statelessTier: false }
+    });
+    const output = evaluateDeterministicRubric({
+      components: [
+        {
+          id: 'kv',
+          type: 'edge-kv',
+          label: 'Edge KV',
+          position: { x: 10, y: 10 },
+          capacity: { opsPerSecond: 1000, cpuCores: 2, memoryGb: 4 },
+          scaling: { replicas: 3, verticalTier: 'medium' },
+          behavior: { stateful: true },
+          placement: { region: 'usEast', zones: ['az-a'] }
+        }
+      ],
+      edges: [],
+      trafficProfile: { ...defaultTrafficProfile, readPercentage: 90, writePercentage: 10 },
+      notes: null
+    });
+    const evidence = output.categoryScores.flatMap((score) => score.evidence);
+
+    expect(evidence).toContain('Read-heavy profile is supported by a cache layer.');
+    expect(evidence).toContain('Average replicas 3.00 indicates horizontal scaling.');
+    expect(output.actionItems.map((item) => item.title)).not.toContain('Add read-path cache strategy');
+  });
+
+  it('references the simulated cost estimate in tradeoff reasoning', () => {
+    const grade = (notes: string) =>
+      evaluateDeterministicRubric({
+        components: [],
+        edges: [],
+        trafficProfile: defaultTrafficProfile,
+        notes,
+        cost: { monthlyCostUsd: 3312.4, costPerMillionRequestsUsd: 1.28 }
+      }).categoryScores.find((score) => score.category === 'tradeoff-reasoning');
+
+    const costAware = grade('We accept higher latency on writes for stronger consistency within a flat budget.');
+    const costBlind = grade('We accept higher latency on writes for stronger consistency.');
+
+    expect(costAware?.evidence).toContain(
+      'Notes weigh cost against the simulated estimate of $3,312/month ($1.28 per million requests).'
+    );
+    expect(costAware?.score ?? 0).toBeGreaterThan(costBlind?.score ?? 0);
+  });
+
+  it('scores reliability against simulated SLO results', () => {
+    const evaluation = (passed: boolean) => ({
+      passed,
+      objectives: [
+        { objective: 'availability' as const, region: null, target: 99.9, actual: passed ? 99.95 : 97, passed }
+      ],
+      errorBudgetBurnedPercent: passed ? 50 : 3000,
+      breachComponents: passed ? [] : [{ componentId: 'db', componentLabel: 'Orders DB', reason: 'Saturated.' }]
+    });
+    const grade = (steadyState: boolean, underFailure: boolean[]) =>
+      evaluateDeterministicRubric({
+        components: [],
+        edges: [],
+        trafficProfile: defaultTrafficProfile,
+        notes: null,
+        slo: { steadyState: evaluation(steadyState), underFailure: underFailure.map(evaluation) }
+      }).categoryScores.find((score) => score.category === 'reliability-fault-tolerance');
+
+    const resilient = grade(true, [true, true]);
+    const fragile = grade(false, [false, true]);
+
+    expect(resilient?.evidence).toContain('SLOs hold under 2 failure-injection run(s).');
+    expect(fragile?.evidence).toContain(
+      'Latest simulation breaches the declared SLOs, burning 3000.0% of the error budget; caused by Orders DB.'
+    );
+    expect(fragile?.evidence).toContain('SLOs breached in 1 of 2 failure-injection run(s).');
+    expect(resilient?.score ?? 0).toBeGreaterThan(fragile?.score ?? 0);
+  });
 });
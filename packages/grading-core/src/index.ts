@@ -1,11 +1,15 @@
 import {
   ArchitectureComponent,
   ArchitectureEdge,
+  ComponentGradingRole,
   GradeActionItem,
   GradeCategory,
   GradeCategoryScore,
+  SloEvaluation,
   TopologyWarning,
   TrafficProfile,
+  componentDefinition,
+  hasGradingRole,
   validateArchitectureTopology
 } from '@sdc/shared-types';
 
@@ -22,6 +26,22 @@ export type DeterministicGradingInput = {
   edges: ArchitectureEdge[];
   trafficProfile: TrafficProfile;
   notes: string | null;
+  // From the version's latest simulation run; absent when it has none with a cost estimate.
+  cost?: CostEstimate | null;
+  // Absent when the version declares no SLOs or has no run evaluated against them.
+  slo?: SloEvidence | null;
+};
+
+export type CostEstimate = {
+  monthlyCostUsd: number;
+  costPerMillionRequestsUsd: number;
+};
+
+export type SloEvidence = {
+  // Latest run without injected failures.
+  steadyState: SloEvaluation | null;
+  // Recent failure-injection runs against the same version.
+  underFailure: SloEvaluation[];
 };
 
 export type DeterministicGradingOutput = {
@@ -55,13 +75,13 @@ function weightedOverallScore(categoryScores: GradeCategoryScore[]): number {
   return Math.round(weighted);
 }
 
-function hasType(components: ArchitectureComponent[], type: ArchitectureComponent['type']): boolean {
-  return components.some((component) => component.type === type);
+function hasRole(components: ArchitectureComponent[], role: ComponentGradingRole): boolean {
+  return components.some((component) => hasGradingRole(component, role));
 }
 
 function avgReplicas(components: ArchitectureComponent[]): number {
-  const scalable = components.filter((component) =>
-    ['service', 'api-gateway', 'load-balancer', 'cache', 'database'].includes(component.type)
+  const scalable = components.filter(
+    (component) => componentDefinition(component.type)?.grading.horizontallyScaled
   );
   if (scalable.length === 0) {
     return 1;
@@ -69,6 +89,13 @@ function avgReplicas(components: ArchitectureComponent[]): number {
   return scalable.reduce((sum, component) => sum + component.scaling.replicas, 0) / scalable.length;
 }
 
+function statelessScalableTiers(components: ArchitectureComponent[]): ArchitectureComponent[] {
+  return components.filter(
+    (component) =>
+      componentDefinition(component.type)?.grading.statelessTier && !component.behavior.stateful
+  );
+}
+
 function scoreRequirements(notes: string | null): GradeCategoryScore {
   const trimmed = notes?.trim() ?? '';
   const length = trimmed.length;
@@ -126,14 +153,17 @@ function scoreHighLevelArchitecture(
     evidence.push('Topology has too few edges for clear end-to-end flow.');
   }
 
-  if (hasType(components, 'api-gateway') || hasType(components, 'load-balancer')) {
+  if (hasRole(components, 'ingress')) {
     score += 15;
     evidence.push('Traffic ingress component exists.');
   } else {
     evidence.push('Missing ingress layer (gateway/load balancer).');
   }
 
-  if (hasType(components, 'service') && (hasType(components, 'database') || hasType(components, 'object-store'))) {
+  if (
+    hasRole(components, 'compute') &&
+    (hasRole(components, 'primary-store') || hasRole(components, 'blob-store'))
+  ) {
     score += 17;
     evidence.push('Service and persistence layers are represented.');
   } else {
@@ -154,10 +184,11 @@ function scoreDataModel(components: ArchitectureComponent[], trafficProfile: Tra
   let score = 35;
   const evidence: string[] = [];
 
-  const hasDatabase = hasType(components, 'database');
-  const hasObjectStore = hasType(components, 'object-store');
-  const hasCache = hasType(components, 'cache');
-  const hasQueue = hasType(components, 'queue');
+  const hasDatabase = hasRole(components, 'primary-store');
+  const hasObjectStore = hasRole(components, 'blob-store');
+  const hasCache = hasRole(components, 'read-cache');
+  const hasQueue = hasRole(components, 'async-buffer');
+  const hasSearchIndex = hasRole(components, 'secondary-index');
 
   if (hasDatabase || hasObjectStore) {
     score += 25;
@@ -186,7 +217,7 @@ function scoreDataModel(components: ArchitectureComponent[], trafficProfile: Tra
     evidence.push('Write percentage is moderate for direct persistence path.');
   }
 
-  if (hasDatabase && hasObjectStore) {
+  if (hasDatabase && (hasObjectStore || hasSearchIndex)) {
     score += 10;
     evidence.push('Multiple storage primitives exist for different access patterns.');
   }
@@ -233,11 +264,25 @@ function scoreScalability(components: ArchitectureComponent[], trafficProfile: T
     evidence.push('Peak assumptions are moderate.');
   }
 
-  if (hasType(components, 'cdn') || hasType(components, 'queue')) {
+  if (hasRole(components, 'edge-distribution') || hasRole(components, 'async-buffer')) {
     score += 15;
     evidence.push('Edge distribution or async buffering improves scalability posture.');
   }
 
+  if (hasRole(components, 'background-work')) {
+    score += 5;
+    evidence.push('Heavy or background work runs in dedicated worker pools.');
+  }
+
+  const statelessTiers = statelessScalableTiers(components);
+  const autoscaledTiers = statelessTiers.filter((component) => component.scaling.autoscaling);
+  if (autoscaledTiers.length > 0) {
+    score += autoscaledTiers.length === statelessTiers.length ? 15 : 8;
+    evidence.push(`${autoscaledTiers.length} of ${statelessTiers.length} stateless tier(s) autoscale with demand.`);
+  } else if (statelessTiers.length > 0) {
+    evidence.push('Stateless tiers run fixed replica counts without autoscaling.');
+  }
+
   return {
     category: 'scalability-decisions',
     weight: CATEGORY_WEIGHTS['scalability-decisions'],
@@ -250,7 +295,8 @@ function scoreScalability(components: ArchitectureComponent[], trafficProfile: T
 
 function scoreReliability(
   components: ArchitectureComponent[],
-  warnings: TopologyWarning[]
+  warnings: TopologyWarning[],
+  slo: SloEvidence | null
 ): GradeCategoryScore {
   let score = 85;
   const evidence: string[] = [];
@@ -277,7 +323,11 @@ function scoreReliability(
   }
 
   const replicatedStateful = components.some(
-    (component) => component.behavior.stateful && component.scaling.replicas >= 2
+    (component) =>
+      component.behavior.stateful &&
+      (component.databaseConfig
+        ? component.databaseConfig.readReplicas >= 1
+        : component.scaling.replicas >= 2)
   );
   if (replicatedStateful) {
     score += 8;
@@ -286,12 +336,43 @@ function scoreReliability(
     evidence.push('Stateful components do not show explicit replica-level redundancy.');
   }
 
+  if (hasRole(components, 'load-shedding')) {
+    score += 5;
+    evidence.push('Rate limiting sheds excess load before it reaches backend tiers.');
+  }
+
+  if (slo?.steadyState) {
+    const burned = `${slo.steadyState.errorBudgetBurnedPercent.toFixed(1)}% of the error budget`;
+    if (slo.steadyState.passed) {
+      score += 6;
+      evidence.push(`Latest simulation meets the declared SLOs, burning ${burned}.`);
+    } else {
+      score -= 10;
+      const causes = slo.steadyState.breachComponents.map((component) => component.componentLabel);
+      evidence.push(
+        `Latest simulation breaches the declared SLOs, burning ${burned}` +
+          (causes.length > 0 ? `; caused by ${causes.join(', ')}.` : '.')
+      );
+    }
+  }
+
+  if (slo && slo.underFailure.length > 0) {
+    const breaches = slo.underFailure.filter((evaluation) => !evaluation.passed).length;
+    if (breaches === 0) {
+      score += 6;
+      evidence.push(`SLOs hold under ${slo.underFailure.length} failure-injection run(s).`);
+    } else {
+      score -= Math.min(12, breaches * 4);
+      evidence.push(`SLOs breached in ${breaches} of ${slo.underFailure.length} failure-injection run(s).`);
+    }
+  }
+
   return {
     category: 'reliability-fault-tolerance',
     weight: CATEGORY_WEIGHTS['reliability-fault-tolerance'],
     score: clamp(score, 0, 100),
     maxScore: 100,
-    rationale: 'Evaluates SPOFs, graph validity, and resilience posture.',
+    rationale: 'Evaluates SPOFs, graph validity, resilience posture, and simulated SLO compliance.',
     evidence
   };
 }
@@ -310,17 +391,17 @@ function scoreBottleneckIdentification(
     evidence.push('No topology warnings detected.');
   }
 
-  if (hasType(components, 'queue')) {
+  if (hasRole(components, 'write-buffer')) {
     score += 18;
     evidence.push('Queue exists for smoothing burst pressure and identifying async boundaries.');
   }
 
-  if (hasType(components, 'cache')) {
+  if (hasRole(components, 'read-cache')) {
     score += 12;
     evidence.push('Cache layer indicates read bottleneck mitigation planning.');
   }
 
-  if (hasType(components, 'database')) {
+  if (hasRole(components, 'primary-store')) {
     score += 10;
     evidence.push('Persistent tier present for explicit throughput/latency scrutiny.');
   }
@@ -335,7 +416,7 @@ function scoreBottleneckIdentification(
   };
 }
 
-function scoreTradeoffReasoning(notes: string | null): GradeCategoryScore {
+function scoreTradeoffReasoning(notes: string | null, cost: CostEstimate | null): GradeCategoryScore {
   const trimmed = notes?.trim() ?? '';
   const evidence: string[] = [];
   let score = 40;
@@ -359,6 +440,17 @@ function scoreTradeoffReasoning(notes: string | null): GradeCategoryScore {
     evidence.push('Notes are short for detailed tradeoff analysis.');
   }
 
+  if (cost) {
+    const estimate = `$${Math.round(cost.monthlyCostUsd).toLocaleString('en-US')}/month ($${cost.costPerMillionRequestsUsd.toFixed(2)} per million requests)`;
+    if (/cost|budget|spend|pric/i.test(trimmed)) {
+      score += 5;
+      evidence.push(`Notes weigh cost against the simulated estimate of ${estimate}.`);
+    } else {
+      score -= 5;
+      evidence.push(`Notes do not discuss cost; the latest simulation estimates ${estimate}.`);
+    }
+  }
+
   return {
     category: 'tradeoff-reasoning',
     weight: CATEGORY_WEIGHTS['tradeoff-reasoning'],
@@ -399,7 +491,7 @@ function buildActionItems(
     });
   }
 
-  if (trafficProfile.readPercentage >= 70 && !hasType(components, 'cache')) {
+  if (trafficProfile.readPercentage >= 70 && !hasRole(components, 'read-cache')) {
     items.push({
       priority: 'P1',
       title: 'Add read-path cache strategy',
@@ -408,7 +500,7 @@ function buildActionItems(
     });
   }
 
-  if (trafficProfile.writePercentage >= 35 && !hasType(components, 'queue')) {
+  if (trafficProfile.writePercentage >= 35 && !hasRole(components, 'write-buffer')) {
     items.push({
       priority: 'P1',
       title: 'Buffer write-path spikes',
@@ -417,6 +509,18 @@ function buildActionItems(
     });
   }
 
+  const fixedStatelessTiers = statelessScalableTiers(components).filter(
+    (component) => !component.scaling.autoscaling
+  );
+  if (trafficProfile.peakMultiplier >= 3 && fixedStatelessTiers.length > 0) {
+    items.push({
+      priority: 'P2',
+      title: 'Autoscale stateless tiers',
+      description: 'Add autoscaling policies so stateless tiers absorb peak traffic without permanent over-provisioning.',
+      evidence: fixedStatelessTiers.map((component) => `${component.label} has a fixed replica count.`)
+    });
+  }
+
   if ((notes?.trim().length ?? 0) < 80) {
     items.push({
       priority: 'P2',
@@ -460,9 +564,9 @@ export function evaluateDeterministicRubric(input: DeterministicGradingInput): D
     scoreHighLevelArchitecture(input.components, input.edges),
     scoreDataModel(input.components, input.trafficProfile),
     scoreScalability(input.components, input.trafficProfile),
-    scoreReliability(input.components, warnings),
+    scoreReliability(input.components, warnings, input.slo ?? null),
     scoreBottleneckIdentification(input.components, warnings),
-    scoreTradeoffReasoning(input.notes)
+    scoreTradeoffReasoning(input.notes, input.cost ?? null)
   ];
 
   const overallScore = weightedOverallScore(categoryScores);
@@ -1,7 +1,12 @@
-import { describe, expect, it } from 'vitest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
 import {
   ArchitectureComponent,
   ArchitectureEdge,
+  ComponentDefinition,
+  architectureComponentSchema,
+  componentDefinition,
+  failureInjectionProfileSchema,
   validateArchitectureTopology
 } from './index';
 
@@ -13,7 +18,8 @@ function component(id: string, type: ArchitectureComponent['type']): Architectur
     position: { x: 10, y: 10 },
     capacity: { opsPerSecond: 1000, cpuCores: 2, memoryGb: 4 },
     scaling: { replicas: 1, verticalTier: 'medium' },
-    behavior: { stateful: type === 'database' }
+    behavior: { stateful: type === 'database' },
+    placement: { region: 'usEast', zones: ['az-a'] }
   };
 }
 
@@ -41,4 +47,116 @@ describe('validateArchitectureTopology', () => {
     const invalidWarnings = warnings.filter((warning) => warning.code === 'INVALID_LINK');
     expect(invalidWarnings.length).toBeGreaterThanOrEqual(3);
   });
+
+  it('applies type-specific rules to the extended catalog', () => {
+    const nodes = [
+      component('s', 'scheduler'),
+      component('w', 'worker'),
+      component('d', 'dns'),
+      component('i', 'search-index')
+    ];
+    const edges: ArchitectureEdge[] = [
+      { id: '1', sourceId: 's', targetId: 'w' },
+      { id: '2', sourceId: 'w', targetId: 'i' },
+      { id: '3', sourceId: 'd', targetId: 'w' }
+    ];
+
+    const warnings = validateArchitectureTopology(nodes, edges);
+    const spofIds = warnings.filter((warning) => warning.code === 'SPOF').map((warning) => warning.nodeId);
+    const disconnectedIds = warnings
+      .filter((warning) => warning.code === 'DISCONNECTED_NODE')
+      .map((warning) => warning.nodeId);
+    expect(spofIds.sort()).toEqual(['i', 's', 'w']);
+    expect(disconnectedIds).toEqual(['d']);
+  });
+});
+
+describe('component placement', () => {
+  it('defaults placement for components saved before it existed', () => {
+    const legacy = Object.fromEntries(
+      Object.entries(component('a', 'service')).filter(([key]) => key !== 'placement')
+    );
+
+    expect(architectureComponentSchema.parse(legacy).placement).toEqual({
+      region: 'usEast',
+      zones: ['az-a']
+    });
+  });
+
+  it('rejects duplicate zones', () => {
+    const parsed = architectureComponentSchema.safeParse({
+      ...component('a', 'service'),
+      placement: { region: 'europe', zones: ['az-a', 'az-a'] }
+    });
+
+    expect(parsed.success).toBe(false);
+  });
+
+  it('requires a region for region-down injections', () => {
+    expect(failureInjectionProfileSchema.safeParse({ mode: 'region-down' }).success).toBe(false);
+    expect(
+      failureInjectionProfileSchema.safeParse({ mode: 'region-down', region: 'apac' }).success
+    ).toBe(true);
+  });
+
+  it('requires one partition target and a loss rate for link faults', () => {
+    const valid = (profile: unknown) => failureInjectionProfileSchema.safeParse(profile).success;
+
+    expect(valid({ mode: 'network-partition', partitionZones: ['az-b'] })).toBe(true);
+    expect(valid({ mode: 'network-partition', edgeIds: ['e1'], partitionZones: ['az-b'] })).toBe(false);
+    expect(valid({ mode: 'network-partition' })).toBe(false);
+    expect(valid({ mode: 'packet-loss', edgeIds: ['e1'] })).toBe(false);
+    expect(valid({ mode: 'packet-loss', edgeIds: ['e1'], lossPercent: 15 })).toBe(true);
+  });
+});
+
+describe('component registry', () => {
+  const edgeFunction: ComponentDefinition = {
+    type: 'edge-function',
+    label: 'Edge Function',
+    icon: 'FN',
+    stateful: false,
+    settingsSchema: z.object({ coldStartMs: z.number().nonnegative() }),
+    topology: { singlePointOfFailure: false, sink: true },
+    grading: { roles: ['compute'], horizontallyScaled: true, statelessTier: true }
+  };
+  // Each test registers into a fresh copy of the module so the type never leaks into other tests.
+  let registry: typeof import('./index');
+
+  beforeEach(async () => {
+    vi.resetModules();
+    registry = await import('./index');
+    registry.registerComponentType(edgeFunction);
+  });
+
+  it('lists built-in types first and accepts registered custom types', () => {
+    expect(registry.listComponentDefinitions()[0]?.type).toBe('client');
+    expect(registry.componentDefinition('edge-function')?.label).toBe('Edge Function');
+    expect(registry.architectureComponentSchema.safeParse(component('a', 'edge-function')).success).toBe(true);
+    expect(registry.architectureComponentSchema.safeParse(component('a', 'mainframe')).success).toBe(false);
+  });
+
+  it('checks settings against the type definition', () => {
+    const parsed = registry.architectureComponentSchema.safeParse({
+      ...component('a', 'edge-function'),
+      settings: { coldStartMs: -5 }
+    });
+
+    expect(parsed.success).toBe(false);
+    expect(parsed.error?.issues[0]?.path).toEqual(['settings', 'coldStartMs']);
+  });
+
+  it('applies the definition topology rules and refuses duplicates', () => {
+    const warnings = registry.validateArchitectureTopology(
+      [component('c', 'client'), component('f', 'edge-function')],
+      [{ id: 'e1', sourceId: 'c', targetId: 'f' }]
+    );
+
+    expect(warnings).toEqual([]);
+    expect(() => registry.registerComponentType({ ...edgeFunction, type: 'service' })).toThrow('already registered');
+  });
+
+  it('keeps registrations out of the shared module', () => {
+    expect(componentDefinition('edge-function')).toBeUndefined();
+  });
 });
@@ -143,6 +143,13 @@ describe('stage8 compare/report schemas', () => {
     expect(versionCompareResponseSchema.safeParse(sampleCompare()).success).toBe(true);
   });
 
+  it('defaults engine versions on reports saved before runs were stamped with one', () => {
+    const parsed = versionCompareResponseSchema.parse(sampleCompare());
+
+    expect(parsed.compare.baselineVersion.latestSimulation?.engineVersion).toBeNull();
+    expect(parsed.compare.mixedEngineVersions).toBe(false);
+  });
+
   it('accepts project report payload', () => {
     const base = sampleCompare();
     const parsed = projectReportResponseSchema.safeParse({
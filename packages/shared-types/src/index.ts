@@ -53,6 +53,95 @@ export const createVersionRequestSchema = z.object({
   notes: z.string().max(500).optional()
 });
 
+// Longest window a traffic shape may describe: one day.
+export const MAX_TRAFFIC_SHAPE_SECONDS = 86_400;
+
+const shapeSecondSchema = z.number().min(0).max(MAX_TRAFFIC_SHAPE_SECONDS);
+const shapeDurationSchema = z.number().int().min(10).max(MAX_TRAFFIC_SHAPE_SECONDS);
+
+export const trafficShapePointSchema = z.object({
+  atSecond: shapeSecondSchema,
+  rps: z.number().min(0).max(50_000_000)
+});
+
+/**
+ * How demand moves over a time-stepped window. `points` interpolates linearly between absolute
+ * RPS values and `replay` holds each recorded sample until the next one; the generated shapes
+ * move between the profile's baseline and its burst-adjusted peak.
+ */
+export const trafficShapeSchema = z
+  .discriminatedUnion('kind', [
+    z.object({
+      kind: z.literal('points'),
+      durationSeconds: shapeDurationSchema,
+      points: z.array(trafficShapePointSchema).min(2).max(200)
+    }),
+    z.object({
+      kind: z.literal('diurnal'),
+      durationSeconds: shapeDurationSchema,
+      periodSeconds: z.number().int().min(10).max(MAX_TRAFFIC_SHAPE_SECONDS),
+      // Overnight low as a percentage of baseline.
+      troughPercent: z.number().min(0).max(100)
+    }),
+    z.object({
+      kind: z.literal('ramp'),
+      durationSeconds: shapeDurationSchema,
+      rampStartSeconds: shapeSecondSchema,
+      rampEndSeconds: shapeSecondSchema
+    }),
+    z.object({
+      kind: z.literal('flash-crowd'),
+      durationSeconds: shapeDurationSchema,
+      atSecond: shapeSecondSchema,
+      riseSeconds: shapeSecondSchema,
+      holdSeconds: shapeSecondSchema,
+      decaySeconds: shapeSecondSchema
+    }),
+    z.object({
+      kind: z.literal('replay'),
+      durationSeconds: shapeDurationSchema,
+      sourceName: z.string().max(200).optional(),
+      points: z.array(trafficShapePointSchema).min(2).max(5000)
+    })
+  ])
+  .superRefine((shape, context) => {
+    if (shape.kind === 'points' || shape.kind === 'replay') {
+      shape.points.forEach((point, index) => {
+        const previous = shape.points[index - 1];
+        if (previous && point.atSecond <= previous.atSecond) {
+          context.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['points', index, 'atSecond'],
+            message: 'Points must be in increasing atSecond order.'
+          });
+        }
+        if (point.atSecond > shape.durationSeconds) {
+          context.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['points', index, 'atSecond'],
+            message: 'Points must fall within durationSeconds.'
+          });
+        }
+      });
+    }
+
+    if (shape.kind === 'ramp' && shape.rampStartSeconds >= shape.rampEndSeconds) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['rampEndSeconds'],
+        message: 'The ramp must end after it starts.'
+      });
+    }
+
+    if (shape.kind === 'flash-crowd' && shape.atSecond >= shape.durationSeconds) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['atSecond'],
+        message: 'The flash crowd must start within durationSeconds.'
+      });
+    }
+  });
+
 export const trafficProfileSchema = z
   .object({
     baselineRps: z.number().int().positive().max(10_000_000),
@@ -66,7 +155,8 @@ export const trafficProfileSchema = z
       europe: z.number().min(0).max(100),
       apac: z.number().min(0).max(100)
     }),
-    burstiness: z.enum(['steady', 'spiky', 'extreme'])
+    burstiness: z.enum(['steady', 'spiky', 'extreme']),
+    shape: trafficShapeSchema.optional()
   })
   .superRefine((profile, context) => {
     const rwTotal = profile.readPercentage + profile.writePercentage;
@@ -93,7 +183,7 @@ export const trafficProfileSchema = z
     }
   });
 
-export const componentTypeSchema = z.enum([
+export const builtInComponentTypeSchema = z.enum([
   'client',
   'load-balancer',
   'api-gateway',
@@ -102,9 +192,98 @@ export const componentTypeSchema = z.enum([
   'database',
   'queue',
   'cdn',
-  'object-store'
+  'object-store',
+  'websocket-gateway',
+  'search-index',
+  'stream',
+  'worker',
+  'scheduler',
+  'dns',
+  'rate-limiter',
+  'blob-processor'
 ]);
 
+const unknownComponentType = (type: string) => ({ message: `Unknown component type "${type}".` });
+
+// Built-in types plus the custom types in `customComponentDefinitions` or added with `registerComponentType`.
+export const componentTypeSchema = z
+  .string()
+  .refine((type): type is ComponentType => isRegisteredComponentType(type), unknownComponentType);
+
+// Maps keyed by component type that need not list every built-in type.
+function componentTypeRecordSchema<T extends z.ZodTypeAny>(valueSchema: T) {
+  return z.record(z.string().refine(isRegisteredComponentType, unknownComponentType), valueSchema);
+}
+
+export const regionSchema = z.enum(['usEast', 'usWest', 'europe', 'apac']);
+
+export const availabilityZoneSchema = z.enum(['az-a', 'az-b', 'az-c']);
+
+export const componentPlacementSchema = z.object({
+  region: regionSchema,
+  zones: z
+    .array(availabilityZoneSchema)
+    .min(1)
+    .max(3)
+    .refine((zones) => new Set(zones).size === zones.length, 'Zones must be unique.')
+});
+
+export const verticalTierSchema = z.enum(['small', 'medium', 'large', 'xlarge']);
+
+export const autoscalingPolicySchema = z
+  .object({
+    minReplicas: z.number().int().positive(),
+    maxReplicas: z.number().int().positive().max(500),
+    targetUtilizationPercent: z.number().min(10).max(95),
+    scaleUpDelaySeconds: z.number().int().min(0).max(900),
+    cooldownSeconds: z.number().int().min(0).max(3600)
+  })
+  .refine((policy) => policy.minReplicas <= policy.maxReplicas, {
+    path: ['maxReplicas'],
+    message: 'maxReplicas must be at least minReplicas.'
+  });
+
+export const cacheConfigSchema = z.object({
+  hitRatio: z.number().min(0).max(1),
+  ttlSeconds: z.number().int().positive().max(604_800),
+  evictionPolicy: z.enum(['lru', 'lfu', 'ttl-only']),
+  state: z.enum(['warm', 'cold'])
+});
+
+export const databaseConfigSchema = z.object({
+  // Read replicas per shard, in addition to the shard's primary.
+  readReplicas: z.number().int().min(0).max(15),
+  shardCount: z.number().int().min(1).max(64),
+  shardKey: z.string().max(80).nullable(),
+  replication: z.enum(['sync', 'async']),
+  consistency: z.enum(['strong', 'bounded-staleness', 'eventual'])
+});
+
+export const queueConfigSchema = z.object({
+  // Consumer pool draining the queue; together they cap its delivery rate downstream.
+  consumers: z.number().int().min(1).max(500),
+  consumerRps: z.number().positive().max(1_000_000),
+  maxDepth: z.number().int().min(1).max(1_000_000_000),
+  // Messages still waiting after this long expire unprocessed.
+  retentionSeconds: z.number().int().min(1).max(1_209_600),
+  // A full queue either discards new messages or blocks its producers.
+  overflow: z.enum(['drop', 'back-pressure'])
+});
+
+export const circuitBreakerSchema = z.object({
+  errorThresholdPercent: z.number().min(1).max(100),
+  openSeconds: z.number().int().min(1).max(600)
+});
+
+export const edgeCallPolicySchema = z.object({
+  mode: z.enum(['sync', 'async']),
+  timeoutMs: z.number().int().min(10).max(60_000),
+  retries: z.number().int().min(0).max(10),
+  backoff: z.enum(['none', 'fixed', 'exponential']),
+  backoffMs: z.number().int().min(0).max(30_000),
+  circuitBreaker: circuitBreakerSchema.optional()
+});
+
 export const architectureComponentSchema = z.object({
   id: z.string().min(1),
   type: componentTypeSchema,
@@ -120,17 +299,48 @@ export const architectureComponentSchema = z.object({
   }),
   scaling: z.object({
     replicas: z.number().int().positive(),
-    verticalTier: z.enum(['small', 'medium', 'large', 'xlarge'])
+    verticalTier: verticalTierSchema,
+    autoscaling: autoscalingPolicySchema.optional()
   }),
   behavior: z.object({
-    stateful: z.boolean()
-  })
+    stateful: z.boolean(),
+    // Extra service time per request, set by dependency-lag failure injection.
+    injectedLatencyMs: z.number().nonnegative().optional(),
+    // Seconds until a replica takes over a failed primary, set by primary-failover injection.
+    failoverSeconds: z.number().nonnegative().optional()
+  }),
+  placement: componentPlacementSchema.default({ region: 'usEast', zones: ['az-a'] }),
+  // Only read for cache components; caches without one use `defaultCacheConfig`.
+  cacheConfig: cacheConfigSchema.optional(),
+  // Only read for database components. With one, `scaling.replicas` is ignored in favor of
+  // one primary plus `readReplicas` per shard.
+  databaseConfig: databaseConfigSchema.optional(),
+  // Only read for queue components; queues without one use `defaultQueueConfig`.
+  queueConfig: queueConfigSchema.optional(),
+  // Settings of a registered component type, checked against its definition's `settingsSchema`.
+  settings: z.record(z.string(), z.unknown()).optional()
+}).superRefine((component, context) => {
+  const settingsSchema = componentDefinition(component.type)?.settingsSchema;
+  if (!settingsSchema || component.settings === undefined) {
+    return;
+  }
+  const parsed = settingsSchema.safeParse(component.settings);
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      context.addIssue({ ...issue, path: ['settings', ...issue.path] });
+    }
+  }
 });
 
 export const architectureEdgeSchema = z.object({
   id: z.string().min(1),
   sourceId: z.string().min(1),
-  targetId: z.string().min(1)
+  targetId: z.string().min(1),
+  // Edges without a policy wait indefinitely and never retry.
+  callPolicy: edgeCallPolicySchema.optional(),
+  // Share of calls lost on the link, set by packet-loss and network-partition injection;
+  // 100 means the link is cut.
+  packetLossPercent: z.number().min(0).max(100).optional()
 });
 
 export const topologyWarningSchema = z.object({
@@ -237,10 +447,39 @@ export const projectHistoryResponseSchema = z.object({
   versions: z.array(projectVersionSummarySchema)
 });
 
+export const sloRegionTargetSchema = z.object({
+  region: regionSchema,
+  p95LatencyMs: z.number().positive().max(60_000)
+});
+
+export const sloDefinitionSchema = z
+  .object({
+    // Share of requests that must succeed; the rest is the error budget.
+    availabilityPercent: z.number().min(90).max(99.999),
+    p95LatencyMs: z.number().positive().max(60_000).optional(),
+    p99LatencyMs: z.number().positive().max(60_000).optional(),
+    // p95 targets for clients in one region.
+    regionTargets: z.array(sloRegionTargetSchema).max(4).default([])
+  })
+  .superRefine((slo, context) => {
+    const regions = new Set<string>();
+    slo.regionTargets.forEach((target, index) => {
+      if (regions.has(target.region)) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['regionTargets', index, 'region'],
+          message: 'Each region may have only one target.'
+        });
+      }
+      regions.add(target.region);
+    });
+  });
+
 export const versionDetailSchema = projectVersionSummarySchema.extend({
   components: z.array(architectureComponentSchema),
   edges: z.array(architectureEdgeSchema),
   trafficProfile: trafficProfileSchema,
+  slo: sloDefinitionSchema.nullable().default(null),
   warnings: z.array(topologyWarningSchema)
 });
 
@@ -298,7 +537,21 @@ export const versionTrafficProfileResponseSchema = z.object({
   updatedAt: z.string()
 });
 
-export const simulationRunStatusSchema = z.enum(['pending', 'running', 'completed', 'failed']);
+export const updateVersionSloRequestSchema = z.object({
+  // null removes the version's SLOs.
+  slo: sloDefinitionSchema.nullable()
+});
+
+export const versionSloResponseSchema = z.object({
+  projectId: z.string().uuid(),
+  versionId: z.string().uuid(),
+  slo: sloDefinitionSchema.nullable(),
+  updatedAt: z.string()
+});
+
+export const simulationRunStatusSchema = z.enum(['pending', 'running', 'completed', 'failed', 'cancelled']);
+
+export const simulationModeSchema = z.enum(['analytical', 'time-stepped', 'monte-carlo']);
 
 export const simulationEventSeveritySchema = z.enum(['info', 'warning', 'critical']);
 
@@ -308,13 +561,65 @@ export const failureInjectionModeSchema = z.enum([
   'node-down',
   'az-down',
   'dependency-lag',
-  'traffic-surge'
+  'traffic-surge',
+  'region-down',
+  'cache-flush',
+  'primary-failover',
+  'network-partition',
+  'packet-loss'
 ]);
 
+// Missing entries fall back to `defaultPricingTable`.
+export const pricingTableSchema = z.object({
+  // Monthly USD for one medium-tier node of each component type.
+  nodeMonthlyUsd: componentTypeRecordSchema(z.number().nonnegative()),
+  // Node price of each tier relative to medium.
+  tierMultiplier: z.record(verticalTierSchema, z.number().positive()),
+  // Usage charges per million requests served, for managed components billed by traffic.
+  perMillionRequestsUsd: componentTypeRecordSchema(z.number().nonnegative())
+});
+
 export const simulationInputContractSchema = z.object({
   components: z.array(architectureComponentSchema),
   edges: z.array(architectureEdgeSchema),
-  trafficProfile: trafficProfileSchema
+  trafficProfile: trafficProfileSchema,
+  // Prices in effect when the run was queued; `defaultPricingTable` when absent.
+  pricing: pricingTableSchema.optional(),
+  // The version's SLOs when the run was queued; runs are evaluated against them.
+  slo: sloDefinitionSchema.optional()
+});
+
+export const regionalLatencySchema = z.object({
+  region: regionSchema,
+  trafficPercent: z.number().min(0).max(100),
+  p50LatencyMs: z.number().nonnegative(),
+  p95LatencyMs: z.number().nonnegative()
+});
+
+export const edgeCallMetricsSchema = z.object({
+  edgeId: z.string().min(1),
+  sourceId: z.string().min(1),
+  targetId: z.string().min(1),
+  attemptsPerCall: z.number().min(0),
+  failureRatePercent: z.number().min(0).max(100),
+  breakerOpen: z.boolean()
+});
+
+export const queueMetricsSchema = z.object({
+  componentId: z.string().min(1),
+  // Messages producers offer per second at peak.
+  producerRps: z.number().nonnegative(),
+  // Messages the consumer pool drains per second.
+  consumerRps: z.number().nonnegative(),
+  peakBacklog: z.number().nonnegative(),
+  peakLagSeconds: z.number().nonnegative(),
+  // Messages lost to overflow or expiry per second at peak.
+  droppedRps: z.number().nonnegative(),
+  // Messages a full back-pressure queue refuses per second at peak; producers hold them instead.
+  // Absent on runs from before back-pressure was told apart from drops.
+  deferredRps: z.number().nonnegative().optional(),
+  // Producers were blocked by a full queue at some point.
+  backPressure: z.boolean()
 });
 
 export const simulationMetricsSchema = z.object({
@@ -323,8 +628,19 @@ export const simulationMetricsSchema = z.object({
   throughputRps: z.number().nonnegative(),
   p50LatencyMs: z.number().nonnegative(),
   p95LatencyMs: z.number().nonnegative(),
+  // Absent on runs recorded before the queueing latency model.
+  p99LatencyMs: z.number().nonnegative().optional(),
   errorRatePercent: z.number().min(0).max(100),
-  saturated: z.boolean()
+  saturated: z.boolean(),
+  // Per client region, for regions that send traffic. Absent on runs recorded before it existed.
+  regionalLatency: z.array(regionalLatencySchema).optional(),
+  // Edges with a call policy. Absent on runs recorded before call policies existed.
+  edgeCalls: z.array(edgeCallMetricsSchema).optional(),
+  // Queue components. Absent on runs recorded before queues were modeled.
+  queues: z.array(queueMetricsSchema).optional(),
+  // Estimated at baseline load. Absent on runs recorded before the cost model.
+  monthlyCostUsd: z.number().nonnegative().optional(),
+  costPerMillionRequestsUsd: z.number().nonnegative().optional()
 });
 
 export const simulationBottleneckSchema = z.object({
@@ -338,6 +654,71 @@ export const simulationBottleneckSchema = z.object({
   reason: z.string()
 });
 
+export const criticalPathKindSchema = z.enum(['read', 'write']);
+
+export const criticalPathHopSchema = z.object({
+  componentId: z.string().min(1),
+  componentLabel: z.string().min(1),
+  componentType: componentTypeSchema,
+  // Network, queueing and retry time this hop adds to the request.
+  latencyMs: z.number().nonnegative(),
+  // Calls of this kind the component receives per entry request, retries included.
+  callsPerRequest: z.number().nonnegative(),
+  utilizationPercent: z.number().nonnegative(),
+  // Entry RPS at which the component reaches full utilization; null when it carries no load.
+  saturatesAtRps: z.number().nonnegative().nullable()
+});
+
+export const criticalPathSchema = z.object({
+  kind: criticalPathKindSchema,
+  // Share of requests of this kind that take the path.
+  probability: z.number().min(0).max(1),
+  // End to end, including the client's last mile on top of the hops.
+  latencyMs: z.number().nonnegative(),
+  hops: z.array(criticalPathHopSchema),
+  // Hop that saturates first as traffic grows.
+  limitingComponentId: z.string().nullable()
+});
+
+export const runExplanationSchema = z.object({
+  summary: z.string(),
+  criticalPaths: z.array(criticalPathSchema),
+  // Component anywhere in the graph that saturates first as traffic grows.
+  limitingComponentId: z.string().nullable(),
+  saturatesAtRps: z.number().nonnegative().nullable(),
+  details: z.array(z.string())
+});
+
+export const sloObjectiveSchema = z.enum([
+  'availability',
+  'p95-latency',
+  'p99-latency',
+  'regional-p95-latency'
+]);
+
+export const sloObjectiveResultSchema = z.object({
+  objective: sloObjectiveSchema,
+  region: regionSchema.nullable(),
+  target: z.number().nonnegative(),
+  // null when the run did not measure it, such as a region that sends no traffic.
+  actual: z.number().nonnegative().nullable(),
+  passed: z.boolean()
+});
+
+export const sloBreachComponentSchema = z.object({
+  componentId: z.string().min(1),
+  componentLabel: z.string().min(1),
+  reason: z.string()
+});
+
+export const sloEvaluationSchema = z.object({
+  passed: z.boolean(),
+  objectives: z.array(sloObjectiveResultSchema),
+  // Share of the error budget used if the run's error rate held for the whole budget window.
+  errorBudgetBurnedPercent: z.number().nonnegative(),
+  breachComponents: z.array(sloBreachComponentSchema)
+});
+
 export const simulationTimelineEventSchema = z.object({
   sequence: z.number().int().nonnegative(),
   atSecond: z.number().int().nonnegative(),
@@ -347,19 +728,66 @@ export const simulationTimelineEventSchema = z.object({
   componentId: z.string().nullable()
 });
 
+export const simulationTickComponentSampleSchema = z.object({
+  componentId: z.string().min(1),
+  // Absent on runs recorded before autoscaling was simulated.
+  replicas: z.number().int().positive().optional(),
+  utilizationPercent: z.number().nonnegative(),
+  queueDepth: z.number().nonnegative(),
+  droppedRps: z.number().nonnegative(),
+  // Seconds the oldest message has waited; queue components only.
+  consumerLagSeconds: z.number().nonnegative().optional()
+});
+
+export const simulationTickSchema = z.object({
+  atSecond: z.number().int().nonnegative(),
+  demandRps: z.number().nonnegative(),
+  throughputRps: z.number().nonnegative(),
+  droppedRps: z.number().nonnegative(),
+  components: z.array(simulationTickComponentSampleSchema)
+});
+
+export const simulationMetricBandSchema = z.object({
+  mean: z.number().nonnegative(),
+  p5: z.number().nonnegative(),
+  p50: z.number().nonnegative(),
+  p95: z.number().nonnegative()
+});
+
+export const simulationConfidenceSummarySchema = z.object({
+  iterations: z.number().int().positive(),
+  seed: z.number().int().nonnegative(),
+  throughputRps: simulationMetricBandSchema,
+  p50LatencyMs: simulationMetricBandSchema,
+  p95LatencyMs: simulationMetricBandSchema,
+  errorRatePercent: simulationMetricBandSchema,
+  saturatedProbability: z.number().min(0).max(1)
+});
+
 export const simulationComputationResultSchema = z.object({
   metrics: simulationMetricsSchema,
   bottlenecks: z.array(simulationBottleneckSchema),
-  timeline: z.array(simulationTimelineEventSchema)
+  timeline: z.array(simulationTimelineEventSchema),
+  series: z.array(simulationTickSchema).optional(),
+  confidence: simulationConfidenceSummarySchema.optional(),
+  explanation: runExplanationSchema.optional()
 });
 
 export const failureInjectionProfileSchema = z
   .object({
     mode: failureInjectionModeSchema,
     targetComponentId: z.string().min(1).nullable().optional(),
-    azName: z.enum(['az-a', 'az-b']).nullable().optional(),
+    azName: availabilityZoneSchema.nullable().optional(),
+    // Scopes az-down to one region; required for region-down.
+    region: regionSchema.nullable().optional(),
     lagMs: z.number().int().min(50).max(5000).optional(),
-    surgeMultiplier: z.number().min(1.1).max(10).optional()
+    surgeMultiplier: z.number().min(1.1).max(10).optional(),
+    // Links to cut (network-partition) or degrade (packet-loss).
+    edgeIds: z.array(z.string().min(1)).min(1).max(50).optional(),
+    // One side of a network-partition split; the other side is every other zone. Scoped by
+    // `region` when one is given.
+    partitionZones: z.array(availabilityZoneSchema).min(1).max(2).optional(),
+    lossPercent: z.number().min(1).max(99).optional()
   })
   .superRefine((profile, context) => {
     if (profile.mode === 'node-down' && !profile.targetComponentId) {
@@ -370,6 +798,14 @@ export const failureInjectionProfileSchema = z
       });
     }
 
+    if (profile.mode === 'primary-failover' && !profile.targetComponentId) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['targetComponentId'],
+        message: 'targetComponentId is required for primary-failover mode.'
+      });
+    }
+
     if (profile.mode === 'dependency-lag' && !profile.targetComponentId) {
       context.addIssue({
         code: z.ZodIssueCode.custom,
@@ -401,6 +837,41 @@ export const failureInjectionProfileSchema = z
         message: 'azName is required for az-down mode.'
       });
     }
+
+    if (profile.mode === 'region-down' && !profile.region) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['region'],
+        message: 'region is required for region-down mode.'
+      });
+    }
+
+    if (
+      profile.mode === 'network-partition' &&
+      Boolean(profile.edgeIds) === Boolean(profile.partitionZones)
+    ) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['edgeIds'],
+        message: 'Provide exactly one of edgeIds or partitionZones for network-partition mode.'
+      });
+    }
+
+    if (profile.mode === 'packet-loss' && !profile.edgeIds) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['edgeIds'],
+        message: 'edgeIds is required for packet-loss mode.'
+      });
+    }
+
+    if (profile.mode === 'packet-loss' && !profile.lossPercent) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['lossPercent'],
+        message: 'lossPercent is required for packet-loss mode.'
+      });
+    }
   });
 
 export const failureImpactComponentSchema = z.object({
@@ -413,23 +884,77 @@ export const failureImpactComponentSchema = z.object({
 
 export const blastRadiusSummarySchema = z.object({
   mode: failureInjectionModeSchema,
+  // Every step's mode, in schedule order, when the run came from a chaos experiment.
+  modes: z.array(failureInjectionModeSchema).optional(),
+  // Steps scheduled after the end of a time-stepped run, which never fired.
+  skippedModes: z.array(failureInjectionModeSchema).optional(),
   impactedComponents: z.array(failureImpactComponentSchema),
   impactedCount: z.number().int().nonnegative(),
   criticalCount: z.number().int().nonnegative(),
   estimatedUserImpactPercent: z.number().min(0).max(100),
+  // Messages held up behind queue consumers at the worst point. Absent before queues were modeled.
+  messagesDelayed: z.number().nonnegative().optional(),
   summary: z.string()
 });
 
-export const failureInjectionRequestSchema = z.object({
+export const chaosExperimentStepSchema = z.object({
+  atSecond: z.number().int().min(0).max(3600),
   profile: failureInjectionProfileSchema
 });
 
+export const chaosExperimentSchema = z.object({
+  id: z.string().uuid(),
+  projectId: z.string().uuid(),
+  name: z.string().min(1).max(120),
+  description: z.string().max(2000).nullable(),
+  steps: z.array(chaosExperimentStepSchema).min(1).max(20),
+  createdAt: z.string(),
+  updatedAt: z.string()
+});
+
+export const listChaosExperimentsResponseSchema = z.object({
+  experiments: z.array(chaosExperimentSchema)
+});
+
+export const createChaosExperimentRequestSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  description: z.string().max(2000).nullable().optional(),
+  steps: z.array(chaosExperimentStepSchema).min(1).max(20)
+});
+
+// Steps a chaos run was queued with, kept on the run so later edits to the experiment do not rewrite it.
+export const chaosExperimentRunSchema = z.object({
+  experimentId: z.string().uuid().nullable(),
+  name: z.string().min(1).max(120),
+  steps: z.array(chaosExperimentStepSchema).min(1).max(20)
+});
+
+export const failureInjectionRequestSchema = z
+  .object({
+    profile: failureInjectionProfileSchema.optional(),
+    experimentId: z.string().uuid().optional()
+  })
+  .refine((value) => (value.profile === undefined) !== (value.experimentId === undefined), {
+    message: 'Provide exactly one of profile or experimentId.'
+  });
+
 export const simulationRunSchema = z.object({
   id: z.string().uuid(),
   projectId: z.string().uuid(),
   versionId: z.string().uuid(),
   baselineRunId: z.string().uuid().nullable(),
+  // Set on runs queued by a project-wide re-simulation.
+  batchId: z.string().uuid().nullable().default(null),
+  // Stamped by the worker when it starts the run, and set up front on replays pinned to a version.
+  // null on runs from before engines were versioned.
+  engineVersion: z.string().nullable().default(null),
+  // The run this one recomputes from the same stored inputs, possibly under another engine version.
+  replayOfRunId: z.string().uuid().nullable().default(null),
+  mode: simulationModeSchema.default('analytical'),
+  seed: z.number().int().nonnegative().nullable().default(null),
+  iterations: z.number().int().positive().nullable().default(null),
   failureProfile: failureInjectionProfileSchema.nullable(),
+  chaosExperiment: chaosExperimentRunSchema.nullable().default(null),
   blastRadius: blastRadiusSummarySchema.nullable(),
   status: simulationRunStatusSchema,
   queuedAt: z.string(),
@@ -439,19 +964,305 @@ export const simulationRunSchema = z.object({
   metrics: simulationMetricsSchema.nullable(),
   bottlenecks: z.array(simulationBottleneckSchema),
   events: z.array(simulationTimelineEventSchema),
+  series: z.array(simulationTickSchema).default([]),
+  confidence: simulationConfidenceSummarySchema.nullable().default(null),
+  // null when the version had no SLOs at queue time.
+  sloEvaluation: sloEvaluationSchema.nullable().default(null),
+  // null on runs recorded before critical-path explanations existed.
+  explanation: runExplanationSchema.nullable().default(null),
   createdAt: z.string(),
   updatedAt: z.string()
 });
 
+export const queueSimulationRunRequestSchema = z.object({
+  mode: simulationModeSchema.optional(),
+  // Only used by monte-carlo runs; a random seed is drawn when omitted.
+  seed: z.number().int().min(0).max(2_147_483_647).optional(),
+  iterations: z.number().int().min(10).max(1000).optional()
+});
+
 export const simulationRunResponseSchema = z.object({
   run: simulationRunSchema
 });
 
+// Re-runs keep the original inputs, seed and failure profile apart from what is overridden here.
+export const rerunSimulationRunRequestSchema = z.object({
+  trafficProfile: trafficProfileSchema.optional()
+});
+
 export const simulationRunQueueJobSchema = z.object({
   runId: z.string().uuid()
 });
 
-export const gradeReportStatusSchema = z.enum(['pending', 'running', 'completed', 'failed']);
+export const engineVersionSchema = z
+  .string()
+  .min(1)
+  .max(32)
+  .regex(/^[0-9A-Za-z.+-]+$/, 'engineVersion may contain only letters, digits, ".", "+" and "-".');
+
+// Replays default to the engine version the API was built with.
+export const replaySimulationRunRequestSchema = z.object({
+  engineVersion: engineVersionSchema.optional()
+});
+
+export const simulationEnginesResponseSchema = z.object({
+  current: z.string(),
+  // Versions some simulation worker has announced recently, and so can replay runs under.
+  available: z.array(z.string())
+});
+
+export const runMetricDeltaSchema = z.object({
+  metric: z.string(),
+  // null when the run did not report the metric.
+  source: z.number().nullable(),
+  replay: z.number().nullable(),
+  delta: z.number().nullable()
+});
+
+export const runBottleneckChangeSchema = z.object({
+  componentId: z.string().min(1),
+  componentLabel: z.string().min(1),
+  change: z.enum(['added', 'removed', 'changed']),
+  // null on the side where the component was not a bottleneck.
+  sourceUtilizationPercent: z.number().nonnegative().nullable(),
+  replayUtilizationPercent: z.number().nonnegative().nullable(),
+  sourceSeverity: simulationBottleneckSeveritySchema.nullable(),
+  replaySeverity: simulationBottleneckSeveritySchema.nullable()
+});
+
+export const runReplayDiffSchema = z.object({
+  sourceRunId: z.string().uuid(),
+  replayRunId: z.string().uuid(),
+  sourceEngineVersion: z.string().nullable(),
+  replayEngineVersion: z.string().nullable(),
+  // True when the replay reproduced every metric and bottleneck exactly.
+  identical: z.boolean(),
+  metricDeltas: z.array(runMetricDeltaSchema),
+  bottleneckChanges: z.array(runBottleneckChangeSchema)
+});
+
+export const runReplayDiffResponseSchema = z.object({
+  diff: runReplayDiffSchema
+});
+
+export const createSimulationBatchRequestSchema = z.object({
+  mode: simulationModeSchema.optional()
+});
+
+export const simulationBatchRunSchema = z.object({
+  runId: z.string().uuid(),
+  versionId: z.string().uuid(),
+  versionNumber: z.number().int().positive(),
+  status: simulationRunStatusSchema,
+  engineVersion: z.string().nullable(),
+  failureReason: z.string().nullable(),
+  completedAt: z.string().nullable()
+});
+
+export const simulationBatchProgressSchema = z.object({
+  total: z.number().int().nonnegative(),
+  pending: z.number().int().nonnegative(),
+  running: z.number().int().nonnegative(),
+  completed: z.number().int().nonnegative(),
+  failed: z.number().int().nonnegative(),
+  cancelled: z.number().int().nonnegative(),
+  // Share of runs that reached a terminal status, whatever it was.
+  percentComplete: z.number().min(0).max(100)
+});
+
+// A batch has no status of its own; it is derived from its runs on read.
+export const simulationBatchSchema = z.object({
+  id: z.string().uuid(),
+  projectId: z.string().uuid(),
+  mode: simulationModeSchema,
+  // The engine version the API was built with when the batch was queued.
+  engineVersion: z.string(),
+  status: simulationRunStatusSchema,
+  progress: simulationBatchProgressSchema,
+  runs: z.array(simulationBatchRunSchema),
+  createdAt: z.string(),
+  updatedAt: z.string()
+});
+
+export const simulationBatchResponseSchema = z.object({
+  batch: simulationBatchSchema
+});
+
+export const simulationBatchListResponseSchema = z.object({
+  batches: z.array(simulationBatchSchema)
+});
+
+// What the worker publishes while it processes a run, relayed to clients watching it live.
+export const simulationRunStreamMessageSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('status'),
+    status: simulationRunStatusSchema,
+    failureReason: z.string().nullable().default(null)
+  }),
+  z.object({
+    type: z.literal('event'),
+    event: simulationTimelineEventSchema
+  }),
+  z.object({
+    type: z.literal('tick'),
+    tick: simulationTickSchema
+  })
+]);
+
+export const capacityPlanTargetsSchema = z.object({
+  p95LatencyMs: z.number().positive().max(60_000),
+  errorRatePercent: z.number().min(0).max(100),
+  // Share of each component's capacity left unused at peak.
+  headroomPercent: z.number().min(0).max(90)
+});
+
+export const componentSizingSchema = z.object({
+  replicas: z.number().int().positive(),
+  verticalTier: verticalTierSchema
+});
+
+export const capacityPlanChangeSchema = z.object({
+  componentId: z.string().min(1),
+  componentLabel: z.string().min(1),
+  componentType: componentTypeSchema,
+  from: componentSizingSchema,
+  to: componentSizingSchema
+});
+
+export const capacityPlanSchema = z.object({
+  versionId: z.string().uuid(),
+  targets: capacityPlanTargetsSchema,
+  // False when no configuration within the planner's bounds meets every target.
+  feasible: z.boolean(),
+  changes: z.array(capacityPlanChangeSchema),
+  monthlyCostUsdBefore: z.number().nonnegative(),
+  monthlyCostUsdAfter: z.number().nonnegative(),
+  projectedMetrics: simulationMetricsSchema,
+  notes: z.array(z.string())
+});
+
+export const applyCapacityPlanRequestSchema = z.object({
+  changes: z
+    .array(
+      z.object({
+        componentId: z.string().min(1),
+        to: componentSizingSchema
+      })
+    )
+    .min(1)
+    .max(200),
+  notes: z.string().max(500).optional()
+});
+
+export const sweepParameterSchema = z.enum([
+  'baselineRps',
+  'peakMultiplier',
+  'readPercentage',
+  'payloadKb',
+  'replicas'
+]);
+
+export const sweepScaleSchema = z.enum(['linear', 'log']);
+
+export const SWEEP_PARAMETER_BOUNDS: Record<SweepParameter, { min: number; max: number }> = {
+  baselineRps: { min: 1, max: 10_000_000 },
+  peakMultiplier: { min: 1, max: 50 },
+  readPercentage: { min: 0, max: 100 },
+  payloadKb: { min: 1, max: 10_000 },
+  replicas: { min: 1, max: 200 }
+};
+
+export const parameterSweepSpecSchema = z
+  .object({
+    parameter: sweepParameterSchema,
+    // Component whose replicas are swept; only for `replicas` sweeps.
+    componentId: z.string().min(1).optional(),
+    from: z.number(),
+    to: z.number(),
+    steps: z.number().int().min(2).max(40),
+    scale: sweepScaleSchema.default('linear')
+  })
+  .superRefine((spec, context) => {
+    const bounds = SWEEP_PARAMETER_BOUNDS[spec.parameter];
+    for (const key of ['from', 'to'] as const) {
+      if (spec[key] < bounds.min || spec[key] > bounds.max) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [key],
+          message: `${spec.parameter} must be between ${bounds.min} and ${bounds.max}.`
+        });
+      }
+    }
+    if (spec.from === spec.to) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['to'],
+        message: 'to must differ from from.'
+      });
+    }
+    if (spec.scale === 'log' && Math.min(spec.from, spec.to) <= 0) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['scale'],
+        message: 'Log sweeps need positive bounds.'
+      });
+    }
+    if ((spec.parameter === 'replicas') !== (spec.componentId !== undefined)) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['componentId'],
+        message: 'componentId is required for replicas sweeps and not allowed otherwise.'
+      });
+    }
+  });
+
+export const parameterSweepPointSchema = z.object({
+  value: z.number(),
+  throughputRps: z.number().nonnegative(),
+  p50LatencyMs: z.number().nonnegative(),
+  p95LatencyMs: z.number().nonnegative(),
+  errorRatePercent: z.number().min(0).max(100),
+  saturated: z.boolean(),
+  // Most utilized component at this value.
+  bottleneckComponentId: z.string().nullable()
+});
+
+// The narrowest pair of values found on either side of the change from keeping up to saturating.
+export const sweepBreakingPointSchema = z.object({
+  healthyValue: z.number(),
+  saturatedValue: z.number(),
+  // Most utilized component at `saturatedValue`.
+  componentId: z.string().nullable()
+});
+
+export const parameterSweepSchema = z.object({
+  id: z.string().uuid(),
+  projectId: z.string().uuid(),
+  versionId: z.string().uuid(),
+  status: simulationRunStatusSchema,
+  spec: parameterSweepSpecSchema,
+  points: z.array(parameterSweepPointSchema),
+  // Null until the sweep completes, or when the system never changes state across the range.
+  breakingPoint: sweepBreakingPointSchema.nullable(),
+  failureReason: z.string().nullable(),
+  queuedAt: z.string(),
+  startedAt: z.string().nullable(),
+  completedAt: z.string().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string()
+});
+
+export const createParameterSweepRequestSchema = parameterSweepSpecSchema;
+
+export const parameterSweepResponseSchema = z.object({
+  sweep: parameterSweepSchema
+});
+
+export const simulationSweepQueueJobSchema = z.object({
+  sweepId: z.string().uuid()
+});
+
+export const gradeReportStatusSchema = z.enum(['pending', 'running', 'completed', 'failed', 'cancelled']);
 
 export const gradePrioritySchema = z.enum(['P0', 'P1', 'P2']);
 
@@ -513,7 +1324,9 @@ export const gradeRunQueueJobSchema = z.object({
 
 export const compareVersionsQuerySchema = z.object({
   baselineVersionId: z.string().uuid(),
-  candidateVersionId: z.string().uuid()
+  candidateVersionId: z.string().uuid(),
+  // Compares the latest runs even when different simulation engine versions produced them.
+  allowMixedEngineVersions: z.boolean().optional()
 });
 
 export const compareComponentSnapshotSchema = z.object({
@@ -530,6 +1343,9 @@ export const compareVersionRunSnapshotSchema = z.object({
   p95LatencyMs: z.number().nonnegative(),
   errorRatePercent: z.number().min(0).max(100),
   bottleneckCount: z.number().int().nonnegative(),
+  // Absent on reports saved before SLO evaluation.
+  sloEvaluation: sloEvaluationSchema.nullable().default(null),
+  engineVersion: z.string().nullable().default(null),
   completedAt: z.string().nullable()
 });
 
@@ -562,6 +1378,8 @@ export const compareMetricDeltaSchema = z.object({
   percentDelta: z.number().nullable()
 });
 
+const emptyMetricDelta = { baseline: null, candidate: null, absoluteDelta: null, percentDelta: null };
+
 export const compareRubricDeltaSchema = z.object({
   category: gradeCategorySchema,
   baselineScore: z.number().nullable(),
@@ -588,9 +1406,15 @@ export const versionCompareResultSchema = z.object({
     throughputRps: compareMetricDeltaSchema,
     p95LatencyMs: compareMetricDeltaSchema,
     errorRatePercent: compareMetricDeltaSchema,
-    overallScore: compareMetricDeltaSchema
+    overallScore: compareMetricDeltaSchema,
+    // Absent on reports saved before runs carried cost estimates.
+    monthlyCostUsd: compareMetricDeltaSchema.default(emptyMetricDelta),
+    costPerMillionRequestsUsd: compareMetricDeltaSchema.default(emptyMetricDelta),
+    errorBudgetBurnedPercent: compareMetricDeltaSchema.default(emptyMetricDelta)
   }),
   rubricDeltas: z.array(compareRubricDeltaSchema),
+  // True when the comparison was explicitly allowed across simulation engine versions.
+  mixedEngineVersions: z.boolean().default(false),
   generatedAt: z.string()
 });
 
@@ -623,7 +1447,8 @@ export const projectReportResponseSchema = z.object({
 
 export const createReportExportRequestSchema = z.object({
   baselineVersionId: z.string().uuid().optional(),
-  candidateVersionId: z.string().uuid().optional()
+  candidateVersionId: z.string().uuid().optional(),
+  allowMixedEngineVersions: z.boolean().optional()
 });
 
 export const reportExportSchema = z.object({
@@ -711,9 +1536,21 @@ export type SharedProjectsResponse = z.infer<typeof sharedProjectsResponseSchema
 export type AcceptProjectInviteResponse = z.infer<typeof acceptProjectInviteResponseSchema>;
 export type ProjectHistoryResponse = z.infer<typeof projectHistoryResponseSchema>;
 export type CreateProjectResponse = z.infer<typeof createProjectResponseSchema>;
-export type ComponentType = z.infer<typeof componentTypeSchema>;
+export type BuiltInComponentType = z.infer<typeof builtInComponentTypeSchema>;
+// Custom types stay plain strings; check for a built-in type with `isComponentType`.
+export type ComponentType = BuiltInComponentType | (string & {});
+export type Region = z.infer<typeof regionSchema>;
+export type AvailabilityZone = z.infer<typeof availabilityZoneSchema>;
+export type ComponentPlacement = z.infer<typeof componentPlacementSchema>;
+export type VerticalTier = z.infer<typeof verticalTierSchema>;
+export type AutoscalingPolicy = z.infer<typeof autoscalingPolicySchema>;
+export type CacheConfig = z.infer<typeof cacheConfigSchema>;
+export type DatabaseConfig = z.infer<typeof databaseConfigSchema>;
+export type QueueConfig = z.infer<typeof queueConfigSchema>;
 export type ArchitectureComponent = z.infer<typeof architectureComponentSchema>;
 export type ArchitectureEdge = z.infer<typeof architectureEdgeSchema>;
+export type CircuitBreaker = z.infer<typeof circuitBreakerSchema>;
+export type EdgeCallPolicy = z.infer<typeof edgeCallPolicySchema>;
 export type TopologyWarning = z.infer<typeof topologyWarningSchema>;
 export type VersionDetail = z.infer<typeof versionDetailSchema>;
 export type UpdateVersionRequest = z.infer<typeof updateVersionRequestSchema>;
@@ -722,25 +1559,82 @@ export type VersionComment = z.infer<typeof versionCommentSchema>;
 export type ListVersionCommentsResponse = z.infer<typeof listVersionCommentsResponseSchema>;
 export type CreateVersionCommentRequest = z.infer<typeof createVersionCommentRequestSchema>;
 export type UpdateVersionCommentRequest = z.infer<typeof updateVersionCommentRequestSchema>;
+export type TrafficShapePoint = z.infer<typeof trafficShapePointSchema>;
+export type TrafficShape = z.infer<typeof trafficShapeSchema>;
 export type TrafficProfile = z.infer<typeof trafficProfileSchema>;
 export type UpdateTrafficProfileRequest = z.infer<typeof updateTrafficProfileRequestSchema>;
 export type VersionTrafficProfileResponse = z.infer<typeof versionTrafficProfileResponseSchema>;
+export type SloRegionTarget = z.infer<typeof sloRegionTargetSchema>;
+export type SloDefinition = z.infer<typeof sloDefinitionSchema>;
+export type UpdateVersionSloRequest = z.infer<typeof updateVersionSloRequestSchema>;
+export type VersionSloResponse = z.infer<typeof versionSloResponseSchema>;
+export type CriticalPathKind = z.infer<typeof criticalPathKindSchema>;
+export type CriticalPathHop = z.infer<typeof criticalPathHopSchema>;
+export type CriticalPath = z.infer<typeof criticalPathSchema>;
+export type RunExplanation = z.infer<typeof runExplanationSchema>;
+export type SloObjective = z.infer<typeof sloObjectiveSchema>;
+export type SloObjectiveResult = z.infer<typeof sloObjectiveResultSchema>;
+export type SloBreachComponent = z.infer<typeof sloBreachComponentSchema>;
+export type SloEvaluation = z.infer<typeof sloEvaluationSchema>;
 export type SimulationRunStatus = z.infer<typeof simulationRunStatusSchema>;
+export type SimulationMode = z.infer<typeof simulationModeSchema>;
 export type SimulationEventSeverity = z.infer<typeof simulationEventSeveritySchema>;
 export type SimulationBottleneckSeverity = z.infer<typeof simulationBottleneckSeveritySchema>;
 export type FailureInjectionMode = z.infer<typeof failureInjectionModeSchema>;
+export type PricingTable = z.infer<typeof pricingTableSchema>;
 export type SimulationInputContract = z.infer<typeof simulationInputContractSchema>;
+export type EdgeCallMetrics = z.infer<typeof edgeCallMetricsSchema>;
+export type QueueMetrics = z.infer<typeof queueMetricsSchema>;
+export type RegionalLatency = z.infer<typeof regionalLatencySchema>;
 export type SimulationMetrics = z.infer<typeof simulationMetricsSchema>;
 export type SimulationBottleneck = z.infer<typeof simulationBottleneckSchema>;
 export type SimulationTimelineEvent = z.infer<typeof simulationTimelineEventSchema>;
+export type SimulationTickComponentSample = z.infer<typeof simulationTickComponentSampleSchema>;
+export type SimulationTick = z.infer<typeof simulationTickSchema>;
+export type SimulationMetricBand = z.infer<typeof simulationMetricBandSchema>;
+export type SimulationConfidenceSummary = z.infer<typeof simulationConfidenceSummarySchema>;
 export type SimulationComputationResult = z.infer<typeof simulationComputationResultSchema>;
 export type FailureInjectionProfile = z.infer<typeof failureInjectionProfileSchema>;
 export type FailureImpactComponent = z.infer<typeof failureImpactComponentSchema>;
 export type BlastRadiusSummary = z.infer<typeof blastRadiusSummarySchema>;
+export type ChaosExperimentStep = z.infer<typeof chaosExperimentStepSchema>;
+export type ChaosExperiment = z.infer<typeof chaosExperimentSchema>;
+export type ListChaosExperimentsResponse = z.infer<typeof listChaosExperimentsResponseSchema>;
+export type CreateChaosExperimentRequest = z.infer<typeof createChaosExperimentRequestSchema>;
+export type ChaosExperimentRun = z.infer<typeof chaosExperimentRunSchema>;
 export type FailureInjectionRequest = z.infer<typeof failureInjectionRequestSchema>;
 export type SimulationRun = z.infer<typeof simulationRunSchema>;
+export type QueueSimulationRunRequest = z.infer<typeof queueSimulationRunRequestSchema>;
 export type SimulationRunResponse = z.infer<typeof simulationRunResponseSchema>;
+export type RerunSimulationRunRequest = z.infer<typeof rerunSimulationRunRequestSchema>;
+export type ReplaySimulationRunRequest = z.infer<typeof replaySimulationRunRequestSchema>;
+export type SimulationEnginesResponse = z.infer<typeof simulationEnginesResponseSchema>;
+export type RunMetricDelta = z.infer<typeof runMetricDeltaSchema>;
+export type RunBottleneckChange = z.infer<typeof runBottleneckChangeSchema>;
+export type RunReplayDiff = z.infer<typeof runReplayDiffSchema>;
+export type RunReplayDiffResponse = z.infer<typeof runReplayDiffResponseSchema>;
+export type CreateSimulationBatchRequest = z.infer<typeof createSimulationBatchRequestSchema>;
+export type SimulationBatchRun = z.infer<typeof simulationBatchRunSchema>;
+export type SimulationBatchProgress = z.infer<typeof simulationBatchProgressSchema>;
+export type SimulationBatch = z.infer<typeof simulationBatchSchema>;
+export type SimulationBatchResponse = z.infer<typeof simulationBatchResponseSchema>;
+export type SimulationBatchListResponse = z.infer<typeof simulationBatchListResponseSchema>;
 export type SimulationRunQueueJob = z.infer<typeof simulationRunQueueJobSchema>;
+export type SimulationRunStreamMessage = z.infer<typeof simulationRunStreamMessageSchema>;
+export type CapacityPlanTargets = z.infer<typeof capacityPlanTargetsSchema>;
+export type ComponentSizing = z.infer<typeof componentSizingSchema>;
+export type CapacityPlanChange = z.infer<typeof capacityPlanChangeSchema>;
+export type CapacityPlan = z.infer<typeof capacityPlanSchema>;
+export type ApplyCapacityPlanRequest = z.infer<typeof applyCapacityPlanRequestSchema>;
+export type SweepParameter = z.infer<typeof sweepParameterSchema>;
+export type SweepScale = z.infer<typeof sweepScaleSchema>;
+export type ParameterSweepSpec = z.infer<typeof parameterSweepSpecSchema>;
+export type ParameterSweepPoint = z.infer<typeof parameterSweepPointSchema>;
+export type SweepBreakingPoint = z.infer<typeof sweepBreakingPointSchema>;
+export type ParameterSweep = z.infer<typeof parameterSweepSchema>;
+export type CreateParameterSweepRequest = z.infer<typeof createParameterSweepRequestSchema>;
+export type ParameterSweepResponse = z.infer<typeof parameterSweepResponseSchema>;
+export type SimulationSweepQueueJob = z.infer<typeof simulationSweepQueueJobSchema>;
 export type GradeReportStatus = z.infer<typeof gradeReportStatusSchema>;
 export type GradePriority = z.infer<typeof gradePrioritySchema>;
 export type GradeCategory = z.infer<typeof gradeCategorySchema>;
@@ -836,10 +1730,106 @@ export const trafficProfilePresets = {
 export type TrafficProfilePresetName = keyof typeof trafficProfilePresets;
 export const defaultTrafficProfile: TrafficProfile = trafficProfilePresets['interview-default'];
 
+// List prices of a typical cloud provider, rounded.
+export const defaultPricingTable: PricingTable = {
+  nodeMonthlyUsd: {
+    client: 0,
+    'load-balancer': 25,
+    'api-gateway': 40,
+    service: 70,
+    cache: 110,
+    database: 220,
+    queue: 45,
+    cdn: 0,
+    'object-store': 25,
+    'websocket-gateway': 80,
+    'search-index': 180,
+    stream: 130,
+    worker: 70,
+    scheduler: 15,
+    dns: 1,
+    'rate-limiter': 30,
+    'blob-processor': 90
+  },
+  tierMultiplier: {
+    small: 0.5,
+    medium: 1,
+    large: 2,
+    xlarge: 4
+  },
+  perMillionRequestsUsd: {
+    'api-gateway': 1,
+    cdn: 0.75,
+    'object-store': 0.4,
+    dns: 0.4,
+    queue: 0.4,
+    stream: 0.1
+  }
+};
+
+export const defaultAutoscalingPolicy: AutoscalingPolicy = {
+  minReplicas: 2,
+  maxReplicas: 10,
+  targetUtilizationPercent: 65,
+  scaleUpDelaySeconds: 60,
+  cooldownSeconds: 300
+};
+
+export const defaultDatabaseConfig: DatabaseConfig = {
+  readReplicas: 1,
+  shardCount: 1,
+  shardKey: null,
+  replication: 'async',
+  consistency: 'eventual'
+};
+
+export const defaultEdgeCallPolicy: EdgeCallPolicy = {
+  mode: 'sync',
+  timeoutMs: 1000,
+  retries: 2,
+  backoff: 'exponential',
+  backoffMs: 100
+};
+
+export const defaultCircuitBreaker: CircuitBreaker = {
+  errorThresholdPercent: 50,
+  openSeconds: 30
+};
+
+export const defaultCacheConfig: CacheConfig = {
+  hitRatio: 0.8,
+  ttlSeconds: 300,
+  evictionPolicy: 'lru',
+  state: 'warm'
+};
+
+export const defaultQueueConfig: QueueConfig = {
+  consumers: 8,
+  consumerRps: 500,
+  maxDepth: 1_000_000,
+  retentionSeconds: 345_600,
+  overflow: 'drop'
+};
+
 export type AuthSuccessResponse = {
   user: UserProfile;
 };
 
+// Redis pub/sub channel the worker publishes a run's stream messages on.
+export function simulationRunStreamChannel(runId: string): string {
+  return `simulation-runs:${runId}:stream`;
+}
+
+// Each engine version's workers take replays from their own queue, so a replay runs on the version asked for.
+export function simulationReplayQueueName(engineVersion: string): string {
+  return `simulation-replays-${engineVersion}`;
+}
+
+// Redis key a worker refreshes while it can replay runs under `engineVersion`.
+export function simulationEngineHeartbeatKey(engineVersion: string): string {
+  return `simulation-engines:${engineVersion}`;
+}
+
 export function buildSimulationInputContract(
   components: ArchitectureComponent[],
   edges: ArchitectureEdge[],
@@ -852,7 +1842,379 @@ export function buildSimulationInputContract(
   };
 }
 
-const SPOF_TYPES: ComponentType[] = ['load-balancer', 'api-gateway', 'service', 'database', 'queue'];
+// Demand multiplier on the profile's peak for each burstiness level.
+export const trafficBurstFactor: Record<TrafficProfile['burstiness'], number> = {
+  steady: 1,
+  spiky: 1.2,
+  extreme: 1.45
+};
+
+function clampUnit(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function interpolatePoints(points: TrafficShapePoint[], atSecond: number): number {
+  const nextIndex = points.findIndex((point) => point.atSecond >= atSecond);
+  if (nextIndex <= 0) {
+    return (points[nextIndex === 0 ? 0 : points.length - 1] as TrafficShapePoint).rps;
+  }
+  const previous = points[nextIndex - 1] as TrafficShapePoint;
+  const next = points[nextIndex] as TrafficShapePoint;
+  const progress = (atSecond - previous.atSecond) / (next.atSecond - previous.atSecond);
+  return previous.rps + (next.rps - previous.rps) * progress;
+}
+
+function heldPoint(points: TrafficShapePoint[], atSecond: number): number {
+  let held = points[0] as TrafficShapePoint;
+  for (const point of points) {
+    if (point.atSecond > atSecond) {
+      break;
+    }
+    held = point;
+  }
+  return held.rps;
+}
+
+/**
+ * Demand `atSecond` into a time-stepped window. Without a shape it is baseline for the first
+ * 10%, a linear ramp to burst-adjusted peak until 40%, a peak hold until 80%, then a ramp back
+ * down to baseline.
+ */
+export function trafficDemandRps(
+  trafficProfile: TrafficProfile,
+  atSecond: number,
+  durationSeconds: number
+): number {
+  const baseline = trafficProfile.baselineRps;
+  const peak =
+    baseline * trafficProfile.peakMultiplier * trafficBurstFactor[trafficProfile.burstiness];
+  const shape = trafficProfile.shape;
+
+  switch (shape?.kind) {
+    case 'points':
+      return interpolatePoints(shape.points, atSecond);
+    case 'replay':
+      return heldPoint(shape.points, atSecond);
+    case 'diurnal': {
+      const trough = (baseline * shape.troughPercent) / 100;
+      const phase = (1 - Math.cos((2 * Math.PI * atSecond) / shape.periodSeconds)) / 2;
+      return trough + (peak - trough) * phase;
+    }
+    case 'ramp':
+      return (
+        baseline +
+        (peak - baseline) *
+          clampUnit(
+            (atSecond - shape.rampStartSeconds) / (shape.rampEndSeconds - shape.rampStartSeconds)
+          )
+      );
+    case 'flash-crowd': {
+      const since = atSecond - shape.atSecond;
+      if (since < 0) {
+        return baseline;
+      }
+      if (since < shape.riseSeconds) {
+        return baseline + (peak - baseline) * (since / shape.riseSeconds);
+      }
+      const decayStart = shape.riseSeconds + shape.holdSeconds;
+      if (since <= decayStart) {
+        return peak;
+      }
+      const decayed = shape.decaySeconds > 0 ? (since - decayStart) / shape.decaySeconds : 1;
+      return peak - (peak - baseline) * clampUnit(decayed);
+    }
+    default:
+      break;
+  }
+
+  const progress = durationSeconds <= 0 ? 1 : clampUnit(atSecond / durationSeconds);
+  if (progress < 0.1) {
+    return baseline;
+  }
+  if (progress < 0.4) {
+    return baseline + (peak - baseline) * ((progress - 0.1) / 0.3);
+  }
+  if (progress <= 0.8) {
+    return peak;
+  }
+  return peak - (peak - baseline) * ((progress - 0.8) / 0.2);
+}
+
+// Highest demand the profile reaches: the top point of a points or replay shape, otherwise the
+// burst-adjusted peak every other shape and the default ramp climb to.
+export function trafficPeakDemandRps(trafficProfile: TrafficProfile): number {
+  const shape = trafficProfile.shape;
+  if (shape?.kind === 'points' || shape?.kind === 'replay') {
+    return Math.max(...shape.points.map((point) => point.rps));
+  }
+  return (
+    trafficProfile.baselineRps *
+    trafficProfile.peakMultiplier *
+    trafficBurstFactor[trafficProfile.burstiness]
+  );
+}
+
+// Average demand across the window of a points or replay shape, which sets absolute RPS;
+// every other profile averages out to its baseline.
+export function trafficMeanDemandRps(trafficProfile: TrafficProfile): number {
+  const shape = trafficProfile.shape;
+  if (shape?.kind !== 'points' && shape?.kind !== 'replay') {
+    return trafficProfile.baselineRps;
+  }
+
+  const first = shape.points[0] as TrafficShapePoint;
+  const last = shape.points[shape.points.length - 1] as TrafficShapePoint;
+  let area = first.rps * first.atSecond + last.rps * (shape.durationSeconds - last.atSecond);
+  shape.points.slice(1).forEach((point, index) => {
+    const previous = shape.points[index] as TrafficShapePoint;
+    const held = shape.kind === 'points' ? (previous.rps + point.rps) / 2 : previous.rps;
+    area += held * (point.atSecond - previous.atSecond);
+  });
+  return area / shape.durationSeconds;
+}
+
+// What `grading-core` credits a component type for when it appears in a design.
+export type ComponentGradingRole =
+  | 'ingress'
+  | 'compute'
+  | 'primary-store'
+  | 'blob-store'
+  | 'read-cache'
+  | 'write-buffer'
+  | 'async-buffer'
+  | 'secondary-index'
+  | 'edge-distribution'
+  | 'background-work'
+  | 'load-shedding';
+
+/**
+ * Everything outside the simulator needs to know about a component type: how the canvas
+ * palette offers it, how topology validation treats it and what grading credits it for.
+ * Simulation behavior is registered alongside it in `simulation-core`.
+ */
+export type ComponentDefinition = {
+  type: ComponentType;
+  label: string;
+  // Short badge on canvas nodes.
+  icon: string;
+  stateful: boolean;
+  // Type-specific fields a new component starts with, such as `cacheConfig`.
+  defaults?: () => Partial<ArchitectureComponent>;
+  // Validates `settings` on components of this type.
+  settingsSchema?: z.ZodType<Record<string, unknown>>;
+  // Fallback prices for pricing tables without an entry for the type.
+  pricing?: { nodeMonthlyUsd: number; perMillionRequestsUsd?: number };
+  topology: {
+    // Warned about when it runs without a second copy.
+    singlePointOfFailure: boolean;
+    // Generates its own traffic, so nothing needs to route into it.
+    source?: boolean;
+    // Answers requests without calling anything further.
+    sink?: boolean;
+  };
+  grading: {
+    roles: ComponentGradingRole[];
+    // Counted when averaging replicas across horizontally scaled tiers.
+    horizontallyScaled: boolean;
+    // Expected to autoscale when it keeps no state.
+    statelessTier: boolean;
+  };
+};
+
+const builtInComponentDefinitions: ComponentDefinition[] = [
+  {
+    type: 'client',
+    label: 'Client',
+    icon: 'CLI',
+    stateful: false,
+    topology: { singlePointOfFailure: false, source: true },
+    grading: { roles: [], horizontallyScaled: false, statelessTier: false }
+  },
+  {
+    type: 'load-balancer',
+    label: 'Load Balancer',
+    icon: 'LB',
+    stateful: false,
+    topology: { singlePointOfFailure: true },
+    grading: { roles: ['ingress'], horizontallyScaled: true, statelessTier: true }
+  },
+  {
+    type: 'api-gateway',
+    label: 'API Gateway',
+    icon: 'API',
+    stateful: false,
+    topology: { singlePointOfFailure: true },
+    grading: { roles: ['ingress'], horizontallyScaled: true, statelessTier: true }
+  },
+  {
+    type: 'service',
+    label: 'Service',
+    icon: 'SVC',
+    stateful: false,
+    topology: { singlePointOfFailure: true },
+    grading: { roles: ['compute'], horizontallyScaled: true, statelessTier: true }
+  },
+  {
+    type: 'cache',
+    label: 'Cache',
+    icon: 'CAC',
+    stateful: true,
+    defaults: () => ({ cacheConfig: { ...defaultCacheConfig } }),
+    topology: { singlePointOfFailure: false },
+    grading: { roles: ['read-cache'], horizontallyScaled: true, statelessTier: false }
+  },
+  {
+    type: 'database',
+    label: 'Database',
+    icon: 'DB',
+    stateful: true,
+    topology: { singlePointOfFailure: true, sink: true },
+    grading: { roles: ['primary-store'], horizontallyScaled: true, statelessTier: false }
+  },
+  {
+    type: 'queue',
+    label: 'Queue',
+    icon: 'Q',
+    stateful: true,
+    defaults: () => ({ queueConfig: { ...defaultQueueConfig } }),
+    topology: { singlePointOfFailure: true },
+    grading: { roles: ['write-buffer', 'async-buffer'], horizontallyScaled: false, statelessTier: false }
+  },
+  {
+    type: 'cdn',
+    label: 'CDN',
+    icon: 'CDN',
+    stateful: false,
+    topology: { singlePointOfFailure: false },
+    grading: { roles: ['edge-distribution'], horizontallyScaled: false, statelessTier: false }
+  },
+  {
+    type: 'object-store',
+    label: 'Object Store',
+    icon: 'OBJ',
+    stateful: true,
+    topology: { singlePointOfFailure: false, sink: true },
+    grading: { roles: ['blob-store'], horizontallyScaled: false, statelessTier: false }
+  },
+  {
+    type: 'websocket-gateway',
+    label: 'WebSocket Gateway',
+    icon: 'WS',
+    stateful: true,
+    topology: { singlePointOfFailure: true },
+    grading: { roles: ['ingress'], horizontallyScaled: true, statelessTier: false }
+  },
+  {
+    type: 'search-index',
+    label: 'Search Index',
+    icon: 'IDX',
+    stateful: true,
+    topology: { singlePointOfFailure: true, sink: true },
+    grading: { roles: ['secondary-index'], horizontallyScaled: true, statelessTier: false }
+  },
+  {
+    type: 'stream',
+    label: 'Stream',
+    icon: 'STR',
+    stateful: true,
+    topology: { singlePointOfFailure: true },
+    grading: { roles: ['async-buffer'], horizontallyScaled: true, statelessTier: false }
+  },
+  {
+    type: 'worker',
+    label: 'Worker Pool',
+    icon: 'WRK',
+    stateful: false,
+    topology: { singlePointOfFailure: true },
+    grading: { roles: ['background-work'], horizontallyScaled: true, statelessTier: true }
+  },
+  {
+    type: 'scheduler',
+    label: 'Scheduler',
+    icon: 'CRN',
+    stateful: false,
+    // Schedulers trigger their own work.
+    topology: { singlePointOfFailure: true, source: true },
+    grading: { roles: [], horizontallyScaled: false, statelessTier: false }
+  },
+  {
+    type: 'dns',
+    label: 'DNS',
+    icon: 'DNS',
+    stateful: false,
+    // Resolvers are a managed, anycast service rather than instances we run.
+    topology: { singlePointOfFailure: false },
+    grading: { roles: [], horizontallyScaled: false, statelessTier: false }
+  },
+  {
+    type: 'rate-limiter',
+    label: 'Rate Limiter',
+    icon: 'RL',
+    stateful: false,
+    topology: { singlePointOfFailure: true },
+    grading: { roles: ['load-shedding'], horizontallyScaled: true, statelessTier: true }
+  },
+  {
+    type: 'blob-processor',
+    label: 'Blob Processor',
+    icon: 'BLB',
+    stateful: false,
+    topology: { singlePointOfFailure: true },
+    grading: { roles: ['background-work'], horizontallyScaled: true, statelessTier: true }
+  }
+];
+
+/**
+ * Custom component types every app knows about. A type added here is accepted by the API, both
+ * workers and the web app alike; give it simulation behavior in simulation-core's
+ * `customComponentModels`.
+ */
+export const customComponentDefinitions: ComponentDefinition[] = [];
+
+const componentDefinitions = new Map(
+  [...builtInComponentDefinitions, ...customComponentDefinitions].map((definition) => [
+    definition.type,
+    definition
+  ])
+);
+
+function isRegisteredComponentType(type: string): boolean {
+  return componentDefinitions.has(type);
+}
+
+/**
+ * Adds a component type to the palette, topology validation and grading, and lets
+ * `componentTypeSchema` accept it. Types cannot be registered twice. The registration only
+ * holds in the calling process, so types stored in versions belong in
+ * `customComponentDefinitions`, which the API, both workers and the web app all load.
+ */
+export function registerComponentType(definition: ComponentDefinition): void {
+  if (componentDefinitions.has(definition.type)) {
+    throw new Error(`Component type "${definition.type}" is already registered.`);
+  }
+  componentDefinitions.set(definition.type, definition);
+}
+
+export function componentDefinition(type: ComponentType): ComponentDefinition | undefined {
+  return componentDefinitions.get(type);
+}
+
+// Comparing `type` against a literal compiles for any string, so built-in checks go through here.
+export function isComponentType(
+  component: { type: ComponentType },
+  type: BuiltInComponentType
+): boolean {
+  return component.type === type;
+}
+
+// Registered definitions in palette order: built-ins first, then custom types as registered.
+export function listComponentDefinitions(): ComponentDefinition[] {
+  return [...componentDefinitions.values()];
+}
+
+export function hasGradingRole(component: ArchitectureComponent, role: ComponentGradingRole): boolean {
+  return componentDefinition(component.type)?.grading.roles.includes(role) ?? false;
+}
 
 export function validateArchitectureTopology(
   components: ArchitectureComponent[],
@@ -867,10 +2229,14 @@ export function validateArchitectureTopology(
   for (const component of components) {
     outgoingCount.set(component.id, 0);
     incomingCount.set(component.id, 0);
-    if (SPOF_TYPES.includes(component.type) && component.scaling.replicas < 2) {
+    // A configured database survives a node loss only if each shard has a replica to promote.
+    const copies = component.databaseConfig
+      ? 1 + component.databaseConfig.readReplicas
+      : component.scaling.replicas;
+    if (componentDefinition(component.type)?.topology.singlePointOfFailure && copies < 2) {
       warnings.push({
         code: 'SPOF',
-        message: `${component.label} is a single point of failure with only ${component.scaling.replicas} replica.`,
+        message: `${component.label} is a single point of failure with only ${copies} replica.`,
         nodeId: component.id,
         edgeId: null
       });
@@ -927,7 +2293,9 @@ export function validateArchitectureTopology(
     const inbound = incomingCount.get(component.id) ?? 0;
     const outbound = outgoingCount.get(component.id) ?? 0;
 
-    if (component.type !== 'client' && inbound === 0) {
+    const topology = componentDefinition(component.type)?.topology;
+
+    if (!topology?.source && inbound === 0) {
       warnings.push({
         code: 'DISCONNECTED_NODE',
         message: `${component.label} has no inbound dependencies.`,
@@ -936,7 +2304,7 @@ export function validateArchitectureTopology(
       });
     }
 
-    if (component.type !== 'database' && component.type !== 'object-store' && outbound === 0) {
+    if (!topology?.sink && outbound === 0) {
       warnings.push({
         code: 'DISCONNECTED_NODE',
         message: `${component.label} has no outbound dependency.`,
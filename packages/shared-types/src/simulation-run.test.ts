@@ -1,5 +1,9 @@
 import { describe, expect, it } from 'vitest';
-import { failureInjectionRequestSchema, simulationRunResponseSchema } from './index';
+import {
+  failureInjectionRequestSchema,
+  queueSimulationRunRequestSchema,
+  simulationRunResponseSchema
+} from './index';
 
 describe('simulationRunResponseSchema', () => {
   it('accepts a completed run payload', () => {
@@ -35,6 +39,34 @@ describe('simulationRunResponseSchema', () => {
     expect(parsed.success).toBe(true);
   });
 
+  it('defaults mode and series for runs stored before time-stepped mode', () => {
+    const parsed = simulationRunResponseSchema.parse({
+      run: {
+        id: '19b447f4-7cc1-4484-bec6-2741cc9efad5',
+        projectId: '65f57d1f-8390-4337-a913-ab6dc2ae0c89',
+        versionId: 'fbc08ce4-8673-46af-89f7-d637f0546f1b',
+        baselineRunId: null,
+        failureProfile: null,
+        blastRadius: null,
+        status: 'pending',
+        queuedAt: new Date().toISOString(),
+        startedAt: null,
+        completedAt: null,
+        failureReason: null,
+        metrics: null,
+        bottlenecks: [],
+        events: [],
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      }
+    });
+
+    expect(parsed.run.mode).toBe('analytical');
+    expect(parsed.run.series).toEqual([]);
+    expect(parsed.run.seed).toBeNull();
+    expect(parsed.run.confidence).toBeNull();
+  });
+
   it('rejects invalid run statuses', () => {
     const parsed = simulationRunResponseSchema.safeParse({
       run: {
@@ -70,5 +102,36 @@ describe('simulationRunResponseSchema', () => {
     });
 
     expect(parsed.success).toBe(true);
+    expect(
+      failureInjectionRequestSchema.safeParse({ profile: { mode: 'primary-failover' } }).success
+    ).toBe(false);
+  });
+
+  it('accepts either a profile or a chaos experiment id, not both', () => {
+    const experimentId = '7f1c1f4e-3f9f-4f43-9d5e-6b8f9a2c1d10';
+    const profile = { mode: 'traffic-surge', surgeMultiplier: 3 };
+
+    expect(failureInjectionRequestSchema.safeParse({ experimentId }).success).toBe(true);
+    expect(failureInjectionRequestSchema.safeParse({ experimentId, profile }).success).toBe(false);
+    expect(failureInjectionRequestSchema.safeParse({}).success).toBe(false);
+  });
+
+  it('validates the requested simulation mode', () => {
+    expect(queueSimulationRunRequestSchema.safeParse({ mode: 'time-stepped' }).success).toBe(true);
+    expect(queueSimulationRunRequestSchema.safeParse({}).success).toBe(true);
+    expect(queueSimulationRunRequestSchema.safeParse({ mode: 'realtime' }).success).toBe(false);
+  });
+
+  it('bounds monte-carlo seeds and iteration counts', () => {
+    expect(
+      queueSimulationRunRequestSchema.safeParse({ mode: 'monte-carlo', seed: 42, iterations: 200 })
+        .success
+    ).toBe(true);
+    expect(queueSimulationRunRequestSchema.safeParse({ mode: 'monte-carlo', seed: -1 }).success).toBe(
+      false
+    );
+    expect(
+      queueSimulationRunRequestSchema.safeParse({ mode: 'monte-carlo', iterations: 5000 }).success
+    ).toBe(false);
   });
 });
@@ -2,6 +2,8 @@ import { describe, expect, it } from 'vitest';
 import {
   buildSimulationInputContract,
   defaultTrafficProfile,
+  trafficDemandRps,
+  trafficMeanDemandRps,
   trafficProfileSchema
 } from './index';
 
@@ -34,6 +36,131 @@ describe('trafficProfileSchema', () => {
   });
 });
 
+describe('trafficShapeSchema', () => {
+  it('accepts a replay shape in time order', () => {
+    const parsed = trafficProfileSchema.safeParse({
+      ...defaultTrafficProfile,
+      shape: {
+        kind: 'replay',
+        durationSeconds: 120,
+        points: [
+          { atSecond: 0, rps: 800 },
+          { atSecond: 60, rps: 2400 }
+        ]
+      }
+    });
+    expect(parsed.success).toBe(true);
+  });
+
+  it('rejects out-of-order points and inverted ramps', () => {
+    const unordered = trafficProfileSchema.safeParse({
+      ...defaultTrafficProfile,
+      shape: {
+        kind: 'points',
+        durationSeconds: 120,
+        points: [
+          { atSecond: 60, rps: 800 },
+          { atSecond: 30, rps: 2400 }
+        ]
+      }
+    });
+    const inverted = trafficProfileSchema.safeParse({
+      ...defaultTrafficProfile,
+      shape: { kind: 'ramp', durationSeconds: 120, rampStartSeconds: 90, rampEndSeconds: 30 }
+    });
+    expect(unordered.success).toBe(false);
+    expect(inverted.success).toBe(false);
+  });
+});
+
+describe('trafficDemandRps', () => {
+  const profile = {
+    ...defaultTrafficProfile,
+    baselineRps: 1000,
+    peakMultiplier: 4,
+    burstiness: 'steady' as const
+  };
+
+  it('ramps demand from baseline to peak across the window without a shape', () => {
+    expect(trafficDemandRps(profile, 0, 300)).toBe(1000);
+    expect(trafficDemandRps(profile, 150, 300)).toBe(4000);
+    expect(trafficDemandRps(profile, 300, 300)).toBeCloseTo(1000);
+  });
+
+  it('interpolates points and holds replayed samples', () => {
+    const points = [
+      { atSecond: 0, rps: 100 },
+      { atSecond: 100, rps: 300 }
+    ];
+    expect(
+      trafficDemandRps(
+        { ...profile, shape: { kind: 'points', durationSeconds: 200, points } },
+        50,
+        200
+      )
+    ).toBe(200);
+    expect(
+      trafficDemandRps(
+        { ...profile, shape: { kind: 'replay', durationSeconds: 200, points } },
+        50,
+        200
+      )
+    ).toBe(100);
+    expect(
+      trafficDemandRps(
+        { ...profile, shape: { kind: 'points', durationSeconds: 200, points } },
+        150,
+        200
+      )
+    ).toBe(300);
+  });
+
+  it('swings a diurnal shape between trough and peak', () => {
+    const diurnal = {
+      ...profile,
+      shape: {
+        kind: 'diurnal' as const,
+        durationSeconds: 86_400,
+        periodSeconds: 86_400,
+        troughPercent: 25
+      }
+    };
+    expect(trafficDemandRps(diurnal, 0, 86_400)).toBeCloseTo(250);
+    expect(trafficDemandRps(diurnal, 43_200, 86_400)).toBeCloseTo(4000);
+  });
+});
+
+describe('trafficMeanDemandRps', () => {
+  const points = [
+    { atSecond: 0, rps: 100 },
+    { atSecond: 100, rps: 500 },
+    { atSecond: 150, rps: 300 }
+  ];
+
+  it('averages a points shape over its whole window', () => {
+    const profile = {
+      ...defaultTrafficProfile,
+      shape: { kind: 'points' as const, durationSeconds: 200, points }
+    };
+
+    // 300 x 100 s ramping up, 400 x 50 s ramping down, then 300 held for the last 50 s.
+    expect(trafficMeanDemandRps(profile)).toBe((30_000 + 20_000 + 15_000) / 200);
+  });
+
+  it('holds each replay sample until the next one', () => {
+    const profile = {
+      ...defaultTrafficProfile,
+      shape: { kind: 'replay' as const, durationSeconds: 200, points }
+    };
+
+    expect(trafficMeanDemandRps(profile)).toBe((10_000 + 25_000 + 15_000) / 200);
+  });
+
+  it('is the baseline for profiles without absolute points', () => {
+    expect(trafficMeanDemandRps(defaultTrafficProfile)).toBe(defaultTrafficProfile.baselineRps);
+  });
+});
+
 describe('buildSimulationInputContract', () => {
   it('embeds traffic profile with graph payload', () => {
     const result = buildSimulationInputContract([], [], defaultTrafficProfile);
@@ -0,0 +1,220 @@
+import type { ArchitectureComponent, ArchitectureEdge, EdgeCallPolicy } from '@sdc/shared-types';
+import type { ComponentGraph, RouteWeights } from './graph.js';
+
+export type CallState = {
+  // Per-attempt failure ratio of each edge with a call policy, keyed by `edgeKey`.
+  attemptFailure: Map<string, number>;
+  openBreakers: Set<string>;
+};
+
+export function edgeKey(sourceId: string, targetId: string): string {
+  return `${sourceId}->${targetId}`;
+}
+
+/**
+ * Call policy per source/target pair. Like `buildComponentGraph`, the first edge between a
+ * pair wins and later duplicates are ignored.
+ */
+export function callPoliciesByEdge(edges: ArchitectureEdge[]): Map<string, EdgeCallPolicy> {
+  const seen = new Set<string>();
+  const policies = new Map<string, EdgeCallPolicy>();
+
+  for (const edge of edges) {
+    const key = edgeKey(edge.sourceId, edge.targetId);
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    if (edge.callPolicy) {
+      policies.set(key, edge.callPolicy);
+    }
+  }
+
+  return policies;
+}
+
+// Share of calls lost on each lossy source/target pair, keyed and deduplicated like policies.
+export function linkLossByEdge(edges: ArchitectureEdge[]): Map<string, number> {
+  const seen = new Set<string>();
+  const loss = new Map<string, number>();
+
+  for (const edge of edges) {
+    const key = edgeKey(edge.sourceId, edge.targetId);
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    if (edge.packetLossPercent) {
+      loss.set(key, Math.min(1, edge.packetLossPercent / 100));
+    }
+  }
+
+  return loss;
+}
+
+// Lost attempts never reach their target, so only the delivered share adds load downstream.
+export function lossyRouteWeights(
+  routeWeights: RouteWeights,
+  loss: Map<string, number>
+): RouteWeights {
+  if (loss.size === 0) {
+    return routeWeights;
+  }
+  return (sourceId, targetIds) =>
+    routeWeights(sourceId, targetIds).map(
+      (weight, index) =>
+        weight * (1 - (loss.get(edgeKey(sourceId, targetIds[index] as string)) ?? 0))
+    );
+}
+
+// Expected attempts per call when each attempt fails independently with `failureRatio`.
+export function expectedAttempts(failureRatio: number, retries: number): number {
+  let attempts = 0;
+  let reached = 1;
+  for (let attempt = 0; attempt <= retries; attempt += 1) {
+    attempts += reached;
+    reached *= failureRatio;
+  }
+  return attempts;
+}
+
+export function failureAfterRetries(failureRatio: number, retries: number): number {
+  return Math.pow(failureRatio, retries + 1);
+}
+
+// Delay before retry number `retry` (1-based).
+export function retryBackoffMs(policy: EdgeCallPolicy, retry: number): number {
+  switch (policy.backoff) {
+    case 'none':
+      return 0;
+    case 'fixed':
+      return policy.backoffMs;
+    case 'exponential':
+      return policy.backoffMs * Math.pow(2, retry - 1);
+  }
+}
+
+/**
+ * Time a caller spends on failed attempts and backoff before a call settles. Each failed
+ * attempt costs `failedAttemptMs`.
+ */
+export function expectedRetryDelayMs(
+  policy: EdgeCallPolicy,
+  failureRatio: number,
+  failedAttemptMs: number
+): number {
+  let delayMs = 0;
+  let reached = failureRatio;
+  for (let retry = 1; retry <= policy.retries; retry += 1) {
+    delayMs += reached * (failedAttemptMs + retryBackoffMs(policy, retry));
+    reached *= failureRatio;
+  }
+  return delayMs;
+}
+
+/**
+ * Load multiplier an edge applies to the calls it carries: an open breaker sheds every
+ * call, otherwise each call costs its expected number of attempts.
+ */
+export function callLoadMultiplier(
+  policies: Map<string, EdgeCallPolicy>,
+  state: CallState,
+  sourceId: string,
+  targetId: string
+): number {
+  const key = edgeKey(sourceId, targetId);
+  const policy = policies.get(key);
+  if (!policy) {
+    return 1;
+  }
+  if (state.openBreakers.has(key)) {
+    return 0;
+  }
+  return expectedAttempts(state.attemptFailure.get(key) ?? 0, policy.retries);
+}
+
+export function amplifiedRouteWeights(
+  routeWeights: RouteWeights,
+  policies: Map<string, EdgeCallPolicy>,
+  state: CallState
+): RouteWeights {
+  return (sourceId, targetIds) =>
+    routeWeights(sourceId, targetIds).map(
+      (weight, index) =>
+        weight * callLoadMultiplier(policies, state, sourceId, targetIds[index] as string)
+    );
+}
+
+/**
+ * Sync attempts also fail when they outlast the caller's timeout; nobody waits on async calls.
+ * Attempts lost on the link fail either way.
+ */
+export function attemptFailureRatio(
+  policy: EdgeCallPolicy,
+  timeoutRatio: number,
+  targetFailureRatio: number,
+  linkLossRatio = 0
+): number {
+  const timedOut = policy.mode === 'sync' ? timeoutRatio : 0;
+  return 1 - (1 - timedOut) * (1 - targetFailureRatio) * (1 - linkLossRatio);
+}
+
+/**
+ * Fraction of the requests reaching each component that end in an error, either dropped
+ * locally (`dropRatio`) or failed by a downstream call the component waited on. Async calls
+ * never fail their caller, and an open breaker fails sync callers immediately. Calls lost on
+ * a link without a policy are never retried and fail outright. Cycles are cut by treating a
+ * component already on the stack as healthy.
+ */
+export function requestFailureRatios(
+  graph: ComponentGraph,
+  routeWeights: RouteWeights,
+  passThrough: (component: ArchitectureComponent) => number,
+  dropRatio: Map<string, number>,
+  policies: Map<string, EdgeCallPolicy>,
+  state: CallState,
+  linkLoss: Map<string, number> = new Map()
+): Map<string, number> {
+  const failure = new Map<string, number>();
+  const visiting = new Set<string>();
+
+  const resolve = (componentId: string): number => {
+    const known = failure.get(componentId);
+    if (known !== undefined) {
+      return known;
+    }
+    if (visiting.has(componentId)) {
+      return 0;
+    }
+    visiting.add(componentId);
+
+    const component = graph.componentById.get(componentId) as ArchitectureComponent;
+    const targets = graph.outgoing.get(componentId) ?? [];
+    const weights = targets.length > 0 ? routeWeights(componentId, targets) : [];
+    const downstreamFailure = targets.reduce((sum, targetId, index) => {
+      const key = edgeKey(componentId, targetId);
+      const policy = policies.get(key);
+      const targetFailure = resolve(targetId);
+      let callFailure = 1 - (1 - targetFailure) * (1 - (linkLoss.get(key) ?? 0));
+      if (policy?.mode === 'async') {
+        callFailure = 0;
+      } else if (policy && state.openBreakers.has(key)) {
+        callFailure = 1;
+      } else if (policy) {
+        callFailure = failureAfterRetries(state.attemptFailure.get(key) ?? 0, policy.retries);
+      }
+      return sum + (weights[index] ?? 0) * callFailure;
+    }, 0);
+
+    const localSuccess = 1 - (dropRatio.get(componentId) ?? 0);
+    const ratio = 1 - localSuccess * (1 - passThrough(component) * Math.min(1, downstreamFailure));
+    visiting.delete(componentId);
+    failure.set(componentId, ratio);
+    return ratio;
+  };
+
+  for (const componentId of graph.componentById.keys()) {
+    resolve(componentId);
+  }
+  return failure;
+}
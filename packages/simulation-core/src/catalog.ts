@@ -0,0 +1,116 @@
+import {
+  type ArchitectureComponent,
+  type ComponentDefinition,
+  type ComponentType,
+  type FailureInjectionMode,
+  type TrafficProfile,
+  registerComponentType
+} from '@sdc/shared-types';
+import { builtInComponentModels, customComponentModels } from './components/index.js';
+import type { ComponentGraph, RouteWeights } from './graph.js';
+
+/**
+ * How the simulator treats one component type. Optional fields default to a plain
+ * request/response hop that forwards everything it serves.
+ */
+export type ComponentModel = {
+  type: ComponentType;
+  // Fixed network + processing cost of one hop through the component, before queueing.
+  hopOverheadMs: number;
+  // Work one inbound request costs, relative to a plain request/response hop.
+  requestCost?: number;
+  // Seconds of its own capacity it buffers before shedding, where it differs from the default.
+  bufferSeconds?: number;
+  // Producers return once it holds their message; consumers run off the request path.
+  endsCallerWait?: boolean;
+  // Forwards at most its capacity and rejects the rest with 429s.
+  enforcesRateLimit?: boolean;
+  // Sends everything it forwards to each downstream target instead of a share of it.
+  deliversToEveryTarget?: boolean;
+  // Jobs it triggers per request of user traffic, independent of any inbound edge.
+  scheduledJobRatio?: number;
+  // Capacity in RPS, given the estimate from ops, tier, cores and memory every type starts with.
+  capacity?: (component: ArchitectureComponent, estimatedRps: number) => number;
+  // Fraction of inbound demand it forwards downstream.
+  passThroughRatio?: (component: ArchitectureComponent, trafficProfile: TrafficProfile) => number;
+  // Most it hands downstream per second, however much it accepts.
+  drainRps?: (component: ArchitectureComponent) => number;
+  // The component once an injected failure of that mode hits it; other modes leave it as is.
+  failureResponses?: Partial<
+    Record<FailureInjectionMode, (component: ArchitectureComponent) => ArchitectureComponent>
+  >;
+};
+
+// Types registered without a model, such as a custom type only the web app knows, act like a service.
+const FALLBACK_HOP_OVERHEAD_MS = 8;
+
+const models = new Map(
+  [...builtInComponentModels, ...customComponentModels].map((model) => [model.type, model])
+);
+
+/**
+ * Adds a custom component type to this process: the definition goes to the shared registry
+ * read by the palette, topology validation and grading, and the model here. Other processes
+ * do not see it; types stored in versions belong in `customComponentDefinitions` and
+ * `customComponentModels` instead.
+ */
+export function registerComponentModel(
+  definition: ComponentDefinition,
+  model: Omit<ComponentModel, 'type'>
+): void {
+  registerComponentType(definition);
+  models.set(definition.type, { ...model, type: definition.type });
+}
+
+export function componentModel(component: ArchitectureComponent): ComponentModel {
+  return (
+    models.get(component.type) ?? { type: component.type, hopOverheadMs: FALLBACK_HOP_OVERHEAD_MS }
+  );
+}
+
+export function requestCost(component: ArchitectureComponent): number {
+  return componentModel(component).requestCost ?? 1;
+}
+
+export function bufferSeconds(component: ArchitectureComponent, defaultSeconds: number): number {
+  return componentModel(component).bufferSeconds ?? defaultSeconds;
+}
+
+export function endsCallerWait(component: ArchitectureComponent): boolean {
+  return componentModel(component).endsCallerWait ?? false;
+}
+
+export function enforcesRateLimit(component: ArchitectureComponent): boolean {
+  return componentModel(component).enforcesRateLimit ?? false;
+}
+
+export function scheduledJobRatio(component: ArchitectureComponent): number | undefined {
+  return componentModel(component).scheduledJobRatio;
+}
+
+export function passThroughRatio(
+  component: ArchitectureComponent,
+  trafficProfile: TrafficProfile
+): number {
+  return componentModel(component).passThroughRatio?.(component, trafficProfile) ?? 1;
+}
+
+export function drainRps(component: ArchitectureComponent): number | undefined {
+  return componentModel(component).drainRps?.(component);
+}
+
+/**
+ * Types that deliver to every target (stream consumer groups) give each downstream target
+ * the full forwarded demand instead of a share of it.
+ */
+export function consumerGroupRouteWeights(
+  graph: ComponentGraph,
+  routeWeights: RouteWeights
+): RouteWeights {
+  return (sourceId, targetIds) => {
+    const source = graph.componentById.get(sourceId);
+    return source && componentModel(source).deliversToEveryTarget
+      ? targetIds.map(() => 1)
+      : routeWeights(sourceId, targetIds);
+  };
+}
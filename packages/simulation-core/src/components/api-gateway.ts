@@ -0,0 +1,6 @@
+import type { ComponentModel } from '../catalog.js';
+
+export const apiGatewayModel: ComponentModel = {
+  type: 'api-gateway',
+  hopOverheadMs: 2.5
+};
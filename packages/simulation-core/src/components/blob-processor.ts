@@ -0,0 +1,8 @@
+import type { ComponentModel } from '../catalog.js';
+
+export const blobProcessorModel: ComponentModel = {
+  type: 'blob-processor',
+  hopOverheadMs: 150,
+  // Transcoding or resizing a blob is far heavier than serving a request.
+  requestCost: 8
+};
@@ -0,0 +1,47 @@
+import {
+  type ArchitectureComponent,
+  type CacheConfig,
+  defaultCacheConfig
+} from '@sdc/shared-types';
+import type { ComponentModel } from '../catalog.js';
+
+// Relative hit-ratio effect of the eviction policy against the configured (LRU-measured) ratio.
+const EVICTION_HIT_FACTOR: Record<CacheConfig['evictionPolicy'], number> = {
+  lru: 1,
+  lfu: 1.04,
+  'ttl-only': 0.9
+};
+// TTLs shorter than this expire entries before most re-reads and erode the hit ratio linearly.
+const MIN_EFFECTIVE_CACHE_TTL_SECONDS = 30;
+
+/**
+ * Steady-state read hit ratio of a cache. Short TTLs expire entries before they are
+ * re-read and the eviction policy nudges the configured ratio; a cold cache misses
+ * everything until it warms up.
+ */
+function cacheHitRatio(component: ArchitectureComponent): number {
+  const config = component.cacheConfig ?? defaultCacheConfig;
+  if (config.state === 'cold') {
+    return 0;
+  }
+
+  const ttlFactor = Math.min(1, config.ttlSeconds / MIN_EFFECTIVE_CACHE_TTL_SECONDS);
+  return Math.min(0.99, config.hitRatio * ttlFactor * EVICTION_HIT_FACTOR[config.evictionPolicy]);
+}
+
+export const cacheModel: ComponentModel = {
+  type: 'cache',
+  hopOverheadMs: 1.2,
+  // Read hits are served locally; only misses and writes reach the tiers behind it.
+  passThroughRatio: (component, trafficProfile) =>
+    1 - (trafficProfile.readPercentage / 100) * cacheHitRatio(component),
+  failureResponses: {
+    'cache-flush': (component) => ({
+      ...component,
+      cacheConfig: {
+        ...(component.cacheConfig ?? defaultCacheConfig),
+        state: 'cold'
+      }
+    })
+  }
+};
@@ -0,0 +1,11 @@
+import type { ComponentModel } from '../catalog.js';
+
+// Share of reads the edge answers from its own cache.
+const CDN_OFFLOAD_RATIO = 0.85;
+
+export const cdnModel: ComponentModel = {
+  type: 'cdn',
+  hopOverheadMs: 3,
+  passThroughRatio: (_component, trafficProfile) =>
+    1 - (trafficProfile.readPercentage / 100) * CDN_OFFLOAD_RATIO
+};
@@ -0,0 +1,6 @@
+import type { ComponentModel } from '../catalog.js';
+
+export const clientModel: ComponentModel = {
+  type: 'client',
+  hopOverheadMs: 0
+};
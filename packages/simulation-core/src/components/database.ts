@@ -0,0 +1,7 @@
+import type { ComponentModel } from '../catalog.js';
+
+// Replication, sharding and failover come from `databaseConfig`; see `../database.ts`.
+export const databaseModel: ComponentModel = {
+  type: 'database',
+  hopOverheadMs: 6
+};
@@ -0,0 +1,9 @@
+import type { ComponentModel } from '../catalog.js';
+
+export const dnsModel: ComponentModel = {
+  type: 'dns',
+  // Amortized over the requests that reuse a cached resolution.
+  hopOverheadMs: 0.4,
+  // Clients cache resolutions for the record TTL, so few requests reach the resolver.
+  requestCost: 0.02
+};
@@ -0,0 +1,41 @@
+import type { ComponentModel } from '../catalog.js';
+import { apiGatewayModel } from './api-gateway.js';
+import { blobProcessorModel } from './blob-processor.js';
+import { cacheModel } from './cache.js';
+import { cdnModel } from './cdn.js';
+import { clientModel } from './client.js';
+import { databaseModel } from './database.js';
+import { dnsModel } from './dns.js';
+import { loadBalancerModel } from './load-balancer.js';
+import { objectStoreModel } from './object-store.js';
+import { queueModel } from './queue.js';
+import { rateLimiterModel } from './rate-limiter.js';
+import { schedulerModel } from './scheduler.js';
+import { searchIndexModel } from './search-index.js';
+import { serviceModel } from './service.js';
+import { streamModel } from './stream.js';
+import { websocketGatewayModel } from './websocket-gateway.js';
+import { workerModel } from './worker.js';
+
+export const builtInComponentModels: ComponentModel[] = [
+  clientModel,
+  loadBalancerModel,
+  apiGatewayModel,
+  serviceModel,
+  cacheModel,
+  databaseModel,
+  queueModel,
+  cdnModel,
+  objectStoreModel,
+  websocketGatewayModel,
+  searchIndexModel,
+  streamModel,
+  workerModel,
+  schedulerModel,
+  dnsModel,
+  rateLimiterModel,
+  blobProcessorModel
+];
+
+// Simulation behavior of the types in shared-types' `customComponentDefinitions`.
+export const customComponentModels: ComponentModel[] = [];
@@ -0,0 +1,6 @@
+import type { ComponentModel } from '../catalog.js';
+
+export const loadBalancerModel: ComponentModel = {
+  type: 'load-balancer',
+  hopOverheadMs: 0.8
+};
@@ -0,0 +1,6 @@
+import type { ComponentModel } from '../catalog.js';
+
+export const objectStoreModel: ComponentModel = {
+  type: 'object-store',
+  hopOverheadMs: 18
+};
@@ -0,0 +1,10 @@
+import type { ComponentModel } from '../catalog.js';
+import { queueConfigOf, queueDrainRps } from '../queues.js';
+
+export const queueModel: ComponentModel = {
+  type: 'queue',
+  hopOverheadMs: 2,
+  endsCallerWait: true,
+  // The consumer pool, not the broker, sets how fast messages move on.
+  drainRps: (component) => queueDrainRps(queueConfigOf(component))
+};
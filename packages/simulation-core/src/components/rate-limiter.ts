@@ -0,0 +1,9 @@
+import type { ComponentModel } from '../catalog.js';
+
+export const rateLimiterModel: ComponentModel = {
+  type: 'rate-limiter',
+  hopOverheadMs: 0.5,
+  // Requests over the limit are rejected immediately rather than queued.
+  bufferSeconds: 0,
+  enforcesRateLimit: true
+};
@@ -0,0 +1,7 @@
+import type { ComponentModel } from '../catalog.js';
+
+export const schedulerModel: ComponentModel = {
+  type: 'scheduler',
+  hopOverheadMs: 1,
+  scheduledJobRatio: 0.05
+};
@@ -0,0 +1,10 @@
+import type { ComponentModel } from '../catalog.js';
+
+export const searchIndexModel: ComponentModel = {
+  type: 'search-index',
+  hopOverheadMs: 12,
+  // Queries score and merge results across index segments.
+  requestCost: 2,
+  // Queries are answered from the index itself; only writes continue downstream.
+  passThroughRatio: (_component, trafficProfile) => 1 - trafficProfile.readPercentage / 100
+};
@@ -0,0 +1,6 @@
+import type { ComponentModel } from '../catalog.js';
+
+export const serviceModel: ComponentModel = {
+  type: 'service',
+  hopOverheadMs: 8
+};
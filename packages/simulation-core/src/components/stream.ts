@@ -0,0 +1,11 @@
+import type { ComponentModel } from '../catalog.js';
+
+export const streamModel: ComponentModel = {
+  type: 'stream',
+  hopOverheadMs: 3,
+  // The log retains a backlog for consumers to work through.
+  bufferSeconds: 600,
+  endsCallerWait: true,
+  // Every consumer group reads every record.
+  deliversToEveryTarget: true
+};
@@ -0,0 +1,8 @@
+import type { ComponentModel } from '../catalog.js';
+
+export const websocketGatewayModel: ComponentModel = {
+  type: 'websocket-gateway',
+  hopOverheadMs: 1.5,
+  // Each inbound message is pushed to every subscriber's open connection.
+  requestCost: 3
+};
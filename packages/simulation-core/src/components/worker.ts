@@ -0,0 +1,6 @@
+import type { ComponentModel } from '../catalog.js';
+
+export const workerModel: ComponentModel = {
+  type: 'worker',
+  hopOverheadMs: 25
+};
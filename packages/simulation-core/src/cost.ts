@@ -0,0 +1,36 @@
+import {
+  ArchitectureComponent,
+  ComponentType,
+  PricingTable,
+  componentDefinition,
+  defaultPricingTable
+} from '@sdc/shared-types';
+
+export const SECONDS_PER_MONTH = 30 * 24 * 60 * 60;
+
+// Monthly price of running `nodes` nodes of a component at its vertical tier.
+export function nodesMonthlyUsd(
+  component: ArchitectureComponent,
+  nodes: number,
+  pricing: PricingTable
+): number {
+  const nodePrice =
+    pricing.nodeMonthlyUsd[component.type] ??
+    defaultPricingTable.nodeMonthlyUsd[component.type] ??
+    componentDefinition(component.type)?.pricing?.nodeMonthlyUsd ??
+    0;
+  const tier = component.scaling.verticalTier;
+  const tierMultiplier =
+    pricing.tierMultiplier[tier] ?? defaultPricingTable.tierMultiplier[tier] ?? 1;
+  return nodes * nodePrice * tierMultiplier;
+}
+
+// Usage charges for serving `rps` around the clock for a month.
+export function usageMonthlyUsd(type: ComponentType, rps: number, pricing: PricingTable): number {
+  const perMillion =
+    pricing.perMillionRequestsUsd[type] ??
+    defaultPricingTable.perMillionRequestsUsd[type] ??
+    componentDefinition(type)?.pricing?.perMillionRequestsUsd ??
+    0;
+  return ((rps * SECONDS_PER_MONTH) / 1_000_000) * perMillion;
+}
@@ -0,0 +1,97 @@
+import type { ArchitectureComponent, DatabaseConfig } from '@sdc/shared-types';
+
+// Replaying a replicated write costs a replica this fraction of serving it.
+const REPLICA_APPLY_COST = 0.3;
+// Round trip for a replica to acknowledge a synchronous write.
+const SYNC_ACK_MS = 2;
+// Replication delay of an idle async replica; it grows as the replica gets busier.
+const BASE_REPLICATION_LAG_MS = 15;
+
+export const REPLICATION_LAG_WARNING_MS = 250;
+
+const PROMOTION_SECONDS: Record<DatabaseConfig['replication'], number> = {
+  sync: 10,
+  async: 30
+};
+// Without a replica to promote, the shard stays down until the primary is rebuilt.
+const PRIMARY_REBUILD_SECONDS = 600;
+
+/**
+ * Replication layout a database runs with. Databases without a `databaseConfig` are one
+ * unsharded primary with `scaling.replicas - 1` async replicas that serve any read.
+ */
+export function databaseTopology(component: ArchitectureComponent): DatabaseConfig {
+  return (
+    component.databaseConfig ?? {
+      readReplicas: component.scaling.replicas - 1,
+      shardCount: 1,
+      shardKey: null,
+      replication: 'async',
+      consistency: 'eventual'
+    }
+  );
+}
+
+export function databaseNodeCount(config: DatabaseConfig): number {
+  return config.shardCount * (1 + config.readReplicas);
+}
+
+// Strong reads only leave the primary when replicas are kept in sync.
+export function replicasServeReads(config: DatabaseConfig): boolean {
+  return config.readReplicas > 0 && (config.consistency !== 'strong' || config.replication === 'sync');
+}
+
+/**
+ * Share of the database's demand the busiest node handles. Each shard's primary takes all
+ * of the shard's writes plus its share of reads; replicas replay every write and split the
+ * remaining reads. A shard that just promoted a replica runs one replica short.
+ */
+export function hottestNodeLoad(config: DatabaseConfig, readRatio: number, failedOver: boolean): number {
+  const writesPerShard = (1 - readRatio) / config.shardCount;
+  const readsPerShard = readRatio / config.shardCount;
+
+  const shardLoad = (replicas: number) => {
+    const readers = replicasServeReads({ ...config, readReplicas: replicas }) ? 1 + replicas : 1;
+    const primary = writesPerShard + readsPerShard / readers;
+    const replica =
+      replicas > 0 ? writesPerShard * REPLICA_APPLY_COST + (readers > 1 ? readsPerShard / readers : 0) : 0;
+    return Math.max(primary, replica);
+  };
+
+  const healthy = shardLoad(config.readReplicas);
+  return failedOver && config.readReplicas > 0
+    ? Math.max(healthy, shardLoad(config.readReplicas - 1))
+    : healthy;
+}
+
+export function replicationLagMs(config: DatabaseConfig, utilization: number): number {
+  if (config.replication === 'sync' || config.readReplicas === 0) {
+    return 0;
+  }
+  return BASE_REPLICATION_LAG_MS / Math.max(0.02, 1 - utilization);
+}
+
+// Mean time a request waits on replica acknowledgements; only writes pay it.
+export function syncReplicationDelayMs(
+  config: DatabaseConfig,
+  readRatio: number,
+  utilization: number
+): number {
+  if (config.replication !== 'sync' || config.readReplicas === 0) {
+    return 0;
+  }
+  return ((1 - readRatio) * SYNC_ACK_MS) / Math.max(0.05, 1 - Math.min(utilization, 0.95));
+}
+
+export function failoverSeconds(config: DatabaseConfig): number {
+  return config.readReplicas > 0 ? PROMOTION_SECONDS[config.replication] : PRIMARY_REBUILD_SECONDS;
+}
+
+/**
+ * Share of the database's requests that fail while one shard has no primary: that shard's
+ * writes, plus its reads unless replicas can keep serving them.
+ */
+export function failoverUnavailableShare(config: DatabaseConfig, readRatio: number): number {
+  const reads = replicasServeReads(config) ? 0 : readRatio;
+  return (1 - readRatio + reads) / config.shardCount;
+}
@@ -0,0 +1,190 @@
+import type { ArchitectureComponent, ArchitectureEdge } from '@sdc/shared-types';
+
+export type ComponentGraph = {
+  componentById: Map<string, ArchitectureComponent>;
+  outgoing: Map<string, string[]>;
+  incoming: Map<string, string[]>;
+};
+
+// Share of a node's forwarded traffic each target receives; weights sum to 1.
+export type RouteWeights = (sourceId: string, targetIds: string[]) => number[];
+
+const evenRouteWeights: RouteWeights = (_sourceId, targetIds) =>
+  targetIds.map(() => 1 / targetIds.length);
+
+export function buildComponentGraph(
+  components: ArchitectureComponent[],
+  edges: ArchitectureEdge[]
+): ComponentGraph {
+  const componentById = new Map(components.map((component) => [component.id, component]));
+  const outgoing = new Map<string, string[]>();
+  const incoming = new Map<string, string[]>();
+  const seen = new Set<string>();
+
+  for (const component of components) {
+    outgoing.set(component.id, []);
+    incoming.set(component.id, []);
+  }
+
+  for (const edge of edges) {
+    if (!componentById.has(edge.sourceId) || !componentById.has(edge.targetId)) {
+      continue;
+    }
+    if (edge.sourceId === edge.targetId) {
+      continue;
+    }
+
+    const edgeKey = `${edge.sourceId}->${edge.targetId}`;
+    if (seen.has(edgeKey)) {
+      continue;
+    }
+    seen.add(edgeKey);
+
+    outgoing.get(edge.sourceId)?.push(edge.targetId);
+    incoming.get(edge.targetId)?.push(edge.sourceId);
+  }
+
+  return { componentById, outgoing, incoming };
+}
+
+export function reachableComponentIds(graph: ComponentGraph, entryIds: string[]): Set<string> {
+  const reachable = new Set<string>();
+  const stack = [...entryIds];
+
+  while (stack.length > 0) {
+    const current = stack.pop() as string;
+    if (reachable.has(current) || !graph.componentById.has(current)) {
+      continue;
+    }
+    reachable.add(current);
+    stack.push(...(graph.outgoing.get(current) ?? []));
+  }
+
+  return reachable;
+}
+
+/**
+ * Pushes entry demand through the graph in dependency order. Each node forwards
+ * `inbound * passThrough(node)`, capped at `forwardLimit(node)`, across its downstream edges
+ * according to `routeWeights` (evenly by default). Cycles are broken by never forwarding
+ * demand back into a node that has already been resolved.
+ */
+export function propagateDemand(
+  graph: ComponentGraph,
+  entryDemand: Map<string, number>,
+  passThrough: (component: ArchitectureComponent) => number,
+  routeWeights: RouteWeights = evenRouteWeights,
+  forwardLimit: (component: ArchitectureComponent) => number = () => Number.POSITIVE_INFINITY
+): Map<string, number> {
+  const reachable = reachableComponentIds(graph, [...entryDemand.keys()]);
+  const demand = new Map<string, number>();
+  const pendingInbound = new Map<string, number>();
+  const resolved = new Set<string>();
+
+  for (const componentId of graph.componentById.keys()) {
+    demand.set(componentId, entryDemand.get(componentId) ?? 0);
+    const inboundFromReachable = (graph.incoming.get(componentId) ?? []).filter((sourceId) =>
+      reachable.has(sourceId)
+    ).length;
+    pendingInbound.set(componentId, inboundFromReachable);
+  }
+
+  const ready = [...reachable].filter((componentId) => pendingInbound.get(componentId) === 0);
+
+  while (resolved.size < reachable.size) {
+    let current = ready.shift();
+    if (current === undefined) {
+      // Only cycles remain; resolve the first unresolved node that already carries demand.
+      current = [...reachable].find(
+        (componentId) => !resolved.has(componentId) && (demand.get(componentId) ?? 0) > 0
+      );
+      if (current === undefined) {
+        break;
+      }
+    }
+    if (resolved.has(current)) {
+      continue;
+    }
+    resolved.add(current);
+
+    const component = graph.componentById.get(current) as ArchitectureComponent;
+    const targets = (graph.outgoing.get(current) ?? []).filter(
+      (targetId) => !resolved.has(targetId)
+    );
+    const forwarded = Math.min(
+      (demand.get(current) ?? 0) * passThrough(component),
+      forwardLimit(component)
+    );
+    const weights = targets.length > 0 ? routeWeights(current, targets) : [];
+
+    for (const [index, targetId] of targets.entries()) {
+      demand.set(targetId, (demand.get(targetId) ?? 0) + forwarded * (weights[index] ?? 0));
+      const remaining = (pendingInbound.get(targetId) ?? 0) - 1;
+      pendingInbound.set(targetId, remaining);
+      if (remaining === 0) {
+        ready.push(targetId);
+      }
+    }
+  }
+
+  return demand;
+}
+
+export type WeightedPath = {
+  componentIds: string[];
+  probability: number;
+};
+
+/**
+ * Enumerates the request paths a single entry request can take. At each hop the request
+ * ends locally with probability `1 - passThrough(node)` (for example a cache hit) and
+ * otherwise continues down one outgoing edge picked by `routeWeights`. Paths never
+ * revisit a node.
+ */
+export function enumerateRequestPaths(
+  graph: ComponentGraph,
+  entryIds: string[],
+  passThrough: (component: ArchitectureComponent) => number,
+  routeWeights: RouteWeights = evenRouteWeights,
+  limit = 512
+): WeightedPath[] {
+  const paths: WeightedPath[] = [];
+  const stack: WeightedPath[] = entryIds
+    .filter((componentId) => graph.componentById.has(componentId))
+    .map((componentId) => ({ componentIds: [componentId], probability: 1 / entryIds.length }));
+
+  while (stack.length > 0) {
+    const current = stack.pop() as WeightedPath;
+    const tailId = current.componentIds[current.componentIds.length - 1] as string;
+    const tail = graph.componentById.get(tailId) as ArchitectureComponent;
+    const candidates = (graph.outgoing.get(tailId) ?? []).filter(
+      (targetId) => !current.componentIds.includes(targetId)
+    );
+    const candidateWeights = candidates.length > 0 ? routeWeights(tailId, candidates) : [];
+    const targets = candidates
+      .map((targetId, index) => ({ targetId, weight: candidateWeights[index] ?? 0 }))
+      .filter((target) => target.weight > 0);
+    // Past the limit, stop branching and let the remaining probability end at this hop.
+    const overLimit = paths.length + stack.length + targets.length > limit;
+    const forwardRatio = targets.length === 0 || overLimit ? 0 : passThrough(tail);
+
+    if (forwardRatio < 1) {
+      paths.push({
+        componentIds: current.componentIds,
+        probability: current.probability * (1 - forwardRatio)
+      });
+    }
+    if (forwardRatio === 0) {
+      continue;
+    }
+
+    for (const { targetId, weight } of targets) {
+      stack.push({
+        componentIds: [...current.componentIds, targetId],
+        probability: current.probability * forwardRatio * weight
+      });
+    }
+  }
+
+  return paths;
+}
@@ -1,6 +1,53 @@
-import { defaultTrafficProfile, type SimulationInputContract } from '@sdc/shared-types';
-import { describe, expect, it } from 'vitest';
-import { applyFailureInjection, deriveBlastRadiusSummary, runArchitectureSimulation, runBasicSimulation } from './index';
+import {
+  type ArchitectureComponent,
+  type ArchitectureEdge,
+  type ChaosExperimentStep,
+  defaultTrafficProfile,
+  type SimulationInputContract,
+  type SimulationTimelineEvent,
+  componentDefinition,
+  customComponentDefinitions,
+  trafficDemandRps
+} from '@sdc/shared-types';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  applyChaosExperiment,
+  applyFailureInjection,
+  deriveBlastRadiusSummary,
+  deriveChaosBlastRadiusSummary,
+  diffSimulationResults,
+  estimateArchitectureCost,
+  evaluateSlo,
+  planCapacity,
+  propagateTrafficDemand,
+  runArchitectureSimulation,
+  runBasicSimulation,
+  runMonteCarloSimulation,
+  runParameterSweep,
+  runTimeSteppedSimulation,
+  sweepValues,
+  timeSteppedWindowSeconds
+} from './index';
+import { customComponentModels } from './components';
+import { erlangC, latencyMixtureQuantile } from './queueing';
+
+function component(
+  id: string,
+  type: ArchitectureComponent['type'],
+  opsPerSecond = 1000,
+  replicas = 1
+): ArchitectureComponent {
+  return {
+    id,
+    type,
+    label: `${type}-${id}`,
+    position: { x: 10, y: 10 },
+    capacity: { opsPerSecond, cpuCores: 2, memoryGb: 4 },
+    scaling: { replicas, verticalTier: 'medium' },
+    behavior: { stateful: type === 'database' || type === 'cache' },
+    placement: { region: 'usEast', zones: ['az-a'] }
+  };
+}
 
 describe('runBasicSimulation', () => {
   it('marks as saturated when load exceeds capacity', () => {
@@ -30,6 +77,10 @@ describe('runArchitectureSimulation', () => {
           },
           behavior: {
             stateful: false
+          },
+          placement: {
+            region: 'usEast',
+            zones: ['az-a']
           }
         },
         {
@@ -48,6 +99,10 @@ describe('runArchitectureSimulation', () => {
           },
           behavior: {
             stateful: true
+          },
+          placement: {
+            region: 'usEast',
+            zones: ['az-a']
           }
         }
       ],
@@ -86,7 +141,8 @@ describe('runArchitectureSimulation', () => {
           position: { x: 10, y: 10 },
           capacity: { opsPerSecond: 1200, cpuCores: 4, memoryGb: 8 },
           scaling: { replicas: 2, verticalTier: 'medium' },
-          behavior: { stateful: false }
+          behavior: { stateful: false },
+          placement: { region: 'usEast', zones: ['az-a'] }
         }
       ],
       edges: [],
@@ -116,3 +172,1515 @@ describe('runArchitectureSimulation', () => {
     expect(blastRadius.estimatedUserImpactPercent).toBeGreaterThanOrEqual(0);
   });
 });
+
+describe('placement-aware failure injection', () => {
+  const placed = (
+    id: string,
+    placement: ArchitectureComponent['placement'],
+    replicas = 2
+  ): ArchitectureComponent => ({ ...component(id, 'service', 1000, replicas), placement });
+
+  it('uses explicit zones for az-down instead of canvas position', () => {
+    const input: SimulationInputContract = {
+      components: [
+        { ...placed('single', { region: 'usEast', zones: ['az-b'] }), position: { x: 10, y: 10 } },
+        placed('spread', { region: 'usEast', zones: ['az-a', 'az-b'] }, 4),
+        placed('elsewhere', { region: 'usEast', zones: ['az-a'] })
+      ],
+      edges: [],
+      trafficProfile: defaultTrafficProfile
+    };
+
+    const injected = applyFailureInjection(input, { mode: 'az-down', azName: 'az-b' });
+    const byId = new Map(injected.input.components.map((item) => [item.id, item]));
+
+    expect(injected.impactedComponentIds.sort()).toEqual(['single', 'spread']);
+    expect(byId.get('single')?.capacity.opsPerSecond).toBe(1);
+    expect(byId.get('spread')?.scaling.replicas).toBe(2);
+    expect(byId.get('spread')?.capacity.opsPerSecond).toBe(1000);
+    expect(byId.get('elsewhere')?.scaling.replicas).toBe(2);
+  });
+
+  it('scopes az-down to a region when one is given', () => {
+    const input: SimulationInputContract = {
+      components: [
+        placed('east', { region: 'usEast', zones: ['az-a'] }),
+        placed('west', { region: 'usWest', zones: ['az-a'] })
+      ],
+      edges: [],
+      trafficProfile: defaultTrafficProfile
+    };
+
+    const injected = applyFailureInjection(input, { mode: 'az-down', azName: 'az-a', region: 'usWest' });
+    expect(injected.impactedComponentIds).toEqual(['west']);
+  });
+
+  it('takes every component in the region offline for region-down', () => {
+    const input: SimulationInputContract = {
+      components: [
+        { ...component('client', 'client', 100_000), placement: { region: 'europe', zones: ['az-a'] } },
+        placed('eu-api', { region: 'europe', zones: ['az-a', 'az-b'] }),
+        placed('us-api', { region: 'usEast', zones: ['az-a'] })
+      ],
+      edges: [
+        { id: 'e1', sourceId: 'client', targetId: 'eu-api' },
+        { id: 'e2', sourceId: 'client', targetId: 'us-api' }
+      ],
+      trafficProfile: defaultTrafficProfile
+    };
+
+    const injected = applyFailureInjection(input, { mode: 'region-down', region: 'europe' });
+
+    expect(injected.impactedComponentIds).toEqual(['eu-api']);
+    expect(injected.notes[0]).toContain(`${defaultTrafficProfile.regionDistribution.europe}%`);
+    expect(runArchitectureSimulation(injected.input).bottlenecks[0]?.componentId).toBe('eu-api');
+  });
+});
+
+describe('propagateTrafficDemand', () => {
+  it('splits demand across fan-out edges and reduces it behind a cache', () => {
+    const input: SimulationInputContract = {
+      components: [
+        component('client', 'client'),
+        component('svc', 'service'),
+        component('cache', 'cache'),
+        component('db', 'database'),
+        component('orphan-cache', 'cache')
+      ],
+      edges: [
+        { id: 'e1', sourceId: 'client', targetId: 'svc' },
+        { id: 'e2', sourceId: 'svc', targetId: 'cache' },
+        { id: 'e3', sourceId: 'svc', targetId: 'db' },
+        { id: 'e4', sourceId: 'cache', targetId: 'db' }
+      ],
+      trafficProfile: {
+        ...defaultTrafficProfile,
+        readPercentage: 80,
+        writePercentage: 20
+      }
+    };
+
+    const demand = propagateTrafficDemand(input, 1000);
+    expect(demand.get('client')).toBe(1000);
+    expect(demand.get('svc')).toBe(1000);
+    expect(demand.get('cache')).toBe(500);
+    expect(demand.get('db')).toBeCloseTo(500 + 500 * (1 - 0.8 * 0.8));
+    expect(demand.get('orphan-cache')).toBe(0);
+  });
+
+  it('does not report components that nothing routes to as bottlenecks', () => {
+    const result = runArchitectureSimulation({
+      components: [
+        component('client', 'client', 100_000),
+        component('svc', 'service', 100_000),
+        component('cache', 'cache', 10)
+      ],
+      edges: [{ id: 'e1', sourceId: 'client', targetId: 'svc' }],
+      trafficProfile: defaultTrafficProfile
+    });
+
+    expect(result.bottlenecks.some((bottleneck) => bottleneck.componentId === 'cache')).toBe(false);
+    expect(result.metrics.saturated).toBe(false);
+  });
+});
+
+describe('cache modeling', () => {
+  const cachedRead = (cacheConfig?: ArchitectureComponent['cacheConfig']): SimulationInputContract => ({
+    components: [
+      component('client', 'client', 100_000),
+      { ...component('cache', 'cache', 100_000), cacheConfig },
+      component('db', 'database', 1500)
+    ],
+    edges: [
+      { id: 'e1', sourceId: 'client', targetId: 'cache' },
+      { id: 'e2', sourceId: 'cache', targetId: 'db' }
+    ],
+    trafficProfile: {
+      ...defaultTrafficProfile,
+      baselineRps: 1000,
+      peakMultiplier: 2,
+      burstiness: 'steady',
+      readPercentage: 90,
+      writePercentage: 10
+    }
+  });
+
+  it('forwards only misses to the backing store', () => {
+    const demand = propagateTrafficDemand(
+      cachedRead({ hitRatio: 0.95, ttlSeconds: 600, evictionPolicy: 'lru', state: 'warm' }),
+      1000
+    );
+    expect(demand.get('db')).toBeCloseTo(1000 * (1 - 0.9 * 0.95));
+
+    const shortTtl = propagateTrafficDemand(
+      cachedRead({ hitRatio: 0.95, ttlSeconds: 3, evictionPolicy: 'lru', state: 'warm' }),
+      1000
+    );
+    expect(shortTtl.get('db')).toBeGreaterThan(demand.get('db') ?? 0);
+  });
+
+  it('sends every read to the backing store after a cache flush', () => {
+    const warm = cachedRead({ hitRatio: 0.95, ttlSeconds: 600, evictionPolicy: 'lru', state: 'warm' });
+    const injected = applyFailureInjection(warm, { mode: 'cache-flush' });
+
+    expect(injected.impactedComponentIds).toEqual(['cache']);
+    expect(propagateTrafficDemand(injected.input, 1000).get('db')).toBeCloseTo(1000);
+    expect(runArchitectureSimulation(warm).metrics.saturated).toBe(false);
+    expect(runArchitectureSimulation(injected.input).metrics.saturated).toBe(true);
+  });
+
+  it('recovers from a thundering herd as a cold cache warms up', () => {
+    const cold = cachedRead({ hitRatio: 0.95, ttlSeconds: 600, evictionPolicy: 'lru', state: 'cold' });
+    const result = runTimeSteppedSimulation(cold);
+    const dbUtilization = (atSecond: number) =>
+      result.series
+        ?.find((tick) => tick.atSecond === atSecond)
+        ?.components.find((sample) => sample.componentId === 'db')?.utilizationPercent ?? 0;
+
+    expect(dbUtilization(0)).toBeGreaterThan(dbUtilization(250) * 3);
+    expect(result.timeline.some((event) => event.componentId === 'db' && event.title.endsWith('recovered'))).toBe(
+      true
+    );
+  });
+});
+
+describe('runTimeSteppedSimulation', () => {
+  const constrained: SimulationInputContract = {
+    components: [component('client', 'client', 100_000), component('db', 'database', 2000)],
+    edges: [{ id: 'e1', sourceId: 'client', targetId: 'db' }],
+    trafficProfile: {
+      ...defaultTrafficProfile,
+      baselineRps: 1000,
+      peakMultiplier: 4,
+      burstiness: 'steady'
+    }
+  };
+
+  const pointsShape: NonNullable<SimulationInputContract['trafficProfile']['shape']> = {
+    kind: 'points',
+    durationSeconds: 300,
+    points: [
+      { atSecond: 0, rps: 200 },
+      { atSecond: 150, rps: 1000 },
+      { atSecond: 300, rps: 200 }
+    ]
+  };
+  const peakDemand = (result: ReturnType<typeof runTimeSteppedSimulation>) =>
+    Math.max(...(result.series ?? []).map((tick) => tick.demandRps));
+
+  it('ramps demand from baseline to peak across the window', () => {
+    expect(trafficDemandRps(constrained.trafficProfile, 0, 300)).toBe(1000);
+    expect(trafficDemandRps(constrained.trafficProfile, 150, 300)).toBe(4000);
+    expect(trafficDemandRps(constrained.trafficProfile, 300, 300)).toBeCloseTo(1000);
+
+    const series = runTimeSteppedSimulation(constrained).series ?? [];
+    expect(series.find((tick) => tick.atSecond === 0)?.demandRps).toBe(1000);
+    expect(series.find((tick) => tick.atSecond === 150)?.demandRps).toBe(4000);
+    expect(series[series.length - 1]?.demandRps).toBeCloseTo(1000);
+  });
+
+  it('surges shaped traffic in injections and chaos steps', () => {
+    const shaped = {
+      ...constrained,
+      trafficProfile: { ...constrained.trafficProfile, shape: pointsShape }
+    };
+    const surge = { mode: 'traffic-surge' as const, surgeMultiplier: 5 };
+
+    expect(peakDemand(runTimeSteppedSimulation(shaped))).toBe(1000);
+    expect(peakDemand(runTimeSteppedSimulation(applyFailureInjection(shaped, surge).input))).toBe(5000);
+
+    const chaos = applyChaosExperiment(shaped, [{ atSecond: 100, profile: surge }]);
+    const series = runTimeSteppedSimulation(shaped, { stages: chaos.stages }).series ?? [];
+    expect(series.find((tick) => tick.atSecond === 90)?.demandRps).toBeCloseTo(680);
+    expect(series.find((tick) => tick.atSecond === 150)?.demandRps).toBe(5000);
+  });
+
+  it('uses the shape peak as analytical peak demand', () => {
+    const shaped = {
+      ...constrained,
+      trafficProfile: { ...constrained.trafficProfile, burstiness: 'extreme' as const, shape: pointsShape }
+    };
+
+    expect(runArchitectureSimulation(shaped).metrics.peakRps).toBe(1000);
+    expect(runArchitectureSimulation(constrained).metrics.peakRps).toBe(4000);
+  });
+
+  it('steps a traffic shape over its own duration', () => {
+    const result = runTimeSteppedSimulation({
+      ...constrained,
+      trafficProfile: {
+        ...constrained.trafficProfile,
+        shape: {
+          kind: 'flash-crowd',
+          durationSeconds: 3600,
+          atSecond: 1200,
+          riseSeconds: 60,
+          holdSeconds: 600,
+          decaySeconds: 300
+        }
+      }
+    });
+
+    const series = result.series ?? [];
+    expect(series[series.length - 1]?.atSecond).toBe(3600);
+    expect(series.length).toBeLessThanOrEqual(721);
+    expect(series.find((tick) => tick.atSecond === 600)?.demandRps).toBe(1000);
+    expect(series.find((tick) => tick.atSecond === 1500)?.demandRps).toBe(4000);
+    expect(series.find((tick) => tick.atSecond === 1500)?.droppedRps).toBeGreaterThan(0);
+  });
+
+  it('emits per-tick samples and threshold events at the tick they occur', () => {
+    const result = runTimeSteppedSimulation(constrained);
+
+    expect(result.series).toHaveLength(301);
+    expect(result.series?.[0]?.components.map((sample) => sample.componentId)).toEqual(['client', 'db']);
+
+    const saturation = result.timeline.find(
+      (event) => event.componentId === 'db' && event.title.endsWith('saturated')
+    );
+    expect(saturation).toBeDefined();
+    const saturationTick = result.series?.find((tick) => tick.atSecond === saturation?.atSecond);
+    const dbSample = saturationTick?.components.find((sample) => sample.componentId === 'db');
+    expect(dbSample?.utilizationPercent).toBeGreaterThanOrEqual(100);
+
+    expect(result.timeline.some((event) => event.title.endsWith('dropping requests'))).toBe(true);
+    expect(result.metrics.errorRatePercent).toBeGreaterThan(0);
+    expect(result.metrics.saturated).toBe(true);
+  });
+
+  it('keeps queues empty when capacity covers peak demand', () => {
+    const result = runTimeSteppedSimulation({
+      ...constrained,
+      components: [component('client', 'client', 100_000), component('db', 'database', 100_000)]
+    });
+
+    expect(result.series?.every((tick) => tick.droppedRps === 0)).toBe(true);
+    expect(result.metrics.errorRatePercent).toBe(0);
+    expect(result.timeline.at(-1)?.title).toBe('Simulation window completed');
+  });
+
+  it('reports each tick with the events raised during it as the run progresses', () => {
+    const ticks: number[] = [];
+    const events: SimulationTimelineEvent[] = [];
+    const result = runTimeSteppedSimulation(constrained, {
+      onTick: (tick, tickEvents) => {
+        ticks.push(tick.atSecond);
+        expect(tickEvents.every((event) => event.atSecond <= tick.atSecond)).toBe(true);
+        events.push(...tickEvents);
+      }
+    });
+
+    expect(ticks).toEqual(result.series?.map((tick) => tick.atSecond));
+    // Only the end-of-window summary comes after the last tick.
+    expect(events).toEqual(result.timeline.slice(0, -1));
+  });
+});
+
+describe('runMonteCarloSimulation', () => {
+  const input: SimulationInputContract = {
+    components: [component('client', 'client', 100_000), component('api', 'service', 3000, 2)],
+    edges: [{ id: 'e1', sourceId: 'client', targetId: 'api' }],
+    trafficProfile: {
+      ...defaultTrafficProfile,
+      baselineRps: 1000,
+      peakMultiplier: 2,
+      burstiness: 'spiky'
+    }
+  };
+
+  it('reproduces identical results for the same seed', () => {
+    const first = runMonteCarloSimulation(input, { seed: 42, iterations: 50 });
+    const second = runMonteCarloSimulation(input, { seed: 42, iterations: 50 });
+    const other = runMonteCarloSimulation(input, { seed: 7, iterations: 50 });
+
+    expect(second).toEqual(first);
+    expect(other.confidence?.p95LatencyMs).not.toEqual(first.confidence?.p95LatencyMs);
+    expect(first.confidence?.iterations).toBe(50);
+    expect(first.confidence?.seed).toBe(42);
+  });
+
+  it('reports ordered percentile bands around the mean', () => {
+    const { confidence, metrics } = runMonteCarloSimulation(input, { seed: 1, iterations: 100 });
+
+    for (const band of [confidence?.throughputRps, confidence?.p95LatencyMs]) {
+      expect(band?.p5).toBeLessThanOrEqual(band?.p50 ?? 0);
+      expect(band?.p50).toBeLessThanOrEqual(band?.p95 ?? 0);
+      expect(band?.p5).toBeLessThan(band?.p95 ?? 0);
+    }
+    expect(metrics.p95LatencyMs).toBe(confidence?.p95LatencyMs.mean);
+  });
+
+  it('widens the demand band as burstiness increases', () => {
+    const spread = (burstiness: SimulationInputContract['trafficProfile']['burstiness']) => {
+      const band = runMonteCarloSimulation(
+        {
+          ...input,
+          components: [component('client', 'client', 100_000), component('api', 'service', 100_000)],
+          trafficProfile: { ...input.trafficProfile, burstiness }
+        },
+        { seed: 3, iterations: 100 }
+      ).confidence?.throughputRps;
+      return (band?.p95 ?? 0) - (band?.p5 ?? 0);
+    };
+
+    expect(spread('extreme')).toBeGreaterThan(spread('steady'));
+  });
+});
+
+describe('cross-region latency', () => {
+  const inRegion = (
+    id: string,
+    type: ArchitectureComponent['type'],
+    region: ArchitectureComponent['placement']['region']
+  ): ArchitectureComponent => ({
+    ...component(id, type, 100_000, 2),
+    placement: { region, zones: ['az-a'] }
+  });
+  const trafficProfile: SimulationInputContract['trafficProfile'] = {
+    ...defaultTrafficProfile,
+    baselineRps: 100,
+    readPercentage: 90,
+    writePercentage: 10,
+    regionDistribution: { usEast: 50, usWest: 0, europe: 0, apac: 50 }
+  };
+  const regional = (input: SimulationInputContract, region: string) =>
+    runArchitectureSimulation(input).metrics.regionalLatency?.find((entry) => entry.region === region);
+
+  it('charges distant client regions the inter-region round trip', () => {
+    const input: SimulationInputContract = {
+      components: [component('client', 'client', 100_000), inRegion('db', 'database', 'usEast')],
+      edges: [{ id: 'e1', sourceId: 'client', targetId: 'db' }],
+      trafficProfile
+    };
+
+    const latency = runArchitectureSimulation(input).metrics.regionalLatency ?? [];
+    expect(latency.map((entry) => entry.region)).toEqual(['usEast', 'apac']);
+
+    const gap = (regional(input, 'apac')?.p50LatencyMs ?? 0) - (regional(input, 'usEast')?.p50LatencyMs ?? 0);
+    expect(gap).toBeGreaterThan(150);
+  });
+
+  it('lets a CDN serve read hits from the client region', () => {
+    const direct: SimulationInputContract = {
+      components: [component('client', 'client', 100_000), inRegion('origin', 'object-store', 'usEast')],
+      edges: [{ id: 'e1', sourceId: 'client', targetId: 'origin' }],
+      trafficProfile
+    };
+    const withCdn: SimulationInputContract = {
+      components: [...direct.components, inRegion('cdn', 'cdn', 'usEast')],
+      edges: [
+        { id: 'e1', sourceId: 'client', targetId: 'cdn' },
+        { id: 'e2', sourceId: 'cdn', targetId: 'origin' }
+      ],
+      trafficProfile
+    };
+
+    expect(regional(withCdn, 'apac')?.p50LatencyMs ?? 0).toBeLessThan(regional(direct, 'apac')?.p50LatencyMs ?? 0);
+  });
+
+  it('routes each client region to its nearest regional replica', () => {
+    const input: SimulationInputContract = {
+      components: [
+        component('client', 'client', 100_000),
+        inRegion('api-us', 'service', 'usEast'),
+        inRegion('api-ap', 'service', 'apac')
+      ],
+      edges: [
+        { id: 'e1', sourceId: 'client', targetId: 'api-us' },
+        { id: 'e2', sourceId: 'client', targetId: 'api-ap' }
+      ],
+      trafficProfile: { ...trafficProfile, regionDistribution: { usEast: 70, usWest: 0, europe: 0, apac: 30 } }
+    };
+
+    const demand = propagateTrafficDemand(input, 1000);
+    expect(demand.get('api-us')).toBeCloseTo(700);
+    expect(demand.get('api-ap')).toBeCloseTo(300);
+
+    const gap = (regional(input, 'apac')?.p95LatencyMs ?? 0) - (regional(input, 'usEast')?.p95LatencyMs ?? 0);
+    expect(Math.abs(gap)).toBeLessThan(20);
+  });
+});
+
+describe('autoscaling', () => {
+  const autoscaled = (scaleUpDelaySeconds: number): SimulationInputContract => {
+    const api = component('api', 'service', 500, 2);
+    return {
+      components: [
+        component('client', 'client', 100_000),
+        {
+          ...api,
+          scaling: {
+            ...api.scaling,
+            autoscaling: {
+              minReplicas: 2,
+              maxReplicas: 20,
+              targetUtilizationPercent: 60,
+              scaleUpDelaySeconds,
+              cooldownSeconds: 120
+            }
+          }
+        }
+      ],
+      edges: [{ id: 'e1', sourceId: 'client', targetId: 'api' }],
+      trafficProfile: {
+        ...defaultTrafficProfile,
+        baselineRps: 500,
+        peakMultiplier: 4,
+        burstiness: 'steady'
+      }
+    };
+  };
+
+  it('assumes converged replicas in analytical runs', () => {
+    const input = autoscaled(60);
+    const fixed = {
+      ...input,
+      components: input.components.map((item) => ({
+        ...item,
+        scaling: { replicas: item.scaling.replicas, verticalTier: item.scaling.verticalTier }
+      }))
+    };
+
+    expect(runArchitectureSimulation(fixed).metrics.saturated).toBe(true);
+    expect(runArchitectureSimulation(input).metrics.saturated).toBe(false);
+  });
+
+  it('scales out after the configured delay and records the event', () => {
+    const result = runTimeSteppedSimulation(autoscaled(45));
+    const scaleOut = result.timeline.find((event) => event.title === 'Scaled out service-api');
+    const apiReplicas = (atSecond: number) =>
+      result.series
+        ?.find((tick) => tick.atSecond === atSecond)
+        ?.components.find((sample) => sample.componentId === 'api')?.replicas ?? 0;
+
+    expect(scaleOut?.atSecond).toBeGreaterThanOrEqual(45);
+    expect(apiReplicas(0)).toBe(2);
+    expect(apiReplicas(200)).toBeGreaterThan(2);
+    expect(result.timeline.some((event) => event.title === 'Scaled in service-api')).toBe(true);
+  });
+
+  it('drops more requests when scale-up lags the surge', () => {
+    const fast = runTimeSteppedSimulation(autoscaled(5));
+    const slow = runTimeSteppedSimulation(autoscaled(120));
+    const dropped = (result: ReturnType<typeof runTimeSteppedSimulation>) =>
+      (result.series ?? []).reduce((sum, tick) => sum + tick.droppedRps, 0);
+
+    expect(dropped(slow)).toBeGreaterThan(dropped(fast));
+  });
+});
+
+describe('edge call policies', () => {
+  const laggedDatabase = (callPolicy?: ArchitectureEdge['callPolicy']): SimulationInputContract => {
+    const baseline: SimulationInputContract = {
+      components: [
+        component('client', 'client', 1_000_000),
+        component('svc', 'service', 20_000, 2),
+        component('db', 'database', 4000, 2)
+      ],
+      edges: [
+        { id: 'e1', sourceId: 'client', targetId: 'svc' },
+        { id: 'e2', sourceId: 'svc', targetId: 'db', callPolicy }
+      ],
+      trafficProfile: { ...defaultTrafficProfile, baselineRps: 1000, peakMultiplier: 2, burstiness: 'steady' }
+    };
+    return applyFailureInjection(baseline, {
+      mode: 'dependency-lag',
+      targetComponentId: 'db',
+      lagMs: 800
+    }).input;
+  };
+  const naiveRetries: NonNullable<ArchitectureEdge['callPolicy']> = {
+    mode: 'sync',
+    timeoutMs: 500,
+    retries: 3,
+    backoff: 'none',
+    backoffMs: 0
+  };
+  const dbDemand = (result: ReturnType<typeof runArchitectureSimulation>) =>
+    result.bottlenecks.find((bottleneck) => bottleneck.componentId === 'db')?.requiredRps ?? 0;
+
+  it('turns dependency lag into an outage when timeouts are retried', () => {
+    const withoutPolicy = runArchitectureSimulation(laggedDatabase());
+    const retried = runArchitectureSimulation(laggedDatabase(naiveRetries));
+    const edge = retried.metrics.edgeCalls?.[0];
+
+    expect(withoutPolicy.metrics.saturated).toBe(false);
+    expect(edge?.attemptsPerCall).toBeGreaterThan(3);
+    expect(retried.metrics.saturated).toBe(true);
+    expect(retried.metrics.errorRatePercent).toBeGreaterThan(90);
+    expect(retried.timeline.some((event) => event.title === 'Retry storm on service-svc -> database-db')).toBe(true);
+  });
+
+  it('sheds load on the dependency once a circuit breaker opens', () => {
+    const retried = runArchitectureSimulation(laggedDatabase(naiveRetries));
+    const guarded = runArchitectureSimulation(
+      laggedDatabase({ ...naiveRetries, circuitBreaker: { errorThresholdPercent: 50, openSeconds: 30 } })
+    );
+
+    expect(guarded.metrics.edgeCalls?.[0]?.breakerOpen).toBe(true);
+    expect(dbDemand(guarded)).toBeLessThan(dbDemand(retried));
+    expect(guarded.metrics.p95LatencyMs).toBeLessThan(retried.metrics.p95LatencyMs);
+  });
+
+  it('keeps the dependency below saturation in time-stepped runs once the breaker opens', () => {
+    const result = runTimeSteppedSimulation(
+      laggedDatabase({ ...naiveRetries, circuitBreaker: { errorThresholdPercent: 50, openSeconds: 30 } })
+    );
+    const titles = result.timeline.map((event) => event.title);
+
+    expect(titles).toContain('Circuit breaker opened on service-svc -> database-db');
+    expect(titles).not.toContain('database-db saturated');
+    expect(result.metrics.errorRatePercent).toBeGreaterThan(90);
+  });
+
+  it('leaves results unchanged for healthy dependencies', () => {
+    const healthy: SimulationInputContract = {
+      ...laggedDatabase(),
+      components: laggedDatabase().components.map((item) => ({
+        ...item,
+        behavior: { stateful: item.behavior.stateful }
+      }))
+    };
+    const withPolicy: SimulationInputContract = {
+      ...healthy,
+      edges: healthy.edges.map((edge) => ({ ...edge, callPolicy: { ...naiveRetries, timeoutMs: 5000 } }))
+    };
+
+    expect(runArchitectureSimulation(withPolicy).metrics.edgeCalls?.[0]?.attemptsPerCall).toBeCloseTo(1, 2);
+  });
+});
+
+describe('database topology', () => {
+  const withDatabase = (
+    databaseConfig: ArchitectureComponent['databaseConfig'],
+    readPercentage = 80
+  ): SimulationInputContract => ({
+    components: [
+      component('client', 'client', 1_000_000),
+      component('svc', 'service', 50_000, 4),
+      { ...component('db', 'database', 1000, 1), databaseConfig }
+    ],
+    edges: [
+      { id: 'e1', sourceId: 'client', targetId: 'svc' },
+      { id: 'e2', sourceId: 'svc', targetId: 'db' }
+    ],
+    trafficProfile: {
+      ...defaultTrafficProfile,
+      baselineRps: 1000,
+      peakMultiplier: 2,
+      burstiness: 'steady',
+      readPercentage,
+      writePercentage: 100 - readPercentage
+    }
+  });
+  const single = {
+    readReplicas: 0,
+    shardCount: 1,
+    shardKey: null,
+    replication: 'async' as const,
+    consistency: 'eventual' as const
+  };
+  const capacity = (input: SimulationInputContract) => runArchitectureSimulation(input).metrics.capacityRps;
+
+  it('serves reads from replicas unless strong consistency pins them to the primary', () => {
+    const primaryOnly = capacity(withDatabase(single));
+    const eventual = capacity(withDatabase({ ...single, readReplicas: 2 }));
+    const strongAsync = capacity(withDatabase({ ...single, readReplicas: 2, consistency: 'strong' }));
+    const strongSync = capacity(
+      withDatabase({ ...single, readReplicas: 2, consistency: 'strong', replication: 'sync' })
+    );
+
+    expect(eventual).toBeGreaterThan(primaryOnly * 2);
+    expect(strongAsync).toBeCloseTo(primaryOnly);
+    expect(strongSync).toBeCloseTo(eventual);
+  });
+
+  it('splits writes across shards', () => {
+    const writeHeavy = (shardCount: number) => capacity(withDatabase({ ...single, readReplicas: 2, shardCount }, 20));
+
+    expect(writeHeavy(4)).toBeCloseTo(writeHeavy(1) * 4);
+  });
+
+  it('reports replication lag for async replicas', () => {
+    const result = runArchitectureSimulation(withDatabase({ ...single, readReplicas: 1 }));
+    const lag = result.timeline.find((event) => event.title === 'Replication lag on database-db');
+
+    expect(lag?.description).toContain('eventual reads may return stale data');
+  });
+
+  it('loses async writes and fails the shard during primary failover', () => {
+    const failover = (databaseConfig: ArchitectureComponent['databaseConfig']) =>
+      applyFailureInjection(withDatabase(databaseConfig), {
+        mode: 'primary-failover',
+        targetComponentId: 'db'
+      });
+    const unsharded = failover({ ...single, readReplicas: 1 });
+    const sharded = failover({ ...single, readReplicas: 1, shardCount: 4 });
+    const synced = failover({ ...single, readReplicas: 1, replication: 'sync' });
+
+    expect(unsharded.notes[0]).toContain('acknowledged writes had not replicated and are lost');
+    expect(synced.notes[0]).toContain('loses no acknowledged writes');
+    expect(runArchitectureSimulation(sharded.input).metrics.errorRatePercent).toBeLessThan(
+      runArchitectureSimulation(unsharded.input).metrics.errorRatePercent
+    );
+
+    const stepped = runTimeSteppedSimulation(unsharded.input);
+    const promoted = stepped.timeline.find((event) => event.title === 'Replica promoted on database-db');
+    expect(promoted?.atSecond).toBe(30);
+    expect(stepped.series?.[5]?.droppedRps).toBeGreaterThan(0);
+  });
+});
+
+describe('component catalog', () => {
+  const trafficProfile = {
+    ...defaultTrafficProfile,
+    baselineRps: 1000,
+    peakMultiplier: 2,
+    burstiness: 'steady' as const
+  };
+
+  it('caps downstream demand at the rate limit and rejects the excess', () => {
+    const input: SimulationInputContract = {
+      components: [
+        component('client', 'client', 1_000_000),
+        component('limiter', 'rate-limiter', 1000),
+        component('svc', 'service', 1000)
+      ],
+      edges: [
+        { id: 'e1', sourceId: 'client', targetId: 'limiter' },
+        { id: 'e2', sourceId: 'limiter', targetId: 'svc' }
+      ],
+      trafficProfile
+    };
+    const result = runArchitectureSimulation(input);
+    const limiter = result.bottlenecks.find((bottleneck) => bottleneck.componentId === 'limiter');
+    const limit = limiter?.capacityRps ?? 0;
+
+    expect(propagateTrafficDemand(input, 2000).get('svc')).toBeCloseTo(limit);
+    expect(limiter?.reason).toContain('rate limit');
+    expect(result.metrics.saturated).toBe(true);
+
+    const stepped = runTimeSteppedSimulation(input);
+    const peak = stepped.series?.[150]?.components.find((sample) => sample.componentId === 'svc');
+    expect(peak?.droppedRps).toBe(0);
+  });
+
+  it('delivers every stream record to each consumer group off the request path', () => {
+    const input: SimulationInputContract = {
+      components: [
+        component('client', 'client', 1_000_000),
+        component('svc', 'service', 10_000, 2),
+        component('log', 'stream', 20_000, 3),
+        component('indexer', 'worker', 5000, 2),
+        component('thumbs', 'blob-processor', 50_000, 2)
+      ],
+      edges: [
+        { id: 'e1', sourceId: 'client', targetId: 'svc' },
+        { id: 'e2', sourceId: 'svc', targetId: 'log' },
+        { id: 'e3', sourceId: 'log', targetId: 'indexer' },
+        { id: 'e4', sourceId: 'log', targetId: 'thumbs' }
+      ],
+      trafficProfile
+    };
+    const demand = propagateTrafficDemand(input, 2000);
+    const withoutConsumers = runArchitectureSimulation({
+      ...input,
+      components: input.components.slice(0, 3),
+      edges: input.edges.slice(0, 2)
+    });
+
+    expect(demand.get('indexer')).toBeCloseTo(2000);
+    expect(demand.get('thumbs')).toBeCloseTo(2000);
+    expect(runArchitectureSimulation(input).metrics.p95LatencyMs).toBeCloseTo(
+      withoutConsumers.metrics.p95LatencyMs
+    );
+  });
+
+  it('adds scheduled jobs independent of inbound edges', () => {
+    const input: SimulationInputContract = {
+      components: [
+        component('client', 'client', 1_000_000),
+        component('svc', 'service', 10_000, 2),
+        component('cron', 'scheduler', 1000, 2),
+        component('jobs', 'worker', 5000, 2)
+      ],
+      edges: [
+        { id: 'e1', sourceId: 'client', targetId: 'svc' },
+        { id: 'e2', sourceId: 'svc', targetId: 'jobs' },
+        { id: 'e3', sourceId: 'cron', targetId: 'jobs' }
+      ],
+      trafficProfile
+    };
+    const demand = propagateTrafficDemand(input, 2000);
+
+    expect(demand.get('cron')).toBeCloseTo(100);
+    expect(demand.get('jobs')).toBeCloseTo(2100);
+  });
+
+  it('answers search queries at the index and keeps DNS load to cache misses', () => {
+    const input: SimulationInputContract = {
+      components: [
+        component('client', 'client', 1_000_000),
+        component('dns', 'dns', 100),
+        component('search', 'search-index', 4000, 2),
+        component('db', 'database', 4000, 2)
+      ],
+      edges: [
+        { id: 'e1', sourceId: 'client', targetId: 'dns' },
+        { id: 'e2', sourceId: 'dns', targetId: 'search' },
+        { id: 'e3', sourceId: 'search', targetId: 'db' }
+      ],
+      trafficProfile: { ...trafficProfile, readPercentage: 90, writePercentage: 10 }
+    };
+    const result = runArchitectureSimulation(input);
+
+    expect(propagateTrafficDemand(input, 2000).get('db')).toBeCloseTo(200);
+    expect(result.bottlenecks.some((bottleneck) => bottleneck.componentId === 'dns')).toBe(false);
+  });
+});
+
+describe('chaos experiments', () => {
+  const input: SimulationInputContract = {
+    components: [
+      component('client', 'client', 1_000_000),
+      { ...component('svc', 'service', 2000, 2), placement: { region: 'usEast', zones: ['az-a', 'az-b'] } },
+      component('db', 'database', 8000, 2)
+    ],
+    edges: [
+      { id: 'e1', sourceId: 'client', targetId: 'svc' },
+      { id: 'e2', sourceId: 'svc', targetId: 'db' }
+    ],
+    trafficProfile: { ...defaultTrafficProfile, baselineRps: 1000, peakMultiplier: 2, burstiness: 'steady' }
+  };
+  const steps: ChaosExperimentStep[] = [
+    { atSecond: 90, profile: { mode: 'traffic-surge', surgeMultiplier: 3 } },
+    { atSecond: 30, profile: { mode: 'dependency-lag', targetComponentId: 'db', lagMs: 200 } },
+    { atSecond: 60, profile: { mode: 'az-down', azName: 'az-b' } }
+  ];
+  const firstDrop = (result: ReturnType<typeof runTimeSteppedSimulation>) =>
+    result.series?.find((tick) => tick.droppedRps > 0)?.atSecond;
+
+  it('applies each step on top of the previous ones in schedule order', () => {
+    const chaos = applyChaosExperiment(input, steps);
+    const svc = chaos.input.components.find((item) => item.id === 'svc');
+    const db = chaos.input.components.find((item) => item.id === 'db');
+
+    expect(chaos.stages.map((stage) => stage.atSecond)).toEqual([30, 60, 90]);
+    expect(chaos.steps.map((step) => step.profile.mode)).toEqual(['dependency-lag', 'az-down', 'traffic-surge']);
+    expect(db?.behavior.injectedLatencyMs).toBe(200);
+    expect(svc?.scaling.replicas).toBe(1);
+    expect(chaos.input.trafficProfile.baselineRps).toBe(3000);
+  });
+
+  it('compounds scheduled steps in the time-stepped timeline', () => {
+    const chaos = applyChaosExperiment(input, steps);
+    const compounded = runTimeSteppedSimulation(input, { stages: chaos.stages });
+    const lagOnly = runTimeSteppedSimulation(input, { stages: chaos.stages.slice(0, 1) });
+
+    expect(firstDrop(lagOnly)).toBeUndefined();
+    expect(firstDrop(compounded)).toBeGreaterThanOrEqual(60);
+    expect(compounded.series?.[95]?.demandRps).toBeGreaterThan((compounded.series?.[85]?.demandRps ?? 0) * 2);
+    expect(compounded.metrics.errorRatePercent).toBeGreaterThan(lagOnly.metrics.errorRatePercent);
+
+    const blastRadius = deriveChaosBlastRadiusSummary(steps, compounded);
+    expect(blastRadius.modes).toEqual(['dependency-lag', 'az-down', 'traffic-surge']);
+    expect(blastRadius.mode).toBe('traffic-surge');
+  });
+
+  it('skips steps scheduled after a time-stepped run ends and reports them', () => {
+    const late: ChaosExperimentStep[] = [
+      { atSecond: 30, profile: { mode: 'dependency-lag', targetComponentId: 'db', lagMs: 200 } },
+      { atSecond: 1800, profile: { mode: 'traffic-surge', surgeMultiplier: 3 } }
+    ];
+    const chaos = applyChaosExperiment(input, late, timeSteppedWindowSeconds(input));
+    const result = runTimeSteppedSimulation(input, { stages: chaos.stages });
+    const blastRadius = deriveChaosBlastRadiusSummary(late, result, chaos.input, chaos.skipped);
+
+    expect(chaos.stages.map((stage) => stage.atSecond)).toEqual([30]);
+    expect(chaos.input.trafficProfile.baselineRps).toBe(1000);
+    expect(blastRadius.modes).toEqual(['dependency-lag']);
+    expect(blastRadius.skippedModes).toEqual(['traffic-surge']);
+    expect(blastRadius.summary).toContain('1 step was scheduled after the run ended and skipped');
+  });
+
+  it('starts a scheduled primary failover when its step fires', () => {
+    const replicated: SimulationInputContract = {
+      ...input,
+      components: input.components.map((item) =>
+        item.id === 'db'
+          ? {
+              ...item,
+              databaseConfig: {
+                readReplicas: 1,
+                shardCount: 1,
+                shardKey: null,
+                replication: 'async',
+                consistency: 'eventual'
+              }
+            }
+          : item
+      )
+    };
+    const chaos = applyChaosExperiment(replicated, [
+      { atSecond: 45, profile: { mode: 'primary-failover', targetComponentId: 'db' } }
+    ]);
+    const result = runTimeSteppedSimulation(replicated, { stages: chaos.stages });
+    const started = result.timeline.find((event) => event.title === 'Primary failover started on database-db');
+    const promoted = result.timeline.find((event) => event.title === 'Replica promoted on database-db');
+
+    expect(started?.atSecond).toBe(45);
+    expect(promoted?.atSecond).toBe(75);
+  });
+});
+
+describe('link failures', () => {
+  const zoned = (id: string, type: ArchitectureComponent['type'], zones: ArchitectureComponent['placement']['zones']) => ({
+    ...component(id, type, 20_000, zones.length),
+    placement: { region: 'usEast' as const, zones }
+  });
+  const input: SimulationInputContract = {
+    components: [
+      component('client', 'client', 1_000_000),
+      zoned('lb', 'load-balancer', ['az-a', 'az-b']),
+      zoned('svc-a', 'service', ['az-a']),
+      zoned('svc-b', 'service', ['az-b']),
+      zoned('db', 'database', ['az-a'])
+    ],
+    edges: [
+      { id: 'e1', sourceId: 'client', targetId: 'lb' },
+      { id: 'e2', sourceId: 'lb', targetId: 'svc-a' },
+      { id: 'e3', sourceId: 'lb', targetId: 'svc-b' },
+      { id: 'e4', sourceId: 'svc-a', targetId: 'db' },
+      { id: 'e5', sourceId: 'svc-b', targetId: 'db' }
+    ],
+    trafficProfile: { ...defaultTrafficProfile, baselineRps: 1000, peakMultiplier: 2, burstiness: 'steady' }
+  };
+  const retried: NonNullable<ArchitectureEdge['callPolicy']> = {
+    mode: 'sync',
+    timeoutMs: 500,
+    retries: 2,
+    backoff: 'fixed',
+    backoffMs: 50
+  };
+
+  it('splits links that cross a zone partition and reports cut-off components', () => {
+    const injected = applyFailureInjection(input, { mode: 'network-partition', partitionZones: ['az-b'] });
+    const lossById = new Map(injected.input.edges.map((edge) => [edge.id, edge.packetLossPercent ?? 0]));
+
+    expect(lossById.get('e1')).toBe(0);
+    expect(lossById.get('e2')).toBeCloseTo(50);
+    expect(lossById.get('e3')).toBeCloseTo(50);
+    expect(lossById.get('e5')).toBe(100);
+    expect(injected.notes).not.toContain('service-svc-b is unreachable from every client.');
+
+    const cut = applyFailureInjection(input, { mode: 'network-partition', edgeIds: ['e3'] });
+    const result = runArchitectureSimulation(cut.input);
+    const blastRadius = deriveBlastRadiusSummary({ mode: 'network-partition', edgeIds: ['e3'] }, result, cut.input);
+
+    expect(cut.notes).toContain('service-svc-b is unreachable from every client.');
+    expect(propagateTrafficDemand(cut.input, 1000).get('svc-b') ?? 0).toBe(0);
+    expect(result.metrics.errorRatePercent).toBeCloseTo(50, 0);
+    expect(blastRadius.impactedComponents.map((item) => item.componentId)).toContain('svc-b');
+  });
+
+  it('fails lost calls outright without a call policy and retries them with one', () => {
+    const lossy = (callPolicy?: ArchitectureEdge['callPolicy']) =>
+      applyFailureInjection(
+        { ...input, edges: input.edges.map((edge) => (edge.id === 'e4' ? { ...edge, callPolicy } : edge)) },
+        { mode: 'packet-loss', edgeIds: ['e4'], lossPercent: 20 }
+      ).input;
+    const healthy = runArchitectureSimulation(input);
+    const unguarded = runArchitectureSimulation(lossy());
+    const guarded = runArchitectureSimulation(lossy(retried));
+    const edge = guarded.metrics.edgeCalls?.[0];
+
+    expect(unguarded.metrics.errorRatePercent).toBeCloseTo(10, 0);
+    expect(edge?.attemptsPerCall).toBeCloseTo(1.24, 2);
+    expect(guarded.metrics.errorRatePercent).toBeLessThan(1);
+    expect(guarded.metrics.p95LatencyMs).toBeGreaterThan(healthy.metrics.p95LatencyMs);
+  });
+
+  it('fails calls over a cut link in time-stepped runs', () => {
+    const cut = applyFailureInjection(input, { mode: 'network-partition', edgeIds: ['e5'] });
+    const result = runTimeSteppedSimulation(cut.input);
+
+    expect(result.metrics.errorRatePercent).toBeGreaterThan(40);
+  });
+});
+
+describe('capacity planning', () => {
+  const input = (svcReplicas: number, svcTier: ArchitectureComponent['scaling']['verticalTier']): SimulationInputContract => ({
+    components: [
+      component('client', 'client', 1_000_000),
+      { ...component('svc', 'service', 500, svcReplicas), scaling: { replicas: svcReplicas, verticalTier: svcTier } },
+      component('db', 'database', 4000, 2)
+    ],
+    edges: [
+      { id: 'e1', sourceId: 'client', targetId: 'svc' },
+      { id: 'e2', sourceId: 'svc', targetId: 'db' }
+    ],
+    trafficProfile: { ...defaultTrafficProfile, baselineRps: 1000, peakMultiplier: 2, burstiness: 'steady' }
+  });
+  const targets = { p95LatencyMs: 400, errorRatePercent: 1, headroomPercent: 30 };
+  const applyPlan = (base: SimulationInputContract, plan: ReturnType<typeof planCapacity>) => ({
+    ...base,
+    components: base.components.map((item) => {
+      const change = plan.changes.find((candidate) => candidate.componentId === item.id);
+      return change ? { ...item, scaling: { ...item.scaling, ...change.to } } : item;
+    })
+  });
+
+  it('scales out an under-provisioned tier until it keeps the requested headroom', () => {
+    const base = input(1, 'medium');
+    const plan = planCapacity(base, targets);
+    const result = runArchitectureSimulation(applyPlan(base, plan));
+
+    expect(plan.feasible).toBe(true);
+    expect(plan.changes.find((change) => change.componentId === 'svc')?.to.replicas).toBeGreaterThan(1);
+    expect(plan.monthlyCostUsdAfter).toBeGreaterThan(plan.monthlyCostUsdBefore);
+    expect(result.metrics.saturated).toBe(false);
+    expect(result.bottlenecks.every((bottleneck) => bottleneck.utilizationPercent <= 70)).toBe(true);
+    expect(plan.projectedMetrics.p95LatencyMs).toBeCloseTo(result.metrics.p95LatencyMs, 6);
+  });
+
+  it('trims over-provisioned tiers without dropping them to a single replica', () => {
+    const plan = planCapacity(input(20, 'xlarge'), targets);
+    const svc = plan.changes.find((change) => change.componentId === 'svc');
+
+    expect(plan.feasible).toBe(true);
+    expect(plan.monthlyCostUsdAfter).toBeLessThan(plan.monthlyCostUsdBefore);
+    expect(svc?.to.replicas).toBeGreaterThanOrEqual(2);
+  });
+
+  it('reports targets no sizing can meet', () => {
+    const plan = planCapacity(input(2, 'medium'), { ...targets, p95LatencyMs: 1 });
+
+    expect(plan.feasible).toBe(false);
+    expect(plan.notes.some((note) => note.startsWith('p95 latency stays at'))).toBe(true);
+  });
+});
+
+describe('cost model', () => {
+  const input: SimulationInputContract = {
+    components: [
+      component('client', 'client', 1_000_000),
+      component('gateway', 'api-gateway', 5000, 2),
+      { ...component('svc', 'service', 5000, 3), scaling: { replicas: 3, verticalTier: 'large' } },
+      component('db', 'database', 5000)
+    ],
+    edges: [
+      { id: 'e1', sourceId: 'client', targetId: 'gateway' },
+      { id: 'e2', sourceId: 'gateway', targetId: 'svc' },
+      { id: 'e3', sourceId: 'svc', targetId: 'db' }
+    ],
+    trafficProfile: { ...defaultTrafficProfile, baselineRps: 1000, burstiness: 'steady' }
+  };
+
+  it('prices nodes by tier and bills gateway traffic per request', () => {
+    const cost = estimateArchitectureCost(input);
+
+    // 2 x $40 gateway + 3 x $70 x 2 (large) service + $220 database, plus 2,592M gateway calls at $1/M.
+    expect(cost.monthlyCostUsd).toBeCloseTo(80 + 420 + 220 + 2592, 6);
+    expect(cost.costPerMillionRequestsUsd).toBeCloseTo(cost.monthlyCostUsd / 2592, 6);
+  });
+
+  it('uses the pricing carried by the input over the defaults', () => {
+    const cost = estimateArchitectureCost({
+      ...input,
+      pricing: { nodeMonthlyUsd: { service: 100 }, tierMultiplier: {}, perMillionRequestsUsd: { 'api-gateway': 0 } }
+    });
+
+    expect(cost.monthlyCostUsd).toBeCloseTo(80 + 600 + 220, 6);
+  });
+
+  it('bills a points shape at its average demand', () => {
+    const shaped: SimulationInputContract = {
+      ...input,
+      trafficProfile: {
+        ...input.trafficProfile,
+        shape: {
+          kind: 'points',
+          durationSeconds: 300,
+          points: [
+            { atSecond: 0, rps: 200 },
+            { atSecond: 300, rps: 600 }
+          ]
+        }
+      }
+    };
+    const atAverage = estimateArchitectureCost({
+      ...input,
+      trafficProfile: { ...input.trafficProfile, baselineRps: 400 }
+    });
+
+    expect(estimateArchitectureCost(shaped)).toEqual(atAverage);
+  });
+
+  it('reports cost in every simulation mode', () => {
+    const { monthlyCostUsd } = estimateArchitectureCost(input);
+
+    expect(runArchitectureSimulation(input).metrics.monthlyCostUsd).toBe(monthlyCostUsd);
+    expect(runTimeSteppedSimulation(input).metrics.monthlyCostUsd).toBe(monthlyCostUsd);
+    expect(runMonteCarloSimulation(input, { seed: 7, iterations: 5 }).metrics.monthlyCostUsd).toBe(
+      monthlyCostUsd
+    );
+  });
+});
+
+describe('parameter sweeps', () => {
+  const input: SimulationInputContract = {
+    components: [
+      component('client', 'client', 1_000_000),
+      component('svc', 'service', 2000, 2),
+      component('db', 'database', 50_000, 2)
+    ],
+    edges: [
+      { id: 'e1', sourceId: 'client', targetId: 'svc' },
+      { id: 'e2', sourceId: 'svc', targetId: 'db' }
+    ],
+    trafficProfile: { ...defaultTrafficProfile, baselineRps: 1000, peakMultiplier: 1, burstiness: 'steady' }
+  };
+
+  it('spaces values linearly or logarithmically', () => {
+    expect(
+      sweepValues({ parameter: 'baselineRps', from: 1000, to: 100_000, steps: 3, scale: 'log' })
+    ).toEqual([1000, 10_000, 100_000]);
+    expect(
+      sweepValues({ parameter: 'replicas', componentId: 'svc', from: 1, to: 3, steps: 5, scale: 'linear' })
+    ).toEqual([1, 2, 3]);
+  });
+
+  it('narrows the load at which the system starts to saturate', () => {
+    const sweep = runParameterSweep(input, {
+      parameter: 'baselineRps',
+      from: 1000,
+      to: 100_000,
+      steps: 6,
+      scale: 'log'
+    });
+    const at = (baselineRps: number) =>
+      runArchitectureSimulation({ ...input, trafficProfile: { ...input.trafficProfile, baselineRps } }).metrics;
+
+    expect(sweep.points[0]?.saturated).toBe(false);
+    expect(sweep.points[sweep.points.length - 1]?.saturated).toBe(true);
+    expect(sweep.breakingPoint?.componentId).toBe('svc');
+    expect(at(sweep.breakingPoint?.healthyValue ?? 0).saturated).toBe(false);
+    expect(at(sweep.breakingPoint?.saturatedValue ?? 0).saturated).toBe(true);
+    expect((sweep.breakingPoint?.saturatedValue ?? 0) - (sweep.breakingPoint?.healthyValue ?? 0)).toBeLessThanOrEqual(
+      20
+    );
+  });
+
+  it('scales a points shape with the swept baseline', () => {
+    const spec = { parameter: 'baselineRps', from: 1000, to: 100_000, steps: 6, scale: 'log' } as const;
+    const shaped: SimulationInputContract = {
+      ...input,
+      trafficProfile: {
+        ...input.trafficProfile,
+        shape: {
+          kind: 'points',
+          durationSeconds: 300,
+          points: [
+            { atSecond: 0, rps: 500 },
+            { atSecond: 150, rps: 1000 },
+            { atSecond: 300, rps: 500 }
+          ]
+        }
+      }
+    };
+    const sweep = runParameterSweep(shaped, spec);
+
+    expect(sweep.points[0]?.saturated).toBe(false);
+    expect(sweep.points[sweep.points.length - 1]?.saturated).toBe(true);
+    expect(sweep.breakingPoint).toEqual(runParameterSweep(input, spec).breakingPoint);
+  });
+
+  it('finds the fewest replicas that keep up when sweeping a component', () => {
+    const heavy = { ...input, trafficProfile: { ...input.trafficProfile, baselineRps: 6000 } };
+    const sweep = runParameterSweep(heavy, {
+      parameter: 'replicas',
+      componentId: 'svc',
+      from: 1,
+      to: 12,
+      steps: 12,
+      scale: 'linear'
+    });
+
+    expect(sweep.points.map((point) => point.value)).toHaveLength(12);
+    expect(sweep.points[0]?.saturated).toBe(true);
+    expect(sweep.breakingPoint?.saturatedValue).toBe((sweep.breakingPoint?.healthyValue ?? 0) - 1);
+  });
+});
+
+describe('SLO evaluation', () => {
+  const input: SimulationInputContract = {
+    components: [
+      component('client', 'client', 1_000_000),
+      component('svc', 'service', 2000, 2),
+      component('db', 'database', 50_000, 2)
+    ],
+    edges: [
+      { id: 'e1', sourceId: 'client', targetId: 'svc' },
+      { id: 'e2', sourceId: 'svc', targetId: 'db' }
+    ],
+    trafficProfile: { ...defaultTrafficProfile, baselineRps: 1000, peakMultiplier: 1, burstiness: 'steady' }
+  };
+
+  it('passes a healthy run with most of the error budget left', () => {
+    const result = runArchitectureSimulation(input);
+    const evaluation = evaluateSlo(
+      { availabilityPercent: 99, p95LatencyMs: 5000, regionTargets: [{ region: 'usEast', p95LatencyMs: 5000 }] },
+      result,
+      input
+    );
+
+    expect(evaluation.passed).toBe(true);
+    expect(evaluation.objectives.map((entry) => entry.objective)).toEqual([
+      'availability',
+      'p95-latency',
+      'regional-p95-latency'
+    ]);
+    expect(evaluation.errorBudgetBurnedPercent).toBeLessThan(100);
+    expect(evaluation.breachComponents).toEqual([]);
+  });
+
+  it('blames the saturated component for a breached availability target', () => {
+    const overloaded = { ...input, trafficProfile: { ...input.trafficProfile, baselineRps: 8000 } };
+    const evaluation = evaluateSlo(
+      { availabilityPercent: 99.9, regionTargets: [] },
+      runArchitectureSimulation(overloaded),
+      overloaded
+    );
+
+    expect(evaluation.passed).toBe(false);
+    expect(evaluation.errorBudgetBurnedPercent).toBeGreaterThan(100);
+    expect(evaluation.breachComponents.map((entry) => entry.componentId)).toEqual(['svc']);
+  });
+});
+
+describe('critical path explanation', () => {
+  const input: SimulationInputContract = {
+    components: [
+      component('client', 'client', 1_000_000),
+      component('svc', 'service', 5000, 4),
+      { ...component('cache', 'cache', 100_000), cacheConfig: { hitRatio: 0.9, ttlSeconds: 600, evictionPolicy: 'lru', state: 'warm' } },
+      component('db', 'database', 1500)
+    ],
+    edges: [
+      { id: 'e1', sourceId: 'client', targetId: 'svc' },
+      { id: 'e2', sourceId: 'svc', targetId: 'cache' },
+      { id: 'e3', sourceId: 'cache', targetId: 'db' }
+    ],
+    trafficProfile: {
+      ...defaultTrafficProfile,
+      baselineRps: 1000,
+      peakMultiplier: 1,
+      burstiness: 'steady',
+      readPercentage: 80,
+      writePercentage: 20
+    }
+  };
+
+  it('traces read and write paths and attributes latency to each hop', () => {
+    const explanation = runArchitectureSimulation(input).explanation;
+    const read = explanation?.criticalPaths.find((path) => path.kind === 'read');
+    const write = explanation?.criticalPaths.find((path) => path.kind === 'write');
+
+    expect(write?.hops.map((hop) => hop.componentId)).toEqual(['client', 'svc', 'cache', 'db']);
+    expect(write?.probability).toBeCloseTo(1);
+    expect(read?.probability).toBeCloseTo(0.1);
+    // Both paths pay the same last mile on top of their hops.
+    const overheadMs = (path: typeof read) =>
+      (path?.latencyMs ?? 0) - (path?.hops.reduce((sum, hop) => sum + hop.latencyMs, 0) ?? 0);
+    expect(overheadMs(read)).toBeGreaterThan(0);
+    expect(overheadMs(read)).toBeCloseTo(overheadMs(write));
+    expect(read?.hops.find((hop) => hop.componentId === 'db')?.callsPerRequest).toBeCloseTo(0.1);
+    expect(write?.hops.find((hop) => hop.componentId === 'db')?.callsPerRequest).toBeCloseTo(1);
+  });
+
+  it('names the first component to saturate and why', () => {
+    const explanation = runArchitectureSimulation(input).explanation;
+    const dbShare = 0.8 * 0.1 + 0.2;
+    const bottleneck = runArchitectureSimulation({
+      ...input,
+      trafficProfile: { ...input.trafficProfile, baselineRps: 20_000 }
+    }).bottlenecks.find((entry) => entry.componentId === 'db');
+
+    expect(explanation?.limitingComponentId).toBe('db');
+    expect(explanation?.saturatesAtRps).toBeCloseTo((bottleneck?.capacityRps ?? 0) / dbShare, 0);
+    expect(explanation?.summary).toContain('database-db saturates at');
+    expect(explanation?.summary).toContain('1 cache-cache replica sends it');
+    expect(explanation?.summary).toContain('0.08 reads and 0.20 writes per request');
+    expect(bottleneck?.reason).toContain('saturates once entry traffic passes');
+  });
+});
+
+describe('queue backlog', () => {
+  const queued = (overflow: 'drop' | 'back-pressure', maxDepth = 1_000_000): SimulationInputContract => ({
+    components: [
+      component('client', 'client', 1_000_000),
+      component('api', 'service', 20_000, 2),
+      {
+        ...component('queue', 'queue', 50_000),
+        queueConfig: { consumers: 2, consumerRps: 500, maxDepth, retentionSeconds: 3600, overflow }
+      },
+      component('worker', 'service', 20_000)
+    ],
+    edges: [
+      { id: 'e1', sourceId: 'client', targetId: 'api' },
+      { id: 'e2', sourceId: 'api', targetId: 'queue' },
+      { id: 'e3', sourceId: 'queue', targetId: 'worker' }
+    ],
+    trafficProfile: {
+      ...defaultTrafficProfile,
+      baselineRps: 800,
+      peakMultiplier: 2,
+      burstiness: 'steady',
+      shape: {
+        kind: 'flash-crowd',
+        durationSeconds: 1200,
+        atSecond: 300,
+        riseSeconds: 0,
+        holdSeconds: 300,
+        decaySeconds: 0
+      }
+    }
+  });
+
+  it('builds backlog and consumer lag during a surge and drains it afterwards', () => {
+    const result = runTimeSteppedSimulation(queued('drop'));
+    const sampleAt = (atSecond: number) =>
+      result.series
+        ?.find((tick) => tick.atSecond === atSecond)
+        ?.components.find((sample) => sample.componentId === 'queue');
+
+    expect(sampleAt(200)?.queueDepth).toBe(0);
+    expect(sampleAt(590)?.queueDepth).toBeGreaterThan(100_000);
+    expect(sampleAt(590)?.consumerLagSeconds).toBeGreaterThan(100);
+    expect(sampleAt(1200)?.queueDepth).toBeLessThan(sampleAt(590)?.queueDepth ?? 0);
+    expect(result.metrics.queues?.[0]).toMatchObject({ componentId: 'queue', consumerRps: 1000, backPressure: false });
+    expect(result.timeline.map((event) => event.title)).toContain('Backlog building on queue-queue');
+  });
+
+  it('caps downstream demand at the consumer drain rate', () => {
+    const demand = propagateTrafficDemand(queued('drop'), 1600);
+
+    expect(demand.get('queue')).toBeCloseTo(1600);
+    expect(demand.get('worker')).toBeCloseTo(1000);
+  });
+
+  it('drops overflow on the queue or pushes it back onto its producers', () => {
+    const dropping = runTimeSteppedSimulation(queued('drop', 50_000));
+    const pushing = runTimeSteppedSimulation(queued('back-pressure', 50_000));
+    const peakDrops = (result: typeof dropping, componentId: string) =>
+      Math.max(
+        0,
+        ...(result.series ?? []).map(
+          (tick) => tick.components.find((sample) => sample.componentId === componentId)?.droppedRps ?? 0
+        )
+      );
+
+    expect(peakDrops(dropping, 'queue')).toBeGreaterThan(0);
+    expect(peakDrops(dropping, 'api')).toBe(0);
+    // Refused messages fill the producers' buffers before the producers start dropping.
+    expect(peakDrops(pushing, 'queue')).toBe(0);
+    expect(peakDrops(pushing, 'api')).toBeGreaterThan(0);
+    expect(pushing.metrics.queues?.[0]?.backPressure).toBe(true);
+    expect(pushing.timeline.map((event) => event.title)).toContain('Back-pressure from queue-queue');
+  });
+
+  it('reports steady-state backlog and counts delayed messages in the blast radius', () => {
+    const input = queued('drop');
+    const overloaded = runArchitectureSimulation({
+      ...input,
+      trafficProfile: { ...input.trafficProfile, baselineRps: 1500, peakMultiplier: 1, shape: undefined }
+    });
+    const blastRadius = deriveBlastRadiusSummary({ mode: 'traffic-surge', surgeMultiplier: 1 }, overloaded);
+
+    // The queue fills to its max depth before an hour of backlog can expire.
+    expect(overloaded.metrics.queues?.[0]?.peakBacklog).toBe(1_000_000);
+    expect(overloaded.metrics.queues?.[0]?.peakLagSeconds).toBeCloseTo(1000);
+    expect(overloaded.metrics.queues?.[0]?.droppedRps).toBeCloseTo(500);
+    expect(blastRadius.messagesDelayed).toBe(1_000_000);
+    expect(blastRadius.summary).toContain('1,000,000 messages delayed');
+  });
+
+  it('defers rather than drops the steady-state excess on a back-pressure queue', () => {
+    const input = queued('back-pressure');
+    const overloaded = runArchitectureSimulation({
+      ...input,
+      trafficProfile: { ...input.trafficProfile, baselineRps: 1500, peakMultiplier: 1, shape: undefined }
+    });
+
+    expect(overloaded.metrics.queues?.[0]).toMatchObject({ backPressure: true, droppedRps: 0 });
+    expect(overloaded.metrics.queues?.[0]?.deferredRps).toBeCloseTo(500);
+  });
+});
+
+describe('component registry', () => {
+  const input: SimulationInputContract = {
+    components: [
+      component('client', 'client', 1_000_000),
+      component('flags', 'feature-flag-store', 1000),
+      component('db', 'database', 5000)
+    ],
+    edges: [
+      { id: 'e1', sourceId: 'client', targetId: 'flags' },
+      { id: 'e2', sourceId: 'flags', targetId: 'db' }
+    ],
+    trafficProfile: {
+      ...defaultTrafficProfile,
+      baselineRps: 1000,
+      peakMultiplier: 1,
+      burstiness: 'steady',
+      readPercentage: 90,
+      writePercentage: 10
+    }
+  };
+  // Each test registers into fresh copies of the engine and shared types so the model never
+  // leaks into other tests.
+  let engine: typeof import('./index');
+
+  beforeEach(async () => {
+    vi.resetModules();
+    engine = await import('./index');
+    engine.registerComponentModel(
+      {
+        type: 'feature-flag-store',
+        label: 'Feature Flag Store',
+        icon: 'FF',
+        stateful: true,
+        pricing: { nodeMonthlyUsd: 12 },
+        topology: { singlePointOfFailure: false },
+        grading: { roles: ['read-cache'], horizontallyScaled: false, statelessTier: false }
+      },
+      {
+        hopOverheadMs: 0.3,
+        // Flags are evaluated in memory; only writes reach the source of truth.
+        passThroughRatio: (_component, trafficProfile) => trafficProfile.writePercentage / 100,
+        capacity: (_component, estimatedRps) => estimatedRps * 10
+      }
+    );
+  });
+
+  it('simulates a registered type with its own demand and capacity functions', () => {
+    const demand = engine.propagateTrafficDemand(input, 1000);
+    const result = engine.runArchitectureSimulation(input);
+
+    expect(demand.get('db')).toBeCloseTo(100);
+    // A plain 1000 ops/s stateful node would saturate at this load.
+    expect(result.metrics.saturated).toBe(false);
+  });
+
+  it('falls back to the definition pricing', () => {
+    // One medium database node at the default price, plus the flag store.
+    expect(engine.estimateArchitectureCost(input).monthlyCostUsd).toBeCloseTo(220 + 12);
+  });
+
+  it('keeps registrations out of the shared modules', () => {
+    expect(componentDefinition('feature-flag-store')).toBeUndefined();
+  });
+
+  it('ships every custom model with a definition each app loads on import', () => {
+    const shared = new Set(customComponentDefinitions.map((definition) => definition.type));
+
+    expect(customComponentModels.filter((model) => !shared.has(model.type))).toEqual([]);
+    for (const definition of customComponentDefinitions) {
+      expect(componentDefinition(definition.type)).toBe(definition);
+    }
+  });
+});
+
+describe('queueing latency model', () => {
+  it('matches closed-form Erlang C values', () => {
+    expect(erlangC(1, 0.5)).toBeCloseTo(0.5);
+    expect(erlangC(2, 1)).toBeCloseTo(1 / 3);
+    expect(erlangC(3, 3.5)).toBe(1);
+  });
+
+  it('returns the mean for a single deterministic path', () => {
+    expect(latencyMixtureQuantile([{ probability: 1, meanMs: 40, varianceMs2: 0 }], 0.95)).toBeCloseTo(40);
+  });
+
+  it('lowers latency when replicas are added to a busy service', () => {
+    const build = (replicas: number): SimulationInputContract => ({
+      components: [
+        component('client', 'client', 1_000_000),
+        component('svc', 'service', 3000, replicas),
+        component('db', 'database', 50_000, 2)
+      ],
+      edges: [
+        { id: 'e1', sourceId: 'client', targetId: 'svc' },
+        { id: 'e2', sourceId: 'svc', targetId: 'db' }
+      ],
+      trafficProfile: defaultTrafficProfile
+    });
+
+    const twoReplicas = runArchitectureSimulation(build(2)).metrics;
+    const threeReplicas = runArchitectureSimulation(build(3)).metrics;
+
+    expect(threeReplicas.p95LatencyMs).toBeLessThan(twoReplicas.p95LatencyMs);
+    expect(threeReplicas.p50LatencyMs).toBeLessThan(threeReplicas.p95LatencyMs);
+    expect(threeReplicas.p95LatencyMs).toBeLessThan(threeReplicas.p99LatencyMs ?? 0);
+  });
+
+  it('adds latency for every hop on the request path', () => {
+    const shortPath = runArchitectureSimulation({
+      components: [component('client', 'client', 1_000_000), component('svc', 'service', 50_000, 2)],
+      edges: [{ id: 'e1', sourceId: 'client', targetId: 'svc' }],
+      trafficProfile: defaultTrafficProfile
+    });
+    const longPath = runArchitectureSimulation({
+      components: [
+        component('client', 'client', 1_000_000),
+        component('svc', 'service', 50_000, 2),
+        component('db', 'database', 50_000, 2)
+      ],
+      edges: [
+        { id: 'e1', sourceId: 'client', targetId: 'svc' },
+        { id: 'e2', sourceId: 'svc', targetId: 'db' }
+      ],
+      trafficProfile: defaultTrafficProfile
+    });
+
+    expect(longPath.metrics.p50LatencyMs).toBeGreaterThan(shortPath.metrics.p50LatencyMs);
+  });
+});
+
+describe('replay diff', () => {
+  const build = (replicas: number): SimulationInputContract => ({
+    components: [
+      component('client', 'client', 1_000_000),
+      component('svc', 'service', 3000, replicas),
+      component('db', 'database', 50_000, 2)
+    ],
+    edges: [
+      { id: 'e1', sourceId: 'client', targetId: 'svc' },
+      { id: 'e2', sourceId: 'svc', targetId: 'db' }
+    ],
+    trafficProfile: defaultTrafficProfile
+  });
+
+  it('finds nothing to report when a stored input is recomputed', () => {
+    const original = runMonteCarloSimulation(build(2), { seed: 42, iterations: 20 });
+    const replay = runMonteCarloSimulation(build(2), { seed: 42, iterations: 20 });
+
+    const diff = diffSimulationResults(original, replay);
+
+    expect(diff.identical).toBe(true);
+    expect(diff.bottleneckChanges).toEqual([]);
+    expect(diff.metricDeltas.every((item) => item.delta === null || item.delta === 0)).toBe(true);
+  });
+
+  it('reports metric deltas and bottlenecks that appear or clear', () => {
+    const before = runArchitectureSimulation(build(1));
+    const after = runArchitectureSimulation(build(20));
+
+    const diff = diffSimulationResults(before, after);
+    const throughput = diff.metricDeltas.find((item) => item.metric === 'throughputRps');
+
+    expect(diff.identical).toBe(false);
+    expect(throughput?.delta).toBe(after.metrics.throughputRps - before.metrics.throughputRps);
+    expect(diff.bottleneckChanges.find((item) => item.componentId === 'svc')?.change).toBe('removed');
+  });
+});
@@ -1,13 +1,112 @@
 import {
   ArchitectureComponent,
+  AvailabilityZone,
   BlastRadiusSummary,
-  ComponentType,
+  CapacityPlan,
+  CapacityPlanChange,
+  CapacityPlanTargets,
+  ComponentSizing,
+  ChaosExperimentStep,
+  CriticalPath,
+  CriticalPathHop,
+  CriticalPathKind,
+  EdgeCallMetrics,
+  EdgeCallPolicy,
   FailureInjectionProfile,
+  ParameterSweepPoint,
+  ParameterSweepSpec,
+  PricingTable,
+  QueueMetrics,
+  Region,
+  RegionalLatency,
+  RunExplanation,
   SimulationComputationResult,
+  SimulationConfidenceSummary,
+  SimulationMetricBand,
+  SimulationTick,
   SimulationTimelineEvent,
+  SloBreachComponent,
+  SloDefinition,
+  SloEvaluation,
+  SloObjectiveResult,
+  SweepBreakingPoint,
+  SweepParameter,
   TrafficProfile,
+  VerticalTier,
+  defaultPricingTable,
+  isComponentType,
+  trafficDemandRps,
+  trafficMeanDemandRps,
+  trafficPeakDemandRps,
   type SimulationInputContract
 } from '@sdc/shared-types';
+import {
+  type CallState,
+  amplifiedRouteWeights,
+  attemptFailureRatio,
+  callPoliciesByEdge,
+  edgeKey,
+  expectedAttempts,
+  expectedRetryDelayMs,
+  failureAfterRetries,
+  linkLossByEdge,
+  lossyRouteWeights,
+  requestFailureRatios
+} from './calls.js';
+import {
+  bufferSeconds,
+  componentModel,
+  consumerGroupRouteWeights,
+  drainRps,
+  endsCallerWait,
+  enforcesRateLimit,
+  passThroughRatio,
+  requestCost,
+  scheduledJobRatio
+} from './catalog.js';
+import { SECONDS_PER_MONTH, nodesMonthlyUsd, usageMonthlyUsd } from './cost.js';
+import {
+  REPLICATION_LAG_WARNING_MS,
+  databaseNodeCount,
+  databaseTopology,
+  failoverSeconds,
+  failoverUnavailableShare,
+  hottestNodeLoad,
+  replicasServeReads,
+  replicationLagMs,
+  syncReplicationDelayMs
+} from './database.js';
+import {
+  type ComponentGraph,
+  type WeightedPath,
+  buildComponentGraph,
+  enumerateRequestPaths,
+  propagateDemand,
+  reachableComponentIds
+} from './graph.js';
+import {
+  type LatencyMoments,
+  latencyExceedance,
+  latencyMixtureQuantile,
+  mmcStationLatency
+} from './queueing.js';
+import { queueConfigOf, queueDrainRps, stepQueue, steadyQueue } from './queues.js';
+import { type RandomSource, createSeededRandom, percentileOf } from './random.js';
+import {
+  LAST_MILE_RTT_MS,
+  REGIONS,
+  blendedRouteWeights,
+  effectiveRegion,
+  geoRouteWeights,
+  interRegionRttMs
+} from './regions.js';
+
+export { type ComponentModel, registerComponentModel } from './catalog.js';
+export {
+  type SimulationResultDiff,
+  type SimulationResultSnapshot,
+  diffSimulationResults
+} from './replay-diff.js';
 
 export type SimulationInput = {
   requestsPerSecond: number;
@@ -20,18 +119,65 @@ export type SimulationOutput = {
   saturated: boolean;
 };
 
-const VERTICAL_MULTIPLIER: Record<ArchitectureComponent['scaling']['verticalTier'], number> = {
+export type TimeSteppedSimulationOptions = {
+  durationSeconds?: number;
+  tickSeconds?: number;
+  // Inputs that take over from their `atSecond` onward, such as the steps of a chaos experiment.
+  stages?: SimulationStage[];
+  // Called as each tick completes, with the timeline events raised up to and during it.
+  onTick?: (tick: SimulationTick, events: SimulationTimelineEvent[]) => void;
+};
+
+export type SimulationStage = {
+  atSecond: number;
+  input: SimulationInputContract;
+};
+
+export type MonteCarloSimulationOptions = {
+  seed: number;
+  iterations?: number;
+};
+
+const VERTICAL_MULTIPLIER: Record<VerticalTier, number> = {
   small: 0.75,
   medium: 1,
   large: 1.45,
   xlarge: 1.9
 };
 
-const BURST_FACTOR: Record<TrafficProfile['burstiness'], number> = {
-  steady: 1,
-  spiky: 1.2,
-  extreme: 1.45
+const DEFAULT_WINDOW_SECONDS = 300;
+const DEFAULT_TICK_SECONDS = 1;
+// Long traffic shapes are stepped at coarser ticks so a run stays within this many samples.
+const MAX_SERIES_TICKS = 720;
+// A component buffers at most this many seconds of its own capacity before shedding requests.
+const QUEUE_TIMEOUT_SECONDS = 2;
+
+// Stamped on every run. Bump it whenever a change makes the same input produce different results.
+export const SIMULATION_ENGINE_VERSION = '1.0.0';
+
+export const DEFAULT_MONTE_CARLO_ITERATIONS = 200;
+// Log-space spread of the per-iteration arrival burst; mean-corrected so the expected demand is unchanged.
+const BURST_SIGMA: Record<TrafficProfile['burstiness'], number> = {
+  steady: 0.05,
+  spiky: 0.15,
+  extreme: 0.3
 };
+const COMPONENT_JITTER_SIGMA = 0.08;
+
+// Time constant for a cold cache to fill back up to its steady-state hit ratio.
+const COLD_CACHE_WARMUP_SECONDS = 45;
+
+// Most replicas the capacity planner suggests for one component.
+const MAX_PLANNED_REPLICAS = 64;
+// Single-step upgrades the planner tries after sizing for headroom before it gives up.
+const MAX_PLANNING_ROUNDS = 40;
+// Bisection steps between the two swept values on either side of a sweep's breaking point.
+const BREAKING_POINT_BISECTIONS = 12;
+
+// Passes of the retry/load fixed point; retries feed back into the load that fails them.
+const CALL_RESOLUTION_PASSES = 12;
+// Expected attempts per call at which the timeline calls out a retry storm.
+const RETRY_STORM_ATTEMPTS = 1.5;
 
 type FailureInjectionApplication = {
   input: SimulationInputContract;
@@ -43,40 +189,211 @@ function clamp(value: number, min: number, max: number): number {
   return Math.min(max, Math.max(min, value));
 }
 
-function resolveAzName(component: ArchitectureComponent): 'az-a' | 'az-b' {
-  return component.position.x <= 2500 ? 'az-a' : 'az-b';
-}
-
 function safeComponentCapacity(value: number): number {
   return Math.max(1, value);
 }
 
-function componentDemandWeight(type: ComponentType, trafficProfile: TrafficProfile): number {
-  const readRatio = trafficProfile.readPercentage / 100;
-  const writeRatio = trafficProfile.writePercentage / 100;
-
-  switch (type) {
-    case 'client':
-      return 1;
-    case 'load-balancer':
-      return 1;
-    case 'api-gateway':
-      return 0.96;
-    case 'service':
-      return 0.9;
-    case 'cache':
-      return 0.25 + readRatio * 0.7;
-    case 'database':
-      return 0.3 + writeRatio * 0.68 + readRatio * 0.12;
-    case 'queue':
-      return 0.2 + writeRatio * 0.7;
-    case 'cdn':
-      return 0.18 + readRatio * 0.64;
-    case 'object-store':
-      return 0.15 + writeRatio * 0.62;
-    default:
-      return 0.5;
+function takeComponentOffline(component: ArchitectureComponent): ArchitectureComponent {
+  return {
+    ...component,
+    capacity: {
+      ...component.capacity,
+      opsPerSecond: 1,
+      cpuCores: safeComponentCapacity(component.capacity.cpuCores * 0.1),
+      memoryGb: safeComponentCapacity(component.capacity.memoryGb * 0.15)
+    },
+    scaling: {
+      ...component.scaling,
+      replicas: 1,
+      autoscaling: undefined
+    },
+    databaseConfig: undefined
+  };
+}
+
+/**
+ * Removes the replicas hosted in the lost zones. Replicas are assumed to be spread evenly
+ * across `placement.zones`; a component placed only in lost zones goes fully offline.
+ */
+function loseZoneCapacity(
+  component: ArchitectureComponent,
+  lostZoneCount: number
+): ArchitectureComponent {
+  const survivingShare = 1 - lostZoneCount / component.placement.zones.length;
+  if (survivingShare <= 0) {
+    return takeComponentOffline(component);
+  }
+  if (component.databaseConfig) {
+    // Configured databases keep their shard layout; the lost nodes show up as lost capacity.
+    return {
+      ...component,
+      capacity: {
+        ...component.capacity,
+        opsPerSecond: safeComponentCapacity(component.capacity.opsPerSecond * survivingShare)
+      }
+    };
+  }
+
+  const replicas = Math.max(1, Math.floor(component.scaling.replicas * survivingShare));
+  // A single replica cannot be split across zones, so shrink its capacity instead.
+  const perReplicaShare = (component.scaling.replicas * survivingShare) / replicas;
+
+  return {
+    ...component,
+    capacity: {
+      ...component.capacity,
+      opsPerSecond: safeComponentCapacity(component.capacity.opsPerSecond * perReplicaShare)
+    },
+    scaling: {
+      ...component.scaling,
+      replicas
+    }
+  };
+}
+
+// Loss of a link after another independent loss stacks on top of what it already drops.
+function stackedLossPercent(currentPercent: number | undefined, addedPercent: number): number {
+  return clamp(100 - (100 - (currentPercent ?? 0)) * (1 - addedPercent / 100), 0, 100);
+}
+
+/**
+ * Share of calls between two components that cross a zone partition, with replicas spread
+ * evenly across zones and each call landing on a random target replica. Clients, components
+ * outside `region` and calls between regions are not split.
+ */
+function partitionCrossShare(
+  source: ArchitectureComponent,
+  target: ArchitectureComponent,
+  isolatedZones: Set<AvailabilityZone>,
+  region: string | null
+): number {
+  if (isComponentType(source, 'client') || isComponentType(target, 'client')) {
+    return 0;
+  }
+  if (source.placement.region !== target.placement.region) {
+    return 0;
+  }
+  if (region && source.placement.region !== region) {
+    return 0;
+  }
+
+  const isolatedShare = (component: ArchitectureComponent) =>
+    component.placement.zones.filter((zone) => isolatedZones.has(zone)).length /
+    component.placement.zones.length;
+  const sourceShare = isolatedShare(source);
+  const targetShare = isolatedShare(target);
+  return sourceShare * (1 - targetShare) + (1 - sourceShare) * targetShare;
+}
+
+// Components a client reaches over the full graph but not once cut links are removed.
+function partitionedComponentIds(input: SimulationInputContract): string[] {
+  const graph = buildComponentGraph(input.components, input.edges);
+  const entryIds = resolveEntryComponentIds(input, graph);
+  const connected = buildComponentGraph(
+    input.components,
+    input.edges.filter((edge) => (edge.packetLossPercent ?? 0) < 100)
+  );
+  const stillReachable = reachableComponentIds(connected, entryIds);
+
+  return [...reachableComponentIds(graph, entryIds)].filter(
+    (componentId) => !stillReachable.has(componentId)
+  );
+}
+
+/**
+ * Input with every cold cache partially refilled after `coldSeconds(cacheId)` of warming.
+ * The hit ratio approaches its warm value exponentially.
+ */
+function warmCachesAt(
+  input: SimulationInputContract,
+  coldSeconds: (componentId: string) => number
+): SimulationInputContract {
+  return {
+    ...input,
+    components: input.components.map((component) => {
+      if (!isComponentType(component, 'cache') || component.cacheConfig?.state !== 'cold') {
+        return component;
+      }
+
+      const warmth = 1 - Math.exp(-coldSeconds(component.id) / COLD_CACHE_WARMUP_SECONDS);
+      return {
+        ...component,
+        cacheConfig: {
+          ...component.cacheConfig,
+          state: 'warm',
+          hitRatio: component.cacheConfig.hitRatio * warmth
+        }
+      };
+    })
+  };
+}
+
+function resolveEntryComponentIds(input: SimulationInputContract, graph: ComponentGraph): string[] {
+  const clientIds = input.components
+    .filter((component) => isComponentType(component, 'client'))
+    .map((component) => component.id);
+  if (clientIds.length > 0) {
+    return clientIds;
+  }
+
+  // Without explicit clients, traffic enters wherever nothing routes in. Schedulers only
+  // ever carry their own jobs.
+  return input.components
+    .filter(
+      (component) =>
+        scheduledJobRatio(component) === undefined && (graph.incoming.get(component.id) ?? []).length === 0
+    )
+    .map((component) => component.id);
+}
+
+/**
+ * Splits entry demand by `regionDistribution` and routes each region's share to its
+ * nearest replicas (see `geoRouteWeights`), then sums the per-region demand. Schedulers add
+ * their jobs alongside it, and rate limiters pass on at most the region's share of their
+ * limit. With a `calls` state, retries multiply the load on their edges and open breakers
+ * shed it.
+ */
+export function propagateTrafficDemand(
+  input: SimulationInputContract,
+  entryRps: number,
+  calls?: CallState
+): Map<string, number> {
+  const graph = buildComponentGraph(input.components, input.edges);
+  const entryIds = resolveEntryComponentIds(input, graph);
+  const passThrough = (component: ArchitectureComponent) =>
+    passThroughRatio(component, input.trafficProfile);
+  const policies = callPoliciesByEdge(input.edges);
+  const linkLoss = linkLossByEdge(input.edges);
+  const schedulers = input.components.filter((component) => scheduledJobRatio(component) !== undefined);
+  const total = new Map<string, number>();
+
+  for (const region of REGIONS) {
+    const regionShare = input.trafficProfile.regionDistribution[region] / 100;
+    const regionRps = entryRps * regionShare;
+    if (regionRps <= 0) {
+      continue;
+    }
+
+    const entryDemand = new Map(entryIds.map((componentId) => [componentId, regionRps / entryIds.length]));
+    for (const scheduler of schedulers) {
+      entryDemand.set(scheduler.id, regionRps * (scheduledJobRatio(scheduler) ?? 0));
+    }
+    const baseWeights = lossyRouteWeights(
+      consumerGroupRouteWeights(graph, geoRouteWeights(graph, region)),
+      linkLoss
+    );
+    const routeWeights = calls ? amplifiedRouteWeights(baseWeights, policies, calls) : baseWeights;
+    const forwardLimit = (component: ArchitectureComponent) =>
+      enforcesRateLimit(component)
+        ? componentEffectiveCapacity(component) * regionShare
+        : (drainRps(component) ?? Number.POSITIVE_INFINITY) * regionShare;
+    const demand = propagateDemand(graph, entryDemand, passThrough, routeWeights, forwardLimit);
+    for (const [componentId, rps] of demand) {
+      total.set(componentId, (total.get(componentId) ?? 0) + rps);
+    }
   }
+
+  return total;
 }
 
 function componentEffectiveCapacity(component: ArchitectureComponent): number {
@@ -87,8 +404,370 @@ function componentEffectiveCapacity(component: ArchitectureComponent): number {
   const perReplicaCapacity = component.capacity.opsPerSecond * verticalFactor * cpuBoost * memoryBoost;
   const replicaEfficiency = 0.94;
   const scaledCapacity = perReplicaCapacity * component.scaling.replicas * replicaEfficiency;
+  const estimatedRps = (scaledCapacity * statefulPenalty) / requestCost(component);
+  const capacity = componentModel(component).capacity;
+
+  return Math.max(1, capacity ? capacity(component, estimatedRps) : estimatedRps);
+}
+
+// Load a component keeps up with indefinitely: a queue also needs its consumers to keep pace.
+function sustainedCapacity(component: ArchitectureComponent): number {
+  return Math.min(componentEffectiveCapacity(component), drainRps(component) ?? Number.POSITIVE_INFINITY);
+}
+
+function replicaCapacity(component: ArchitectureComponent): number {
+  return componentEffectiveCapacity(component) / component.scaling.replicas;
+}
+
+/**
+ * Replica count an autoscaler settles on for a sustained `offeredRps`: enough replicas to
+ * run at the policy's target utilization, clamped to its bounds.
+ */
+function autoscaledReplicas(component: ArchitectureComponent, offeredRps: number): number {
+  const policy = component.scaling.autoscaling;
+  if (!policy) {
+    return component.scaling.replicas;
+  }
+
+  const targetRps = replicaCapacity(component) * (policy.targetUtilizationPercent / 100);
+  return clamp(Math.ceil(offeredRps / targetRps), policy.minReplicas, policy.maxReplicas);
+}
+
+function withReplicas(component: ArchitectureComponent, replicas: number): ArchitectureComponent {
+  return {
+    ...component,
+    scaling: {
+      ...component.scaling,
+      replicas
+    }
+  };
+}
+
+/**
+ * Rewrites every database with a `databaseConfig` as an equivalent M/M/c station: one
+ * server per node, sized so the station saturates when its hottest node does.
+ */
+function resolveDatabaseTopology(input: SimulationInputContract): SimulationInputContract {
+  const readRatio = input.trafficProfile.readPercentage / 100;
+
+  return {
+    ...input,
+    components: input.components.map((component) => {
+      const config = isComponentType(component, 'database') ? component.databaseConfig : undefined;
+      if (!config) {
+        return component;
+      }
+
+      const failedOver = component.behavior.failoverSeconds !== undefined;
+      const nodeCapacity = componentEffectiveCapacity(withReplicas(component, 1));
+      const targetCapacity = nodeCapacity / hottestNodeLoad(config, readRatio, failedOver);
+      const nodes = databaseNodeCount(config);
+      const stationCapacity = componentEffectiveCapacity(withReplicas(component, nodes));
+
+      return {
+        ...component,
+        capacity: {
+          ...component.capacity,
+          opsPerSecond: component.capacity.opsPerSecond * (targetCapacity / stationCapacity)
+        },
+        scaling: {
+          ...component.scaling,
+          replicas: nodes,
+          autoscaling: undefined
+        }
+      };
+    })
+  };
+}
+
+// Input with every autoscaled component at the replica count it settles on for `demandByComponent`.
+function convergedReplicas(
+  input: SimulationInputContract,
+  demandByComponent: Map<string, number>
+): SimulationInputContract {
+  return {
+    ...input,
+    components: input.components.map((component) =>
+      withReplicas(component, autoscaledReplicas(component, demandByComponent.get(component.id) ?? 0))
+    )
+  };
+}
+
+type StationMoments = {
+  meanMs: number;
+  varianceMs2: number;
+};
+
+/**
+ * Per-request latency of every non-client component as an M/M/c station (c = replicas) at
+ * its offered load, plus any injected lag.
+ */
+function stationLatencies(
+  input: SimulationInputContract,
+  demandByComponent: Map<string, number>
+): Map<string, StationMoments> {
+  const stations = new Map<string, StationMoments>();
+  for (const component of input.components) {
+    if (isComponentType(component, 'client')) {
+      stations.set(component.id, { meanMs: 0, varianceMs2: 0 });
+      continue;
+    }
+
+    const station = mmcStationLatency({
+      arrivalRps: demandByComponent.get(component.id) ?? 0,
+      serviceRatePerServer: replicaCapacity(component),
+      servers: component.scaling.replicas,
+      overheadMs: componentModel(component).hopOverheadMs,
+      maxWaitingMs: bufferSeconds(component, QUEUE_TIMEOUT_SECONDS) * 1000
+    });
+    const replicationMs =
+      isComponentType(component, 'database') && component.databaseConfig
+        ? syncReplicationDelayMs(
+            component.databaseConfig,
+            input.trafficProfile.readPercentage / 100,
+            station.utilization
+          )
+        : 0;
+    stations.set(component.id, {
+      meanMs: station.meanMs + replicationMs + (component.behavior.injectedLatencyMs ?? 0),
+      varianceMs2: station.varianceMs2 + Math.pow(replicationMs, 2)
+    });
+  }
+  return stations;
+}
+
+/**
+ * Next per-attempt failure ratio of every edge with a call policy under the current load,
+ * and the share of entry requests that currently fail. `dropRatio` is each component's
+ * share of offered requests it cannot serve.
+ */
+function evaluateCalls(
+  input: SimulationInputContract,
+  demandByComponent: Map<string, number>,
+  dropRatio: Map<string, number>,
+  calls: CallState
+): { attemptFailure: Map<string, number>; requestFailureRatio: number } {
+  const graph = buildComponentGraph(input.components, input.edges);
+  const policies = callPoliciesByEdge(input.edges);
+  const linkLoss = linkLossByEdge(input.edges);
+  const stations = stationLatencies(input, demandByComponent);
+  const failure = requestFailureRatios(
+    graph,
+    blendedRouteWeights(graph, input.trafficProfile.regionDistribution),
+    (component) => (endsCallerWait(component) ? 0 : passThroughRatio(component, input.trafficProfile)),
+    dropRatio,
+    policies,
+    calls,
+    linkLoss
+  );
+
+  const attemptFailure = new Map<string, number>();
+  for (const [key, policy] of policies) {
+    const targetId = key.slice(key.indexOf('->') + 2);
+    const station = stations.get(targetId) ?? { meanMs: 0, varianceMs2: 0 };
+    attemptFailure.set(
+      key,
+      attemptFailureRatio(
+        policy,
+        latencyExceedance(station, policy.timeoutMs),
+        failure.get(targetId) ?? 0,
+        linkLoss.get(key) ?? 0
+      )
+    );
+  }
+
+  const entryIds = resolveEntryComponentIds(input, graph);
+  const requestFailureRatio =
+    entryIds.reduce((sum, componentId) => sum + (failure.get(componentId) ?? 0), 0) /
+    Math.max(1, entryIds.length);
+
+  return { attemptFailure, requestFailureRatio };
+}
+
+type CallResolution = {
+  demandByComponent: Map<string, number>;
+  scaledInput: SimulationInputContract;
+  calls: CallState;
+  // Share of entry requests that fail, including calls that exhaust retries or hit open breakers.
+  requestFailureRatio: number;
+};
+
+/**
+ * Settles retries and circuit breakers at a sustained `entryRps`. Failed attempts are
+ * retried, which adds load to the target and can push it into dropping more requests; the
+ * loop damps that feedback until it converges. A breaker that trips stays open.
+ */
+function resolveCallBehavior(input: SimulationInputContract, entryRps: number): CallResolution {
+  const policies = callPoliciesByEdge(input.edges);
+  const calls: CallState = { attemptFailure: new Map(), openBreakers: new Set() };
+  let demandByComponent = propagateTrafficDemand(input, entryRps);
+  let scaledInput = convergedReplicas(input, demandByComponent);
+  const dropRatios = () =>
+    new Map(
+      scaledInput.components.map((component) => {
+        const demand = demandByComponent.get(component.id) ?? 0;
+        const capacity = componentEffectiveCapacity(component);
+        return [component.id, demand > capacity ? 1 - capacity / demand : 0];
+      })
+    );
+  if (policies.size === 0) {
+    // Nothing retries, but lossy links still fail the calls they drop.
+    const requestFailureRatio =
+      linkLossByEdge(input.edges).size > 0
+        ? evaluateCalls(scaledInput, demandByComponent, dropRatios(), calls).requestFailureRatio
+        : 0;
+    return { demandByComponent, scaledInput, calls, requestFailureRatio };
+  }
+
+  for (let pass = 0; pass < CALL_RESOLUTION_PASSES; pass += 1) {
+    const evaluated = evaluateCalls(scaledInput, demandByComponent, dropRatios(), calls);
+    for (const [key, ratio] of evaluated.attemptFailure) {
+      const next = pass === 0 ? ratio : ((calls.attemptFailure.get(key) ?? 0) + ratio) / 2;
+      calls.attemptFailure.set(key, next);
+      const breaker = policies.get(key)?.circuitBreaker;
+      if (breaker && next * 100 >= breaker.errorThresholdPercent) {
+        calls.openBreakers.add(key);
+      }
+    }
+
+    demandByComponent = propagateTrafficDemand(input, entryRps, calls);
+    scaledInput = convergedReplicas(input, demandByComponent);
+  }
+
+  const { requestFailureRatio } = evaluateCalls(scaledInput, demandByComponent, dropRatios(), calls);
+  return { demandByComponent, scaledInput, calls, requestFailureRatio };
+}
+
+function edgeCallMetrics(input: SimulationInputContract, calls: CallState): EdgeCallMetrics[] {
+  const policies = callPoliciesByEdge(input.edges);
+  const reported = new Set<string>();
+  const metrics: EdgeCallMetrics[] = [];
+
+  for (const edge of input.edges) {
+    const key = edgeKey(edge.sourceId, edge.targetId);
+    const policy = policies.get(key);
+    if (!policy || reported.has(key)) {
+      continue;
+    }
+    reported.add(key);
+
+    const breakerOpen = calls.openBreakers.has(key);
+    const failureRatio = calls.attemptFailure.get(key) ?? 0;
+    metrics.push({
+      edgeId: edge.id,
+      sourceId: edge.sourceId,
+      targetId: edge.targetId,
+      attemptsPerCall: breakerOpen ? 0 : expectedAttempts(failureRatio, policy.retries),
+      failureRatePercent: breakerOpen
+        ? 100
+        : clamp(failureAfterRetries(failureRatio, policy.retries) * 100, 0, 100),
+      breakerOpen
+    });
+  }
+
+  return metrics;
+}
+
+type DerivedTimelineEvent = Omit<SimulationTimelineEvent, 'sequence' | 'atSecond'>;
+
+function edgeCallEvents(
+  input: SimulationInputContract,
+  edgeCalls: EdgeCallMetrics[],
+  calls: CallState
+): DerivedTimelineEvent[] {
+  const labelOf = (componentId: string) =>
+    input.components.find((component) => component.id === componentId)?.label ?? componentId;
+
+  return edgeCalls.flatMap<DerivedTimelineEvent>((edge) => {
+    const route = `${labelOf(edge.sourceId)} -> ${labelOf(edge.targetId)}`;
+    if (edge.breakerOpen) {
+      const failureRatio = calls.attemptFailure.get(edgeKey(edge.sourceId, edge.targetId)) ?? 0;
+      return [
+        {
+          severity: 'warning',
+          title: `Circuit breaker opened on ${route}`,
+          description: `${(failureRatio * 100).toFixed(1)}% of calls failed, so ${labelOf(edge.targetId)} is shed instead of retried.`,
+          componentId: edge.targetId
+        }
+      ];
+    }
+    if (edge.attemptsPerCall >= RETRY_STORM_ATTEMPTS) {
+      return [
+        {
+          severity: 'critical',
+          title: `Retry storm on ${route}`,
+          description: `Each call averages ${edge.attemptsPerCall.toFixed(2)} attempts, multiplying load on ${labelOf(edge.targetId)}.`,
+          componentId: edge.targetId
+        }
+      ];
+    }
+    return [];
+  });
+}
+
+function databaseEvents(
+  input: SimulationInputContract,
+  demandByComponent: Map<string, number>
+): DerivedTimelineEvent[] {
+  return input.components.flatMap<DerivedTimelineEvent>((component) => {
+    const demand = demandByComponent.get(component.id) ?? 0;
+    if (!isComponentType(component, 'database') || demand <= 0) {
+      return [];
+    }
+
+    const config = databaseTopology(component);
+    const events: DerivedTimelineEvent[] = [];
+    const seconds = component.behavior.failoverSeconds;
+    if (seconds !== undefined) {
+      const share = failoverUnavailableShare(config, input.trafficProfile.readPercentage / 100);
+      events.push({
+        severity: 'critical',
+        title: `Primary failover on ${component.label}`,
+        description:
+          config.readReplicas > 0
+            ? `${(share * 100).toFixed(1)}% of requests fail until a replica is promoted after ~${seconds}s.`
+            : `No replica to promote; ${(share * 100).toFixed(1)}% of requests fail until the primary is rebuilt after ~${seconds}s.`,
+        componentId: component.id
+      });
+    }
+
+    const lagMs = component.databaseConfig
+      ? replicationLagMs(config, demand / componentEffectiveCapacity(component))
+      : 0;
+    if (lagMs > 0) {
+      events.push({
+        severity: lagMs >= REPLICATION_LAG_WARNING_MS ? 'warning' : 'info',
+        title: `Replication lag on ${component.label}`,
+        description: replicasServeReads(config)
+          ? `Async replicas trail the primary by ~${lagMs.toFixed(0)}ms; ${config.consistency} reads may return stale data.`
+          : `Async replicas trail the primary by ~${lagMs.toFixed(0)}ms; strong reads stay on the primary.`,
+        componentId: component.id
+      });
+    }
+
+    return events;
+  });
+}
+
+// Share of entry requests lost to primary failovers, averaged over the simulated window.
+function failoverErrorRatio(
+  input: SimulationInputContract,
+  demandByComponent: Map<string, number>,
+  entryRps: number
+): number {
+  return input.components.reduce((sum, component) => {
+    const seconds = component.behavior.failoverSeconds;
+    if (!isComponentType(component, 'database') || seconds === undefined) {
+      return sum;
+    }
 
-  return Math.max(1, scaledCapacity * statefulPenalty);
+    const share = failoverUnavailableShare(
+      databaseTopology(component),
+      input.trafficProfile.readPercentage / 100
+    );
+    const reach = Math.min(1, (demandByComponent.get(component.id) ?? 0) / entryRps);
+    return sum + share * reach * Math.min(1, seconds / DEFAULT_WINDOW_SECONDS);
+  }, 0);
 }
 
 function bottleneckSeverity(utilizationPercent: number): 'low' | 'medium' | 'high' | 'critical' {
@@ -106,7 +785,8 @@ function bottleneckSeverity(utilizationPercent: number): 'low' | 'medium' | 'hig
 
 function timelineFromBottlenecks(
   bottlenecks: SimulationComputationResult['bottlenecks'],
-  saturated: boolean
+  saturated: boolean,
+  derivedEvents: DerivedTimelineEvent[] = []
 ): SimulationTimelineEvent[] {
   const events: SimulationTimelineEvent[] = [
     {
@@ -119,10 +799,15 @@ function timelineFromBottlenecks(
     }
   ];
 
+  // Failovers, replication lag and failing calls show up before the load they add builds up.
+  for (const event of derivedEvents) {
+    events.push({ ...event, sequence: events.length, atSecond: 5 });
+  }
+
   const leading = bottlenecks.slice(0, 3);
   for (const [index, bottleneck] of leading.entries()) {
     events.push({
-      sequence: index + 1,
+      sequence: events.length,
       atSecond: 10 + index * 15,
       severity: bottleneck.severity === 'critical' ? 'critical' : 'warning',
       title: `Capacity pressure on ${bottleneck.componentLabel}`,
@@ -153,12 +838,28 @@ export function runBasicSimulation(input: SimulationInput): SimulationOutput {
   };
 }
 
+// Points and replay shapes carry absolute demand, so anything that scales traffic scales them too.
+function scaleShapePoints(trafficProfile: TrafficProfile, factor: number): TrafficProfile {
+  const shape = trafficProfile.shape;
+  if (shape?.kind !== 'points' && shape?.kind !== 'replay') {
+    return trafficProfile;
+  }
+
+  return {
+    ...trafficProfile,
+    shape: {
+      ...shape,
+      points: shape.points.map((point) => ({ ...point, rps: clamp(point.rps * factor, 0, 50_000_000) }))
+    }
+  };
+}
+
 export function applyFailureInjection(
   input: SimulationInputContract,
   profile: FailureInjectionProfile
 ): FailureInjectionApplication {
   const nextInput: SimulationInputContract = {
-    components: input.components.map((component) => ({ ...component, capacity: { ...component.capacity }, scaling: { ...component.scaling }, behavior: { ...component.behavior }, position: { ...component.position } })),
+    components: input.components.map((component) => ({ ...component, capacity: { ...component.capacity }, scaling: { ...component.scaling }, behavior: { ...component.behavior }, position: { ...component.position }, placement: { ...component.placement, zones: [...component.placement.zones] } })),
     edges: input.edges.map((edge) => ({ ...edge })),
     trafficProfile: {
       ...input.trafficProfile,
@@ -168,6 +869,8 @@ export function applyFailureInjection(
 
   const impacted = new Set<string>();
   const notes: string[] = [];
+  const labelOf = (componentId: string) =>
+    nextInput.components.find((component) => component.id === componentId)?.label ?? componentId;
 
   if (profile.mode === 'node-down' && profile.targetComponentId) {
     nextInput.components = nextInput.components.map((component) => {
@@ -178,46 +881,46 @@ export function applyFailureInjection(
       impacted.add(component.id);
       notes.push(`Forced ${component.label} offline.`);
 
-      return {
-        ...component,
-        capacity: {
-          ...component.capacity,
-          opsPerSecond: 1,
-          cpuCores: safeComponentCapacity(component.capacity.cpuCores * 0.1),
-          memoryGb: safeComponentCapacity(component.capacity.memoryGb * 0.15)
-        },
-        scaling: {
-          ...component.scaling,
-          replicas: 1
-        }
-      };
+      return takeComponentOffline(component);
     });
   }
 
   if (profile.mode === 'az-down' && profile.azName) {
+    const azName = profile.azName;
     nextInput.components = nextInput.components.map((component) => {
-      if (resolveAzName(component) !== profile.azName) {
+      if (isComponentType(component, 'client') || !component.placement.zones.includes(azName)) {
+        return component;
+      }
+      if (profile.region && component.placement.region !== profile.region) {
         return component;
       }
 
       impacted.add(component.id);
+      return loseZoneCapacity(component, 1);
+    });
 
-      return {
-        ...component,
-        capacity: {
-          ...component.capacity,
-          opsPerSecond: safeComponentCapacity(component.capacity.opsPerSecond * 0.28),
-          cpuCores: safeComponentCapacity(component.capacity.cpuCores * 0.6),
-          memoryGb: safeComponentCapacity(component.capacity.memoryGb * 0.72)
-        },
-        scaling: {
-          ...component.scaling,
-          replicas: Math.max(1, Math.floor(component.scaling.replicas * 0.5))
-        }
-      };
+    notes.push(
+      profile.region
+        ? `Applied AZ outage in ${profile.region}/${azName}.`
+        : `Applied AZ outage in ${azName}.`
+    );
+  }
+
+  if (profile.mode === 'region-down' && profile.region) {
+    const region = profile.region;
+    nextInput.components = nextInput.components.map((component) => {
+      if (isComponentType(component, 'client') || component.placement.region !== region) {
+        return component;
+      }
+
+      impacted.add(component.id);
+      return takeComponentOffline(component);
     });
 
-    notes.push(`Applied AZ outage in ${profile.azName}.`);
+    const trafficShare = nextInput.trafficProfile.regionDistribution[region];
+    notes.push(
+      `Took region ${region} offline; ${trafficShare.toFixed(0)}% of traffic originates there and must be served elsewhere.`
+    );
   }
 
   if (profile.mode === 'dependency-lag' && profile.targetComponentId) {
@@ -236,15 +939,14 @@ export function applyFailureInjection(
           opsPerSecond: safeComponentCapacity(component.capacity.opsPerSecond * 0.55),
           cpuCores: safeComponentCapacity(component.capacity.cpuCores * 0.82),
           memoryGb: safeComponentCapacity(component.capacity.memoryGb * 0.9)
+        },
+        behavior: {
+          ...component.behavior,
+          injectedLatencyMs: (component.behavior.injectedLatencyMs ?? 0) + lagMs
         }
       };
     });
 
-    nextInput.trafficProfile = {
-      ...nextInput.trafficProfile,
-      payloadKb: clamp(nextInput.trafficProfile.payloadKb + lagMs / 15, 0.1, 10_000)
-    };
-
     notes.push(`Injected ${lagMs}ms dependency lag.`);
   }
 
@@ -258,57 +960,427 @@ export function applyFailureInjection(
       ),
       peakMultiplier: clamp(nextInput.trafficProfile.peakMultiplier * (1 + (multiplier - 1) * 0.35), 1, 50)
     };
+    nextInput.trafficProfile = scaleShapePoints(nextInput.trafficProfile, multiplier);
     notes.push(`Applied traffic surge multiplier x${multiplier.toFixed(2)}.`);
   }
 
-  return {
-    input: nextInput,
-    impactedComponentIds: [...impacted],
-    notes
-  };
-}
+  if (profile.mode === 'cache-flush') {
+    nextInput.components = nextInput.components.map((component) => {
+      const flush = componentModel(component).failureResponses?.['cache-flush'];
+      if (!flush) {
+        return component;
+      }
+      if (profile.targetComponentId && component.id !== profile.targetComponentId) {
+        return component;
+      }
 
-export function runArchitectureSimulation(input: SimulationInputContract): SimulationComputationResult {
-  if (input.components.length === 0) {
-    return {
-      metrics: {
-        peakRps: input.trafficProfile.baselineRps * input.trafficProfile.peakMultiplier,
-        capacityRps: 0,
-        throughputRps: 0,
-        p50LatencyMs: 0,
-        p95LatencyMs: 0,
-        errorRatePercent: 100,
-        saturated: true
-      },
-      bottlenecks: [],
-      timeline: [
-        {
-          sequence: 0,
-          atSecond: 0,
-          severity: 'critical',
-          title: 'Invalid topology',
-          description: 'No components were found in the version graph.',
-          componentId: null
-        }
-      ]
+      impacted.add(component.id);
+      notes.push(`Flushed ${component.label}; every read misses until it warms back up.`);
+
+      return flush(component);
+    });
+  }
+
+  if (profile.mode === 'primary-failover' && profile.targetComponentId) {
+    const baselineDemand = propagateTrafficDemand(nextInput, nextInput.trafficProfile.baselineRps);
+    const resolved = resolveDatabaseTopology(nextInput);
+    nextInput.components = nextInput.components.map((component, index) => {
+      if (component.id !== profile.targetComponentId || !isComponentType(component, 'database')) {
+        return component;
+      }
+
+      impacted.add(component.id);
+      const config = databaseTopology(component);
+      const seconds = failoverSeconds(config);
+      const demand = baselineDemand.get(component.id) ?? 0;
+      const utilization = demand / componentEffectiveCapacity(resolved.components[index] as ArchitectureComponent);
+      const lostWrites =
+        ((demand * (1 - nextInput.trafficProfile.readPercentage / 100)) / config.shardCount) *
+        (replicationLagMs(config, utilization) / 1000);
+
+      if (config.readReplicas === 0) {
+        notes.push(`${component.label} has no replica to promote; its primary must be rebuilt (~${seconds}s).`);
+      } else if (config.replication === 'async') {
+        notes.push(
+          `Promoting a replica of ${component.label} takes ~${seconds}s; about ${Math.round(lostWrites).toLocaleString()} acknowledged writes had not replicated and are lost.`
+        );
+      } else {
+        notes.push(`Promoting a replica of ${component.label} takes ~${seconds}s; sync replication loses no acknowledged writes.`);
+      }
+
+      return {
+        ...component,
+        // Without a config the promoted replica leaves one fewer node behind.
+        scaling: component.databaseConfig
+          ? component.scaling
+          : { ...component.scaling, replicas: Math.max(1, component.scaling.replicas - 1) },
+        behavior: {
+          ...component.behavior,
+          failoverSeconds: seconds
+        }
+      };
+    });
+  }
+
+  if (profile.mode === 'packet-loss' && profile.edgeIds && profile.lossPercent) {
+    const edgeIds = new Set(profile.edgeIds);
+    const lossPercent = profile.lossPercent;
+    nextInput.edges = nextInput.edges.map((edge) => {
+      if (!edgeIds.has(edge.id)) {
+        return edge;
+      }
+
+      impacted.add(edge.sourceId);
+      impacted.add(edge.targetId);
+      notes.push(
+        edge.callPolicy
+          ? `Dropping ${lossPercent}% of calls from ${labelOf(edge.sourceId)} to ${labelOf(edge.targetId)}; lost attempts are retried.`
+          : `Dropping ${lossPercent}% of calls from ${labelOf(edge.sourceId)} to ${labelOf(edge.targetId)}; without a call policy they fail outright.`
+      );
+
+      return { ...edge, packetLossPercent: stackedLossPercent(edge.packetLossPercent, lossPercent) };
+    });
+  }
+
+  if (profile.mode === 'network-partition') {
+    const edgeIds = new Set(profile.edgeIds ?? []);
+    const isolatedZones = profile.partitionZones ? new Set(profile.partitionZones) : null;
+    const componentById = new Map(nextInput.components.map((component) => [component.id, component]));
+    let cutCount = 0;
+    let splitCount = 0;
+
+    nextInput.edges = nextInput.edges.map((edge) => {
+      const source = componentById.get(edge.sourceId);
+      const target = componentById.get(edge.targetId);
+      if (!source || !target) {
+        return edge;
+      }
+      const crossShare = isolatedZones
+        ? partitionCrossShare(source, target, isolatedZones, profile.region ?? null)
+        : edgeIds.has(edge.id)
+          ? 1
+          : 0;
+      if (crossShare <= 0) {
+        return edge;
+      }
+
+      impacted.add(edge.sourceId);
+      impacted.add(edge.targetId);
+      if (crossShare >= 1) {
+        cutCount += 1;
+      } else {
+        splitCount += 1;
+      }
+      if (!isolatedZones) {
+        notes.push(`Cut the link from ${source.label} to ${target.label}.`);
+      }
+
+      return { ...edge, packetLossPercent: stackedLossPercent(edge.packetLossPercent, crossShare * 100) };
+    });
+
+    if (isolatedZones && cutCount + splitCount > 0) {
+      const zones = [...isolatedZones].join(' + ');
+      notes.push(
+        `Partitioned ${zones}${profile.region ? ` in ${profile.region}` : ''} from the other zones; ${cutCount} links are cut and ${splitCount} lose the calls that cross the partition.`
+      );
+    }
+
+    for (const componentId of partitionedComponentIds(nextInput)) {
+      impacted.add(componentId);
+      notes.push(`${labelOf(componentId)} is unreachable from every client.`);
+    }
+  }
+
+  return {
+    input: nextInput,
+    impactedComponentIds: [...impacted],
+    notes
+  };
+}
+
+type ChaosStepApplication = {
+  atSecond: number;
+  profile: FailureInjectionProfile;
+  impactedComponentIds: string[];
+  notes: string[];
+};
+
+type ChaosExperimentApplication = {
+  // Input with every applied step, for models that only look at the end state.
+  input: SimulationInputContract;
+  // Input in effect from each step's second onward, for the time-stepped model.
+  stages: SimulationStage[];
+  steps: ChaosStepApplication[];
+  // Steps scheduled after `windowSeconds`, which never fire.
+  skipped: ChaosExperimentStep[];
+};
+
+/**
+ * Applies a chaos experiment's steps in schedule order, each on top of the input the
+ * previous steps left behind, so a later step hits an already degraded system. Time-stepped
+ * runs pass their `windowSeconds`; steps after the window are skipped rather than applied.
+ */
+export function applyChaosExperiment(
+  input: SimulationInputContract,
+  steps: ChaosExperimentStep[],
+  windowSeconds = Number.POSITIVE_INFINITY
+): ChaosExperimentApplication {
+  const ordered = [...steps].sort((left, right) => left.atSecond - right.atSecond);
+  const stages: SimulationStage[] = [];
+  const applied: ChaosStepApplication[] = [];
+  let current = input;
+
+  for (const step of ordered.filter((item) => item.atSecond <= windowSeconds)) {
+    const application = applyFailureInjection(current, step.profile);
+    current = application.input;
+    stages.push({ atSecond: step.atSecond, input: current });
+    applied.push({
+      atSecond: step.atSecond,
+      profile: step.profile,
+      impactedComponentIds: application.impactedComponentIds,
+      notes: application.notes
+    });
+  }
+
+  return {
+    input: current,
+    stages,
+    steps: applied,
+    skipped: ordered.filter((item) => item.atSecond > windowSeconds)
+  };
+}
+
+// Length of a time-stepped run over `input`: its traffic shape's duration, or the default ramp.
+export function timeSteppedWindowSeconds(input: SimulationInputContract): number {
+  return Math.max(1, Math.round(input.trafficProfile.shape?.durationSeconds ?? DEFAULT_WINDOW_SECONDS));
+}
+
+type LatencyPercentiles = {
+  p50LatencyMs: number;
+  p95LatencyMs: number;
+  p99LatencyMs: number;
+  regionalLatency: RegionalLatency[];
+};
+
+type RequestPathContext = {
+  graph: ComponentGraph;
+  stations: Map<string, StationMoments>;
+  policies: Map<string, EdgeCallPolicy>;
+  calls: CallState;
+  fixedMs: number;
+};
+
+type WalkedRequestPath = LatencyMoments & {
+  // Time each hop the caller waits on adds, in path order.
+  hops: Array<{ componentId: string; latencyMs: number }>;
+};
+
+/**
+ * Latency of one request path from a client in `region`: each hop adds its station time, the
+ * inter-region round trip from the previous hop and the failed attempts and backoff of a
+ * retried sync call. The caller stops waiting at async edges, open breakers and once a
+ * stream has accepted its record.
+ */
+function walkRequestPath(context: RequestPathContext, path: WeightedPath, region: Region): WalkedRequestPath {
+  const walked: WalkedRequestPath = {
+    probability: path.probability,
+    meanMs: context.fixedMs,
+    varianceMs2: Math.pow(context.fixedMs * 0.25, 2),
+    hops: []
+  };
+  let previousRegion = region;
+  let previousId: string | null = null;
+
+  for (const componentId of path.componentIds) {
+    const station = context.stations.get(componentId) ?? { meanMs: 0, varianceMs2: 0 };
+    let retryMs = 0;
+    if (previousId !== null) {
+      const key = edgeKey(previousId, componentId);
+      const policy = context.policies.get(key);
+      if (policy && (policy.mode === 'async' || context.calls.openBreakers.has(key))) {
+        break;
+      }
+      if (policy) {
+        retryMs = expectedRetryDelayMs(
+          policy,
+          context.calls.attemptFailure.get(key) ?? 0,
+          Math.min(policy.timeoutMs, station.meanMs)
+        );
+      }
+    }
+
+    const component = context.graph.componentById.get(componentId) as ArchitectureComponent;
+    const componentRegion = effectiveRegion(component, region);
+    const networkMs = interRegionRttMs(previousRegion, componentRegion);
+    previousRegion = componentRegion;
+    previousId = componentId;
+    const hopMs = networkMs + station.meanMs + retryMs;
+    walked.meanMs += hopMs;
+    walked.varianceMs2 += Math.pow(networkMs * 0.1, 2) + station.varianceMs2 + Math.pow(retryMs * 0.5, 2);
+    walked.hops.push({ componentId, latencyMs: hopMs });
+    if (endsCallerWait(component)) {
+      break;
+    }
+  }
+
+  return walked;
+}
+
+function requestPathContext(
+  input: SimulationInputContract,
+  demandByComponent: Map<string, number>,
+  calls: CallState
+): RequestPathContext {
+  return {
+    graph: buildComponentGraph(input.components, input.edges),
+    stations: stationLatencies(input, demandByComponent),
+    policies: callPoliciesByEdge(input.edges),
+    calls,
+    fixedMs: LAST_MILE_RTT_MS + input.trafficProfile.payloadKb * 0.28
+  };
+}
+
+/**
+ * Walks every request path (see `walkRequestPath`) from each client region, and takes the
+ * percentiles of the probability-weighted mixture of those paths.
+ */
+function estimateLatencyPercentiles(
+  input: SimulationInputContract,
+  demandByComponent: Map<string, number>,
+  calls: CallState
+): LatencyPercentiles {
+  const context = requestPathContext(input, demandByComponent, calls);
+  const graph = context.graph;
+  const passThrough = (component: ArchitectureComponent) =>
+    passThroughRatio(component, input.trafficProfile);
+  const entryIds = resolveEntryComponentIds(input, graph);
+
+  const allMoments: LatencyMoments[] = [];
+  const regionalLatency: RegionalLatency[] = [];
+
+  for (const region of REGIONS) {
+    const trafficPercent = input.trafficProfile.regionDistribution[region];
+    if (trafficPercent <= 0) {
+      continue;
+    }
+
+    const paths = enumerateRequestPaths(graph, entryIds, passThrough, geoRouteWeights(graph, region));
+    const moments: LatencyMoments[] = paths.map((path) => {
+      const { probability, meanMs, varianceMs2 } = walkRequestPath(context, path, region);
+      return { probability, meanMs, varianceMs2 };
+    });
+
+    regionalLatency.push({
+      region,
+      trafficPercent,
+      p50LatencyMs: latencyMixtureQuantile(moments, 0.5),
+      p95LatencyMs: latencyMixtureQuantile(moments, 0.95)
+    });
+    allMoments.push(
+      ...moments.map((moment) => ({ ...moment, probability: (moment.probability * trafficPercent) / 100 }))
+    );
+  }
+
+  return {
+    p50LatencyMs: latencyMixtureQuantile(allMoments, 0.5),
+    p95LatencyMs: latencyMixtureQuantile(allMoments, 0.95),
+    p99LatencyMs: latencyMixtureQuantile(allMoments, 0.99),
+    regionalLatency
+  };
+}
+
+export function runArchitectureSimulation(input: SimulationInputContract): SimulationComputationResult {
+  const result = analyzeArchitecture(resolveDatabaseTopology(input), { explain: true });
+  return {
+    ...result,
+    metrics: {
+      ...result.metrics,
+      ...estimateArchitectureCost(input)
+    }
+  };
+}
+
+export type ArchitectureCostEstimate = {
+  monthlyCostUsd: number;
+  costPerMillionRequestsUsd: number;
+};
+
+/**
+ * Monthly cost at average load (the baseline, or the mean of a points or replay shape): every
+ * node at its tier's price, with autoscaled components at the replica count they settle on,
+ * plus usage charges for the traffic each one serves.
+ */
+export function estimateArchitectureCost(input: SimulationInputContract): ArchitectureCostEstimate {
+  const pricing = input.pricing ?? defaultPricingTable;
+  const averageRps = trafficMeanDemandRps(input.trafficProfile);
+  const { demandByComponent, scaledInput } = resolveCallBehavior(resolveDatabaseTopology(input), averageRps);
+  const monthlyCostUsd = scaledInput.components.reduce(
+    (sum, component) =>
+      sum +
+      nodesMonthlyUsd(component, component.scaling.replicas, pricing) +
+      usageMonthlyUsd(component.type, demandByComponent.get(component.id) ?? 0, pricing),
+    0
+  );
+  const monthlyRequestsMillions = (averageRps * SECONDS_PER_MONTH) / 1_000_000;
+
+  return {
+    monthlyCostUsd,
+    costPerMillionRequestsUsd: monthlyRequestsMillions > 0 ? monthlyCostUsd / monthlyRequestsMillions : 0
+  };
+}
+
+// Analytical model of an input whose databases are already resolved to equivalent stations.
+// `explain` adds the critical-path explanation, which the planners and sweeps skip.
+function analyzeArchitecture(
+  input: SimulationInputContract,
+  options: { explain?: boolean } = {}
+): SimulationComputationResult {
+  if (input.components.length === 0) {
+    return {
+      metrics: {
+        peakRps: trafficPeakDemandRps(input.trafficProfile),
+        capacityRps: 0,
+        throughputRps: 0,
+        p50LatencyMs: 0,
+        p95LatencyMs: 0,
+        p99LatencyMs: 0,
+        errorRatePercent: 100,
+        saturated: true
+      },
+      bottlenecks: [],
+      timeline: [
+        {
+          sequence: 0,
+          atSecond: 0,
+          severity: 'critical',
+          title: 'Invalid topology',
+          description: 'No components were found in the version graph.',
+          componentId: null
+        }
+      ]
     };
   }
 
-  const peakRps = input.trafficProfile.baselineRps * input.trafficProfile.peakMultiplier;
-  const adjustedDemandRps = peakRps * BURST_FACTOR[input.trafficProfile.burstiness];
+  const adjustedDemandRps = trafficPeakDemandRps(input.trafficProfile);
 
-  const capacityByComponent = new Map<string, number>();
+  // Analytical runs assume autoscalers, retries and breakers have settled on the sustained peak.
+  const { demandByComponent, scaledInput, calls, requestFailureRatio } = resolveCallBehavior(
+    input,
+    adjustedDemandRps
+  );
   let systemCapacityRps = Number.POSITIVE_INFINITY;
   const bottlenecks: SimulationComputationResult['bottlenecks'] = [];
 
-  for (const component of input.components) {
-    const capacityRps = componentEffectiveCapacity(component);
-    capacityByComponent.set(component.id, capacityRps);
+  for (const component of scaledInput.components) {
+    const requiredRps = demandByComponent.get(component.id) ?? 0;
+    if (requiredRps <= 0) {
+      continue;
+    }
 
-    const demandWeight = componentDemandWeight(component.type, input.trafficProfile);
-    const requiredRps = Math.max(1, adjustedDemandRps * demandWeight);
-    const normalizedCapacity = capacityRps / demandWeight;
-    systemCapacityRps = Math.min(systemCapacityRps, normalizedCapacity);
+    const capacityRps = sustainedCapacity(component);
+    const demandShare = requiredRps / adjustedDemandRps;
+    const saturatesAtRps = capacityRps / demandShare;
+    systemCapacityRps = Math.min(systemCapacityRps, saturatesAtRps);
 
     const utilizationPercent = (requiredRps / capacityRps) * 100;
     if (utilizationPercent >= 80) {
@@ -322,8 +1394,12 @@ export function runArchitectureSimulation(input: SimulationInputContract): Simul
         severity: bottleneckSeverity(utilizationPercent),
         reason:
           utilizationPercent >= 100
-            ? 'Demand is above available component capacity.'
-            : 'Component is approaching saturation under peak assumptions.'
+            ? enforcesRateLimit(component)
+              ? `Demand of ${formatRps(requiredRps)} RPS is above the rate limit of ${formatRps(capacityRps)} RPS; excess requests are rejected.`
+              : isComponentType(component, 'queue') && capacityRps < componentEffectiveCapacity(component)
+                ? `Producers send ${formatRps(requiredRps)} messages/s but the consumers drain ${formatRps(capacityRps)}; the backlog grows until it overflows or expires.`
+                : `Needs ${formatRps(requiredRps)} RPS at peak but serves ${formatRps(capacityRps)} RPS; saturates once entry traffic passes ${formatRps(saturatesAtRps)} RPS.`
+            : `At ${utilizationPercent.toFixed(0)}% utilization under peak load; saturates once entry traffic passes ${formatRps(saturatesAtRps)} RPS.`
       });
     }
   }
@@ -336,47 +1412,1390 @@ export function runArchitectureSimulation(input: SimulationInputContract): Simul
   const throughputRps = Math.max(0, Math.min(adjustedDemandRps, systemCapacityRps));
   const saturated = adjustedDemandRps > systemCapacityRps;
   const maxUtilization = bottlenecks[0]?.utilizationPercent ?? 45;
-
-  const payloadPenaltyMs = input.trafficProfile.payloadKb * 0.28;
-  const p50LatencyMs = Math.max(
-    18,
-    24 + payloadPenaltyMs + Math.pow(maxUtilization / 100, 1.6) * 190 + BURST_FACTOR[input.trafficProfile.burstiness] * 6
-  );
-  const p95LatencyMs = p50LatencyMs * (1.44 + Math.min(maxUtilization / 180, 0.6));
-  const errorRatePercent = saturated
+  const latency = estimateLatencyPercentiles(scaledInput, demandByComponent, calls);
+  const capacityErrorPercent = saturated
     ? clamp(((adjustedDemandRps - systemCapacityRps) / adjustedDemandRps) * 100, 0, 100)
     : clamp(Math.max(0, (maxUtilization - 88) * 0.18), 0, 8);
+  const errorRatePercent = clamp(
+    Math.max(capacityErrorPercent, requestFailureRatio * 100) +
+      failoverErrorRatio(scaledInput, demandByComponent, adjustedDemandRps) * 100,
+    0,
+    100
+  );
+  const edgeCalls = edgeCallMetrics(input, calls);
+  const queues = steadyQueueMetrics(scaledInput, demandByComponent);
 
   return {
     metrics: {
       peakRps: adjustedDemandRps,
       capacityRps: systemCapacityRps,
       throughputRps,
-      p50LatencyMs,
-      p95LatencyMs,
+      ...latency,
       errorRatePercent,
-      saturated
+      saturated,
+      ...(edgeCalls.length > 0 ? { edgeCalls } : {}),
+      ...(queues.length > 0 ? { queues } : {})
     },
     bottlenecks,
-    timeline: timelineFromBottlenecks(bottlenecks, saturated)
+    timeline: timelineFromBottlenecks(bottlenecks, saturated, [
+      ...databaseEvents(scaledInput, demandByComponent),
+      ...edgeCallEvents(input, edgeCalls, calls)
+    ]),
+    ...(options.explain
+      ? { explanation: explainArchitecture(input, { demandByComponent, scaledInput, calls }, adjustedDemandRps) }
+      : {})
   };
 }
 
-export function deriveBlastRadiusSummary(
-  profile: FailureInjectionProfile,
-  result: SimulationComputationResult
-): BlastRadiusSummary {
-  const impactedComponents = result.bottlenecks
-    .filter((bottleneck) => bottleneck.severity === 'critical' || bottleneck.severity === 'high')
-    .slice(0, 6)
-    .map((bottleneck) => ({
-      componentId: bottleneck.componentId,
-      componentLabel: bottleneck.componentLabel,
-      componentType: bottleneck.componentType,
-      severity: bottleneck.severity,
-      reason: bottleneck.reason
+// Every queue that receives messages, settled at its sustained peak inflow.
+function steadyQueueMetrics(
+  input: SimulationInputContract,
+  demandByComponent: Map<string, number>
+): QueueMetrics[] {
+  return input.components.flatMap((component) => {
+    const producerRps = demandByComponent.get(component.id) ?? 0;
+    if (!isComponentType(component, 'queue') || producerRps <= 0) {
+      return [];
+    }
+
+    const config = queueConfigOf(component);
+    const steady = steadyQueue(config, producerRps);
+    return [
+      {
+        componentId: component.id,
+        producerRps,
+        consumerRps: queueDrainRps(config),
+        peakBacklog: steady.depth,
+        peakLagSeconds: steady.lagSeconds,
+        droppedRps: steady.droppedRps,
+        deferredRps: steady.deferredRps,
+        backPressure: steady.backPressure
+      }
+    ];
+  });
+}
+
+// Slowest paths taken by fewer requests than this are not reported as critical.
+const MIN_CRITICAL_PATH_PROBABILITY = 0.01;
+
+function countOf(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function formatRps(value: number): string {
+  return Math.round(value).toLocaleString('en-US');
+}
+
+// Capacity a component can reach as load grows: autoscaled components at their replica ceiling.
+function ceilingCapacity(component: ArchitectureComponent): number {
+  const policy = component.scaling.autoscaling;
+  return sustainedCapacity(policy ? withReplicas(component, policy.maxReplicas) : component);
+}
+
+function withReadShare(input: SimulationInputContract, readPercentage: number): SimulationInputContract {
+  return {
+    ...input,
+    trafficProfile: { ...input.trafficProfile, readPercentage, writePercentage: 100 - readPercentage }
+  };
+}
+
+/**
+ * Critical read and write paths, and the component that caps throughput. Each kind's critical
+ * path is its slowest route from the region sending the most traffic; every hop carries its
+ * share of the latency and the entry RPS at which it saturates. The limiting component is the
+ * one anywhere in the graph that saturates first, explained by who calls it and how often.
+ */
+function explainArchitecture(
+  input: SimulationInputContract,
+  resolution: Pick<CallResolution, 'demandByComponent' | 'scaledInput' | 'calls'>,
+  entryRps: number
+): RunExplanation {
+  const { demandByComponent, scaledInput, calls } = resolution;
+  const context = requestPathContext(scaledInput, demandByComponent, calls);
+  const graph = context.graph;
+  const entryIds = resolveEntryComponentIds(scaledInput, graph);
+  const readRatio = input.trafficProfile.readPercentage / 100;
+  const dominantRegion = REGIONS.reduce((best, region) =>
+    input.trafficProfile.regionDistribution[region] > input.trafficProfile.regionDistribution[best] ? region : best
+  );
+
+  const saturatesAt = new Map<string, number>();
+  for (const component of scaledInput.components) {
+    const demand = demandByComponent.get(component.id) ?? 0;
+    if (demand > 0) {
+      saturatesAt.set(component.id, ceilingCapacity(component) / (demand / entryRps));
+    }
+  }
+  const utilization = (component: ArchitectureComponent) =>
+    ((demandByComponent.get(component.id) ?? 0) / sustainedCapacity(component)) * 100;
+  const firstToSaturate = (componentIds: string[]) =>
+    componentIds.reduce<string | null>(
+      (best, componentId) =>
+        saturatesAt.has(componentId) &&
+        (best === null || (saturatesAt.get(componentId) as number) < (saturatesAt.get(best) as number))
+          ? componentId
+          : best,
+      null
+    );
+
+  const callsPerRequest: Record<CriticalPathKind, Map<string, number>> = {
+    read: propagateTrafficDemand(withReadShare(input, 100), entryRps, calls),
+    write: propagateTrafficDemand(withReadShare(input, 0), entryRps, calls)
+  };
+  const kinds: CriticalPathKind[] = [
+    ...(readRatio > 0 ? (['read'] as const) : []),
+    ...(readRatio < 1 ? (['write'] as const) : [])
+  ];
+
+  const criticalPaths: CriticalPath[] = [];
+  for (const kind of kinds) {
+    const profile = withReadShare(input, kind === 'read' ? 100 : 0).trafficProfile;
+    const walked = enumerateRequestPaths(
+      graph,
+      entryIds,
+      (component) => passThroughRatio(component, profile),
+      geoRouteWeights(graph, dominantRegion)
+    ).map((path) => walkRequestPath(context, path, dominantRegion));
+    const candidates = walked.filter((path) => path.probability >= MIN_CRITICAL_PATH_PROBABILITY);
+    const slowest = (candidates.length > 0 ? candidates : walked).reduce<WalkedRequestPath | null>(
+      (best, path) => (best === null || path.meanMs > best.meanMs ? path : best),
+      null
+    );
+    if (!slowest) {
+      continue;
+    }
+
+    const hops: CriticalPathHop[] = slowest.hops.map((hop) => {
+      const component = graph.componentById.get(hop.componentId) as ArchitectureComponent;
+      return {
+        componentId: component.id,
+        componentLabel: component.label,
+        componentType: component.type,
+        latencyMs: hop.latencyMs,
+        callsPerRequest: (callsPerRequest[kind].get(component.id) ?? 0) / entryRps,
+        utilizationPercent: utilization(component),
+        saturatesAtRps: saturatesAt.get(component.id) ?? null
+      };
+    });
+    criticalPaths.push({
+      kind,
+      probability: clamp(slowest.probability, 0, 1),
+      latencyMs: slowest.meanMs,
+      hops,
+      limitingComponentId: firstToSaturate(hops.map((hop) => hop.componentId))
+    });
+  }
+
+  const details = criticalPaths.map((path) => {
+    const route = path.hops.map((hop) => hop.componentLabel).join(' → ');
+    const slowestHop = path.hops.reduce((best, hop) => (hop.latencyMs > best.latencyMs ? hop : best));
+    return `${path.kind === 'read' ? 'Read' : 'Write'} critical path (${(path.probability * 100).toFixed(0)}% of ${path.kind}s): ${route}, ${path.latencyMs.toFixed(1)} ms; ${slowestHop.componentLabel} adds the most at ${slowestHop.latencyMs.toFixed(1)} ms.`;
+  });
+
+  const limitingComponentId = firstToSaturate([...saturatesAt.keys()]);
+  if (limitingComponentId === null) {
+    return {
+      summary: 'No component carries load, so nothing saturates.',
+      criticalPaths,
+      limitingComponentId: null,
+      saturatesAtRps: null,
+      details
+    };
+  }
+
+  // The graph is built from the scaled input, so this is the component at its settled size.
+  const limiting = graph.componentById.get(limitingComponentId) as ArchitectureComponent;
+  const saturatesAtRps = saturatesAt.get(limitingComponentId) as number;
+
+  const callers = (graph.incoming.get(limitingComponentId) ?? [])
+    .filter((sourceId) => (demandByComponent.get(sourceId) ?? 0) > 0)
+    .map((sourceId) => graph.componentById.get(sourceId) as ArchitectureComponent);
+  const callerPhrase =
+    callers.length === 0
+      ? 'every request enters through it, taking'
+      : `${callers
+          .map((caller) =>
+            isComponentType(caller, 'client') ? caller.label : countOf(caller.scaling.replicas, `${caller.label} replica`)
+          )
+          .join(' and ')} ${
+          callers.length > 1 || (callers[0] !== undefined && !isComponentType(callers[0], 'client') && callers[0].scaling.replicas > 1)
+            ? 'send'
+            : 'sends'
+        } it`;
+  const readCalls = (readRatio * (callsPerRequest.read.get(limitingComponentId) ?? 0)) / entryRps;
+  const writeCalls = ((1 - readRatio) * (callsPerRequest.write.get(limitingComponentId) ?? 0)) / entryRps;
+  const retried = callers.some((caller) => {
+    const key = edgeKey(caller.id, limitingComponentId);
+    const policy = context.policies.get(key);
+    return policy !== undefined && expectedAttempts(calls.attemptFailure.get(key) ?? 0, policy.retries) > 1.05;
+  });
+  const loadPhrase =
+    (isComponentType(limiting, 'database') && writeCalls > 0
+      ? `${readCalls.toFixed(2)} reads and ${writeCalls.toFixed(2)} writes`
+      : `${(readCalls + writeCalls).toFixed(2)} calls`) + ` per request${retried ? ' (retries included)' : ''}`;
+  const autoscaling = limiting.scaling.autoscaling;
+  const nodeNoun = isComponentType(limiting, 'database') && limiting.databaseConfig ? 'node' : 'replica';
+  const replicaCount = autoscaling ? autoscaling.maxReplicas : limiting.scaling.replicas;
+  const queueConfig = isComponentType(limiting, 'queue') ? queueConfigOf(limiting) : null;
+  const capacityPhrase =
+    queueConfig && queueDrainRps(queueConfig) <= ceilingCapacity(limiting)
+      ? `its ${countOf(queueConfig.consumers, 'consumer')} drain ${formatRps(queueDrainRps(queueConfig))} messages per second`
+      : `${autoscaling ? 'its autoscaling limit of ' : 'its '}${countOf(replicaCount, nodeNoun)} serves ${formatRps(ceilingCapacity(limiting))} calls per second`;
+  const peakPhrase =
+    entryRps > saturatesAtRps
+      ? `Peak demand of ${formatRps(entryRps)} RPS is past that point.`
+      : `Peak demand of ${formatRps(entryRps)} RPS is ${((entryRps / saturatesAtRps) * 100).toFixed(0)}% of that.`;
+
+  return {
+    summary: `${limiting.label} ${enforcesRateLimit(limiting) ? 'rejects traffic above' : 'saturates at'} ${formatRps(saturatesAtRps)} RPS because ${callerPhrase} ${loadPhrase}, and ${capacityPhrase}. ${peakPhrase}`,
+    criticalPaths,
+    limitingComponentId,
+    saturatesAtRps,
+    details
+  };
+}
+
+type ComponentPressureLevel = 'normal' | 'warning' | 'saturated';
+
+function pressureLevel(utilizationPercent: number): ComponentPressureLevel {
+  if (utilizationPercent >= 100) {
+    return 'saturated';
+  }
+  if (utilizationPercent >= 80) {
+    return 'warning';
+  }
+  return 'normal';
+}
+
+type AutoscalerState = {
+  replicas: number;
+  pendingSince: number | null;
+  lastScaledAt: number;
+};
+
+/**
+ * Advances one component's autoscaler by a tick. Scale-out fires once the pressure has
+ * lasted `scaleUpDelaySeconds` (provisioning lag); scale-in waits until `cooldownSeconds`
+ * have passed since the last scaling action. Returns the replica change, if any.
+ */
+function stepAutoscaler(
+  component: ArchitectureComponent,
+  state: AutoscalerState,
+  offeredRps: number,
+  atSecond: number
+): { from: number; to: number } | null {
+  const policy = component.scaling.autoscaling;
+  if (!policy) {
+    return null;
+  }
+
+  const desired = autoscaledReplicas(component, offeredRps);
+  const from = state.replicas;
+
+  if (desired > state.replicas) {
+    state.pendingSince ??= atSecond;
+    if (atSecond - state.pendingSince < policy.scaleUpDelaySeconds) {
+      return null;
+    }
+  } else {
+    state.pendingSince = null;
+    if (desired === state.replicas || atSecond - state.lastScaledAt < policy.cooldownSeconds) {
+      return null;
+    }
+  }
+
+  state.replicas = desired;
+  state.pendingSince = null;
+  state.lastScaledAt = atSecond;
+  return { from, to: desired };
+}
+
+/**
+ * Steps through the window tick by tick; a traffic shape sets the window to its own duration.
+ * With `stages`, each stage's input replaces the previous one from its `atSecond` on while
+ * queues, autoscalers and breakers carry over, so the effects of successive stages compound.
+ */
+export function runTimeSteppedSimulation(
+  rawInput: SimulationInputContract,
+  options: TimeSteppedSimulationOptions = {}
+): SimulationComputationResult {
+  const input = resolveDatabaseTopology(rawInput);
+  const durationSeconds = Math.max(1, Math.round(options.durationSeconds ?? timeSteppedWindowSeconds(input)));
+  // Stages after the window never take effect.
+  const stages: SimulationStage[] = [
+    { atSecond: 0, input },
+    ...(options.stages ?? [])
+      .filter((stage) => stage.atSecond <= durationSeconds)
+      .map((stage) => ({
+        atSecond: stage.atSecond,
+        input: resolveDatabaseTopology(stage.input)
+      }))
+  ].sort((left, right) => left.atSecond - right.atSecond);
+  const stageAt = (atSecond: number) =>
+    stages.reduce((current, stage) => (stage.atSecond <= atSecond ? stage : current));
+  const analytical = analyzeArchitecture((stages[stages.length - 1] as SimulationStage).input, { explain: true });
+  if (input.components.length === 0) {
+    return { ...analytical, series: [] };
+  }
+
+  const tickSeconds = Math.max(
+    1,
+    Math.round(options.tickSeconds ?? Math.max(DEFAULT_TICK_SECONDS, Math.ceil(durationSeconds / MAX_SERIES_TICKS)))
+  );
+
+  // Cold caches warm up during the window and retries react to the previous tick's
+  // failures, both of which shift demand shares tick by tick. A cache warms from the
+  // stage that flushed it, even when later stages carry it over.
+  const isCold = (component: ArchitectureComponent) =>
+    isComponentType(component, 'cache') && component.cacheConfig?.state === 'cold';
+  const coldSince = new Map<SimulationStage, Map<string, number>>();
+  stages.forEach((stage, index) => {
+    const previous = index > 0 ? coldSince.get(stages[index - 1] as SimulationStage) : undefined;
+    coldSince.set(
+      stage,
+      new Map(
+        stage.input.components
+          .filter(isCold)
+          .map((component) => [component.id, previous?.get(component.id) ?? stage.atSecond])
+      )
+    );
+  });
+  const warming = stages.some((stage) => stage.input.components.some(isCold));
+  const policies = callPoliciesByEdge(input.edges);
+  const lossy = stages.some((stage) => linkLossByEdge(stage.input.edges).size > 0);
+  const calls: CallState = { attemptFailure: new Map(), openBreakers: new Set() };
+  const breakerOpenUntil = new Map<string, number>();
+  const storming = new Set<string>();
+  const inputAt = (atSecond: number) => {
+    const stage = stageAt(atSecond);
+    const since = coldSince.get(stage) as Map<string, number>;
+    return since.size > 0
+      ? warmCachesAt(stage.input, (componentId) => atSecond - (since.get(componentId) ?? 0))
+      : stage.input;
+  };
+  // Rate limits and queue consumers cap absolute demand, so shares also change with the demand itself.
+  const limited = input.components.some(
+    (component) => enforcesRateLimit(component) || drainRps(component) !== undefined
+  );
+  const steadyShares = new Map(
+    stages.map((stage) => [
+      stage,
+      propagateTrafficDemand(warmCachesAt(stage.input, () => Infinity), 1)
+    ])
+  );
+  const shareAt = (atSecond: number, demandRps = 1) => {
+    if (limited && demandRps > 0) {
+      const demand = propagateTrafficDemand(inputAt(atSecond), demandRps, calls);
+      return new Map([...demand].map(([componentId, rps]) => [componentId, rps / demandRps]));
+    }
+    return warming || policies.size > 0
+      ? propagateTrafficDemand(inputAt(atSecond), 1, calls)
+      : (steadyShares.get(stageAt(atSecond)) as Map<string, number>);
+  };
+  const labelOf = (componentId: string) =>
+    input.components.find((component) => component.id === componentId)?.label ?? componentId;
+  const stageShares = stages.flatMap((stage) => [
+    shareAt(stage.atSecond),
+    steadyShares.get(stage) as Map<string, number>
+  ]);
+  const activeComponents = input.components
+    .filter((component) => stageShares.some((share) => (share.get(component.id) ?? 0) > 0))
+    .map((component) => ({
+      component,
+      perReplicaRps: replicaCapacity(component),
+      autoscaler: {
+        replicas: component.scaling.replicas,
+        pendingSince: null,
+        lastScaledAt: Number.NEGATIVE_INFINITY
+      } as AutoscalerState
     }));
 
+  const queueDepth = new Map<string, number>();
+  // Messages a full back-pressure queue refused; its producers hold and resend them until they
+  // no longer fit in the producers' buffers, and drop the rest on the next tick.
+  const heldForQueue = new Map<string, number>();
+  const backPressureDrops = new Map<string, number>();
+  const activeById = new Map(activeComponents.map((entry) => [entry.component.id, entry]));
+  const queueMetrics = new Map<string, QueueMetrics>();
+  const producersOf = buildComponentGraph(input.components, input.edges).incoming;
+  const backlogged = new Set<string>();
+  const levels = new Map<string, ComponentPressureLevel>();
+  const dropping = new Set<string>();
+  const lagging = new Set<string>();
+  // Second each database's current primary failover began.
+  const failoverStartedAt = new Map(
+    input.components
+      .filter((component) => isComponentType(component, 'database') && component.behavior.failoverSeconds !== undefined)
+      .map((component) => [component.id, 0])
+  );
+  let currentStage = stages[0] as SimulationStage;
+  const readRatio = input.trafficProfile.readPercentage / 100;
+  const series: SimulationTick[] = [];
+  const timeline: SimulationTimelineEvent[] = [
+    {
+      sequence: 0,
+      atSecond: 0,
+      severity: 'info',
+      title: 'Simulation started',
+      description: `Stepping through a ${durationSeconds}s window at ${tickSeconds}s ticks.`,
+      componentId: null
+    }
+  ];
+
+  const pushEvent = (event: Omit<SimulationTimelineEvent, 'sequence'>) => {
+    timeline.push({ ...event, sequence: timeline.length });
+  };
+  let reportedEventCount = 0;
+
+  for (let atSecond = 0; atSecond <= durationSeconds; atSecond += tickSeconds) {
+    const stage = stageAt(atSecond);
+    if (stage !== currentStage) {
+      currentStage = stage;
+      for (const entry of activeComponents) {
+        const next =
+          stage.input.components.find((component) => component.id === entry.component.id) ?? entry.component;
+        // Replicas the stage removed are gone, whatever the autoscaler had added.
+        if (next.scaling.replicas !== entry.component.scaling.replicas) {
+          entry.autoscaler.replicas = next.scaling.replicas;
+        }
+        if (next.behavior.failoverSeconds !== undefined && entry.component.behavior.failoverSeconds === undefined) {
+          failoverStartedAt.set(next.id, atSecond);
+        }
+        entry.component = next;
+        entry.perReplicaRps = replicaCapacity(next);
+      }
+    }
+
+    const demandRps = trafficDemandRps(stage.input.trafficProfile, atSecond, durationSeconds);
+    const demandShare = shareAt(atSecond, demandRps);
+    let entryDroppedRps = 0;
+    const samples: SimulationTick['components'] = [];
+    const offeredById = new Map<string, number>();
+    const dropRatioById = new Map<string, number>();
+
+    for (const { component, perReplicaRps, autoscaler } of activeComponents) {
+      const replicas = autoscaler.replicas;
+      const capacityRps = perReplicaRps * replicas;
+      const share = demandShare.get(component.id) ?? 0;
+      const offeredRps = demandRps * share;
+      const topology = isComponentType(component, 'database') ? databaseTopology(component) : null;
+      const failoverStart = topology ? failoverStartedAt.get(component.id) : undefined;
+      const promotedAt = (failoverStart ?? 0) + (component.behavior.failoverSeconds ?? 0);
+      // Requests for the shard without a primary are rejected before they can queue.
+      const rejectedRps =
+        topology && failoverStart !== undefined && atSecond < promotedAt
+          ? offeredRps * failoverUnavailableShare(topology, readRatio)
+          : 0;
+      const previousDepth = queueDepth.get(component.id) ?? 0;
+      const bufferedSeconds = bufferSeconds(component, QUEUE_TIMEOUT_SECONDS);
+      const queueConfig = isComponentType(component, 'queue') ? queueConfigOf(component) : null;
+      let depth: number;
+      let droppedRps: number;
+      let utilizationPercent: number;
+      let consumerLagSeconds: number | undefined;
+
+      if (queueConfig) {
+        // The broker rejects what it cannot enqueue; the consumers set how fast the backlog drains.
+        // Downstream demand still follows the producers (capped at the drain rate), so consumers
+        // working off a backlog after a surge are not modelled as extra downstream load.
+        const enqueuedRps = Math.min(offeredRps, capacityRps);
+        const heldRps = (heldForQueue.get(component.id) ?? 0) / tickSeconds;
+        const step = stepQueue(queueConfig, previousDepth, enqueuedRps + heldRps, tickSeconds);
+        const drainRps = queueDrainRps(queueConfig);
+        depth = step.depth;
+        droppedRps = step.droppedRps + (offeredRps - enqueuedRps);
+        utilizationPercent = (offeredRps / Math.min(capacityRps, drainRps)) * 100;
+        consumerLagSeconds = step.lagSeconds;
+
+        const producers = (producersOf.get(component.id) ?? []).filter(
+          (producerId) => (demandShare.get(producerId) ?? 0) > 0
+        );
+        const producerShare = producers.reduce((sum, producerId) => sum + (demandShare.get(producerId) ?? 0), 0);
+        const producerBuffer = producers.reduce((sum, producerId) => {
+          const producer = activeById.get(producerId);
+          return producer
+            ? sum +
+                producer.perReplicaRps *
+                  producer.autoscaler.replicas *
+                  bufferSeconds(producer.component, QUEUE_TIMEOUT_SECONDS)
+            : sum;
+        }, 0);
+        const refused = step.refusedRps * tickSeconds;
+        const overflowRps = Math.max(0, refused - producerBuffer) / tickSeconds;
+        heldForQueue.set(component.id, Math.min(refused, producerBuffer));
+        for (const producerId of producers) {
+          backPressureDrops.set(
+            producerId,
+            (backPressureDrops.get(producerId) ?? 0) +
+              (overflowRps * (demandShare.get(producerId) ?? 0)) / producerShare
+          );
+        }
+
+        const previous = queueMetrics.get(component.id);
+        queueMetrics.set(component.id, {
+          componentId: component.id,
+          producerRps: Math.max(previous?.producerRps ?? 0, offeredRps),
+          consumerRps: drainRps,
+          peakBacklog: Math.max(previous?.peakBacklog ?? 0, depth),
+          peakLagSeconds: Math.max(previous?.peakLagSeconds ?? 0, step.lagSeconds),
+          droppedRps: Math.max(previous?.droppedRps ?? 0, droppedRps),
+          deferredRps: Math.max(previous?.deferredRps ?? 0, step.refusedRps),
+          backPressure: (previous?.backPressure ?? false) || step.refusedRps > 0
+        });
+
+        if (step.refusedRps > 0 && !previous?.backPressure) {
+          pushEvent({
+            atSecond,
+            severity: 'critical',
+            title: `Back-pressure from ${component.label}`,
+            description: `${component.label} is full; ${producers.map(labelOf).join(', ') || 'producers'} hold ${Math.round(step.refusedRps).toLocaleString()} messages/s it refuses.`,
+            componentId: component.id
+          });
+        }
+        if (depth > 0 && !backlogged.has(component.id)) {
+          backlogged.add(component.id);
+          pushEvent({
+            atSecond,
+            severity: 'warning',
+            title: `Backlog building on ${component.label}`,
+            description: `Producers send ${Math.round(offeredRps).toLocaleString()} messages/s but ${queueConfig.consumers} consumers drain ${Math.round(drainRps).toLocaleString()}.`,
+            componentId: component.id
+          });
+        } else if (depth === 0 && backlogged.has(component.id)) {
+          backlogged.delete(component.id);
+          pushEvent({
+            atSecond,
+            severity: 'info',
+            title: `Backlog cleared on ${component.label}`,
+            description: `Consumers caught up; messages are no longer delayed.`,
+            componentId: component.id
+          });
+        }
+      } else {
+        const backlog = previousDepth + (offeredRps - rejectedRps) * tickSeconds;
+        const remaining = backlog - Math.min(backlog, capacityRps * tickSeconds);
+        const dropped = Math.max(0, remaining - capacityRps * bufferedSeconds);
+        depth = remaining - dropped;
+        droppedRps = dropped / tickSeconds + rejectedRps + (backPressureDrops.get(component.id) ?? 0);
+        backPressureDrops.delete(component.id);
+        utilizationPercent = (offeredRps / capacityRps) * 100;
+      }
+
+      if (topology && failoverStart !== undefined) {
+        if (atSecond === failoverStart) {
+          pushEvent({
+            atSecond,
+            severity: 'critical',
+            title: `Primary failover started on ${component.label}`,
+            description: `A shard primary is down; rejecting ${Math.round(rejectedRps).toLocaleString()} RPS until it is replaced.`,
+            componentId: component.id
+          });
+        }
+        if (atSecond >= promotedAt) {
+          failoverStartedAt.delete(component.id);
+          pushEvent({
+            atSecond,
+            severity: 'info',
+            title:
+              topology.readReplicas > 0
+                ? `Replica promoted on ${component.label}`
+                : `Primary rebuilt on ${component.label}`,
+            description: `${component.label} accepts writes on every shard again.`,
+            componentId: component.id
+          });
+        }
+      }
+
+      const lagMs =
+        topology && component.databaseConfig ? replicationLagMs(topology, utilizationPercent / 100) : 0;
+      if (lagMs >= REPLICATION_LAG_WARNING_MS && !lagging.has(component.id)) {
+        lagging.add(component.id);
+        pushEvent({
+          atSecond,
+          severity: 'warning',
+          title: `Replication lag on ${component.label}`,
+          description: `Async replicas fell ~${lagMs.toFixed(0)}ms behind the primary.`,
+          componentId: component.id
+        });
+      } else if (lagMs < REPLICATION_LAG_WARNING_MS && lagging.has(component.id)) {
+        lagging.delete(component.id);
+        pushEvent({
+          atSecond,
+          severity: 'info',
+          title: `Replication caught up on ${component.label}`,
+          description: `Async replicas are back within ${REPLICATION_LAG_WARNING_MS}ms of the primary.`,
+          componentId: component.id
+        });
+      }
+
+      queueDepth.set(component.id, depth);
+      offeredById.set(component.id, offeredRps);
+      dropRatioById.set(component.id, offeredRps > 0 ? Math.min(1, droppedRps / offeredRps) : 0);
+      entryDroppedRps = share > 0 ? Math.max(entryDroppedRps, droppedRps / share) : entryDroppedRps;
+      samples.push({
+        componentId: component.id,
+        replicas,
+        utilizationPercent,
+        queueDepth: depth,
+        droppedRps,
+        ...(consumerLagSeconds !== undefined ? { consumerLagSeconds } : {})
+      });
+
+      const previousLevel = levels.get(component.id) ?? 'normal';
+      const level = pressureLevel(utilizationPercent);
+      if (level !== previousLevel) {
+        if (level === 'saturated') {
+          pushEvent({
+            atSecond,
+            severity: 'critical',
+            title: `${component.label} saturated`,
+            description: `Offered load reached ${utilizationPercent.toFixed(1)}% of ${Math.round(capacityRps).toLocaleString()} RPS capacity.`,
+            componentId: component.id
+          });
+        } else if (level === 'warning' && previousLevel === 'normal') {
+          pushEvent({
+            atSecond,
+            severity: 'warning',
+            title: `Capacity pressure on ${component.label}`,
+            description: `${component.label} crossed 80% utilization (${utilizationPercent.toFixed(1)}%).`,
+            componentId: component.id
+          });
+        } else if (previousLevel === 'saturated') {
+          pushEvent({
+            atSecond,
+            severity: 'info',
+            title: `${component.label} recovered`,
+            description: `Offered load fell back to ${utilizationPercent.toFixed(1)}% of capacity.`,
+            componentId: component.id
+          });
+        }
+        levels.set(component.id, level);
+      }
+
+      if (droppedRps > 0 && !dropping.has(component.id)) {
+        dropping.add(component.id);
+        pushEvent({
+          atSecond,
+          severity: 'critical',
+          title: `${component.label} dropping requests`,
+          description: enforcesRateLimit(component)
+            ? `Demand is over the rate limit; rejecting ${Math.round(droppedRps).toLocaleString()} RPS.`
+            : queueConfig
+              ? `Backlog overflowed or outlived its ${queueConfig.retentionSeconds}s retention; losing ${Math.round(droppedRps).toLocaleString()} messages/s.`
+              : `Queue exceeded ${bufferedSeconds}s of buffered work; shedding ${Math.round(droppedRps).toLocaleString()} RPS.`,
+          componentId: component.id
+        });
+      } else if (droppedRps === 0 && dropping.has(component.id) && depth === 0) {
+        dropping.delete(component.id);
+        pushEvent({
+          atSecond,
+          severity: 'info',
+          title: `${component.label} queue drained`,
+          description: `${component.label} cleared its backlog and stopped shedding requests.`,
+          componentId: component.id
+        });
+      }
+
+      const scaled = stepAutoscaler(component, autoscaler, offeredRps, atSecond);
+      if (scaled) {
+        const scaledOut = scaled.to > scaled.from;
+        pushEvent({
+          atSecond,
+          severity: 'info',
+          title: `${scaledOut ? 'Scaled out' : 'Scaled in'} ${component.label}`,
+          description: scaledOut
+            ? `Added ${scaled.to - scaled.from} replicas (${scaled.from} -> ${scaled.to}) at ${utilizationPercent.toFixed(1)}% utilization.`
+            : `Removed ${scaled.from - scaled.to} replicas (${scaled.from} -> ${scaled.to}) after cooldown.`,
+          componentId: component.id
+        });
+      }
+    }
+
+    if (policies.size > 0 || lossy) {
+      const replicasById = new Map(
+        activeComponents.map((entry) => [entry.component.id, entry.autoscaler.replicas])
+      );
+      const tickInput = inputAt(atSecond);
+      const evaluated = evaluateCalls(
+        {
+          ...tickInput,
+          components: tickInput.components.map((component) =>
+            withReplicas(component, replicasById.get(component.id) ?? component.scaling.replicas)
+          )
+        },
+        offeredById,
+        dropRatioById,
+        calls
+      );
+      entryDroppedRps = Math.max(entryDroppedRps, demandRps * evaluated.requestFailureRatio);
+
+      for (const [key, policy] of policies) {
+        const failureRatio = evaluated.attemptFailure.get(key) ?? 0;
+        const [sourceId, targetId] = key.split('->') as [string, string];
+        const route = `${labelOf(sourceId)} -> ${labelOf(targetId)}`;
+        calls.attemptFailure.set(key, failureRatio);
+
+        const breaker = policy.circuitBreaker;
+        const tripped = breaker !== undefined && failureRatio * 100 >= breaker.errorThresholdPercent;
+        if (calls.openBreakers.has(key)) {
+          // Half-open: the breaker lets calls through again once the target looks healthy.
+          if (atSecond >= (breakerOpenUntil.get(key) ?? 0)) {
+            if (tripped) {
+              breakerOpenUntil.set(key, atSecond + (breaker?.openSeconds ?? 0));
+            } else {
+              calls.openBreakers.delete(key);
+              pushEvent({
+                atSecond,
+                severity: 'info',
+                title: `Circuit breaker closed on ${route}`,
+                description: `Probe calls to ${labelOf(targetId)} succeeded; traffic is flowing again.`,
+                componentId: targetId
+              });
+            }
+          }
+          continue;
+        }
+        if (tripped && breaker) {
+          calls.openBreakers.add(key);
+          breakerOpenUntil.set(key, atSecond + breaker.openSeconds);
+          storming.delete(key);
+          pushEvent({
+            atSecond,
+            severity: 'warning',
+            title: `Circuit breaker opened on ${route}`,
+            description: `${(failureRatio * 100).toFixed(1)}% of calls failed; shedding calls to ${labelOf(targetId)} for ${breaker.openSeconds}s.`,
+            componentId: targetId
+          });
+          continue;
+        }
+
+        const attempts = expectedAttempts(failureRatio, policy.retries);
+        if (attempts >= RETRY_STORM_ATTEMPTS && !storming.has(key)) {
+          storming.add(key);
+          pushEvent({
+            atSecond,
+            severity: 'critical',
+            title: `Retry storm on ${route}`,
+            description: `Each call averages ${attempts.toFixed(2)} attempts, multiplying load on ${labelOf(targetId)}.`,
+            componentId: targetId
+          });
+        } else if (attempts < RETRY_STORM_ATTEMPTS && storming.has(key)) {
+          storming.delete(key);
+          pushEvent({
+            atSecond,
+            severity: 'info',
+            title: `Retry storm on ${route} subsided`,
+            description: `Calls to ${labelOf(targetId)} settled back to ${attempts.toFixed(2)} attempts each.`,
+            componentId: targetId
+          });
+        }
+      }
+    }
+
+    const droppedRps = Math.min(demandRps, entryDroppedRps);
+    const tick: SimulationTick = {
+      atSecond,
+      demandRps,
+      throughputRps: demandRps - droppedRps,
+      droppedRps,
+      components: samples
+    };
+    series.push(tick);
+    options.onTick?.(tick, timeline.slice(reportedEventCount));
+    reportedEventCount = timeline.length;
+  }
+
+  const peakDemandRps = Math.max(...series.map((tick) => tick.demandRps));
+  const peakTicks = series.filter((tick) => tick.demandRps >= peakDemandRps * 0.999);
+  const peakDemandTotal = peakTicks.reduce((sum, tick) => sum + tick.demandRps, 0);
+  const peakDroppedTotal = peakTicks.reduce((sum, tick) => sum + tick.droppedRps, 0);
+  const perReplicaById = new Map(activeComponents.map((entry) => [entry.component.id, entry.perReplicaRps]));
+  // Queue backlogs wait on consumers, off the request path.
+  const peakQueueWaitMs =
+    peakTicks.reduce((sum, tick) => {
+      const longestWait = Math.max(
+        0,
+        ...tick.components
+          .filter((sample) => sample.consumerLagSeconds === undefined)
+          .map(
+            (sample) =>
+              (sample.queueDepth / ((perReplicaById.get(sample.componentId) ?? 1) * (sample.replicas ?? 1))) *
+              1000
+          )
+      );
+      return sum + longestWait;
+    }, 0) / Math.max(1, peakTicks.length);
+  const anyDrops = series.some((tick) => tick.droppedRps > 0);
+
+  pushEvent({
+    atSecond: durationSeconds,
+    severity: anyDrops ? 'critical' : 'info',
+    title: anyDrops ? 'Simulation window ended with dropped requests' : 'Simulation window completed',
+    description: anyDrops
+      ? 'At least one component shed load during the window.'
+      : 'All components kept up with demand across the window.',
+    componentId: null
+  });
+
+  return {
+    metrics: {
+      ...analytical.metrics,
+      peakRps: peakDemandRps,
+      throughputRps: Math.max(0, (peakDemandTotal - peakDroppedTotal) / Math.max(1, peakTicks.length)),
+      p50LatencyMs: analytical.metrics.p50LatencyMs + peakQueueWaitMs * 0.5,
+      p95LatencyMs: analytical.metrics.p95LatencyMs + peakQueueWaitMs,
+      p99LatencyMs: (analytical.metrics.p99LatencyMs ?? analytical.metrics.p95LatencyMs) + peakQueueWaitMs,
+      regionalLatency: analytical.metrics.regionalLatency?.map((entry) => ({
+        ...entry,
+        p50LatencyMs: entry.p50LatencyMs + peakQueueWaitMs * 0.5,
+        p95LatencyMs: entry.p95LatencyMs + peakQueueWaitMs
+      })),
+      errorRatePercent:
+        peakDemandTotal > 0 ? clamp((peakDroppedTotal / peakDemandTotal) * 100, 0, 100) : 0,
+      saturated: analytical.metrics.saturated || anyDrops,
+      ...(queueMetrics.size > 0 ? { queues: [...queueMetrics.values()] } : {}),
+      ...estimateArchitectureCost(rawInput)
+    },
+    bottlenecks: analytical.bottlenecks,
+    timeline,
+    series,
+    ...(analytical.explanation ? { explanation: analytical.explanation } : {})
+  };
+}
+
+function perturbSimulationInput(
+  input: SimulationInputContract,
+  random: RandomSource
+): SimulationInputContract {
+  const sigma = BURST_SIGMA[input.trafficProfile.burstiness];
+  const burst = Math.exp(sigma * random.normal() - (sigma * sigma) / 2);
+
+  return {
+    components: input.components.map((component) => ({
+      ...component,
+      capacity: {
+        ...component.capacity,
+        opsPerSecond: safeComponentCapacity(
+          component.capacity.opsPerSecond *
+            clamp(1 + COMPONENT_JITTER_SIGMA * random.normal(), 0.6, 1.4)
+        )
+      }
+    })),
+    edges: input.edges,
+    trafficProfile: scaleShapePoints(
+      {
+        ...input.trafficProfile,
+        baselineRps: Math.max(1, Math.round(input.trafficProfile.baselineRps * burst))
+      },
+      burst
+    )
+  };
+}
+
+function metricBand(values: number[]): SimulationMetricBand {
+  const sorted = [...values].sort((left, right) => left - right);
+  const mean = values.reduce((sum, value) => sum + value, 0) / Math.max(1, values.length);
+
+  return {
+    mean,
+    p5: percentileOf(sorted, 0.05),
+    p50: percentileOf(sorted, 0.5),
+    p95: percentileOf(sorted, 0.95)
+  };
+}
+
+/**
+ * Runs the analytical model `iterations` times against randomized arrival bursts and
+ * per-component capacity jitter. Metrics are iteration means; `confidence` carries the
+ * 5th-95th percentile bands. Identical seeds reproduce identical results.
+ */
+export function runMonteCarloSimulation(
+  input: SimulationInputContract,
+  options: MonteCarloSimulationOptions
+): SimulationComputationResult {
+  const iterations = Math.max(1, Math.round(options.iterations ?? DEFAULT_MONTE_CARLO_ITERATIONS));
+  const random = createSeededRandom(options.seed);
+  const baseline = runArchitectureSimulation(input);
+  const samples: SimulationComputationResult['metrics'][] = [];
+
+  for (let iteration = 0; iteration < iterations; iteration += 1) {
+    samples.push(analyzeArchitecture(resolveDatabaseTopology(perturbSimulationInput(input, random))).metrics);
+  }
+
+  const average = (pick: (metrics: SimulationComputationResult['metrics']) => number) =>
+    samples.reduce((sum, metrics) => sum + pick(metrics), 0) / samples.length;
+  const saturatedProbability =
+    samples.filter((metrics) => metrics.saturated).length / samples.length;
+
+  const confidence: SimulationConfidenceSummary = {
+    iterations,
+    seed: options.seed,
+    throughputRps: metricBand(samples.map((metrics) => metrics.throughputRps)),
+    p50LatencyMs: metricBand(samples.map((metrics) => metrics.p50LatencyMs)),
+    p95LatencyMs: metricBand(samples.map((metrics) => metrics.p95LatencyMs)),
+    errorRatePercent: metricBand(samples.map((metrics) => metrics.errorRatePercent)),
+    saturatedProbability
+  };
+
+  const lastEvent = baseline.timeline[baseline.timeline.length - 1];
+  const timeline: SimulationTimelineEvent[] = [
+    ...baseline.timeline,
+    {
+      sequence: baseline.timeline.length,
+      atSecond: lastEvent?.atSecond ?? 0,
+      severity: saturatedProbability >= 0.5 ? 'critical' : saturatedProbability > 0 ? 'warning' : 'info',
+      title: 'Monte Carlo iterations completed',
+      description: `${iterations} iterations (seed ${options.seed}): p95 latency ${confidence.p95LatencyMs.p5.toFixed(1)}-${confidence.p95LatencyMs.p95.toFixed(1)}ms, saturated in ${(saturatedProbability * 100).toFixed(0)}% of iterations.`,
+      componentId: null
+    }
+  ];
+
+  return {
+    metrics: {
+      peakRps: average((metrics) => metrics.peakRps),
+      capacityRps: average((metrics) => metrics.capacityRps),
+      throughputRps: confidence.throughputRps.mean,
+      p50LatencyMs: confidence.p50LatencyMs.mean,
+      p95LatencyMs: confidence.p95LatencyMs.mean,
+      p99LatencyMs: average((metrics) => metrics.p99LatencyMs ?? metrics.p95LatencyMs),
+      regionalLatency: baseline.metrics.regionalLatency?.map((entry) => {
+        const regional = (metrics: SimulationComputationResult['metrics']) =>
+          metrics.regionalLatency?.find((item) => item.region === entry.region) ?? entry;
+        return {
+          ...entry,
+          p50LatencyMs: average((metrics) => regional(metrics).p50LatencyMs),
+          p95LatencyMs: average((metrics) => regional(metrics).p95LatencyMs)
+        };
+      }),
+      errorRatePercent: clamp(confidence.errorRatePercent.mean, 0, 100),
+      saturated: saturatedProbability >= 0.5,
+      edgeCalls: baseline.metrics.edgeCalls,
+      queues: baseline.metrics.queues,
+      monthlyCostUsd: baseline.metrics.monthlyCostUsd,
+      costPerMillionRequestsUsd: baseline.metrics.costPerMillionRequestsUsd
+    },
+    bottlenecks: baseline.bottlenecks,
+    timeline,
+    confidence,
+    ...(baseline.explanation ? { explanation: baseline.explanation } : {})
+  };
+}
+
+export type CapacityPlanResult = Omit<CapacityPlan, 'versionId' | 'targets'>;
+
+type SizingOption = ComponentSizing & {
+  // Capacity relative to one small-tier replica.
+  capacityScale: number;
+  cost: number;
+};
+
+function componentNodeCount(component: ArchitectureComponent): number {
+  return isComponentType(component, 'database') && component.databaseConfig
+    ? databaseNodeCount(component.databaseConfig)
+    : component.scaling.replicas;
+}
+
+// Node cost as sized; usage charges barely move with sizing, so the planner ignores them.
+function nodeCost(input: SimulationInputContract): number {
+  const pricing = input.pricing ?? defaultPricingTable;
+  return input.components.reduce(
+    (sum, component) => sum + nodesMonthlyUsd(component, componentNodeCount(component), pricing),
+    0
+  );
+}
+
+// Autoscalers already size their own replicas, so the planner leaves those components alone.
+function plannable(component: ArchitectureComponent): boolean {
+  return !isComponentType(component, 'client') && !component.scaling.autoscaling;
+}
+
+function withSizing(component: ArchitectureComponent, sizing: ComponentSizing): ArchitectureComponent {
+  return {
+    ...component,
+    scaling: {
+      ...component.scaling,
+      replicas: sizing.replicas,
+      verticalTier: sizing.verticalTier
+    }
+  };
+}
+
+/**
+ * Sizings the planner may give a component, cheapest first. Configured databases keep their
+ * node layout and only change tier. A component never drops to one replica if it had more,
+ * so a plan does not add single points of failure.
+ */
+function sizingOptions(
+  component: ArchitectureComponent,
+  pricing: PricingTable
+): SizingOption[] {
+  const fixedNodes = isComponentType(component, 'database') && component.databaseConfig !== undefined;
+  const minReplicas = Math.min(component.scaling.replicas, 2);
+  const replicaCounts = fixedNodes
+    ? [component.scaling.replicas]
+    : Array.from(
+        { length: MAX_PLANNED_REPLICAS - minReplicas + 1 },
+        (_, index) => minReplicas + index
+      );
+  const options: SizingOption[] = [];
+
+  for (const verticalTier of Object.keys(VERTICAL_MULTIPLIER) as VerticalTier[]) {
+    for (const replicas of replicaCounts) {
+      const sized = withSizing(component, { replicas, verticalTier });
+      options.push({
+        replicas,
+        verticalTier,
+        capacityScale: VERTICAL_MULTIPLIER[verticalTier] * (fixedNodes ? 1 : replicas),
+        cost: nodesMonthlyUsd(sized, componentNodeCount(sized), pricing)
+      });
+    }
+  }
+
+  return options.sort(
+    (left, right) => left.cost - right.cost || right.capacityScale - left.capacityScale
+  );
+}
+
+function capacityScaleOf(component: ArchitectureComponent): number {
+  const fixedNodes = isComponentType(component, 'database') && component.databaseConfig !== undefined;
+  return VERTICAL_MULTIPLIER[component.scaling.verticalTier] * (fixedNodes ? 1 : component.scaling.replicas);
+}
+
+// Peak demand and effective capacity of every component, as the analytical model sees them.
+function peakLoad(
+  input: SimulationInputContract
+): Map<string, { demandRps: number; capacityRps: number }> {
+  const { demandByComponent, scaledInput } = resolveCallBehavior(
+    resolveDatabaseTopology(input),
+    trafficPeakDemandRps(input.trafficProfile)
+  );
+
+  return new Map(
+    scaledInput.components.map((component) => [
+      component.id,
+      {
+        demandRps: demandByComponent.get(component.id) ?? 0,
+        capacityRps: componentEffectiveCapacity(component)
+      }
+    ])
+  );
+}
+
+type PlanEvaluation = {
+  result: SimulationComputationResult;
+  // How far the plan is from the targets; 0 when it meets all of them.
+  shortfall: number;
+  overloadedIds: string[];
+};
+
+function evaluatePlan(input: SimulationInputContract, targets: CapacityPlanTargets): PlanEvaluation {
+  const result = analyzeArchitecture(resolveDatabaseTopology(input));
+  const utilizationLimit = 1 - targets.headroomPercent / 100;
+  const overloadedIds: string[] = [];
+  let shortfall =
+    Math.max(0, result.metrics.p95LatencyMs / targets.p95LatencyMs - 1) +
+    Math.max(0, result.metrics.errorRatePercent - targets.errorRatePercent) /
+      Math.max(1, targets.errorRatePercent);
+
+  const clientIds = new Set(
+    input.components.filter((component) => isComponentType(component, 'client')).map((component) => component.id)
+  );
+  for (const [componentId, load] of peakLoad(input)) {
+    const excess = load.demandRps / load.capacityRps / utilizationLimit - 1;
+    if (!clientIds.has(componentId) && load.demandRps > 0 && excess > 1e-9) {
+      overloadedIds.push(componentId);
+      shortfall += excess;
+    }
+  }
+
+  return { result, shortfall, overloadedIds };
+}
+
+/**
+ * Cheapest replica counts and tiers that meet `targets` at peak. Each component is first
+ * sized for the headroom target from its peak demand (repeated, since retries and rate
+ * limits shift demand as capacity changes). If latency or error targets are still missed,
+ * the planner upgrades one component a step at a time, picking the upgrade that closes the
+ * most shortfall per dollar, until the targets are met or nothing helps.
+ */
+export function planCapacity(
+  input: SimulationInputContract,
+  targets: CapacityPlanTargets
+): CapacityPlanResult {
+  const optionsById = new Map(
+    input.components
+      .filter(plannable)
+      .map((component) => [component.id, sizingOptions(component, input.pricing ?? defaultPricingTable)])
+  );
+  const utilizationLimit = 1 - targets.headroomPercent / 100;
+  let planned = input;
+
+  for (let pass = 0; pass < 3; pass += 1) {
+    const load = peakLoad(planned);
+    planned = {
+      ...planned,
+      components: planned.components.map((component) => {
+        const options = optionsById.get(component.id);
+        const current = load.get(component.id);
+        if (!options || !current || current.demandRps <= 0) {
+          return component;
+        }
+
+        const capacityPerScale = current.capacityRps / capacityScaleOf(component);
+        const requiredRps = current.demandRps / utilizationLimit;
+        const option =
+          options.find((candidate) => candidate.capacityScale * capacityPerScale >= requiredRps) ??
+          options.reduce((best, candidate) => (candidate.capacityScale > best.capacityScale ? candidate : best));
+        return withSizing(component, option);
+      })
+    };
+  }
+
+  let evaluation = evaluatePlan(planned, targets);
+  for (let round = 0; round < MAX_PLANNING_ROUNDS && evaluation.shortfall > 0; round += 1) {
+    let best: { input: SimulationInputContract; evaluation: PlanEvaluation; value: number } | null = null;
+    const currentCost = nodeCost(planned);
+
+    for (const component of planned.components) {
+      const upgrade = optionsById
+        .get(component.id)
+        ?.find((candidate) => candidate.capacityScale > capacityScaleOf(component));
+      if (!upgrade) {
+        continue;
+      }
+
+      const candidateInput: SimulationInputContract = {
+        ...planned,
+        components: planned.components.map((item) => (item.id === component.id ? withSizing(item, upgrade) : item))
+      };
+      const candidate = evaluatePlan(candidateInput, targets);
+      const gained = evaluation.shortfall - candidate.shortfall;
+      if (gained <= 1e-9) {
+        continue;
+      }
+
+      const value = gained / Math.max(1e-6, nodeCost(candidateInput) - currentCost);
+      if (!best || value > best.value) {
+        best = { input: candidateInput, evaluation: candidate, value };
+      }
+    }
+
+    if (!best) {
+      break;
+    }
+    planned = best.input;
+    evaluation = best.evaluation;
+  }
+
+  const changes: CapacityPlanChange[] = [];
+  input.components.forEach((component, index) => {
+    const next = planned.components[index] as ArchitectureComponent;
+    if (
+      next.scaling.replicas === component.scaling.replicas &&
+      next.scaling.verticalTier === component.scaling.verticalTier
+    ) {
+      return;
+    }
+    changes.push({
+      componentId: component.id,
+      componentLabel: component.label,
+      componentType: component.type,
+      from: { replicas: component.scaling.replicas, verticalTier: component.scaling.verticalTier },
+      to: { replicas: next.scaling.replicas, verticalTier: next.scaling.verticalTier }
+    });
+  });
+
+  const metrics = { ...evaluation.result.metrics, ...estimateArchitectureCost(planned) };
+  const labelOf = (componentId: string) =>
+    input.components.find((component) => component.id === componentId)?.label ?? componentId;
+  const notes: string[] = [];
+  if (metrics.p95LatencyMs > targets.p95LatencyMs) {
+    notes.push(
+      `p95 latency stays at ${metrics.p95LatencyMs.toFixed(1)}ms, above the ${targets.p95LatencyMs}ms target; added capacity no longer shortens the request path.`
+    );
+  }
+  if (metrics.errorRatePercent > targets.errorRatePercent) {
+    notes.push(
+      `Error rate stays at ${metrics.errorRatePercent.toFixed(2)}%, above the ${targets.errorRatePercent}% target.`
+    );
+  }
+  for (const componentId of evaluation.overloadedIds) {
+    notes.push(
+      optionsById.has(componentId)
+        ? `${labelOf(componentId)} cannot keep ${targets.headroomPercent}% headroom within ${MAX_PLANNED_REPLICAS} replicas.`
+        : `${labelOf(componentId)} is autoscaled and cannot keep ${targets.headroomPercent}% headroom; raise its maxReplicas.`
+    );
+  }
+
+  return {
+    feasible: evaluation.shortfall <= 0,
+    changes,
+    monthlyCostUsdBefore: estimateArchitectureCost(input).monthlyCostUsd,
+    monthlyCostUsdAfter: metrics.monthlyCostUsd,
+    projectedMetrics: metrics,
+    notes
+  };
+}
+
+export type ParameterSweepResult = {
+  points: ParameterSweepPoint[];
+  breakingPoint: SweepBreakingPoint | null;
+};
+
+function isIntegerSweep(parameter: SweepParameter): boolean {
+  return parameter === 'baselineRps' || parameter === 'replicas';
+}
+
+// Values a sweep visits, in order from `from` to `to`; integer parameters drop rounding duplicates.
+export function sweepValues(spec: ParameterSweepSpec): number[] {
+  const values: number[] = [];
+  for (let index = 0; index < spec.steps; index += 1) {
+    const fraction = index / (spec.steps - 1);
+    const raw =
+      spec.scale === 'log'
+        ? spec.from * Math.pow(spec.to / spec.from, fraction)
+        : spec.from + (spec.to - spec.from) * fraction;
+    const value = isIntegerSweep(spec.parameter) ? Math.round(raw) : raw;
+    if (values[values.length - 1] !== value) {
+      values.push(value);
+    }
+  }
+  return values;
+}
+
+// Replica sweeps pin the component's replica count, so its autoscaling policy is dropped.
+export function applySweepValue(
+  input: SimulationInputContract,
+  spec: ParameterSweepSpec,
+  value: number
+): SimulationInputContract {
+  switch (spec.parameter) {
+    case 'readPercentage':
+      return {
+        ...input,
+        trafficProfile: { ...input.trafficProfile, readPercentage: value, writePercentage: 100 - value }
+      };
+    case 'replicas':
+      return {
+        ...input,
+        components: input.components.map((component) =>
+          component.id === spec.componentId
+            ? { ...component, scaling: { ...component.scaling, replicas: value, autoscaling: undefined } }
+            : component
+        )
+      };
+    case 'baselineRps':
+    case 'peakMultiplier': {
+      // Points and replay shapes set absolute demand, so they scale with the swept field.
+      const original = input.trafficProfile[spec.parameter];
+      return {
+        ...input,
+        trafficProfile: scaleShapePoints(
+          { ...input.trafficProfile, [spec.parameter]: value },
+          original > 0 ? value / original : 1
+        )
+      };
+    }
+    default:
+      return { ...input, trafficProfile: { ...input.trafficProfile, [spec.parameter]: value } };
+  }
+}
+
+/**
+ * Analytical runs across the swept values. Where the system goes from keeping up to
+ * saturating between two adjacent values, that interval is bisected to narrow down the
+ * breaking point; only the first such change is reported.
+ */
+export function runParameterSweep(
+  input: SimulationInputContract,
+  spec: ParameterSweepSpec
+): ParameterSweepResult {
+  const evaluate = (value: number): ParameterSweepPoint => {
+    const { metrics, bottlenecks } = analyzeArchitecture(
+      resolveDatabaseTopology(applySweepValue(input, spec, value))
+    );
+    return {
+      value,
+      throughputRps: metrics.throughputRps,
+      p50LatencyMs: metrics.p50LatencyMs,
+      p95LatencyMs: metrics.p95LatencyMs,
+      errorRatePercent: metrics.errorRatePercent,
+      saturated: metrics.saturated,
+      bottleneckComponentId: bottlenecks[0]?.componentId ?? null
+    };
+  };
+
+  const points = sweepValues(spec).map(evaluate);
+  const changeIndex = points.findIndex(
+    (point, index) => index > 0 && point.saturated !== (points[index - 1] as ParameterSweepPoint).saturated
+  );
+  if (changeIndex < 0) {
+    return { points, breakingPoint: null };
+  }
+
+  const [before, after] = [points[changeIndex - 1], points[changeIndex]] as [ParameterSweepPoint, ParameterSweepPoint];
+  let healthy = before.saturated ? after : before;
+  let saturated = before.saturated ? before : after;
+  for (let step = 0; step < BREAKING_POINT_BISECTIONS; step += 1) {
+    const midpoint = (healthy.value + saturated.value) / 2;
+    const value = isIntegerSweep(spec.parameter) ? Math.round(midpoint) : midpoint;
+    if (value === healthy.value || value === saturated.value) {
+      break;
+    }
+    const point = evaluate(value);
+    if (point.saturated) {
+      saturated = point;
+    } else {
+      healthy = point;
+    }
+  }
+
+  return {
+    points,
+    breakingPoint: {
+      healthyValue: healthy.value,
+      saturatedValue: saturated.value,
+      componentId: saturated.bottleneckComponentId
+    }
+  };
+}
+
+/**
+ * High-pressure bottlenecks, plus every component a partition cut off from the clients when
+ * the injected `input` is given; those get no traffic, so they never show up as bottlenecks.
+ */
+function summarizeImpact(
+  result: SimulationComputationResult,
+  input?: SimulationInputContract
+): Omit<BlastRadiusSummary, 'mode' | 'modes' | 'summary'> {
+  const unreachableIds = new Set(input ? partitionedComponentIds(input) : []);
+  const unreachable = (input?.components ?? [])
+    .filter((component) => unreachableIds.has(component.id))
+    .map((component) => ({
+      componentId: component.id,
+      componentLabel: component.label,
+      componentType: component.type,
+      severity: 'critical' as const,
+      reason: 'Unreachable from every client across the network partition.'
+    }));
+  const impactedComponents = [
+    ...unreachable,
+    ...result.bottlenecks
+      .filter(
+        (bottleneck) =>
+          (bottleneck.severity === 'critical' || bottleneck.severity === 'high') &&
+          !unreachableIds.has(bottleneck.componentId)
+      )
+      .slice(0, 6)
+      .map((bottleneck) => ({
+        componentId: bottleneck.componentId,
+        componentLabel: bottleneck.componentLabel,
+        componentType: bottleneck.componentType,
+        severity: bottleneck.severity,
+        reason: bottleneck.reason
+      }))
+  ];
+
   const criticalCount = impactedComponents.filter((component) => component.severity === 'critical').length;
   const estimatedUserImpactPercent = clamp(
     result.metrics.errorRatePercent + (result.metrics.saturated ? 8 : 0),
@@ -384,15 +2803,152 @@ export function deriveBlastRadiusSummary(
     100
   );
 
+  const queues = result.metrics.queues ?? [];
+
   return {
-    mode: profile.mode,
     impactedComponents,
     impactedCount: impactedComponents.length,
     criticalCount,
     estimatedUserImpactPercent,
+    ...(queues.length > 0
+      ? { messagesDelayed: Math.round(queues.reduce((sum, queue) => sum + queue.peakBacklog, 0)) }
+      : {})
+  };
+}
+
+function messagesDelayedSentence(impact: Pick<BlastRadiusSummary, 'messagesDelayed'>): string {
+  return impact.messagesDelayed
+    ? ` ${impact.messagesDelayed.toLocaleString('en-US')} messages delayed behind queue consumers.`
+    : '';
+}
+
+/**
+ * Checks a run's metrics against the version's SLOs. Components are blamed for a breach when
+ * they shed or fail requests (availability) or queue near saturation (latency).
+ */
+export function evaluateSlo(
+  slo: SloDefinition,
+  result: SimulationComputationResult,
+  input: SimulationInputContract
+): SloEvaluation {
+  const { metrics } = result;
+  const availabilityPercent = 100 - metrics.errorRatePercent;
+  const objective = (
+    kind: SloObjectiveResult['objective'],
+    target: number,
+    actual: number | null,
+    region: SloObjectiveResult['region'] = null
+  ): SloObjectiveResult => ({
+    objective: kind,
+    region,
+    target,
+    actual,
+    passed:
+      actual === null || (kind === 'availability' ? actual >= target : actual <= target)
+  });
+
+  const objectives: SloObjectiveResult[] = [
+    objective('availability', slo.availabilityPercent, availabilityPercent)
+  ];
+  if (slo.p95LatencyMs !== undefined) {
+    objectives.push(objective('p95-latency', slo.p95LatencyMs, metrics.p95LatencyMs));
+  }
+  if (slo.p99LatencyMs !== undefined) {
+    objectives.push(objective('p99-latency', slo.p99LatencyMs, metrics.p99LatencyMs ?? null));
+  }
+  for (const target of slo.regionTargets) {
+    const regional = metrics.regionalLatency?.find((entry) => entry.region === target.region);
+    objectives.push(
+      objective('regional-p95-latency', target.p95LatencyMs, regional?.p95LatencyMs ?? null, target.region)
+    );
+  }
+
+  const labelOf = (componentId: string) =>
+    input.components.find((component) => component.id === componentId)?.label ?? componentId;
+  const breachComponents = new Map<string, SloBreachComponent>();
+  const blame = (componentId: string, reason: string) => {
+    if (!breachComponents.has(componentId)) {
+      breachComponents.set(componentId, { componentId, componentLabel: labelOf(componentId), reason });
+    }
+  };
+
+  if (!objectives[0]?.passed) {
+    for (const bottleneck of result.bottlenecks) {
+      if (bottleneck.utilizationPercent >= 100) {
+        blame(bottleneck.componentId, bottleneck.reason);
+      }
+    }
+    for (const call of metrics.edgeCalls ?? []) {
+      if (call.failureRatePercent > 0) {
+        blame(
+          call.targetId,
+          `${call.failureRatePercent.toFixed(1)}% of calls from ${labelOf(call.sourceId)} fail.`
+        );
+      }
+    }
+  }
+  if (objectives.some((entry) => entry.objective !== 'availability' && !entry.passed)) {
+    for (const bottleneck of result.bottlenecks) {
+      blame(
+        bottleneck.componentId,
+        `Queueing at ${bottleneck.utilizationPercent.toFixed(0)}% utilization adds latency.`
+      );
+    }
+  }
+
+  return {
+    passed: objectives.every((entry) => entry.passed),
+    objectives,
+    errorBudgetBurnedPercent: (metrics.errorRatePercent / (100 - slo.availabilityPercent)) * 100,
+    breachComponents: [...breachComponents.values()]
+  };
+}
+
+// `input` is the injected input the result was simulated from.
+export function deriveBlastRadiusSummary(
+  profile: FailureInjectionProfile,
+  result: SimulationComputationResult,
+  input?: SimulationInputContract
+): BlastRadiusSummary {
+  const impact = summarizeImpact(result, input);
+
+  return {
+    mode: profile.mode,
+    ...impact,
     summary:
-      impactedComponents.length === 0
+      (impact.impactedCount === 0
         ? 'Failure injected with limited blast radius under current assumptions.'
-        : `${impactedComponents.length} components are in high/critical pressure after ${profile.mode}.`
+        : `${impact.impactedCount} components are in high/critical pressure after ${profile.mode}.`) +
+      messagesDelayedSentence(impact)
+  };
+}
+
+// Blast radius of a whole chaos experiment; `mode` is the last step to fire.
+export function deriveChaosBlastRadiusSummary(
+  steps: ChaosExperimentStep[],
+  result: SimulationComputationResult,
+  input?: SimulationInputContract,
+  skipped: ChaosExperimentStep[] = []
+): BlastRadiusSummary {
+  const ordered = [...steps].sort((left, right) => left.atSecond - right.atSecond);
+  const modes = ordered.filter((step) => !skipped.includes(step)).map((step) => step.profile.mode);
+  const skippedModes = ordered.filter((step) => skipped.includes(step)).map((step) => step.profile.mode);
+  const impact = summarizeImpact(result, input);
+
+  return {
+    mode: (modes[modes.length - 1] ?? ordered[ordered.length - 1]?.profile.mode) as BlastRadiusSummary['mode'],
+    modes,
+    ...(skippedModes.length > 0 ? { skippedModes } : {}),
+    ...impact,
+    summary:
+      (modes.length === 0
+        ? 'No chaos experiment step fired within the run.'
+        : impact.impactedCount === 0
+          ? `Chaos experiment (${modes.join(' -> ')}) stayed contained under current assumptions.`
+          : `${impact.impactedCount} components are in high/critical pressure after ${modes.join(' -> ')}.`) +
+      messagesDelayedSentence(impact) +
+      (skippedModes.length > 0
+        ? ` ${skippedModes.length} ${skippedModes.length === 1 ? 'step was' : 'steps were'} scheduled after the run ended and skipped (${skippedModes.join(', ')}).`
+        : '')
   };
 }
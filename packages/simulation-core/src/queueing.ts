@@ -0,0 +1,137 @@
+export type StationLatency = {
+  utilization: number;
+  serviceMs: number;
+  waitingMs: number;
+  meanMs: number;
+  varianceMs2: number;
+};
+
+export type LatencyMoments = {
+  probability: number;
+  meanMs: number;
+  varianceMs2: number;
+};
+
+/**
+ * Erlang C probability that an arrival has to wait in an M/M/c queue. Uses the Erlang B
+ * recursion so large replica counts do not overflow factorials.
+ */
+export function erlangC(servers: number, offeredLoad: number): number {
+  const utilization = offeredLoad / servers;
+  if (utilization >= 1) {
+    return 1;
+  }
+
+  let erlangB = 1;
+  for (let k = 1; k <= servers; k += 1) {
+    erlangB = (offeredLoad * erlangB) / (k + offeredLoad * erlangB);
+  }
+
+  return erlangB / (1 - utilization * (1 - erlangB));
+}
+
+/**
+ * Sojourn time of one M/M/c station: a fixed per-hop overhead, exponential service at
+ * `serviceRatePerServer`, and Erlang C queueing delay. Unstable stations (utilization >= 1)
+ * wait the full `maxWaitingMs` before their requests time out.
+ */
+export function mmcStationLatency(input: {
+  arrivalRps: number;
+  serviceRatePerServer: number;
+  servers: number;
+  overheadMs: number;
+  maxWaitingMs: number;
+}): StationLatency {
+  const servers = Math.max(1, Math.round(input.servers));
+  const serviceRate = Math.max(1e-6, input.serviceRatePerServer);
+  const arrivalRps = Math.max(0, input.arrivalRps);
+  const utilization = arrivalRps / (servers * serviceRate);
+  const serviceMs = 1000 / serviceRate;
+  const overheadVariance = Math.pow(input.overheadMs * 0.5, 2);
+
+  let waitingMs: number;
+  let waitingVariance: number;
+  if (utilization >= 1) {
+    waitingMs = input.maxWaitingMs;
+    waitingVariance = Math.pow(input.maxWaitingMs * 0.5, 2);
+  } else {
+    const waitProbability = erlangC(servers, arrivalRps / serviceRate);
+    const drainRate = servers * serviceRate - arrivalRps;
+    waitingMs = Math.min(input.maxWaitingMs, (waitProbability / drainRate) * 1000);
+    waitingVariance = (waitProbability * (2 - waitProbability) * 1_000_000) / (drainRate * drainRate);
+  }
+
+  return {
+    utilization,
+    serviceMs,
+    waitingMs,
+    meanMs: input.overheadMs + serviceMs + waitingMs,
+    varianceMs2: overheadVariance + serviceMs * serviceMs + waitingVariance
+  };
+}
+
+function standardNormalCdf(value: number): number {
+  // Abramowitz-Stegun 7.1.26 approximation of erf.
+  const x = Math.abs(value) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly =
+    t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return value >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+}
+
+function lognormalCdf(valueMs: number, moments: LatencyMoments): number {
+  if (moments.meanMs <= 0) {
+    return 1;
+  }
+  if (moments.varianceMs2 <= 0) {
+    return valueMs >= moments.meanMs ? 1 : 0;
+  }
+  if (valueMs <= 0) {
+    return 0;
+  }
+
+  const sigmaSquared = Math.log(1 + moments.varianceMs2 / (moments.meanMs * moments.meanMs));
+  const mu = Math.log(moments.meanMs) - sigmaSquared / 2;
+  return standardNormalCdf((Math.log(valueMs) - mu) / Math.sqrt(sigmaSquared));
+}
+
+// Share of requests with moments `moments` that take longer than `thresholdMs`.
+export function latencyExceedance(moments: Omit<LatencyMoments, 'probability'>, thresholdMs: number): number {
+  return 1 - lognormalCdf(thresholdMs, { probability: 1, ...moments });
+}
+
+/**
+ * Quantile of a probability-weighted mixture of request paths, each approximated by a
+ * lognormal fitted to the path's summed station mean and variance.
+ */
+export function latencyMixtureQuantile(paths: LatencyMoments[], quantile: number): number {
+  const totalProbability = paths.reduce((sum, path) => sum + path.probability, 0);
+  if (paths.length === 0 || totalProbability <= 0) {
+    return 0;
+  }
+
+  const cdf = (valueMs: number) =>
+    paths.reduce((sum, path) => sum + path.probability * lognormalCdf(valueMs, path), 0) /
+    totalProbability;
+
+  let low = 0;
+  let high = Math.max(
+    1,
+    ...paths.map((path) => path.meanMs + 10 * Math.sqrt(Math.max(0, path.varianceMs2)))
+  );
+  while (cdf(high) < quantile) {
+    high *= 2;
+  }
+
+  for (let iteration = 0; iteration < 60; iteration += 1) {
+    const mid = (low + high) / 2;
+    if (cdf(mid) < quantile) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return high;
+}
@@ -0,0 +1,86 @@
+import {
+  type ArchitectureComponent,
+  type QueueConfig,
+  defaultQueueConfig
+} from '@sdc/shared-types';
+
+export function queueConfigOf(component: ArchitectureComponent): QueueConfig {
+  return component.queueConfig ?? defaultQueueConfig;
+}
+
+// Messages per second the consumer pool takes off the queue when it is busy.
+export function queueDrainRps(config: QueueConfig): number {
+  return config.consumers * config.consumerRps;
+}
+
+// Messages a queue holds before its oldest ones expire; the consumers drain in order.
+function retainedDepth(config: QueueConfig): number {
+  return queueDrainRps(config) * config.retentionSeconds;
+}
+
+export type QueueStep = {
+  depth: number;
+  // Lost to expiry, or to overflow when the queue drops.
+  droppedRps: number;
+  // Refused on a full back-pressure queue; the producers still hold these.
+  refusedRps: number;
+  lagSeconds: number;
+};
+
+/**
+ * Advances a queue's backlog by one tick: producers add `producedRps`, the consumers drain up
+ * to their pool rate, anything past `maxDepth` overflows and anything older than the
+ * retention window expires.
+ */
+export function stepQueue(
+  config: QueueConfig,
+  depth: number,
+  producedRps: number,
+  tickSeconds: number
+): QueueStep {
+  const drainRps = queueDrainRps(config);
+  const backlog = depth + producedRps * tickSeconds;
+  const remaining = backlog - Math.min(backlog, drainRps * tickSeconds);
+  const overflow = Math.max(0, remaining - config.maxDepth);
+  const kept = remaining - overflow;
+  const expired = Math.max(0, kept - retainedDepth(config));
+  const nextDepth = kept - expired;
+
+  return {
+    depth: nextDepth,
+    droppedRps: (expired + (config.overflow === 'drop' ? overflow : 0)) / tickSeconds,
+    refusedRps: config.overflow === 'back-pressure' ? overflow / tickSeconds : 0,
+    lagSeconds: nextDepth / drainRps
+  };
+}
+
+/**
+ * Where a queue settles under a sustained `producedRps`. Producers that outpace the consumers
+ * fill it until it overflows or its messages start to expire, whichever comes first; only a
+ * queue that fills before expiring pushes back on its producers, which then hold the excess
+ * instead of losing it.
+ */
+export function steadyQueue(
+  config: QueueConfig,
+  producedRps: number
+): Omit<QueueStep, 'refusedRps'> & {
+  deferredRps: number;
+  backPressure: boolean;
+} {
+  const drainRps = queueDrainRps(config);
+  if (producedRps <= drainRps) {
+    return { depth: 0, droppedRps: 0, deferredRps: 0, lagSeconds: 0, backPressure: false };
+  }
+
+  const depth = Math.min(config.maxDepth, retainedDepth(config));
+  const excessRps = producedRps - drainRps;
+  const backPressure =
+    config.overflow === 'back-pressure' && config.maxDepth <= retainedDepth(config);
+  return {
+    depth,
+    droppedRps: backPressure ? 0 : excessRps,
+    deferredRps: backPressure ? excessRps : 0,
+    lagSeconds: depth / drainRps,
+    backPressure
+  };
+}
@@ -0,0 +1,42 @@
+export type RandomSource = {
+  next: () => number;
+  normal: () => number;
+};
+
+/**
+ * Deterministic mulberry32 generator. The same seed always yields the same sequence, which
+ * keeps stochastic runs reproducible from the seed stored with the run.
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const normal = () => {
+    // Box-Muller; guard against log(0).
+    const u = Math.max(next(), Number.EPSILON);
+    const v = next();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  };
+
+  return { next, normal };
+}
+
+export function percentileOf(sortedValues: number[], quantile: number): number {
+  if (sortedValues.length === 0) {
+    return 0;
+  }
+
+  const position = (sortedValues.length - 1) * quantile;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  const lowerValue = sortedValues[lower] as number;
+  const upperValue = sortedValues[upper] as number;
+  return lowerValue + (upperValue - lowerValue) * (position - lower);
+}
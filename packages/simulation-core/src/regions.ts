@@ -0,0 +1,85 @@
+import { type ArchitectureComponent, type Region, isComponentType } from '@sdc/shared-types';
+import type { ComponentGraph, RouteWeights } from './graph.js';
+
+export const REGIONS: Region[] = ['usEast', 'usWest', 'europe', 'apac'];
+
+// Last-mile round trip from a user to the nearest point of presence in their own region.
+export const LAST_MILE_RTT_MS = 20;
+
+// Typical backbone round trips between region pairs.
+const INTER_REGION_RTT_MS: Record<Region, Record<Region, number>> = {
+  usEast: { usEast: 0, usWest: 62, europe: 78, apac: 180 },
+  usWest: { usEast: 62, usWest: 0, europe: 140, apac: 110 },
+  europe: { usEast: 78, usWest: 140, europe: 0, apac: 165 },
+  apac: { usEast: 180, usWest: 110, europe: 165, apac: 0 }
+};
+
+export function interRegionRttMs(from: Region, to: Region): number {
+  return INTER_REGION_RTT_MS[from][to];
+}
+
+/**
+ * Region a component effectively serves a request from. Clients stand in for the users of
+ * the originating region, and CDNs answer from an edge location in that same region.
+ */
+export function effectiveRegion(component: ArchitectureComponent, userRegion: Region): Region {
+  if (isComponentType(component, 'client') || isComponentType(component, 'cdn')) {
+    return userRegion;
+  }
+  return component.placement.region;
+}
+
+/**
+ * Geo-aware fan-out for requests that originate in `userRegion`. Outgoing edges are grouped
+ * by target type; each group keeps the share it would get from an even split, but that
+ * share goes only to the group's lowest-RTT members. Same-region topologies therefore
+ * split exactly as before, while regional replicas attract their local users.
+ */
+export function geoRouteWeights(graph: ComponentGraph, userRegion: Region): RouteWeights {
+  return (sourceId, targetIds) => {
+    const source = graph.componentById.get(sourceId) as ArchitectureComponent;
+    const sourceRegion = effectiveRegion(source, userRegion);
+    const rttById = new Map(
+      targetIds.map((targetId) => {
+        const target = graph.componentById.get(targetId) as ArchitectureComponent;
+        return [targetId, interRegionRttMs(sourceRegion, effectiveRegion(target, userRegion))];
+      })
+    );
+
+    return targetIds.map((targetId) => {
+      const targetType = graph.componentById.get(targetId)?.type;
+      const group = targetIds.filter((id) => graph.componentById.get(id)?.type === targetType);
+      const nearestRtt = Math.min(...group.map((id) => rttById.get(id) as number));
+      const nearest = group.filter((id) => rttById.get(id) === nearestRtt);
+      if (rttById.get(targetId) !== nearestRtt) {
+        return 0;
+      }
+      return group.length / targetIds.length / nearest.length;
+    });
+  };
+}
+
+/**
+ * `geoRouteWeights` averaged over the client regions by their share of traffic, for
+ * questions asked once per topology rather than once per region.
+ */
+export function blendedRouteWeights(
+  graph: ComponentGraph,
+  regionDistribution: Record<Region, number>
+): RouteWeights {
+  const total = REGIONS.reduce((sum, region) => sum + regionDistribution[region], 0);
+  const regional = REGIONS.filter((region) => regionDistribution[region] > 0).map((region) => ({
+    share: regionDistribution[region] / total,
+    weights: geoRouteWeights(graph, region)
+  }));
+
+  return (sourceId, targetIds) => {
+    const blended = targetIds.map(() => 0);
+    for (const entry of regional) {
+      entry.weights(sourceId, targetIds).forEach((weight, index) => {
+        blended[index] = (blended[index] ?? 0) + entry.share * weight;
+      });
+    }
+    return blended;
+  };
+}
@@ -0,0 +1,90 @@
+import type {
+  RunBottleneckChange,
+  RunMetricDelta,
+  SimulationBottleneck,
+  SimulationMetrics
+} from '@sdc/shared-types';
+
+export type SimulationResultSnapshot = {
+  metrics: SimulationMetrics | null;
+  bottlenecks: SimulationBottleneck[];
+};
+
+export type SimulationResultDiff = {
+  identical: boolean;
+  metricDeltas: RunMetricDelta[];
+  bottleneckChanges: RunBottleneckChange[];
+};
+
+const DIFFED_METRICS = [
+  'peakRps',
+  'capacityRps',
+  'throughputRps',
+  'p50LatencyMs',
+  'p95LatencyMs',
+  'p99LatencyMs',
+  'errorRatePercent',
+  'monthlyCostUsd',
+  'costPerMillionRequestsUsd'
+] as const;
+
+/**
+ * How a run's headline metrics and bottlenecks moved between two computations of the same
+ * input, typically the original run and its replay under another engine version.
+ */
+export function diffSimulationResults(
+  source: SimulationResultSnapshot,
+  replay: SimulationResultSnapshot
+): SimulationResultDiff {
+  const metricDeltas = DIFFED_METRICS.map((metric) => {
+    const sourceValue = source.metrics?.[metric] ?? null;
+    const replayValue = replay.metrics?.[metric] ?? null;
+    return {
+      metric,
+      source: sourceValue,
+      replay: replayValue,
+      delta: sourceValue !== null && replayValue !== null ? replayValue - sourceValue : null
+    };
+  });
+
+  const sourceById = new Map(source.bottlenecks.map((item) => [item.componentId, item]));
+  const replayById = new Map(replay.bottlenecks.map((item) => [item.componentId, item]));
+  const componentIds = [...new Set([...sourceById.keys(), ...replayById.keys()])];
+
+  const bottleneckChanges = componentIds.flatMap((componentId): RunBottleneckChange[] => {
+    const before = sourceById.get(componentId);
+    const after = replayById.get(componentId);
+    if (
+      before &&
+      after &&
+      before.utilizationPercent === after.utilizationPercent &&
+      before.severity === after.severity
+    ) {
+      return [];
+    }
+
+    return [
+      {
+        componentId,
+        componentLabel: (after ?? before)?.componentLabel ?? componentId,
+        change: !before ? 'added' : !after ? 'removed' : 'changed',
+        sourceUtilizationPercent: before?.utilizationPercent ?? null,
+        replayUtilizationPercent: after?.utilizationPercent ?? null,
+        sourceSeverity: before?.severity ?? null,
+        replaySeverity: after?.severity ?? null
+      }
+    ];
+  });
+
+  const sameSaturation =
+    (source.metrics?.saturated ?? null) === (replay.metrics?.saturated ?? null);
+
+  return {
+    identical:
+      sameSaturation &&
+      bottleneckChanges.length === 0 &&
+      metricDeltas.every((item) => item.source === item.replay),
+    metricDeltas,
+    bottleneckChanges
+  };
+}